@@ -5,7 +5,8 @@ import { fmtNum, fmtUsd, renderTable, truncate } from "./lib/pretty.js";
 
 type ArbEvent = {
   ts: string;
-  type: "ENTRY" | "MARK" | "EXIT";
+  type: "ENTRY" | "MARK" | "EXIT" | "MERGE" | "SETTLE" | "MINT_SELL" | "CONVERT";
+  strategy?: string; // absent on ledgers written before multi-strategy support (bundle_long)
   positionId?: string;
   marketId?: string;
   costUsd?: number;
@@ -13,6 +14,7 @@ type ArbEvent = {
   edge?: number;
   realizedPnlUsd?: number;
   markPnlUsd?: number;
+  sizing?: { model: string; usd: number }; // absent on entries written before sizing models (flat)
 };
 
 export type ArbReport = {
@@ -23,6 +25,10 @@ export type ArbReport = {
     entries: number;
     marks: number;
     exits: number;
+    merges: number;
+    settles: number;
+    mintSells: number;
+    conversions: number;
     realizedPnlUsd: number;
     lockedProfitEnteredUsd: number;
     avgEdge: number | null;
@@ -38,6 +44,23 @@ export type ArbReport = {
     lockedProfitUsd: number;
     markToBidPnlUsd: number;
   };
+  byStrategy: Array<{
+    strategy: string;
+    entries: number; // ENTRY + MINT_SELL + CONVERT
+    closes: number; // EXIT + MERGE + SETTLE
+    merges: number;
+    realizedPnlUsd: number;
+    lockedProfitEnteredUsd: number;
+  }>;
+  // Held entries by sizing model; realized PnL follows each position to its close.
+  bySizing: Array<{
+    model: string;
+    entries: number;
+    budgetUsd: number;
+    costUsd: number;
+    lockedProfitEnteredUsd: number;
+    realizedPnlUsd: number;
+  }>;
   recentEntries: ArbEvent[];
   recentExits: ArbEvent[];
 };
@@ -57,6 +80,12 @@ export async function buildArbReport(args: { eventsPath?: string; statePath?: st
   const entries = events.filter((e) => e.type === "ENTRY");
   const marks = events.filter((e) => e.type === "MARK");
   const exits = events.filter((e) => e.type === "EXIT");
+  const merges = events.filter((e) => e.type === "MERGE");
+  const settles = events.filter((e) => e.type === "SETTLE");
+  const mintSells = events.filter((e) => e.type === "MINT_SELL");
+  const conversions = events.filter((e) => e.type === "CONVERT");
+  const instant = [...mintSells, ...conversions];
+  const realizing = [...exits, ...merges, ...settles, ...instant];
   const state = await readState(statePath);
 
   const edges = entries.map((e) => e.edge).filter(isFiniteNumber);
@@ -71,7 +100,11 @@ export async function buildArbReport(args: { eventsPath?: string; statePath?: st
       entries: entries.length,
       marks: marks.length,
       exits: exits.length,
-      realizedPnlUsd: sum(exits.map((e) => e.realizedPnlUsd).filter(isFiniteNumber)),
+      merges: merges.length,
+      settles: settles.length,
+      mintSells: mintSells.length,
+      conversions: conversions.length,
+      realizedPnlUsd: sum(realizing.map((e) => e.realizedPnlUsd).filter(isFiniteNumber)),
       lockedProfitEnteredUsd: sum(entries.map((e) => e.lockedProfitUsd).filter(isFiniteNumber)),
       avgEdge: edges.length ? sum(edges) / edges.length : null,
       avgCostUsd: costs.length ? sum(costs) / costs.length : null,
@@ -79,8 +112,10 @@ export async function buildArbReport(args: { eventsPath?: string; statePath?: st
       worstMarkPnlUsd: markPnls.length ? Math.min(...markPnls) : null
     },
     state: summarizeState(state),
-    recentEntries: entries.slice(-10).reverse(),
-    recentExits: exits.slice(-10).reverse()
+    byStrategy: summarizeByStrategy(events),
+    bySizing: summarizeBySizing(events),
+    recentEntries: [...entries, ...instant].sort((a, b) => a.ts.localeCompare(b.ts)).slice(-10).reverse(),
+    recentExits: [...exits, ...merges, ...settles].sort((a, b) => a.ts.localeCompare(b.ts)).slice(-10).reverse()
   };
 }
 
@@ -124,6 +159,49 @@ function summarizeState(state: any): ArbReport["state"] {
   };
 }
 
+function summarizeByStrategy(events: ArbEvent[]): ArbReport["byStrategy"] {
+  const out = new Map<string, ArbReport["byStrategy"][number]>();
+  for (const e of events) {
+    const strategy = e.strategy ?? "bundle_long";
+    let row = out.get(strategy);
+    if (!row) {
+      row = { strategy, entries: 0, closes: 0, merges: 0, realizedPnlUsd: 0, lockedProfitEnteredUsd: 0 };
+      out.set(strategy, row);
+    }
+    if (e.type === "ENTRY" || e.type === "MINT_SELL" || e.type === "CONVERT") row.entries += 1;
+    if (e.type === "EXIT" || e.type === "MERGE" || e.type === "SETTLE") row.closes += 1;
+    if (e.type === "MERGE") row.merges += 1;
+    if (e.type === "ENTRY" && isFiniteNumber(e.lockedProfitUsd)) row.lockedProfitEnteredUsd += e.lockedProfitUsd;
+    if (e.type !== "ENTRY" && e.type !== "MARK" && isFiniteNumber(e.realizedPnlUsd)) row.realizedPnlUsd += e.realizedPnlUsd;
+  }
+  return [...out.values()].sort((a, b) => b.realizedPnlUsd - a.realizedPnlUsd);
+}
+
+function summarizeBySizing(events: ArbEvent[]): ArbReport["bySizing"] {
+  const out = new Map<string, ArbReport["bySizing"][number]>();
+  const modelByPosition = new Map<string, string>();
+  for (const e of events) {
+    if (e.type === "ENTRY") {
+      const model = e.sizing?.model ?? "flat";
+      if (e.positionId) modelByPosition.set(e.positionId, model);
+      let row = out.get(model);
+      if (!row) {
+        row = { model, entries: 0, budgetUsd: 0, costUsd: 0, lockedProfitEnteredUsd: 0, realizedPnlUsd: 0 };
+        out.set(model, row);
+      }
+      row.entries += 1;
+      if (isFiniteNumber(e.sizing?.usd)) row.budgetUsd += e.sizing.usd;
+      if (isFiniteNumber(e.costUsd)) row.costUsd += e.costUsd;
+      if (isFiniteNumber(e.lockedProfitUsd)) row.lockedProfitEnteredUsd += e.lockedProfitUsd;
+      continue;
+    }
+    if (e.type !== "EXIT" && e.type !== "MERGE" && e.type !== "SETTLE") continue;
+    const row = out.get(modelByPosition.get(e.positionId ?? "") ?? "");
+    if (row && isFiniteNumber(e.realizedPnlUsd)) row.realizedPnlUsd += e.realizedPnlUsd;
+  }
+  return [...out.values()].sort((a, b) => b.entries - a.entries);
+}
+
 function isFiniteNumber(x: unknown): x is number {
   return typeof x === "number" && Number.isFinite(x);
 }
@@ -142,7 +220,7 @@ async function main(): Promise<void> {
   console.log(`state: ${report.statePath}`);
   console.log("");
   console.log(
-    `entries=${report.totals.entries} exits=${report.totals.exits} marks=${report.totals.marks} realized=${fmtUsd(
+    `entries=${report.totals.entries} exits=${report.totals.exits} merges=${report.totals.merges} settles=${report.totals.settles} mintSells=${report.totals.mintSells} conversions=${report.totals.conversions} marks=${report.totals.marks} realized=${fmtUsd(
       report.totals.realizedPnlUsd
     )} lockedEntered=${fmtUsd(report.totals.lockedProfitEnteredUsd)} avgEdge=${fmtNum(
       report.totals.avgEdge === null ? null : report.totals.avgEdge * 100,
@@ -155,16 +233,51 @@ async function main(): Promise<void> {
     )} lockedOpen=${fmtUsd(report.state.lockedProfitUsd)} markPnL=${fmtUsd(report.state.markToBidPnlUsd)}`
   );
 
+  if (report.byStrategy.length) {
+    console.log("");
+    console.log("By strategy:");
+    const rows = [["strategy", "entries", "closes", "merges", "realized", "lockedEntered"]];
+    for (const s of report.byStrategy) {
+      rows.push([
+        s.strategy,
+        String(s.entries),
+        String(s.closes),
+        String(s.merges),
+        fmtUsd(s.realizedPnlUsd),
+        fmtUsd(s.lockedProfitEnteredUsd)
+      ]);
+    }
+    console.log(renderTable(rows));
+  }
+
+  if (report.bySizing.length) {
+    console.log("");
+    console.log("By sizing model:");
+    const rows = [["model", "entries", "budget", "cost", "lockedEntered", "realized"]];
+    for (const s of report.bySizing) {
+      rows.push([
+        s.model,
+        String(s.entries),
+        fmtUsd(s.budgetUsd),
+        fmtUsd(s.costUsd),
+        fmtUsd(s.lockedProfitEnteredUsd),
+        fmtUsd(s.realizedPnlUsd)
+      ]);
+    }
+    console.log(renderTable(rows));
+  }
+
   if (report.recentEntries.length) {
     console.log("");
     console.log("Recent entries:");
-    const rows = [["ts", "market", "cost", "locked", "edge"]];
+    const rows = [["ts", "strategy", "market", "cost", "locked", "edge"]];
     for (const e of report.recentEntries) {
       rows.push([
         truncate(e.ts, 19),
+        e.strategy ?? "bundle_long",
         truncate(String(e.marketId ?? ""), 12),
         fmtUsd(e.costUsd ?? null),
-        fmtUsd(e.lockedProfitUsd ?? null),
+        fmtUsd(e.lockedProfitUsd ?? e.realizedPnlUsd ?? null),
         `${fmtNum(isFiniteNumber(e.edge) ? e.edge * 100 : null, 2)}%`
       ]);
     }
@@ -17,7 +17,12 @@ export type ClobOrderBook = {
   hash?: string;
 };
 
-export class PolymarketClobClient {
+// Anything that can produce books for token ids: the REST client, or the websocket cache (`clobWs.ts`).
+export type ClobBookSource = {
+  fetchOrderBooks(tokenIds: string[]): Promise<ClobOrderBook[]>;
+};
+
+export class PolymarketClobClient implements ClobBookSource {
   private readonly baseUrl: string;
 
   constructor(baseUrl = "https://clob.polymarket.com") {
@@ -32,7 +37,9 @@ export class PolymarketClobClient {
     const raw = await getJson<unknown>(`${this.baseUrl}/books`, {
       method: "POST",
       body: JSON.stringify(payload),
-      headers: { "content-type": "application/json" }
+      headers: { "content-type": "application/json" },
+      // Read-only despite the verb, so safe to retry.
+      idempotent: true
     });
 
     return parseBooksResponse(raw);
@@ -0,0 +1,504 @@
+import crypto from "node:crypto";
+import WebSocket from "ws";
+import type { ClobBookSource, ClobOrderBook, ClobPriceLevel } from "./clob.js";
+
+// Wire levels keep the server's price/size strings so book hashes can be recomputed exactly.
+export type ClobWireLevel = { price: string; size: string };
+
+export type ClobWireBook = {
+  market: string;
+  asset_id: string;
+  timestamp: string;
+  bids: ClobWireLevel[];
+  asks: ClobWireLevel[];
+};
+
+export type ClobBookHasher = (book: ClobWireBook) => string;
+
+/**
+ * Polymarket's order book summary hash: sha1 of the compact JSON summary with an empty `hash` field,
+ * bids ascending and asks descending (the order the server sends them in).
+ */
+export function polymarketBookHash(book: ClobWireBook): string {
+  const summary = {
+    market: book.market,
+    asset_id: book.asset_id,
+    timestamp: book.timestamp,
+    bids: book.bids.map((l) => ({ price: l.price, size: l.size })),
+    asks: book.asks.map((l) => ({ price: l.price, size: l.size })),
+    hash: ""
+  };
+  return crypto.createHash("sha1").update(JSON.stringify(summary)).digest("hex");
+}
+
+export type ClobBookCacheStats = {
+  books: number;
+  staleBooks: number;
+  snapshots: number;
+  deltas: number;
+  hashChecks: number;
+  hashMismatches: number;
+};
+
+type CacheEntry = {
+  tokenId: string;
+  market: string;
+  timestamp: string;
+  bids: Map<number, ClobWireLevel>;
+  asks: Map<number, ClobWireLevel>;
+  tickSize?: number;
+  // Market params the market channel rarely sends; kept from the REST seed or the previous snapshot.
+  minOrderSize?: number;
+  negRisk?: boolean;
+  hash?: string;
+  // Our hasher reproduced the server's snapshot hash for this token, so delta hashes are checkable.
+  hashVerified: boolean;
+  stale: boolean;
+};
+
+/**
+ * In-memory CLOB books keyed by token id, maintained from market-channel messages:
+ * `book` replaces a book, `price_change` sets (size 0 removes) single levels, `tick_size_change`
+ * updates the tick. When a delta carries a hash that does not match the recomputed book, the book is
+ * marked stale and hidden from readers until a fresh snapshot arrives; `applyMessage` returns those
+ * token ids so the stream can request a resync.
+ */
+export class ClobBookCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly hasher: ClobBookHasher | null;
+  private readonly counters = { snapshots: 0, deltas: 0, hashChecks: 0, hashMismatches: 0 };
+
+  constructor(opts: { hasher?: ClobBookHasher | null } = {}) {
+    this.hasher = opts.hasher === undefined ? polymarketBookHash : opts.hasher;
+  }
+
+  applyMessage(msg: unknown): string[] {
+    const events = Array.isArray(msg) ? msg : [msg];
+    const stale = new Set<string>();
+    for (const ev of events) {
+      if (!ev || typeof ev !== "object") continue;
+      const obj = ev as Record<string, unknown>;
+      const type = stringify(obj.event_type ?? obj.type);
+      if (type === "book") this.applyBook(obj);
+      else if (type === "price_change") for (const id of this.applyPriceChange(obj)) stale.add(id);
+      else if (type === "tick_size_change") this.applyTickSize(obj);
+    }
+    return [...stale];
+  }
+
+  // Fresh book in the REST client's shape, or null when unknown or stale.
+  get(tokenId: string): ClobOrderBook | null {
+    const e = this.entries.get(tokenId);
+    if (!e || e.stale) return null;
+    return {
+      tokenId: e.tokenId,
+      ...(e.market ? { market: e.market } : {}),
+      ...(e.timestamp ? { timestamp: e.timestamp } : {}),
+      bids: toLevels(e.bids).sort((a, b) => b.price - a.price),
+      asks: toLevels(e.asks).sort((a, b) => a.price - b.price),
+      ...(e.minOrderSize !== undefined ? { minOrderSize: e.minOrderSize } : {}),
+      ...(e.tickSize !== undefined ? { tickSize: e.tickSize } : {}),
+      ...(e.negRisk !== undefined ? { negRisk: e.negRisk } : {}),
+      ...(e.hash ? { hash: e.hash } : {})
+    };
+  }
+
+  // Fills a missing or stale book from REST; the next websocket snapshot replaces it.
+  seed(book: ClobOrderBook): void {
+    const cur = this.entries.get(book.tokenId);
+    if (cur && !cur.stale) return;
+    const entry = this.emptyEntry(book.tokenId, book.market ?? "", book.timestamp ?? "");
+    for (const l of book.bids) entry.bids.set(l.price, { price: String(l.price), size: String(l.size) });
+    for (const l of book.asks) entry.asks.set(l.price, { price: String(l.price), size: String(l.size) });
+    if (book.tickSize !== undefined) entry.tickSize = book.tickSize;
+    if (book.minOrderSize !== undefined) entry.minOrderSize = book.minOrderSize;
+    if (book.negRisk !== undefined) entry.negRisk = book.negRisk;
+    this.entries.set(book.tokenId, entry);
+  }
+
+  markStale(tokenIds?: Iterable<string>): void {
+    const ids = tokenIds ? [...tokenIds] : [...this.entries.keys()];
+    for (const id of ids) {
+      const e = this.entries.get(id);
+      if (e) e.stale = true;
+    }
+  }
+
+  delete(tokenId: string): void {
+    this.entries.delete(tokenId);
+  }
+
+  stats(): ClobBookCacheStats {
+    let staleBooks = 0;
+    for (const e of this.entries.values()) if (e.stale) staleBooks += 1;
+    return { books: this.entries.size, staleBooks, ...this.counters };
+  }
+
+  private applyBook(obj: Record<string, unknown>): void {
+    const tokenId = stringify(obj.asset_id);
+    if (!tokenId) return;
+    const entry = this.emptyEntry(tokenId, stringify(obj.market) ?? "", stringify(obj.timestamp) ?? "");
+    for (const l of parseWireLevels(obj.bids ?? obj.buys)) entry.bids.set(Number(l.price), l);
+    for (const l of parseWireLevels(obj.asks ?? obj.sells)) entry.asks.set(Number(l.price), l);
+    const prev = this.entries.get(tokenId);
+    if (prev?.tickSize !== undefined) entry.tickSize = prev.tickSize;
+    const minOrderSize = coerceNumber(obj.min_order_size) ?? prev?.minOrderSize;
+    if (minOrderSize !== undefined) entry.minOrderSize = minOrderSize;
+    const negRisk = typeof obj.neg_risk === "boolean" ? obj.neg_risk : prev?.negRisk;
+    if (negRisk !== undefined) entry.negRisk = negRisk;
+    const hash = stringify(obj.hash);
+    if (hash) {
+      entry.hash = hash;
+      entry.hashVerified = this.hasher !== null && this.hasher(wireBook(entry)) === hash;
+    }
+    this.entries.set(tokenId, entry);
+    this.counters.snapshots += 1;
+  }
+
+  private applyPriceChange(obj: Record<string, unknown>): string[] {
+    const timestamp = stringify(obj.timestamp);
+    const stale: string[] = [];
+    const check = (e: CacheEntry, hash: string | undefined) => {
+      if (!hash) return;
+      e.hash = hash;
+      if (!e.hashVerified || !this.hasher) return;
+      this.counters.hashChecks += 1;
+      if (this.hasher(wireBook(e)) === hash) return;
+      this.counters.hashMismatches += 1;
+      e.stale = true;
+      stale.push(e.tokenId);
+    };
+
+    // Batched format: one entry per level change, each carrying the hash of the book after it.
+    if (Array.isArray(obj.price_changes)) {
+      for (const c of obj.price_changes) {
+        if (!c || typeof c !== "object") continue;
+        const ch = c as Record<string, unknown>;
+        const e = this.entries.get(stringify(ch.asset_id) ?? "");
+        if (!e || e.stale) continue;
+        if (timestamp) e.timestamp = timestamp;
+        if (!setLevel(e, ch)) continue;
+        this.counters.deltas += 1;
+        check(e, stringify(ch.hash));
+      }
+      return stale;
+    }
+
+    // Per-asset format: a list of changes and one hash for the resulting book.
+    const e = this.entries.get(stringify(obj.asset_id) ?? "");
+    if (!e || e.stale || !Array.isArray(obj.changes)) return stale;
+    if (timestamp) e.timestamp = timestamp;
+    let applied = 0;
+    for (const c of obj.changes) {
+      if (c && typeof c === "object" && setLevel(e, c as Record<string, unknown>)) applied += 1;
+    }
+    if (applied === 0) return stale;
+    this.counters.deltas += applied;
+    check(e, stringify(obj.hash));
+    return stale;
+  }
+
+  private applyTickSize(obj: Record<string, unknown>): void {
+    const e = this.entries.get(stringify(obj.asset_id) ?? "");
+    const tick = coerceNumber(obj.new_tick_size ?? obj.tick_size);
+    if (e && tick !== null) e.tickSize = tick;
+  }
+
+  private emptyEntry(tokenId: string, market: string, timestamp: string): CacheEntry {
+    return { tokenId, market, timestamp, bids: new Map(), asks: new Map(), hashVerified: false, stale: false };
+  }
+}
+
+function setLevel(e: CacheEntry, ch: Record<string, unknown>): boolean {
+  const price = stringify(ch.price);
+  const size = stringify(ch.size);
+  const side = stringify(ch.side)?.toUpperCase();
+  if (!price || size === undefined || (side !== "BUY" && side !== "SELL")) return false;
+  const p = Number(price);
+  const s = Number(size);
+  if (!Number.isFinite(p) || !Number.isFinite(s)) return false;
+  const levels = side === "BUY" ? e.bids : e.asks;
+  if (s <= 0) levels.delete(p);
+  else levels.set(p, { price, size });
+  return true;
+}
+
+function wireBook(e: CacheEntry): ClobWireBook {
+  const sorted = (m: Map<number, ClobWireLevel>, dir: 1 | -1) =>
+    [...m.entries()].sort((a, b) => dir * (a[0] - b[0])).map(([, l]) => l);
+  return { market: e.market, asset_id: e.tokenId, timestamp: e.timestamp, bids: sorted(e.bids, 1), asks: sorted(e.asks, -1) };
+}
+
+function toLevels(m: Map<number, ClobWireLevel>): ClobPriceLevel[] {
+  return [...m.entries()].map(([price, l]) => ({ price, size: Number(l.size) }));
+}
+
+function parseWireLevels(v: unknown): ClobWireLevel[] {
+  if (!Array.isArray(v)) return [];
+  const out: ClobWireLevel[] = [];
+  for (const x of v) {
+    if (!x || typeof x !== "object") continue;
+    const obj = x as Record<string, unknown>;
+    const price = stringify(obj.price);
+    const size = stringify(obj.size);
+    if (!price || !size || !Number.isFinite(Number(price)) || !Number.isFinite(Number(size))) continue;
+    out.push({ price, size });
+  }
+  return out;
+}
+
+export type ClobMarketStreamStats = ClobBookCacheStats & {
+  connected: boolean;
+  subscribed: number;
+  connects: number;
+  reconnects: number;
+  messages: number;
+  resyncs: number;
+  lastMessageAt: string | null;
+  lastError: string | null;
+};
+
+export type ClobMarketStreamOptions = {
+  url?: string;
+  cache?: ClobBookCache;
+  // Serves tokens without a fresh cached book (first call, reconnects, hash resyncs).
+  fallback?: ClobBookSource | null;
+  pingIntervalMs?: number;
+  reconnectMinMs?: number;
+  reconnectMaxMs?: number;
+  // Per-token floor between resync requests after hash mismatches.
+  resyncMinMs?: number;
+  onLog?: (msg: string) => void;
+};
+
+/**
+ * Streaming client for the CLOB market channel. Subscribed token ids get their books pushed into a
+ * `ClobBookCache`; `fetchOrderBooks` reads from that cache (subscribing any new ids on the way), so the
+ * stream drops into `fetchOrderBooksForMarkets` in place of the REST client.
+ *
+ * The connection is kept alive with text PINGs and re-established with exponential backoff plus
+ * jitter; after a drop every book is marked stale and all ids are resubscribed, which makes the
+ * server send fresh snapshots.
+ */
+export class ClobMarketStream implements ClobBookSource {
+  readonly cache: ClobBookCache;
+  private readonly url: string;
+  private readonly fallback: ClobBookSource | null;
+  private readonly pingIntervalMs: number;
+  private readonly reconnectMinMs: number;
+  private readonly reconnectMaxMs: number;
+  private readonly resyncMinMs: number;
+  private readonly onLog: (msg: string) => void;
+
+  private readonly subscribed = new Set<string>();
+  private readonly lastResync = new Map<string, number>();
+  private ws: WebSocket | null = null;
+  private running = false;
+  // The first subscription on a connection is the channel handshake; later ones are operations.
+  private greeted = false;
+  private attempt = 0;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private readonly counters = { connects: 0, reconnects: 0, messages: 0, resyncs: 0 };
+  private lastMessageAt: string | null = null;
+  private lastError: string | null = null;
+
+  constructor(opts: ClobMarketStreamOptions = {}) {
+    this.url = opts.url ?? "wss://ws-subscriptions-clob.polymarket.com/ws/market";
+    this.cache = opts.cache ?? new ClobBookCache();
+    this.fallback = opts.fallback ?? null;
+    this.pingIntervalMs = opts.pingIntervalMs ?? 10_000;
+    this.reconnectMinMs = opts.reconnectMinMs ?? 1_000;
+    this.reconnectMaxMs = opts.reconnectMaxMs ?? 60_000;
+    this.resyncMinMs = opts.resyncMinMs ?? 5_000;
+    this.onLog = opts.onLog ?? (() => {});
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.connect();
+  }
+
+  // Closes the socket and cancels reconnects; resolves once the socket is closed.
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.stopPing();
+    const ws = this.ws;
+    this.ws = null;
+    if (!ws || ws.readyState === WebSocket.CLOSED) return;
+    await new Promise<void>((resolve) => {
+      ws.once("close", () => resolve());
+      if (ws.readyState === WebSocket.CONNECTING) ws.terminate();
+      else ws.close();
+    });
+  }
+
+  subscribe(tokenIds: Iterable<string>): void {
+    const added = [...new Set(tokenIds)].filter((id) => id.trim() && !this.subscribed.has(id));
+    if (added.length === 0) return;
+    for (const id of added) this.subscribed.add(id);
+    this.sendSubscribe(added);
+  }
+
+  unsubscribe(tokenIds: Iterable<string>): void {
+    const removed = [...new Set(tokenIds)].filter((id) => this.subscribed.delete(id));
+    if (removed.length === 0) return;
+    for (const id of removed) {
+      this.cache.delete(id);
+      this.lastResync.delete(id);
+    }
+    this.send({ assets_ids: removed, operation: "unsubscribe" });
+  }
+
+  // Makes the subscription set exactly `tokenIds` (e.g. the daemon watchlist).
+  setSubscriptions(tokenIds: Iterable<string>): void {
+    const want = new Set(tokenIds);
+    this.unsubscribe([...this.subscribed].filter((id) => !want.has(id)));
+    this.subscribe(want);
+  }
+
+  async fetchOrderBooks(tokenIds: string[]): Promise<ClobOrderBook[]> {
+    const unique = [...new Set(tokenIds.filter((x) => x.trim().length > 0))];
+    this.subscribe(unique);
+    const books: ClobOrderBook[] = [];
+    const missing: string[] = [];
+    for (const id of unique) {
+      const b = this.cache.get(id);
+      if (b) books.push(b);
+      else missing.push(id);
+    }
+    if (missing.length > 0 && this.fallback) {
+      for (const b of await this.fallback.fetchOrderBooks(missing)) {
+        this.cache.seed(b);
+        books.push(b);
+      }
+    }
+    return books;
+  }
+
+  // Resolves true once every id has a fresh cached book, false on timeout.
+  async waitForBooks(tokenIds: string[], timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (tokenIds.some((id) => !this.cache.get(id))) {
+      if (Date.now() >= deadline) return false;
+      await new Promise((r) => setTimeout(r, 20));
+    }
+    return true;
+  }
+
+  stats(): ClobMarketStreamStats {
+    return {
+      ...this.cache.stats(),
+      connected: this.ws?.readyState === WebSocket.OPEN,
+      subscribed: this.subscribed.size,
+      ...this.counters,
+      lastMessageAt: this.lastMessageAt,
+      lastError: this.lastError
+    };
+  }
+
+  private connect(): void {
+    const ws = new WebSocket(this.url);
+    this.ws = ws;
+
+    ws.on("open", () => {
+      this.counters.connects += 1;
+      if (this.counters.connects > 1) this.counters.reconnects += 1;
+      this.attempt = 0;
+      this.greeted = false;
+      if (this.subscribed.size > 0) this.sendSubscribe([...this.subscribed]);
+      this.startPing();
+      this.onLog(`clob-ws: connected (${this.subscribed.size} tokens)`);
+    });
+
+    ws.on("message", (data) => {
+      const text = data.toString();
+      if (text === "PONG") return;
+      let msg: unknown;
+      try {
+        msg = JSON.parse(text);
+      } catch {
+        return;
+      }
+      this.counters.messages += 1;
+      this.lastMessageAt = new Date().toISOString();
+      const stale = this.cache.applyMessage(msg);
+      if (stale.length > 0) this.resync(stale);
+    });
+
+    ws.on("error", (err) => {
+      this.lastError = err.message;
+    });
+
+    ws.on("close", () => {
+      if (this.ws === ws) this.ws = null;
+      this.stopPing();
+      this.cache.markStale();
+      if (!this.running) return;
+      const delay = this.backoffMs();
+      this.onLog(`clob-ws: disconnected, reconnecting in ${Math.round(delay)}ms`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.running) this.connect();
+      }, delay);
+    });
+  }
+
+  // Unsubscribe + subscribe makes the server send a fresh snapshot for those ids.
+  private resync(tokenIds: string[]): void {
+    const now = Date.now();
+    const due = tokenIds.filter((id) => this.subscribed.has(id) && now - (this.lastResync.get(id) ?? 0) >= this.resyncMinMs);
+    if (due.length === 0) return;
+    for (const id of due) this.lastResync.set(id, now);
+    this.counters.resyncs += due.length;
+    this.onLog(`clob-ws: hash mismatch, resyncing ${due.length} book(s)`);
+    this.send({ assets_ids: due, operation: "unsubscribe" });
+    this.sendSubscribe(due);
+  }
+
+  private sendSubscribe(tokenIds: string[]): void {
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    this.send(this.greeted ? { assets_ids: tokenIds, operation: "subscribe" } : { assets_ids: tokenIds, type: "market" });
+    this.greeted = true;
+  }
+
+  private backoffMs(): number {
+    const base = Math.min(this.reconnectMaxMs, this.reconnectMinMs * 2 ** this.attempt);
+    this.attempt += 1;
+    return base * (0.5 + Math.random() / 2);
+  }
+
+  private send(payload: unknown): void {
+    if (this.ws?.readyState === WebSocket.OPEN) this.ws.send(JSON.stringify(payload));
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    this.pingTimer = setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) this.ws.send("PING");
+    }, this.pingIntervalMs);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+  }
+}
+
+function stringify(v: unknown): string | undefined {
+  if (typeof v === "string" && v.trim()) return v.trim();
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  return undefined;
+}
+
+function coerceNumber(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string") {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
@@ -6,7 +6,8 @@ import { getJson } from "../lib/http.js";
  *
  * Important constraints (explicit):
  * - Read-only only (no auth, no trading, no websockets)
- * - Uses ONE endpoint family: Gamma `/markets` for discovery/metadata
+ * - Gamma `/markets` is the discovery source; `/events` is optional and only adds event metadata
+ *   (grouping, tags, category, end date) on top of it
  * - Schema-flexible: we keep the raw JSON verbatim and only *optionally* parse fields via Zod
  */
 export class PolymarketGammaClient {
@@ -16,7 +17,15 @@ export class PolymarketGammaClient {
     this.baseUrl = baseUrl.replace(/\/+$/, "");
   }
 
-  async fetchMarketsRaw(params?: { limit?: number; offset?: number; active?: boolean; closed?: boolean }): Promise<unknown> {
+  async fetchMarketsRaw(params?: {
+    limit?: number;
+    offset?: number;
+    active?: boolean;
+    closed?: boolean;
+    // Sort field and direction (e.g. `updatedAt` descending for incremental discovery).
+    order?: string;
+    ascending?: boolean;
+  }): Promise<unknown> {
     const url =
       `${this.baseUrl}/markets` +
       toQuery({
@@ -24,6 +33,29 @@ export class PolymarketGammaClient {
         active: params?.active ?? true,
         closed: params?.closed ?? false,
         limit: params?.limit ?? 200,
+        offset: params?.offset ?? 0,
+        order: params?.order,
+        ascending: params?.ascending
+      });
+    return await getJson<unknown>(url);
+  }
+
+  /**
+   * Look up specific markets by id (repeated `id` params). With `closed: true` only markets that have
+   * closed come back, which is how the resolution watcher polls open paper positions.
+   */
+  async fetchMarketsByIdsRaw(ids: string[], params?: { closed?: boolean }): Promise<unknown> {
+    const url = `${this.baseUrl}/markets` + toQuery({ id: ids, closed: params?.closed, limit: ids.length });
+    return await getJson<unknown>(url);
+  }
+
+  async fetchEventsRaw(params?: { limit?: number; offset?: number; active?: boolean; closed?: boolean }): Promise<unknown> {
+    const url =
+      `${this.baseUrl}/events` +
+      toQuery({
+        active: params?.active ?? true,
+        closed: params?.closed ?? false,
+        limit: params?.limit ?? 100,
         offset: params?.offset ?? 0
       });
     return await getJson<unknown>(url);
@@ -57,6 +89,8 @@ export const GammaMarketLooseZ = z
     outcomes: z.union([z.array(z.string()), z.string()]).optional(),
     outcomePrices: z.union([z.array(z.union([z.string(), z.number()])), z.string()]).optional(),
     outcome_prices: z.union([z.array(z.union([z.string(), z.number()])), z.string()]).optional(),
+    // Outcome label within its event ("Trump" for "Will Trump win the 2028 election?").
+    groupItemTitle: z.string().optional(),
     clobTokenIds: z.union([z.array(z.union([z.string(), z.number()])), z.string()]).optional(),
     clob_token_ids: z.union([z.array(z.union([z.string(), z.number()])), z.string()]).optional(),
     orderPriceMinTickSize: z.union([z.string(), z.number()]).optional(),
@@ -80,10 +114,86 @@ export const GammaMarketLooseZ = z
     liquidity: z.union([z.string(), z.number()]).optional(),
     volume: z.union([z.string(), z.number()]).optional(),
     liquidityClob: z.union([z.string(), z.number()]).optional(),
-    volumeClob: z.union([z.string(), z.number()]).optional()
+    volumeClob: z.union([z.string(), z.number()]).optional(),
+
+    // Resolution timing, classification and trading status. Gamma sends null for unset values.
+    endDate: z.string().nullable().optional(),
+    endDateIso: z.string().nullable().optional(),
+    category: z.string().nullable().optional(),
+    tags: z
+      .array(
+        z.union([
+          z.string(),
+          z.object({ label: z.string().nullable().optional(), slug: z.string().nullable().optional() }).passthrough()
+        ])
+      )
+      .nullable()
+      .optional(),
+    resolutionSource: z.string().nullable().optional(),
+    active: z.boolean().nullable().optional(),
+    closed: z.boolean().nullable().optional(),
+    archived: z.boolean().nullable().optional(),
+    acceptingOrders: z.boolean().nullable().optional(),
+    // Oracle status once closed ("proposed", "disputed", "resolved"); resolved outcomePrices are 0/1 or 0.5/0.5.
+    umaResolutionStatus: z.string().nullable().optional(),
+    closedTime: z.string().nullable().optional(),
+
+    // Top-of-book snapshot as Gamma last saw it (not a substitute for a CLOB read).
+    spread: z.union([z.string(), z.number()]).nullable().optional(),
+    bestBid: z.union([z.string(), z.number()]).nullable().optional(),
+    bestAsk: z.union([z.string(), z.number()]).nullable().optional()
+  })
+  .passthrough();
+
+export type GammaEventLoose = z.infer<typeof GammaEventLooseZ>;
+
+/**
+ * Loose schema for a Gamma `/events` record: the event metadata we join onto markets plus the ids of
+ * its member markets (the embedded market objects are not re-parsed).
+ */
+export const GammaEventLooseZ = z
+  .object({
+    id: z.union([z.string(), z.number()]),
+    title: z.string().optional(),
+    slug: z.string().optional(),
+    category: z.string().nullable().optional(),
+    tags: z
+      .array(
+        z
+          .object({
+            label: z.string().optional(),
+            slug: z.string().optional()
+          })
+          .passthrough()
+      )
+      .optional(),
+    negRisk: z.boolean().optional(),
+    enableNegRisk: z.boolean().optional(),
+    endDate: z.string().optional(),
+    markets: z.array(z.object({ id: z.union([z.string(), z.number()]).optional() }).passthrough()).optional()
   })
   .passthrough();
 
+// `/events` pages: `Event[]`, or wrapped like `/markets` responses.
+export function extractEventsArray(raw: unknown): unknown[] {
+  if (Array.isArray(raw)) return raw;
+  if (raw && typeof raw === "object") {
+    const obj = raw as Record<string, unknown>;
+    const candidate = (Array.isArray(obj.events) && obj.events) || (Array.isArray(obj.data) && obj.data);
+    if (candidate) return candidate as unknown[];
+  }
+  return [];
+}
+
+export function parseEventsLoosely(events: unknown[]): GammaEventLoose[] {
+  const parsed: GammaEventLoose[] = [];
+  for (const e of events) {
+    const r = GammaEventLooseZ.safeParse(e);
+    if (r.success) parsed.push(r.data);
+  }
+  return parsed;
+}
+
 /**
  * Extract a market array from the raw `/markets` response.
  * We do NOT mutate the raw JSON; this is only for downstream processing.
@@ -114,11 +224,12 @@ export function parseMarketsLoosely(markets: unknown[]): GammaMarketLoose[] {
   return parsed;
 }
 
-function toQuery(params: Record<string, string | number | boolean | undefined>): string {
+function toQuery(params: Record<string, string | number | boolean | string[] | undefined>): string {
   const usp = new URLSearchParams();
   for (const [k, v] of Object.entries(params)) {
     if (v === undefined) continue;
-    usp.set(k, String(v));
+    if (Array.isArray(v)) for (const x of v) usp.append(k, x);
+    else usp.set(k, String(v));
   }
   const q = usp.toString();
   return q.length ? `?${q}` : "";
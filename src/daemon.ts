@@ -0,0 +1,34 @@
+import { createFileLogger } from "./lib/logger.js";
+import { daemonConfigFromEnv, startDaemon } from "./daemon/daemon.js";
+
+async function main(): Promise<void> {
+  const log = await createFileLogger();
+  const cfg = daemonConfigFromEnv();
+  await log.info(
+    `daemon: starting discovery=${cfg.discoveryIntervalMs / 1000}s books=${cfg.bookIntervalMs / 1000}s watchlistMax=${cfg.watchlistMax} paperArb=${cfg.paperArb} paperTrade=${cfg.paperTrade}`
+  );
+  const daemon = await startDaemon(log, cfg);
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    await log.info(`daemon: ${signal} received, finishing in-flight loops`);
+    try {
+      await daemon.stop();
+      await log.info("daemon: stopped cleanly");
+    } catch (e: any) {
+      await log.error(`daemon: error while stopping: ${e?.message ?? String(e)}`);
+      process.exitCode = 1;
+    }
+    await log.flush();
+    process.exit();
+  };
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,360 @@
+import path from "node:path";
+import { writeJsonFile } from "../lib/fs.js";
+import { httpMetricsSnapshot } from "../lib/http.js";
+import type { Logger } from "../lib/logger.js";
+import { fmtUsd, truncate } from "../lib/pretty.js";
+import { PolymarketGammaClient } from "../clients/polymarket.js";
+import { PolymarketClobClient } from "../clients/clob.js";
+import { ClobMarketStream } from "../clients/clobWs.js";
+import { fetchMarkets, type FetchMarketsResult } from "../ingest/fetchMarkets.js";
+import { fetchPrices } from "../ingest/fetchPrices.js";
+import { fetchEvents, type FetchEventsResult } from "../ingest/fetchEvents.js";
+import { categoryFilterFromEnv, type CategoryFilter } from "../normalize/eventMetadata.js";
+import { fetchOrderBooksForMarkets, type OrderBooksSnapshot } from "../ingest/fetchOrderBooks.js";
+import { fetchResolutions, type MarketResolution } from "../ingest/fetchResolutions.js";
+import { analyzeMarkets, type ScanAnalysis } from "../pipeline/analyze.js";
+import { loadDetectorConfig, runDetectors, type DetectorConfig, type DetectorRun } from "../detect/registry.js";
+import { appendFamilyRows, familyRowsFromScored } from "../persist/familyLog.js";
+import { writeHeartbeat } from "../persist/heartbeat.js";
+import { archiveScan } from "../persist/archive.js";
+import { syncScanToSupabase } from "../persist/supabase.js";
+import { dashboardPaperArb, dashboardScanBase, writeDashboard, type Dashboard } from "../persist/dashboard.js";
+import {
+  loadSignalLifecycle,
+  saveSignalLifecycle,
+  updateSignalLifecycle,
+  type SignalLifecycleRecord,
+  type SignalLifecycleState,
+  type TrackedSignal
+} from "../persist/signalLifecycle.js";
+import { openPaperPositionMarketIds, runPaperTrade } from "../paper/engine.js";
+import { loadPaperStrategies } from "../paper/config.js";
+import { openPaperArbState, runPaperArbitrage, type PaperArbState, type PaperArbSummary } from "../paper/arb.js";
+import { createLoop, type Loop } from "./scheduler.js";
+import { buildWatchlist } from "./watchlist.js";
+
+export type DaemonConfig = {
+  discoveryIntervalMs: number;
+  bookIntervalMs: number;
+  watchlistMax: number;
+  paperArb: boolean;
+  paperTrade: boolean;
+  // Fill directional paper trades against CLOB books (else Gamma prices).
+  paperBookFills: boolean;
+  archive: boolean;
+  // Join Gamma `/events` metadata on discovery ticks; optional category / tag filter.
+  events: boolean;
+  categories: CategoryFilter | null;
+  // Serve watchlist books from the CLOB websocket cache (REST only fills gaps).
+  clobWs: boolean;
+  // Poll Gamma for resolved markets behind open paper positions on discovery ticks and settle them.
+  resolutions: boolean;
+};
+
+export type Daemon = {
+  loops: Loop[];
+  // Stops both loops, waits for in-flight ticks, then flushes state and a final heartbeat.
+  stop: () => Promise<void>;
+};
+
+export function daemonConfigFromEnv(): DaemonConfig {
+  return {
+    discoveryIntervalMs: envInt("DAEMON_DISCOVERY_INTERVAL_SEC", 900) * 1000,
+    bookIntervalMs: envInt("DAEMON_BOOK_INTERVAL_SEC", 30) * 1000,
+    watchlistMax: envInt("DAEMON_WATCHLIST_MAX", envInt("ORDERBOOK_MAX_MARKETS", 500)),
+    paperArb: process.env.PAPER_ARB === "1",
+    paperTrade: process.env.PAPER_TRADE === "1",
+    paperBookFills: process.env.PAPER_BOOK_FILLS !== "0",
+    archive: process.env.ARCHIVE !== "0",
+    events: process.env.GAMMA_EVENTS === "1",
+    categories: categoryFilterFromEnv(),
+    clobWs: process.env.CLOB_WS === "1",
+    resolutions: process.env.RESOLUTION_WATCH !== "0"
+  };
+}
+
+type Discovery = {
+  ts: string;
+  fetched: FetchMarketsResult;
+  analysis: ScanAnalysis;
+  dashboard: Dashboard;
+};
+
+/**
+ * Long-running alternative to cron-driven `scan:once`. Clients, detector config, paper-arb state and
+ * signal lifecycle stay in memory; two fixed-delay loops share them:
+ *
+ * - discovery (slow, default 15 min): Gamma crawl -> analysis -> scan-stage detectors, family log,
+ *   resolution watcher, directional paper engine, archive, watchlist rebuild.
+ * - books (fast, default 30 s): CLOB books for the watchlist -> books-stage detectors -> paper arb.
+ *   With `clobWs`, the watchlist is kept subscribed on the market websocket and book ticks read the
+ *   local cache instead of polling REST.
+ *
+ * Each tick rewrites the dashboard and the heartbeat (with per-loop timings); Supabase is synced after
+ * discovery ticks and after book ticks that traded.
+ */
+export async function startDaemon(log: Logger, cfg: DaemonConfig = daemonConfigFromEnv()): Promise<Daemon> {
+  const startedAt = new Date().toISOString();
+  const gamma = new PolymarketGammaClient();
+  const clob = new PolymarketClobClient();
+  const stream = cfg.clobWs
+    ? new ClobMarketStream({ fallback: clob, onLog: (msg) => void log.info(`daemon: ${msg}`) })
+    : null;
+  const detectorConfig: DetectorConfig = await loadDetectorConfig();
+
+  let discovery: Discovery | null = null;
+  let books: OrderBooksSnapshot | null = null;
+  let watchlist: string[] = [];
+  const paperArbState: PaperArbState | null = cfg.paperArb ? await openPaperArbState() : null;
+  const paperStrategies = cfg.paperTrade ? await loadPaperStrategies() : [];
+  let paperArb: PaperArbSummary | null = null;
+  let paperSummary: Dashboard["paper"] | undefined;
+  // Latest resolved markets; kept across failed polls and shared with book ticks.
+  let resolutions: Map<string, MarketResolution> | undefined;
+  let lifecycle: SignalLifecycleState | null = await loadSignalLifecycle();
+  // Latest tracked signals per stage, so the dashboard shows both between their own ticks.
+  const tracked: Record<"scan" | "books", { signals: TrackedSignal[]; closed: SignalLifecycleRecord[]; runs: DetectorRun[] }> = {
+    scan: { signals: [], closed: [], runs: [] },
+    books: { signals: [], closed: [], runs: [] }
+  };
+
+  const discoveryLoop = createLoop("discovery", cfg.discoveryIntervalMs, discoveryTick, {
+    onError: (e: any) => log.warn(`daemon: discovery failed: ${e?.message ?? String(e)}`)
+  });
+  const bookLoop = createLoop("books", cfg.bookIntervalMs, bookTick, {
+    onError: (e: any) => log.warn(`daemon: books failed: ${e?.message ?? String(e)}`)
+  });
+  const loops = [discoveryLoop, bookLoop];
+
+  async function discoveryTick(): Promise<void> {
+    const fetched = await fetchMarkets(gamma);
+    if (fetched.raw.length === 0 || fetched.marketsLoose.length === 0) {
+      throw new Error(`zero markets fetched/parsed (raw=${fetched.raw.length}, parsed=${fetched.marketsLoose.length})`);
+    }
+    let events: FetchEventsResult | null = null;
+    if (cfg.events) {
+      try {
+        events = await fetchEvents(gamma);
+      } catch (e: any) {
+        await log.warn(`daemon: events fetch failed (continuing without event metadata): ${e?.message ?? String(e)}`);
+      }
+    }
+    const ts = new Date().toISOString();
+    const analysis = analyzeMarkets(fetched.marketsLoose, ts, detectorConfig, {
+      ...(events ? { events: events.events } : {}),
+      categories: cfg.categories
+    });
+    if (analysis.families.length === 0) throw new Error("zero families built");
+
+    await fetchPrices(analysis.normalized);
+    await appendFamilyRows(familyRowsFromScored(analysis.scored, ts));
+    await writeJsonFile(path.resolve(process.cwd(), "data/out/families.json"), analysis.ranked);
+
+    const ran = new Set(analysis.detectorRuns.filter((r) => r.status === "ok").map((r) => r.id));
+    const update = updateSignalLifecycle(lifecycle, analysis.signals, ts, ran);
+    lifecycle = update.state;
+    tracked.scan = { signals: update.signals, closed: update.closed, runs: analysis.detectorRuns };
+
+    if (cfg.resolutions && (cfg.paperTrade || paperArbState)) {
+      try {
+        const ids = [
+          ...(cfg.paperTrade ? await openPaperPositionMarketIds(paperStrategies) : []),
+          ...(paperArbState?.positions.flatMap((p) => p.legs.map((l) => l.marketId)) ?? [])
+        ];
+        resolutions = await fetchResolutions(gamma, ids);
+      } catch (e: any) {
+        await log.warn(`daemon: resolutions fetch failed (continuing): ${e?.message ?? String(e)}`);
+      }
+    }
+
+    if (cfg.paperTrade) {
+      try {
+        const summary = await runPaperTrade({
+          strategies: paperStrategies,
+          books: cfg.paperBookFills ? stream ?? clob : null,
+          ...(resolutions ? { resolutions } : {})
+        });
+        for (const w of summary.warnings) await log.warn(`daemon: paper: ${w}`);
+        paperSummary = {
+          bankrollCashUsd: summary.bankrollCashUsd,
+          realizedPnlUsd: summary.realizedPnlUsd,
+          unrealizedPnlUsd: summary.unrealizedPnlUsd,
+          openPositionsCount: summary.openPositions,
+          exposureUsd: summary.exposureUsd,
+          newTradesSummary: summary.newTradesSummary,
+          openPositionsSummary: summary.openPositionsSummary
+        };
+      } catch (e: any) {
+        await log.warn(`paper: error (continuing): ${e?.message ?? String(e)}`);
+      }
+    }
+
+    if (cfg.archive) {
+      try {
+        await archiveScan({
+          ts,
+          gammaPages: fetched.pagesRaw,
+          maxMarkets: fetched.pagesMarketCap,
+          ...(events ? { gammaEventPages: events.pagesRaw } : {}),
+          ...(books ? { orderBooks: books } : {})
+        });
+      } catch (e: any) {
+        await log.warn(`archive: write failed (continuing): ${e?.message ?? String(e)}`);
+      }
+    }
+
+    const first = discovery === null;
+    discovery = { ts, fetched, analysis, dashboard: dashboardScanBase({ ts, fetched, analysis }) };
+    refreshWatchlist();
+    await publish(ts, true);
+    await log.info(
+      `daemon: discovery markets=${analysis.normStats.keptMarkets} families=${analysis.families.length} signals=${analysis.signals.length} watchlist=${watchlist.length} ms=${Date.now() - Date.parse(ts)}`
+    );
+    // Books do not wait a full interval after the first discovery.
+    if (first) void bookLoop.trigger();
+  }
+
+  async function bookTick(): Promise<void> {
+    if (!discovery || watchlist.length === 0) return;
+    const { analysis } = discovery;
+    const snapshot = await fetchOrderBooksForMarkets(analysis.normalized, {
+      client: stream ?? clob,
+      priorityMarketIds: new Set(watchlist),
+      maxMarkets: watchlist.length
+    });
+    books = snapshot;
+    const ts = snapshot.fetchedAtIso;
+    for (const w of snapshot.warnings.slice(0, 3)) await log.warn(`daemon: books: ${w}`);
+
+    const stage = runDetectors(
+      { ts, markets: analysis.normalized, families: analysis.scored, books: snapshot },
+      detectorConfig,
+      "books"
+    );
+    const signals = [...stage.signals];
+    const ran = new Set(stage.runs.filter((r) => r.status === "ok").map((r) => r.id));
+
+    let traded = false;
+    if (cfg.paperArb && paperArbState) {
+      paperArb = await runPaperArbitrage(snapshot, {
+        ts,
+        families: analysis.families,
+        state: paperArbState,
+        paperStrategies,
+        ...(resolutions ? { resolutions } : {})
+      });
+      signals.push(...paperArb.signals);
+      ran.add("paper_arb");
+      traded =
+        paperArb.entered + paperArb.exited + paperArb.merged + paperArb.settled + paperArb.mintSells + paperArb.conversions > 0;
+    }
+
+    const update = updateSignalLifecycle(lifecycle, signals, ts, ran);
+    lifecycle = update.state;
+    tracked.books = { signals: update.signals, closed: update.closed, runs: stage.runs };
+
+    refreshWatchlist();
+    await publish(ts, traded);
+    if (traded && paperArb) {
+      await log.info(
+        `daemon: paper-arb entered=${paperArb.entered} exited=${paperArb.exited} merged=${paperArb.merged} settled=${paperArb.settled} mintSells=${paperArb.mintSells} conversions=${paperArb.conversions} riskRejected=${paperArb.riskRejected} cash=${fmtUsd(paperArb.bankrollCashUsd)} realized=${fmtUsd(paperArb.realizedPnlUsd)}`
+      );
+    }
+    for (const s of update.opened.slice(0, 3)) {
+      await log.info(`daemon: new signal ${s.detector}/${s.kind} ${truncate(s.title, 60)}`);
+    }
+  }
+
+  function refreshWatchlist(): void {
+    if (!discovery) return;
+    watchlist = buildWatchlist({
+      normalized: discovery.analysis.normalized,
+      families: discovery.analysis.families,
+      signals: [...tracked.scan.signals, ...tracked.books.signals],
+      paperArbState,
+      max: cfg.watchlistMax
+    });
+    if (stream) {
+      const ids = new Set(watchlist);
+      stream.setSubscriptions(
+        discovery.analysis.normalized
+          .filter((m) => ids.has(m.marketId))
+          .flatMap((m) => [m.yesTokenId, m.noTokenId].filter((t): t is string => Boolean(t)))
+      );
+    }
+  }
+
+  // Dashboard + heartbeat every tick; Supabase only when asked (discovery, or a book tick that traded).
+  async function publish(ts: string, sync: boolean): Promise<void> {
+    if (!discovery) return;
+    const signals = [...tracked.scan.signals, ...tracked.books.signals].sort((a, b) =>
+      a.status === b.status ? b.score - a.score : a.status === "new" ? -1 : 1
+    );
+    const closed = [...tracked.scan.closed, ...tracked.books.closed];
+    const dashboard: Dashboard = {
+      ...discovery.dashboard,
+      timestamp: ts,
+      scan: { ...discovery.dashboard.scan, http: httpMetricsSnapshot() },
+      ...(paperSummary ? { paper: paperSummary } : {}),
+      ...(signals.length ? { signals } : {}),
+      ...(closed.length ? { closedSignals: closed } : {}),
+      signalCounts: {
+        new: signals.filter((s) => s.status === "new").length,
+        persisting: signals.filter((s) => s.status === "persisting").length,
+        closed: closed.length
+      },
+      detectors: [...tracked.scan.runs, ...tracked.books.runs],
+      ...(paperArb ? { paperArb: dashboardPaperArb(paperArb) } : {})
+    };
+    await writeDashboard(dashboard);
+    if (lifecycle) await saveSignalLifecycle(lifecycle);
+    await writeDaemonHeartbeat(ts);
+
+    if (!sync) return;
+    try {
+      await syncScanToSupabase({ dashboard, ...(paperArb ? { paperArbSummary: paperArb } : {}) });
+    } catch (e: any) {
+      await log.warn(`supabase: sync failed (continuing): ${e?.message ?? String(e)}`);
+    }
+  }
+
+  async function writeDaemonHeartbeat(ts: string): Promise<void> {
+    const scan = discovery?.dashboard.scan;
+    await writeHeartbeat({
+      timestamp: ts,
+      fetched: scan?.fetched ?? 0,
+      parsed: scan?.parsed ?? 0,
+      normalized: scan?.normalized ?? 0,
+      families: scan?.families ?? 0,
+      bucketFamilies: scan?.bucketFamilies ?? 0,
+      topScore: discovery?.dashboard.topFamilies[0]?.opportunity_score ?? null,
+      mode: "daemon",
+      startedAt,
+      watchlist: watchlist.length,
+      loops: Object.fromEntries(loops.map((l) => [l.name, l.stats()])),
+      ...(stream ? { clobWs: stream.stats() } : {})
+    });
+  }
+
+  stream?.start();
+  discoveryLoop.start();
+  // The book loop idles until the first discovery has built a watchlist.
+  bookLoop.start();
+
+  return {
+    loops,
+    stop: async () => {
+      await Promise.all(loops.map((l) => l.stop()));
+      await stream?.stop();
+      if (lifecycle) await saveSignalLifecycle(lifecycle);
+      await writeDaemonHeartbeat(new Date().toISOString());
+    }
+  };
+}
+
+function envInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? Math.trunc(n) : fallback;
+}
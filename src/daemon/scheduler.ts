@@ -0,0 +1,108 @@
+export type LoopStats = {
+  intervalMs: number;
+  runs: number;
+  errors: number;
+  lastStartedAt: string | null;
+  lastFinishedAt: string | null;
+  lastDurationMs: number | null;
+  avgDurationMs: number | null;
+  maxDurationMs: number | null;
+  lastError: string | null;
+};
+
+export type Loop = {
+  name: string;
+  start: () => void;
+  // Stops scheduling and resolves once the in-flight tick (if any) has finished.
+  stop: () => Promise<void>;
+  // Runs a tick now unless one is already in flight (then resolves when that one finishes).
+  trigger: () => Promise<void>;
+  stats: () => LoopStats;
+};
+
+/**
+ * Fixed-delay loop: the next tick is scheduled `intervalMs` after the previous one finished, so a
+ * slow tick (e.g. a large Gamma crawl) never overlaps itself. A throwing tick is counted and
+ * reported through `onError`; the loop keeps running.
+ */
+export function createLoop(
+  name: string,
+  intervalMs: number,
+  tick: () => Promise<void>,
+  opts: { onError?: (err: unknown) => void | Promise<void>; now?: () => number } = {}
+): Loop {
+  const now = opts.now ?? Date.now;
+  const stats: LoopStats = {
+    intervalMs,
+    runs: 0,
+    errors: 0,
+    lastStartedAt: null,
+    lastFinishedAt: null,
+    lastDurationMs: null,
+    avgDurationMs: null,
+    maxDurationMs: null,
+    lastError: null
+  };
+  let timer: NodeJS.Timeout | null = null;
+  let inFlight: Promise<void> | null = null;
+  let running = false;
+
+  async function runOnce(): Promise<void> {
+    const started = now();
+    stats.lastStartedAt = new Date(started).toISOString();
+    try {
+      await tick();
+    } catch (e: any) {
+      stats.errors += 1;
+      stats.lastError = e?.message ?? String(e);
+      await opts.onError?.(e);
+    } finally {
+      const ms = now() - started;
+      stats.runs += 1;
+      stats.lastFinishedAt = new Date(started + ms).toISOString();
+      stats.lastDurationMs = ms;
+      stats.avgDurationMs = ((stats.avgDurationMs ?? 0) * (stats.runs - 1) + ms) / stats.runs;
+      stats.maxDurationMs = Math.max(stats.maxDurationMs ?? 0, ms);
+    }
+  }
+
+  function trigger(): Promise<void> {
+    if (inFlight) return inFlight;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    inFlight = runOnce().finally(() => {
+      inFlight = null;
+      schedule();
+    });
+    return inFlight;
+  }
+
+  function schedule(): void {
+    if (!running || timer) return;
+    timer = setTimeout(() => {
+      timer = null;
+      void trigger();
+    }, intervalMs);
+  }
+
+  return {
+    name,
+    start: () => {
+      if (running) return;
+      running = true;
+      void trigger();
+    },
+    stop: async () => {
+      running = false;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (inFlight) await inFlight;
+    },
+    trigger,
+    stats: () => ({ ...stats })
+  };
+}
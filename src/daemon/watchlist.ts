@@ -0,0 +1,46 @@
+import type { MarketFamily } from "../normalize/buildFamilies.js";
+import { isTradeable, type NormalizedMarket } from "../normalize/normalizeMarkets.js";
+import type { PaperArbState } from "../paper/arb.js";
+import type { Signal } from "../detect/types.js";
+
+/**
+ * Markets whose CLOB books the daemon refreshes every book tick, in priority order:
+ * 1. legs of open paper-arb positions (marks and exits must never go stale),
+ * 2. markets behind current signals,
+ * 3. bucket / ladder / event family members and neg-risk event members (basket, ladder-pair and
+ *    conversion legs).
+ *
+ * Only binary markets with both token ids qualify; the list is capped at `max`. Markets that are closed,
+ * archived or not accepting orders are only kept for open positions.
+ */
+export function buildWatchlist(args: {
+  normalized: NormalizedMarket[];
+  families: MarketFamily[];
+  signals?: Signal[];
+  paperArbState?: PaperArbState | null;
+  max: number;
+}): string[] {
+  const binary = args.normalized.filter((m) => m.outcomes.length === 2 && m.yesTokenId && m.noTokenId);
+  const held = new Set(binary.map((m) => m.marketId));
+  const bookable = new Set(binary.filter(isTradeable).map((m) => m.marketId));
+  const out = new Set<string>();
+  const add = (id: string, pool: Set<string> = bookable) => {
+    if (out.size < args.max && pool.has(id)) out.add(id);
+  };
+
+  for (const pos of args.paperArbState?.positions ?? []) {
+    for (const leg of pos.legs) add(leg.marketId, held);
+  }
+  for (const s of args.signals ?? []) {
+    for (const id of s.marketIds) add(id);
+  }
+  for (const f of args.families) {
+    for (const b of f.buckets ?? []) add(b.marketId);
+    for (const r of f.ladder?.rungs ?? []) add(r.marketId);
+    for (const o of f.multi ?? []) if (o.marketId) add(o.marketId);
+  }
+  for (const m of args.normalized) {
+    if (m.negRisk && m.eventId) add(m.marketId);
+  }
+  return [...out];
+}
@@ -1,10 +1,13 @@
-import type { MarketFamily } from "../normalize/buildFamilies.js";
+import { z } from "zod";
+import type { BucketOutcome, MarketFamily } from "../normalize/buildFamilies.js";
+import type { Detector, DetectorSignal } from "./types.js";
 
 export type BucketFeatures = {
   validPrices: number;
   missingPrices: number;
   gapCount: number;
   overlapCount: number;
+  fullPartition: boolean;
   liquidityMax: number | null;
   volumeMax: number | null;
   overround: number | null;
@@ -45,11 +48,21 @@ export function scoreFamilies(families: MarketFamily[]): FamilyScored[] {
         return { ...f, opportunity_score, reasons };
       }
 
+      if (f.family_type === "ladder" && f.ladder?.rungs.length) {
+        const worst = ladderViolations(f.ladder)[0];
+        const reasons = worst
+          ? [
+              `monotonicity ${worst.subset.label}=${worst.subset.yes_price!.toFixed(3)} vs ${worst.superset.label}=${worst.superset.yes_price!.toFixed(3)}`
+            ]
+          : ["monotone ladder"];
+        return { ...f, opportunity_score: clamp01(worst?.gap ?? 0), reasons };
+      }
+
       // Singles are kept but deprioritized unless we add specific structural signals later.
       return { ...f, opportunity_score: 0, reasons: ["single/binary (deprioritized in MVP)"] };
     }
 
-    const { gapCount, overlapCount } = rangeAdjacencyStats(f.buckets);
+    const { gapCount, overlapCount, fullPartition } = rangeAdjacencyStats(f.buckets);
 
     const ps = f.buckets.map((b) => b.yes_price);
     const valid = ps.filter((p) => typeof p === "number" && Number.isFinite(p) && p > 0.001 && p < 0.999) as number[];
@@ -76,8 +89,9 @@ export function scoreFamilies(families: MarketFamily[]): FamilyScored[] {
     if (overlapCount > 0) reasons.push(`overlaps ${overlapCount}`);
 
     // Opportunity score (simple, read-only): spikes + underround + (cluster cheapness vs local mass) + liquidity, with penalties.
-    // Only treat underround/overround as meaningful if the buckets look like a contiguous partition.
-    const looksPartitioned = gapCount === 0 && overlapCount === 0 && f.buckets.length >= 6;
+    // Only treat underround/overround as meaningful if the buckets look like a contiguous partition:
+    // both tails present, or (without tails) enough buckets that the ends carry little mass.
+    const looksPartitioned = gapCount === 0 && overlapCount === 0 && (fullPartition || f.buckets.length >= 6);
     const underroundEdge = looksPartitioned && overround !== null ? Math.max(0, 1 - overround) : 0;
     const spikeScore = maxSpike ?? 0;
     const clusterZ = bestCluster?.z ?? null;
@@ -97,6 +111,7 @@ export function scoreFamilies(families: MarketFamily[]): FamilyScored[] {
       missingPrices,
       gapCount,
       overlapCount,
+      fullPartition,
       liquidityMax,
       volumeMax,
       overround,
@@ -111,6 +126,82 @@ export function scoreFamilies(families: MarketFamily[]): FamilyScored[] {
   });
 }
 
+export const familyAnomalyConfigSchema = z.object({
+  minScore: z.number().min(0).max(1).default(0.05),
+  maxSignals: z.number().int().min(1).max(500).default(50),
+  familyTypes: z.array(z.enum(["bucket", "ladder", "multi", "single"])).default(["bucket", "ladder", "multi"])
+}).strict();
+
+/**
+ * Wraps `scoreFamilies` output as signals so family anomalies get the same lifecycle tracking as
+ * other detectors. Not persisted to `arb_opportunities`: families are mirrored in `bot_scans`.
+ */
+export const familyAnomalyDetector: Detector<typeof familyAnomalyConfigSchema> = {
+  id: "families",
+  description: "Bucket/ladder/multi family structure anomalies (overround, spikes, cheap clusters, non-monotone ladders)",
+  requires: ["families"],
+  configSchema: familyAnomalyConfigSchema,
+  persist: false,
+  run: (ctx, config) =>
+    (ctx.families ?? [])
+      .filter((f) => config.familyTypes.includes(f.family_type) && f.opportunity_score >= config.minScore)
+      .sort((a, b) => b.opportunity_score - a.opportunity_score)
+      .slice(0, config.maxSignals)
+      .map(
+        (f): DetectorSignal => ({
+          ts: ctx.ts,
+          detector: "families",
+          kind: f.family_type,
+          key: f.family_id,
+          title: f.title,
+          score: f.opportunity_score,
+          edge:
+            f.family_type === "multi" || f.family_type === "ladder"
+              ? f.opportunity_score
+              : f.features?.overround !== null && f.features?.overround !== undefined
+                ? Math.abs(1 - f.features.overround)
+                : null,
+          marketIds: [
+            ...(f.buckets?.map((b) => b.marketId) ?? []),
+            ...(f.ladder?.rungs.map((b) => b.marketId) ?? []),
+            ...(f.multi?.flatMap((o) => (o.marketId ? [o.marketId] : [])) ?? []),
+            ...(f.single ? [f.single.marketId] : [])
+          ],
+          reason: f.reasons.join("; "),
+          payload: {
+            num_outcomes: f.num_outcomes,
+            ...(f.eventId ? { eventId: f.eventId } : {}),
+            ...(f.features ? { features: f.features } : {})
+          }
+        })
+      )
+};
+
+export type LadderViolation = {
+  subset: BucketOutcome; // the narrower rung ("by March 31", "above $100k")
+  superset: BucketOutcome; // the rung that contains it ("by June 30", "above $90k")
+  gap: number; // subset YES price minus superset YES price, > 0
+};
+
+/**
+ * Pricing inversions across every pair of ladder rungs (not only neighbours), largest first: a rung
+ * priced above a rung that contains it. Empty when the ladder is monotone.
+ */
+export function ladderViolations(ladder: NonNullable<MarketFamily["ladder"]>): LadderViolation[] {
+  const out: LadderViolation[] = [];
+  const { rungs } = ladder;
+  for (let i = 0; i < rungs.length; i++) {
+    for (let j = i + 1; j < rungs.length; j++) {
+      // Increasing ladders grow along the sort order; decreasing ones shrink.
+      const [subset, superset] = ladder.direction === "increasing" ? [rungs[i]!, rungs[j]!] : [rungs[j]!, rungs[i]!];
+      if (!isValidProb(subset.yes_price) || !isValidProb(superset.yes_price)) continue;
+      const gap = subset.yes_price - superset.yes_price;
+      if (gap > 0) out.push({ subset, superset, gap });
+    }
+  }
+  return out.sort((a, b) => b.gap - a.gap);
+}
+
 function computeMaxSpike(buckets: NonNullable<MarketFamily["buckets"]>): number | null {
   let max = 0;
   let found = false;
@@ -178,16 +269,43 @@ function clamp01(x: number): number {
   return Math.max(0, Math.min(1, x));
 }
 
-function rangeAdjacencyStats(buckets: NonNullable<MarketFamily["buckets"]>): { gapCount: number; overlapCount: number } {
+/**
+ * Count gaps and overlaps between consecutive (sorted) buckets.
+ *
+ * - Touching endpoints are contiguous unless both sides state a bound: "<10" + ">10" leaves a gap at
+ *   10, "<=10" + ">=10" overlaps. Closed labels ("10-12") carry no flags and never conflict.
+ * - In whole-number ladders ("10-19", "20-29", "30+") a step of 1 between buckets is not a gap.
+ * - `fullPartition`: no gaps/overlaps and both tails are open-ended ("<10" … "50 or more"), so the
+ *   buckets cover every outcome.
+ */
+export function rangeAdjacencyStats(buckets: NonNullable<MarketFamily["buckets"]>): {
+  gapCount: number;
+  overlapCount: number;
+  fullPartition: boolean;
+} {
+  const integerLadder = buckets.every((b) =>
+    [b.range.low, b.range.high].every((x) => !Number.isFinite(x) || Number.isInteger(x))
+  );
   let gapCount = 0;
   let overlapCount = 0;
   for (let i = 1; i < buckets.length; i++) {
     const prev = buckets[i - 1]!.range;
     const cur = buckets[i]!.range;
-    if (cur.low > prev.high) gapCount += 1;
+    if (cur.low === prev.high) {
+      if (prev.highInclusive === false && cur.lowInclusive === false) gapCount += 1;
+      if (prev.highInclusive === true && cur.lowInclusive === true) overlapCount += 1;
+      continue;
+    }
+    if (cur.low > prev.high && !(integerLadder && cur.low - prev.high === 1)) gapCount += 1;
     if (cur.low < prev.high) overlapCount += 1;
   }
-  return { gapCount, overlapCount };
+  const fullPartition =
+    gapCount === 0 &&
+    overlapCount === 0 &&
+    buckets.length >= 2 &&
+    buckets[0]!.range.low === -Infinity &&
+    buckets[buckets.length - 1]!.range.high === Infinity;
+  return { gapCount, overlapCount, fullPartition };
 }
 
 function maxOrNull(xs: Array<number | undefined>): number | null {
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { ladderViolations, type FamilyScored } from "./basicAnomalies.js";
+import type { Detector, DetectorSignal } from "./types.js";
+
+export type LadderSignal = {
+  ts: string;
+  familyId: string;
+  title: string;
+  direction: "increasing" | "decreasing";
+  superset: { marketId: string; label: string; yes: number };
+  subset: { marketId: string; label: string; yes: number };
+  gap: number; // subset YES minus superset YES
+  pairCost: number; // superset YES + subset NO, after fees
+  edge: number; // 1 - pairCost
+};
+
+/**
+ * Monotonicity violations in threshold and date ladders (see `buildFamilies`): a rung priced above a
+ * rung that contains it ("above $100k" over "above $90k", "by March" over "by June").
+ *
+ * YES on the containing rung plus NO on the narrower one pays at least $1 in every outcome ($2 when
+ * the result lands between the two), so the pair is worth buying below $1. Gamma prices stand in
+ * for asks here (NO = 1 - YES); the paper-arb `ladder_pair` strategy re-checks against the books.
+ */
+export function detectLadderViolations(
+  families: FamilyScored[],
+  ts: string,
+  opts: { feeRate?: number; minEdge?: number; maxSignals?: number } = {}
+): LadderSignal[] {
+  const feeRate = opts.feeRate ?? 0.05;
+  const minEdge = opts.minEdge ?? 0.005;
+  const out: LadderSignal[] = [];
+  for (const f of families) {
+    if (f.family_type !== "ladder" || !f.ladder) continue;
+    for (const v of ladderViolations(f.ladder)) {
+      const supYes = v.superset.yes_price!;
+      const subYes = v.subset.yes_price!;
+      const pairCost = withFee(supYes, feeRate) + withFee(1 - subYes, feeRate);
+      const edge = 1 - pairCost;
+      if (edge <= minEdge) continue;
+      out.push({
+        ts,
+        familyId: f.family_id,
+        title: f.title,
+        direction: f.ladder.direction,
+        superset: { marketId: v.superset.marketId, label: v.superset.label, yes: supYes },
+        subset: { marketId: v.subset.marketId, label: v.subset.label, yes: subYes },
+        gap: v.gap,
+        pairCost,
+        edge
+      });
+    }
+  }
+  return out.sort((a, b) => b.edge - a.edge).slice(0, opts.maxSignals ?? 50);
+}
+
+export const ladderConfigSchema = z.object({
+  feeRate: z.number().min(0).max(1).default(0.05),
+  minEdge: z.number().min(0).default(0.005),
+  maxSignals: z.number().int().min(1).max(500).default(50)
+}).strict();
+
+export const ladderDetector: Detector<typeof ladderConfigSchema> = {
+  id: "ladders",
+  description: "Threshold/date ladder rungs priced above the rungs that contain them",
+  requires: ["families"],
+  configSchema: ladderConfigSchema,
+  persist: true,
+  run: (ctx, config) =>
+    detectLadderViolations(ctx.families ?? [], ctx.ts, config).map(
+      ({ ts, familyId, title, superset, subset, pairCost, edge, ...rest }): DetectorSignal => ({
+        ts,
+        detector: "ladders",
+        kind: "violation",
+        key: familyId,
+        title: `${title}: ${subset.label} priced above ${superset.label}`,
+        score: clamp01(edge * 10),
+        edge,
+        cost: pairCost,
+        marketIds: [superset.marketId, subset.marketId],
+        reason: `YES ${superset.label} ${superset.yes.toFixed(3)} + NO ${subset.label} ${(1 - subset.yes).toFixed(3)} costs ${pairCost.toFixed(3)} after fees for a >= $1 payout`,
+        payload: { superset, subset, ...rest }
+      })
+    )
+};
+
+function withFee(price: number, feeRate: number): number {
+  return price + feeRate * price * (1 - price);
+}
+
+function clamp01(x: number): number {
+  return Math.max(0, Math.min(1, x));
+}
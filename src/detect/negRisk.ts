@@ -0,0 +1,160 @@
+import { z } from "zod";
+import type { Detector, DetectorSignal } from "./types.js";
+import type { MarketOrderBookPair, OrderBooksSnapshot } from "../ingest/fetchOrderBooks.js";
+
+/**
+ * Neg-risk events are groups of mutually exclusive binary markets sharing an `eventId` (exactly one
+ * YES resolves true). The neg-risk adapter converts 1 NO on outcome i into 1 YES on every other
+ * outcome, so NO_i and the basket {YES_j : j != i} have the same payoff.
+ *
+ * - `no_to_yes`: NO_i is cheaper than the other outcomes' YES. Buying NO_i and converting is the
+ *   cheap way into that basket. It needs no completeness assumption: conversion mints YES on every
+ *   other outcome, whether or not we saw its book.
+ * - `yes_to_no`: the other outcomes' YES are cheaper than NO_i. Buying them replicates NO_i, but only
+ *   if we really hold every other outcome, so the event must be complete in the snapshot.
+ */
+export type NegRiskEventGroup = {
+  eventId: string;
+  markets: MarketOrderBookPair[];
+  // Every binary market Gamma returned for the event has books in this snapshot.
+  complete: boolean;
+};
+
+export type NegRiskSignal = {
+  ts: string;
+  kind: "no_to_yes" | "yes_to_no";
+  eventId: string;
+  marketId: string; // outcome i
+  title: string;
+  outcomes: number;
+  complete: boolean;
+  noAsk: number;
+  othersYesAsk: number; // sum of best YES asks over j != i
+  edge: number; // per set, after taker fees on every leg
+  score: number;
+  reason: string;
+};
+
+export function groupNegRiskEvents(snapshot: OrderBooksSnapshot): NegRiskEventGroup[] {
+  const byEvent = new Map<string, MarketOrderBookPair[]>();
+  for (const m of snapshot.markets) {
+    if (!m.negRisk || !m.eventId) continue;
+    const arr = byEvent.get(m.eventId) ?? [];
+    arr.push(m);
+    byEvent.set(m.eventId, arr);
+  }
+
+  const out: NegRiskEventGroup[] = [];
+  for (const [eventId, markets] of byEvent.entries()) {
+    if (markets.length < 2) continue;
+    const expected = snapshot.eventMarketCounts?.[eventId];
+    const withBooks = markets.filter((m) => m.yes && m.no).length;
+    out.push({ eventId, markets, complete: expected !== undefined && withBooks === expected && withBooks === markets.length });
+  }
+  return out;
+}
+
+/**
+ * Top-of-book screen comparing NO_i against the other outcomes' YES using CLOB asks for every leg.
+ * Paper entries re-size each signal by walking the books (see `src/paper/arb.ts`).
+ */
+export function detectNegRiskConversions(
+  snapshot: OrderBooksSnapshot,
+  ts = new Date().toISOString(),
+  opts: { feeRate?: number; minEdge?: number; maxSignals?: number } = {}
+): NegRiskSignal[] {
+  const feeRate = opts.feeRate ?? 0.05;
+  const minEdge = opts.minEdge ?? 0.005;
+  const signals: NegRiskSignal[] = [];
+
+  for (const group of groupNegRiskEvents(snapshot)) {
+    const asks = group.markets.map((m) => ({
+      market: m,
+      yes: m.yes?.asks[0]?.price ?? null,
+      no: m.no?.asks[0]?.price ?? null
+    }));
+    if (asks.some((a) => a.yes === null)) continue;
+    const allYes = asks.reduce((acc, a) => acc + withFee(a.yes!, feeRate), 0);
+
+    for (const a of asks) {
+      if (a.no === null) continue;
+      const noCost = withFee(a.no, feeRate);
+      const othersCost = allYes - withFee(a.yes!, feeRate);
+      const othersYesAsk = asks.reduce((acc, b) => (b === a ? acc : acc + b.yes!), 0);
+      const base = {
+        ts,
+        eventId: group.eventId,
+        marketId: a.market.marketId,
+        title: a.market.title,
+        outcomes: group.markets.length,
+        complete: group.complete,
+        noAsk: a.no,
+        othersYesAsk
+      };
+
+      const noCheap = othersCost - noCost;
+      if (noCheap > minEdge) {
+        signals.push({
+          ...base,
+          kind: "no_to_yes",
+          edge: noCheap,
+          score: clamp01(noCheap),
+          reason: `NO ask ${a.no.toFixed(3)} < sum of ${group.markets.length - 1} other YES asks ${othersYesAsk.toFixed(3)}`
+        });
+      }
+
+      const yesCheap = noCost - othersCost;
+      if (group.complete && yesCheap > minEdge) {
+        signals.push({
+          ...base,
+          kind: "yes_to_no",
+          edge: yesCheap,
+          score: clamp01(yesCheap),
+          reason: `sum of ${group.markets.length - 1} other YES asks ${othersYesAsk.toFixed(3)} < NO ask ${a.no.toFixed(3)}`
+        });
+      }
+    }
+  }
+
+  return signals.sort((a, b) => b.score - a.score).slice(0, opts.maxSignals ?? 50);
+}
+
+export const negRiskConfigSchema = z.object({
+  feeRate: z.number().min(0).max(1).default(0.05),
+  minEdge: z.number().min(0).default(0.005),
+  maxSignals: z.number().int().min(1).max(500).default(50)
+}).strict();
+
+export const negRiskDetector: Detector<typeof negRiskConfigSchema> = {
+  id: "negrisk",
+  description: "Neg-risk NO_i vs other-outcome YES conversions from CLOB asks",
+  requires: ["books"],
+  configSchema: negRiskConfigSchema,
+  persist: true,
+  run: (ctx, config) =>
+    ctx.books
+      ? detectNegRiskConversions(ctx.books, ctx.ts, config).map(
+          ({ ts, kind, marketId, title, edge, score, reason, ...rest }): DetectorSignal => ({
+            ts,
+            detector: "negrisk",
+            kind,
+            key: marketId,
+            title,
+            score,
+            edge,
+            cost: rest.noAsk,
+            marketIds: [marketId],
+            reason,
+            payload: rest
+          })
+        )
+      : []
+};
+
+function withFee(price: number, feeRate: number): number {
+  return price + feeRate * price * (1 - price);
+}
+
+function clamp01(x: number): number {
+  return Math.max(0, Math.min(1, x));
+}
@@ -0,0 +1,168 @@
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import { negRiskDetector } from "./negRisk.js";
+import { sportsDetector } from "./sportsSignals.js";
+import { familyAnomalyDetector } from "./basicAnomalies.js";
+import { ladderDetector } from "./ladders.js";
+import { withFingerprint } from "./signals.js";
+import type { Detector, DetectorContext, Signal } from "./types.js";
+
+/**
+ * Every detector the scan runs. Adding a detector means implementing `Detector` next to its logic
+ * and listing it here; the scan, dashboard and Supabase sync only see `Signal`s.
+ */
+export const detectorRegistry: readonly Detector[] = [familyAnomalyDetector, ladderDetector, sportsDetector, negRiskDetector];
+
+export type DetectorSettings = {
+  enabled: boolean;
+  params: Record<string, unknown>;
+};
+
+export type DetectorConfig = Record<string, DetectorSettings>;
+
+export type DetectorStage = "scan" | "books";
+
+export type DetectorRun = {
+  id: string;
+  stage: DetectorStage;
+  status: "ok" | "disabled" | "error";
+  signals: number;
+  ms: number;
+  error?: string;
+};
+
+export function getDetector(id: string, registry: readonly Detector[] = detectorRegistry): Detector | undefined {
+  return registry.find((d) => d.id === id);
+}
+
+/**
+ * Resolve per-detector settings from (lowest to highest precedence):
+ * - the detector's schema defaults,
+ * - the config file object, `{ "<id>": { "enabled": false, "<param>": value } }`,
+ * - env overrides `DETECTOR_<ID>_ENABLED=0|1` and `DETECTOR_<ID>_<PARAM>` (camelCase param as
+ *   UPPER_SNAKE, e.g. `DETECTOR_NEGRISK_MIN_EDGE=0.01`; values are parsed as JSON when possible).
+ *
+ * Throws when a detector's merged params fail its schema, so a typo'd config fails loudly at startup.
+ */
+export function resolveDetectorConfig(
+  file: unknown = {},
+  env: NodeJS.ProcessEnv = process.env,
+  registry: readonly Detector[] = detectorRegistry
+): DetectorConfig {
+  const fileObj = isRecord(file) ? file : {};
+  for (const id of Object.keys(fileObj)) {
+    if (!getDetector(id, registry)) throw new Error(`detectors config: unknown detector "${id}"`);
+  }
+
+  const out: DetectorConfig = {};
+  for (const d of registry) {
+    const { enabled: fileEnabled, ...fileParams } = isRecord(fileObj[d.id]) ? (fileObj[d.id] as Record<string, unknown>) : {};
+    const prefix = `DETECTOR_${envKey(d.id)}_`;
+
+    const envParams: Record<string, unknown> = {};
+    for (const key of schemaKeys(d)) {
+      const raw = env[`${prefix}${envKey(key)}`];
+      if (raw !== undefined && raw !== "") envParams[key] = parseEnvValue(raw);
+    }
+
+    const parsed = d.configSchema.safeParse({ ...fileParams, ...envParams });
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`detectors config: invalid params for "${d.id}": ${issues}`);
+    }
+
+    const envEnabled = env[`${prefix}ENABLED`];
+    const enabled = envEnabled !== undefined && envEnabled !== "" ? envEnabled !== "0" : fileEnabled !== false;
+    out[d.id] = { enabled, params: parsed.data as Record<string, unknown> };
+  }
+  return out;
+}
+
+/**
+ * Read `DETECTORS_CONFIG` (default `config/detectors.json`) and resolve it. A missing file is fine
+ * (defaults + env); an unreadable or invalid one throws.
+ */
+export async function loadDetectorConfig(
+  filePath = path.resolve(process.cwd(), process.env.DETECTORS_CONFIG ?? "config/detectors.json"),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<DetectorConfig> {
+  let txt: string | null = null;
+  try {
+    txt = await readFile(filePath, "utf8");
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") throw e;
+  }
+  if (txt === null) return resolveDetectorConfig({}, env);
+  let file: unknown;
+  try {
+    file = JSON.parse(txt);
+  } catch (e: any) {
+    throw new Error(`detectors config: ${filePath} is not valid JSON: ${e?.message ?? String(e)}`);
+  }
+  return resolveDetectorConfig(file, env);
+}
+
+/**
+ * Run the enabled detectors for one stage. "scan" runs detectors that only need markets/families;
+ * "books" runs those that need order books (after they are fetched). A throwing detector is
+ * recorded as an error and never fails the scan.
+ */
+export function runDetectors(
+  ctx: DetectorContext,
+  config: DetectorConfig,
+  stage: DetectorStage,
+  registry: readonly Detector[] = detectorRegistry
+): { signals: Signal[]; runs: DetectorRun[] } {
+  const signals: Signal[] = [];
+  const runs: DetectorRun[] = [];
+  for (const d of registry) {
+    if (stageOf(d) !== stage) continue;
+    const settings = config[d.id] ?? resolveDetectorConfig({}, {}, [d])[d.id]!;
+    if (!settings.enabled) {
+      runs.push({ id: d.id, stage, status: "disabled", signals: 0, ms: 0 });
+      continue;
+    }
+    const missing = d.requires.filter((r) => ctx[r] === undefined);
+    if (missing.length) {
+      runs.push({ id: d.id, stage, status: "error", signals: 0, ms: 0, error: `missing inputs: ${missing.join(",")}` });
+      continue;
+    }
+    const started = Date.now();
+    try {
+      const out = d.run(ctx, settings.params).map(withFingerprint);
+      signals.push(...out);
+      runs.push({ id: d.id, stage, status: "ok", signals: out.length, ms: Date.now() - started });
+    } catch (e: any) {
+      runs.push({ id: d.id, stage, status: "error", signals: 0, ms: Date.now() - started, error: e?.message ?? String(e) });
+    }
+  }
+  return { signals, runs };
+}
+
+function stageOf(d: Detector): DetectorStage {
+  return d.requires.includes("books") ? "books" : "scan";
+}
+
+function schemaKeys(d: Detector): string[] {
+  const shape = (d.configSchema as { shape?: Record<string, unknown> }).shape;
+  return shape ? Object.keys(shape) : [];
+}
+
+function envKey(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .toUpperCase();
+}
+
+function parseEnvValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
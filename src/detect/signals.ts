@@ -0,0 +1,16 @@
+import crypto from "node:crypto";
+import type { DetectorSignal, Signal } from "./types.js";
+
+/**
+ * Identity of a signal across scans. Scores, prices and titles move every scan; the detector, its
+ * group key and the set of member markets do not, unless the structure itself changes (e.g. a new
+ * bucket joins a family), which we deliberately treat as a different signal.
+ */
+export function signalFingerprint(s: Pick<Signal, "detector" | "key" | "marketIds">): string {
+  const members = [...new Set(s.marketIds)].sort().join(",");
+  return crypto.createHash("sha1").update(`${s.detector}\n${s.key}\n${members}`).digest("hex").slice(0, 16);
+}
+
+export function withFingerprint(s: DetectorSignal): Signal {
+  return { ...s, fingerprint: signalFingerprint(s) };
+}
@@ -1,4 +1,7 @@
+import { z } from "zod";
 import type { NormalizedMarket } from "../normalize/normalizeMarkets.js";
+import { eventSport } from "../normalize/eventMetadata.js";
+import type { Detector, DetectorSignal } from "./types.js";
 
 export type SportsSignal = {
   ts: string;
@@ -42,39 +45,81 @@ type ParsedMatchOutcome = {
   opponent?: string;
 };
 
-export function detectSportsSignals(markets: NormalizedMarket[], ts = new Date().toISOString()): SportsSignal[] {
+export const sportsConfigSchema = z.object({
+  maxSignals: z.number().int().min(1).max(500).default(50),
+  outrights: z.boolean().default(true),
+  dutching: z.boolean().default(true),
+  totalLadders: z.boolean().default(true),
+  totalPairs: z.boolean().default(true)
+}).strict();
+
+export type SportsConfig = z.output<typeof sportsConfigSchema>;
+
+export function detectSportsSignals(
+  markets: NormalizedMarket[],
+  ts = new Date().toISOString(),
+  opts: Partial<SportsConfig> = {}
+): SportsSignal[] {
+  const cfg = sportsConfigSchema.parse(opts);
   const signals: SportsSignal[] = [];
-  signals.push(...detectOutrightSignals(markets, ts));
-  signals.push(...detectDutchingSignals(markets, ts));
-  signals.push(...detectTotalLadders(markets, ts));
-  signals.push(...detectTotalPairSignals(markets, ts));
-  return signals.sort((a, b) => b.score - a.score).slice(0, 50);
+  if (cfg.outrights) signals.push(...detectOutrightSignals(markets, ts));
+  if (cfg.dutching) signals.push(...detectDutchingSignals(markets, ts));
+  if (cfg.totalLadders) signals.push(...detectTotalLadders(markets, ts));
+  if (cfg.totalPairs) signals.push(...detectTotalPairSignals(markets, ts));
+  return signals.sort((a, b) => b.score - a.score).slice(0, cfg.maxSignals);
 }
 
+export const sportsDetector: Detector<typeof sportsConfigSchema> = {
+  id: "sports",
+  description: "Sports outrights, match dutching and totals ladders/pairs from mid prices",
+  requires: ["markets"],
+  configSchema: sportsConfigSchema,
+  persist: true,
+  run: (ctx, config) =>
+    detectSportsSignals(ctx.markets ?? [], ctx.ts, config).map(
+      ({ ts, kind, groupKey, title, score, edge, cost, markets, reason, ...rest }): DetectorSignal => ({
+        ts,
+        detector: "sports",
+        kind,
+        key: groupKey,
+        title,
+        score,
+        edge,
+        ...(cost !== undefined ? { cost } : {}),
+        // Buying every outright is only a locked arb when the field is complete and underround.
+        ...(kind === "outright_underround" ? { lockedProfit: edge } : {}),
+        marketIds: markets.map((m) => m.marketId),
+        reason,
+        payload: { ...rest, markets }
+      })
+    )
+};
+
 function detectOutrightSignals(markets: NormalizedMarket[], ts: string): SportsSignal[] {
-  const groups = new Map<string, NormalizedMarket[]>();
+  const groups = new Map<string, { sport: string; competition: string; members: NormalizedMarket[] }>();
   for (const m of markets) {
     const parsed = parseOutrightWinner(m.title);
     if (!parsed || !isValidProb(m.yes_price)) continue;
-    const key = `${parsed.sport}:${parsed.competition}`;
-    const arr = groups.get(key) ?? [];
-    arr.push(m);
-    groups.set(key, arr);
+    // A joined event is the real competition; otherwise group on the parsed competition name.
+    const sport = eventSport(m) ?? parsed.sport;
+    const key = m.event ? `${sport}:event:${m.event.id}` : `${sport}:${parsed.competition}`;
+    const g = groups.get(key) ?? { sport, competition: m.event?.title ?? parsed.competition, members: [] };
+    g.members.push(m);
+    groups.set(key, g);
   }
 
   const out: SportsSignal[] = [];
-  for (const [key, members] of groups.entries()) {
+  for (const [key, { sport, competition, members }] of groups.entries()) {
     if (members.length < 4) continue;
     const cost = members.reduce((acc, m) => acc + (m.yes_price ?? 0), 0);
     const underEdge = 1 - cost;
     const overEdge = cost - 1;
-    const [sport, competition] = key.split(":");
 
     if (underEdge > 0.005) {
       out.push({
         ts,
         kind: "outright_underround",
-        sport: sport ?? "sports",
+        sport,
         groupKey: key,
         title: `${competition} outright underround`,
         score: clamp01(underEdge),
@@ -93,7 +138,7 @@ function detectOutrightSignals(markets: NormalizedMarket[], ts: string): SportsS
       out.push({
         ts,
         kind: "outright_overround",
-        sport: sport ?? "sports",
+        sport,
         groupKey: key,
         title: `${competition} outright overround`,
         score: clamp01(overEdge * 4),
@@ -111,7 +156,7 @@ function detectOutrightSignals(markets: NormalizedMarket[], ts: string): SportsS
 function detectDutchingSignals(markets: NormalizedMarket[], ts: string): SportsSignal[] {
   const groups = new Map<string, Array<{ market: NormalizedMarket; parsed: ParsedMatchOutcome }>>();
   for (const market of markets) {
-    const parsed = parseMatchOutcome(market.title);
+    const parsed = withEvent(parseMatchOutcome(market.title), market);
     if (!parsed || !isValidProb(market.yes_price)) continue;
     const arr = groups.get(parsed.eventKey) ?? [];
     arr.push({ market, parsed });
@@ -170,7 +215,7 @@ function detectDutchingSignals(markets: NormalizedMarket[], ts: string): SportsS
 function detectTotalLadders(markets: NormalizedMarket[], ts: string): SportsSignal[] {
   const groups = new Map<string, Array<{ market: NormalizedMarket; parsedTotal: ParsedTotal }>>();
   for (const m of markets) {
-    const parsedTotal = parseTotalLine(m.title);
+    const parsedTotal = withEvent(parseTotalLine(m.title), m);
     if (!parsedTotal || !isValidProb(m.yes_price)) continue;
     const key = `${parsedTotal.sport}:${parsedTotal.eventKey}:${parsedTotal.side}`;
     const arr = groups.get(key) ?? [];
@@ -230,7 +275,7 @@ function detectTotalLadders(markets: NormalizedMarket[], ts: string): SportsSign
 function detectTotalPairSignals(markets: NormalizedMarket[], ts: string): SportsSignal[] {
   const groups = new Map<string, Array<{ market: NormalizedMarket; parsedTotal: ParsedTotal }>>();
   for (const market of markets) {
-    const parsedTotal = parseTotalLine(market.title);
+    const parsedTotal = withEvent(parseTotalLine(market.title), market);
     if (!parsedTotal || !isValidProb(market.yes_price)) continue;
     const key = `${parsedTotal.sport}:${parsedTotal.eventKey}:${parsedTotal.line}`;
     const arr = groups.get(key) ?? [];
@@ -394,6 +439,13 @@ function isValidProb(x: number | null): x is number {
   return typeof x === "number" && Number.isFinite(x) && x > 0.0001 && x < 0.9999;
 }
 
+// With `/events` metadata, the event id replaces the key guessed from team names / question text, and
+// the event's tags replace the sport guessed from keywords.
+function withEvent<T extends { sport: string; eventKey: string }>(parsed: T | null, m: NormalizedMarket): T | null {
+  if (!parsed || !m.event) return parsed;
+  return { ...parsed, sport: eventSport(m) ?? parsed.sport, eventKey: `event:${m.event.id}` };
+}
+
 function inferSport(text: string): string {
   if (/\bfifa|world cup|soccer|goal|goals\b/i.test(text)) return "soccer";
   if (/\bnba|basketball\b/i.test(text)) return "basketball";
@@ -0,0 +1,49 @@
+import type { z } from "zod";
+import type { FamilyScored } from "./basicAnomalies.js";
+import type { NormalizedMarket } from "../normalize/normalizeMarkets.js";
+import type { OrderBooksSnapshot } from "../ingest/fetchOrderBooks.js";
+
+/**
+ * Common detector output. Detector-specific detail goes in `payload`; everything downstream
+ * (dashboard, Supabase, reports, lifecycle tracking) only relies on the shared fields.
+ */
+export type Signal = {
+  ts: string;
+  // Stable identity across scans: detector + key + sorted marketIds (see `signalFingerprint`).
+  fingerprint: string;
+  detector: string; // Detector.id
+  kind: string; // detector-specific sub-type, e.g. "outright_underround"
+  key: string; // stable group key (family_id, event, market...)
+  title: string;
+  score: number; // 0..1, comparable within a detector
+  edge: number | null;
+  cost?: number;
+  lockedProfit?: number; // per $1 payout, when the structure is a locked arbitrage
+  marketIds: string[];
+  reason: string;
+  payload: Record<string, unknown>;
+};
+
+// What a detector returns; the registry stamps the fingerprint.
+export type DetectorSignal = Omit<Signal, "fingerprint">;
+
+export type DetectorInput = "markets" | "families" | "books";
+
+export type DetectorContext = {
+  ts: string;
+  markets?: NormalizedMarket[];
+  families?: FamilyScored[];
+  books?: OrderBooksSnapshot;
+};
+
+export type Detector<S extends z.ZodTypeAny = z.ZodTypeAny> = {
+  id: string;
+  description: string;
+  // Inputs that must be present in the context; detectors needing books run in the "books" stage.
+  requires: readonly DetectorInput[];
+  // Tunables (with defaults). `enabled` is handled by the registry for every detector.
+  configSchema: S;
+  // Whether signals are synced to Supabase `arb_opportunities`.
+  persist: boolean;
+  run(ctx: DetectorContext, config: z.output<S>): DetectorSignal[];
+};
@@ -1,20 +1,25 @@
 import path from "node:path";
 import { writeJsonFile } from "./lib/fs.js";
+import { httpMetricsSnapshot } from "./lib/http.js";
 import { PolymarketGammaClient } from "./clients/polymarket.js";
 import { fetchMarkets } from "./ingest/fetchMarkets.js";
+import { fetchEvents, type FetchEventsResult } from "./ingest/fetchEvents.js";
+import { categoryFilterFromEnv } from "./normalize/eventMetadata.js";
+import { isTradeable } from "./normalize/normalizeMarkets.js";
 import { fetchPrices } from "./ingest/fetchPrices.js";
 import { fetchOrderBooksForMarkets } from "./ingest/fetchOrderBooks.js";
-import { buildFamilies } from "./normalize/buildFamilies.js";
-import { scoreFamilies } from "./detect/basicAnomalies.js";
-import { detectSportsSignals } from "./detect/sportsSignals.js";
-import { rankFamilies } from "./score/rank.js";
-import { normalizeGammaMarkets } from "./normalize/normalizeMarkets.js";
-import { appendFamilyRows, type PersistedFamilyRow } from "./persist/familyLog.js";
+import { fetchResolutions, type MarketResolution } from "./ingest/fetchResolutions.js";
+import { loadDetectorConfig, runDetectors, type DetectorRun } from "./detect/registry.js";
+import type { Signal } from "./detect/types.js";
+import { loadSignalLifecycle, saveSignalLifecycle, updateSignalLifecycle } from "./persist/signalLifecycle.js";
+import { analyzeMarkets } from "./pipeline/analyze.js";
+import { appendFamilyRows, familyRowsFromScored } from "./persist/familyLog.js";
 import { createFileLogger } from "./lib/logger.js";
 import { writeHeartbeat } from "./persist/heartbeat.js";
-import { runPaperTrade } from "./paper/engine.js";
-import { runPaperArbitrage } from "./paper/arb.js";
-import { writeDashboard, type Dashboard } from "./persist/dashboard.js";
+import { openPaperPositionMarketIds, runPaperTrade } from "./paper/engine.js";
+import { openPaperArbState, runPaperArbitrage } from "./paper/arb.js";
+import { dashboardPaperArb, dashboardScanBase, writeDashboard, type Dashboard } from "./persist/dashboard.js";
+import { archiveScan } from "./persist/archive.js";
 import { syncScanToSupabase } from "./persist/supabase.js";
 import { fmtNum, fmtUsd, renderTable, truncate } from "./lib/pretty.js";
 
@@ -22,9 +27,8 @@ async function main(): Promise<void> {
   const log = await createFileLogger();
   const client = new PolymarketGammaClient();
 
-  const { raw, marketsLoose, pagesFetched, gammaLimit, gammaPageLimit, maxMarkets, stopReason } = await fetchMarkets(
-    client
-  );
+  const fetched = await fetchMarkets(client);
+  const { raw, pagesRaw, marketsLoose, pagesFetched, gammaLimit, gammaPageLimit, maxMarkets, stopReason } = fetched;
   const rawCount = raw.length;
   if (rawCount === 0 || marketsLoose.length === 0) {
     await log.error(`FATAL: zero markets fetched/parsed (raw=${rawCount}, parsed=${marketsLoose.length})`);
@@ -32,38 +36,35 @@ async function main(): Promise<void> {
     return;
   }
 
-  const { markets: normalized, stats: normStats } = normalizeGammaMarkets(marketsLoose);
+  // Optional event metadata; a failure only costs the join, not the scan.
+  let events: FetchEventsResult | null = null;
+  if (process.env.GAMMA_EVENTS === "1") {
+    try {
+      events = await fetchEvents(client);
+    } catch (e: any) {
+      await log.warn(`events: fetch failed (continuing without event metadata): ${e?.message ?? String(e)}`);
+    }
+  }
+
+  const ts = new Date().toISOString();
+  const detectorConfig = await loadDetectorConfig();
+  const analysis = analyzeMarkets(marketsLoose, ts, detectorConfig, {
+    ...(events ? { events: events.events } : {}),
+    categories: categoryFilterFromEnv()
+  });
+  const { normalized, normStats, families, scored, ranked } = analysis;
+  const signals: Signal[] = [...analysis.signals];
+  const detectorRuns: DetectorRun[] = [...analysis.detectorRuns];
   await fetchPrices(normalized);
 
-  const families = buildFamilies(normalized);
   if (families.length === 0) {
     await log.error("FATAL: zero families built");
     process.exitCode = 3;
     return;
   }
-  const scored = scoreFamilies(families);
-  const ranked = rankFamilies(scored);
 
   // Persist one row per family per scan (local, read-only evaluation log).
-  const ts = new Date().toISOString();
-  const sportsSignals = detectSportsSignals(normalized, ts);
-  const rows: PersistedFamilyRow[] = scored.map((f) => ({
-    ts,
-    family_id: f.family_id,
-    family_type: f.family_type,
-    title: f.title,
-    opportunity_score: f.opportunity_score,
-    features: {
-      overround: f.features?.overround ?? null,
-      maxSpike: f.features?.maxSpike ?? null,
-      bestClusterZ: f.features?.bestClusterZ ?? null,
-      liquidityMax: f.features?.liquidityMax ?? null,
-      volumeMax: f.features?.volumeMax ?? null,
-      validPrices: f.features?.validPrices ?? null,
-      missingPrices: f.features?.missingPrices ?? null
-    }
-  }));
-  await appendFamilyRows(rows);
+  await appendFamilyRows(familyRowsFromScored(scored, ts));
 
   const outPath = path.resolve(process.cwd(), "data/out/families.json");
   await writeJsonFile(outPath, ranked);
@@ -81,76 +82,36 @@ async function main(): Promise<void> {
     topScore
   });
 
-  // Dashboard top list: prefer bucket+multi, then backfill with singles so it's never blank.
-  const rankedBucketMulti = ranked.filter((f) => f.family_type === "bucket" || f.family_type === "multi");
-  const rankedSingles = ranked.filter((f) => f.family_type === "single");
-  const topPick = [...rankedBucketMulti.slice(0, 10)];
-  if (topPick.length < 10) topPick.push(...rankedSingles.slice(0, 10 - topPick.length));
-
-  const topFamilies = topPick.map((f) => ({
-    family_id: f.family_id,
-    family_type: f.family_type,
-    title: f.title,
-    opportunity_score: f.opportunity_score,
-    reasons: f.reasons,
-    ...(f.family_type === "bucket"
-      ? {
-          features: {
-            overround: f.features?.overround ?? null,
-            maxSpike: f.features?.maxSpike ?? null,
-            bestClusterZ: f.features?.bestClusterZ ?? null,
-            liquidityMax: f.features?.liquidityMax ?? null,
-            validPrices: f.features?.validPrices ?? null,
-            missingPrices: f.features?.missingPrices ?? null
-          }
-        }
-      : {})
-  }));
-
-  const familyTypeCounts = {
-    bucket: scored.filter((f) => f.family_type === "bucket").length,
-    multi: scored.filter((f) => f.family_type === "multi").length,
-    single: scored.filter((f) => f.family_type === "single").length
-  };
-
-  const warnings: string[] = [];
-  if (bucketFamilies.length > 0 && bucketWith6Prices.length === 0) {
-    warnings.push(
-      "No high quality bucket families in this scan window; consider increasing coverage or targeting categories."
-    );
-  }
-
-  const dashboardBase: Dashboard = {
-    timestamp: ts,
-    scan: {
-      fetched: rawCount,
-      parsed: marketsLoose.length,
-      normalized: normStats.keptMarkets,
-      families: families.length,
-      bucketFamilies: bucketFamilies.length,
-      bucketFamiliesWith6ValidPrices: bucketWith6Prices.length,
-      familyTypeCounts,
-      stopReason,
-      pagesFetched,
-      limits: {
-        GAMMA_LIMIT: gammaLimit,
-        GAMMA_PAGE_LIMIT: gammaPageLimit,
-        MAX_MARKETS: maxMarkets
-      }
-    },
-    warnings,
-    topFamilies,
-    sportsSignals
-  };
+  const dashboardBase = dashboardScanBase({ ts, fetched, analysis });
+  const { warnings, topFamilies } = dashboardBase;
 
   let paperSummary: Dashboard["paper"] | undefined;
   let paperArbSummary: Dashboard["paperArb"] | undefined;
   let paperArbRunSummary: Awaited<ReturnType<typeof runPaperArbitrage>> | undefined;
+  let orderBooks: Awaited<ReturnType<typeof fetchOrderBooksForMarkets>> | undefined;
+
+  // Resolution watcher: open paper positions on resolved markets settle at the real payout (must NOT fail the scan).
+  let resolutions: Map<string, MarketResolution> | undefined;
+  if ((process.env.PAPER_TRADE === "1" || process.env.PAPER_ARB === "1") && process.env.RESOLUTION_WATCH !== "0") {
+    try {
+      const ids = [
+        ...(process.env.PAPER_TRADE === "1" ? await openPaperPositionMarketIds() : []),
+        ...(process.env.PAPER_ARB === "1"
+          ? (await openPaperArbState()).positions.flatMap((p) => p.legs.map((l) => l.marketId))
+          : [])
+      ];
+      resolutions = await fetchResolutions(client, ids);
+      if (resolutions.size) await log.info(`resolutions: ${resolutions.size} of ${new Set(ids).size} position markets resolved`);
+    } catch (e: any) {
+      await log.warn(`resolutions: fetch failed (continuing scan): ${e?.message ?? String(e)}`);
+    }
+  }
 
   // Optional paper trading step (must NOT fail the scan).
   if (process.env.PAPER_TRADE === "1") {
     try {
-      const summary = await runPaperTrade();
+      const summary = await runPaperTrade(resolutions ? { resolutions } : {});
+      for (const w of summary.warnings) await log.warn(`paper: ${w}`);
       paperSummary = {
         bankrollCashUsd: summary.bankrollCashUsd,
         realizedPnlUsd: summary.realizedPnlUsd,
@@ -168,38 +129,77 @@ async function main(): Promise<void> {
   // Optional executable-arbitrage paper trading step (read-only market data, local simulated fills).
   if (process.env.PAPER_ARB === "1") {
     try {
-      const books = await fetchOrderBooksForMarkets(normalized);
+      // Bucket, ladder and event family members go first so basket legs are not cut off by ORDERBOOK_MAX_MARKETS.
+      // Neg-risk event members are prioritized too so conversion legs see complete events.
+      // Legs that are not accepting orders are left to the untradeable filter instead.
+      const tradeableIds = new Set(normalized.filter(isTradeable).map((m) => m.marketId));
+      const priorityMarketIds = new Set(
+        [
+          ...families.flatMap((f) => f.buckets?.map((b) => b.marketId) ?? []),
+          ...families.flatMap((f) => f.ladder?.rungs.map((r) => r.marketId) ?? []),
+          ...families.flatMap((f) => f.multi?.flatMap((o) => (o.marketId ? [o.marketId] : [])) ?? []),
+          ...normalized.filter((m) => m.negRisk && m.eventId).map((m) => m.marketId)
+        ].filter((id) => tradeableIds.has(id))
+      );
+      const books = await fetchOrderBooksForMarkets(normalized, { priorityMarketIds });
+      orderBooks = books;
       for (const w of books.warnings.slice(0, 3)) await log.warn(`paper-arb: ${w}`);
-      const summary = await runPaperArbitrage(books);
+      if (books.skippedUntradeable) await log.info(`paper-arb: skipped ${books.skippedUntradeable} markets not accepting orders`);
+      const booksStage = runDetectors({ ts, markets: normalized, families: scored, books }, detectorConfig, "books");
+      signals.push(...booksStage.signals);
+      detectorRuns.push(...booksStage.runs);
+      const summary = await runPaperArbitrage(books, { ts, families, ...(resolutions ? { resolutions } : {}) });
       paperArbRunSummary = summary;
-      paperArbSummary = {
-        bankrollCashUsd: summary.bankrollCashUsd,
-        realizedPnlUsd: summary.realizedPnlUsd,
-        lockedProfitUsd: summary.lockedProfitUsd,
-        markToBidPnlUsd: summary.markToBidPnlUsd,
-        exposureUsd: summary.exposureUsd,
-        openPositionsCount: summary.openPositionsCount,
-        scannedMarkets: summary.scannedMarkets,
-        completeBooks: summary.completeBooks,
-        opportunities: summary.opportunities,
-        entered: summary.entered,
-        exited: summary.exited,
-        newTradesSummary: summary.newTradesSummary,
-        openPositionsSummary: summary.openPositionsSummary
-      };
+      signals.push(...summary.signals);
+      paperArbSummary = dashboardPaperArb(summary);
     } catch (e: any) {
       await log.warn(`paper-arb: error (continuing scan): ${e?.message ?? String(e)}`);
     }
   }
 
+  // Signal lifecycle (new / persisting / closed across scans). Only detectors that ran can close signals.
+  const ranDetectors = new Set(detectorRuns.filter((r) => r.status === "ok").map((r) => r.id));
+  if (paperArbRunSummary) ranDetectors.add("paper_arb");
+  const lifecycle = updateSignalLifecycle(await loadSignalLifecycle(), signals, ts, ranDetectors);
+  try {
+    await saveSignalLifecycle(lifecycle.state);
+  } catch (e: any) {
+    await log.warn(`signals: lifecycle save failed (continuing scan): ${e?.message ?? String(e)}`);
+  }
+
   const dashboard: Dashboard = {
     ...dashboardBase,
+    // Refreshed so CLOB / price calls made after discovery are counted too.
+    scan: { ...dashboardBase.scan, http: httpMetricsSnapshot() },
     ...(paperSummary ? { paper: paperSummary } : {}),
+    ...(lifecycle.signals.length ? { signals: lifecycle.signals } : {}),
+    ...(lifecycle.closed.length ? { closedSignals: lifecycle.closed } : {}),
+    signalCounts: { new: lifecycle.opened.length, persisting: lifecycle.persisting.length, closed: lifecycle.closed.length },
+    detectors: detectorRuns,
     ...(paperArbSummary ? { paperArb: paperArbSummary } : {})
   };
 
   await writeDashboard(dashboard);
 
+  // Raw snapshot archive for replays/debugging (must NOT fail the scan).
+  let archiveLine: string | null = null;
+  if (process.env.ARCHIVE !== "0") {
+    try {
+      const archived = await archiveScan({
+        ts,
+        gammaPages: pagesRaw,
+        maxMarkets: fetched.pagesMarketCap,
+        ...(events ? { gammaEventPages: events.pagesRaw } : {}),
+        ...(orderBooks ? { orderBooks } : {})
+      });
+      const sizeKb = archived.entry.bytes / 1024;
+      const totalMb = archived.totalBytes / 1024 / 1024;
+      archiveLine = `archive: ${archived.entry.dir} size=${sizeKb.toFixed(0)}KB total=${totalMb.toFixed(1)}MB pruned=${archived.pruned.length}`;
+    } catch (e: any) {
+      await log.warn(`archive: write failed (continuing scan): ${e?.message ?? String(e)}`);
+    }
+  }
+
   try {
     await syncScanToSupabase({ dashboard, ...(paperArbRunSummary ? { paperArbSummary: paperArbRunSummary } : {}) });
   } catch (e: any) {
@@ -216,13 +216,42 @@ async function main(): Promise<void> {
   summaryLines.push(
     `limits: GAMMA_LIMIT=${gammaLimit} GAMMA_PAGE_LIMIT=${gammaPageLimit ?? "unset"} MAX_MARKETS=${maxMarkets ?? "unset"}`
   );
+  if (analysis.eventJoin) {
+    const j = analysis.eventJoin;
+    summaryLines.push(
+      `events: fetched=${j.events} joinedMarkets=${j.joined} eventIdFilled=${j.eventIdFilled} eventIdCorrected=${j.eventIdCorrected}`
+    );
+  }
+  if (analysis.categoryFiltered !== undefined) summaryLines.push(`category filter: dropped=${analysis.categoryFiltered}`);
+  if (fetched.coverage) {
+    const c = fetched.coverage;
+    summaryLines.push(
+      `catalog: size=${c.catalogSize} fetched=${c.fetched} new=${c.added} changed=${c.changed} removed=${c.removed} deltaPages=${c.deltaPages} sweepPages=${c.sweepPages} sweep=${c.sweep}${c.sweepOffset !== null ? `@${c.sweepOffset}` : ""} lastFullSweep=${c.lastFullSweepAt ?? "never"}`
+    );
+  }
   summaryLines.push(
     `families=${families.length} buckets=${bucketFamilies.length} buckets(>=6 prices)=${bucketWith6Prices.length} topScore=${fmtNum(topScore, 3)}`
   );
   if (warnings.length) summaryLines.push(`warning: ${warnings[0]}`);
-  if (sportsSignals.length) summaryLines.push(`sportsSignals=${sportsSignals.length} top=${truncate(sportsSignals[0]!.title, 60)}`);
+  for (const run of detectorRuns) {
+    if (run.status === "error") summaryLines.push(`detector ${run.id}: error ${run.error ?? ""}`);
+    if (run.status !== "ok" || run.signals === 0) continue;
+    const top = signals.filter((s) => s.detector === run.id).sort((a, b) => b.score - a.score)[0];
+    summaryLines.push(`signals ${run.id}=${run.signals}${top ? ` top=${top.kind} ${truncate(top.title, 50)}` : ""}`);
+  }
+  summaryLines.push(
+    `signal lifecycle: new=${lifecycle.opened.length} persisting=${lifecycle.persisting.length} closed=${lifecycle.closed.length}${
+      lifecycle.opened[0] ? ` topNew=${lifecycle.opened[0].detector}/${truncate(lifecycle.opened[0].title, 40)}` : ""
+    }`
+  );
+  for (const m of dashboard.scan.http ?? []) {
+    summaryLines.push(
+      `http ${m.endpoint}: requests=${m.requests} retries=${m.retries} failures=${m.failures} p50=${m.p50Ms ?? "n/a"}ms p90=${m.p90Ms ?? "n/a"}ms kb=${(m.bytes / 1024).toFixed(0)}`
+    );
+  }
   summaryLines.push(`outputs: data/out/families.json data/out/dashboard.json`);
   summaryLines.push(`heartbeat: data/db/last_scan.json`);
+  if (archiveLine) summaryLines.push(archiveLine);
   if (paperSummary) {
     summaryLines.push(
       `paper: positions=${paperSummary.openPositionsCount} exposure=${fmtUsd(paperSummary.exposureUsd)} cash=${fmtUsd(
@@ -232,7 +261,7 @@ async function main(): Promise<void> {
   }
   if (paperArbSummary) {
     summaryLines.push(
-      `paper-arb: opps=${paperArbSummary.opportunities} entered=${paperArbSummary.entered} positions=${paperArbSummary.openPositionsCount} exposure=${fmtUsd(
+      `paper-arb: opps=${paperArbSummary.opportunities} entered=${paperArbSummary.entered} merged=${paperArbSummary.merged} mintSells=${paperArbSummary.mintSells} conversions=${paperArbSummary.conversions} riskRejected=${paperArbSummary.riskRejected} positions=${paperArbSummary.openPositionsCount} exposure=${fmtUsd(
         paperArbSummary.exposureUsd
       )} locked=${fmtUsd(paperArbSummary.lockedProfitUsd)} markPnL=${fmtUsd(
         paperArbSummary.markToBidPnlUsd
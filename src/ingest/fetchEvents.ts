@@ -0,0 +1,69 @@
+import path from "node:path";
+import { writeJsonFile } from "../lib/fs.js";
+import { PolymarketGammaClient, extractEventsArray, parseEventsLoosely } from "../clients/polymarket.js";
+import { eventsFromGamma, type EventMeta } from "../normalize/eventMetadata.js";
+
+export type FetchEventsResult = {
+  raw: unknown[]; // verbatim event objects (concatenated across pages)
+  pagesRaw: unknown[]; // verbatim page responses, in fetch order (for the raw archive)
+  events: EventMeta[];
+  pagesFetched: number;
+  stopReason: string;
+};
+
+/**
+ * Optional event metadata pass (`GAMMA_EVENTS=1`): pages through open Gamma `/events` so markets can
+ * be joined to their real event (see `joinEventMetadata`).
+ *
+ * Env vars:
+ * - GAMMA_EVENTS_LIMIT: page size (default 100)
+ * - GAMMA_EVENTS_PAGE_LIMIT: max pages (unset = until a short page)
+ */
+export async function fetchEvents(client: PolymarketGammaClient): Promise<FetchEventsResult> {
+  const limit = envIntOr("GAMMA_EVENTS_LIMIT", 100, { min: 1, max: 500 });
+  const pageLimit = envIntOr("GAMMA_EVENTS_PAGE_LIMIT", 0, { min: 0, max: 500 }) || null;
+  const raw: unknown[] = [];
+  const pagesRaw: unknown[] = [];
+  const seenFirstIds = new Set<string>();
+  let stopReason = "unknown";
+
+  for (let offset = 0; ; ) {
+    if (pageLimit !== null && pagesRaw.length >= pageLimit) {
+      stopReason = `pageLimitReached(${pageLimit})`;
+      break;
+    }
+    const page = await client.fetchEventsRaw({ active: true, closed: false, limit, offset });
+    const arr = extractEventsArray(page);
+    pagesRaw.push(page);
+    if (arr.length === 0) {
+      stopReason = "emptyPage";
+      break;
+    }
+    const firstId = String((arr[0] as { id?: unknown })?.id ?? "");
+    if (firstId && seenFirstIds.has(firstId)) {
+      stopReason = "duplicatePage";
+      break;
+    }
+    if (firstId) seenFirstIds.add(firstId);
+    raw.push(...arr);
+    offset += arr.length;
+    if (arr.length < limit) {
+      stopReason = `shortPage(len=${arr.length})`;
+      break;
+    }
+  }
+
+  await writeJsonFile(path.resolve(process.cwd(), "data/raw/events_raw.json"), raw);
+  return { raw, pagesRaw, events: eventsFromGamma(parseEventsLoosely(raw)), pagesFetched: pagesRaw.length, stopReason };
+}
+
+function envIntOr(name: string, fallback: number, bounds?: { min?: number; max?: number }): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return fallback;
+  const i = Math.trunc(n);
+  if (bounds?.min !== undefined && i < bounds.min) return bounds.min;
+  if (bounds?.max !== undefined && i > bounds.max) return bounds.max;
+  return i;
+}
@@ -1,16 +1,35 @@
 import path from "node:path";
 import { writeJsonFile } from "../lib/fs.js";
 import { PolymarketGammaClient, extractMarketsArray, parseMarketsLoosely, type GammaMarketLoose } from "../clients/polymarket.js";
+import {
+  catalogMarkets,
+  loadMarketCatalog,
+  saveMarketCatalog,
+  syncMarketCatalog,
+  type CatalogSyncStats
+} from "./marketCatalog.js";
+
+// Incremental discovery only: catalog size handed to analysis versus what this run fetched.
+export type DiscoveryCoverage = CatalogSyncStats & {
+  mode: "incremental";
+  catalogSize: number;
+  lastFullSweepAt: string | null;
+  sweepOffset: number | null;
+};
 
 export type FetchMarketsResult = {
   raw: unknown[]; // verbatim market objects from API (concatenated across pages)
+  pagesRaw: unknown[]; // verbatim page responses, in fetch order (for the raw archive)
   marketsLoose: GammaMarketLoose[]; // optional parsed subset
   fetchedAtIso: string;
   pagesFetched: number;
   gammaLimit: number;
   gammaPageLimit: number | null;
   maxMarkets: number | null;
+  // The scan kept only the first N markets of `pagesRaw` (the MAX_MARKETS trim); null = all of them.
+  pagesMarketCap: number | null;
   stopReason: string;
+  coverage?: DiscoveryCoverage;
 };
 
 export async function fetchMarkets(client: PolymarketGammaClient): Promise<FetchMarketsResult> {
@@ -28,7 +47,11 @@ export async function fetchMarkets(client: PolymarketGammaClient): Promise<Fetch
   const gammaLimit = envIntOr("GAMMA_LIMIT", 200, { min: 1, max: 500 });
   const gammaPageLimit = envIntOpt("GAMMA_PAGE_LIMIT", { min: 1, max: 500 });
   const maxMarkets = envIntOpt("MAX_MARKETS", { min: 1, max: 1_000_000 });
+  if (process.env.GAMMA_INCREMENTAL === "1") {
+    return await fetchMarketsIncremental(client, { fetchedAtIso, gammaLimit, gammaPageLimit, maxMarkets });
+  }
   const rawMarkets: unknown[] = [];
+  const pagesRaw: unknown[] = [];
   let pagesFetched = 0;
   let stopReason = "unknown";
   let offset = 0;
@@ -47,6 +70,7 @@ export async function fetchMarkets(client: PolymarketGammaClient): Promise<Fetch
     const pageRaw = await client.fetchMarketsRaw({ active: true, closed: false, limit: gammaLimit, offset });
     const arr = extractMarketsArray(pageRaw);
     pagesFetched += 1;
+    pagesRaw.push(pageRaw);
 
     if (arr.length === 0) {
       stopReason = "emptyPage";
@@ -83,16 +107,64 @@ export async function fetchMarkets(client: PolymarketGammaClient): Promise<Fetch
 
   return {
     raw: rawMarkets,
+    pagesRaw,
     marketsLoose,
     fetchedAtIso,
     pagesFetched,
     gammaLimit,
     gammaPageLimit,
     maxMarkets,
+    pagesMarketCap: maxMarkets,
     stopReason
   };
 }
 
+/**
+ * Incremental discovery (`GAMMA_INCREMENTAL=1`): sync the local market catalog (see `marketCatalog.ts`)
+ * and hand the whole catalog to analysis. `GAMMA_PAGE_LIMIT` / `MAX_MARKETS` become per-run fetch
+ * budgets instead of caps on the universe, so markets beyond them are no longer dropped.
+ */
+async function fetchMarketsIncremental(
+  client: PolymarketGammaClient,
+  args: { fetchedAtIso: string; gammaLimit: number; gammaPageLimit: number | null; maxMarkets: number | null }
+): Promise<FetchMarketsResult> {
+  const catalog = await loadMarketCatalog();
+  const stats = await syncMarketCatalog(client, catalog, {
+    ts: args.fetchedAtIso,
+    limit: args.gammaLimit,
+    pageLimit: args.gammaPageLimit,
+    maxMarkets: args.maxMarkets,
+    sweepIntervalMs: envIntOr("GAMMA_SWEEP_INTERVAL_HOURS", 6, { min: 1, max: 24 * 7 }) * 3600_000
+  });
+  await saveMarketCatalog(catalog);
+
+  const rawMarkets = catalogMarkets(catalog);
+  await writeJsonFile(path.resolve(process.cwd(), "data/raw/markets_raw.json"), rawMarkets);
+
+  const coverage: DiscoveryCoverage = {
+    mode: "incremental",
+    catalogSize: rawMarkets.length,
+    ...stats,
+    lastFullSweepAt: catalog.lastFullSweepAt,
+    sweepOffset: catalog.sweep?.offset ?? null
+  };
+  return {
+    raw: rawMarkets,
+    // One synthetic page holding the catalog, so archives and replays see the full universe
+    // rather than this run's delta.
+    pagesRaw: [rawMarkets],
+    marketsLoose: parseMarketsLoosely(rawMarkets),
+    fetchedAtIso: args.fetchedAtIso,
+    pagesFetched: stats.deltaPages + stats.sweepPages,
+    gammaLimit: args.gammaLimit,
+    gammaPageLimit: args.gammaPageLimit,
+    maxMarkets: args.maxMarkets,
+    pagesMarketCap: null,
+    stopReason: `incremental(delta=${stats.deltaStop},sweep=${stats.sweep}) catalog=${rawMarkets.length} fetched=${stats.fetched}`,
+    coverage
+  };
+}
+
 function pageFingerprint(arr: unknown[]): string | null {
   if (arr.length === 0) return null;
   const first = objectId(arr[0]);
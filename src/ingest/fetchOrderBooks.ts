@@ -1,16 +1,22 @@
 import path from "node:path";
-import { PolymarketClobClient, type ClobOrderBook } from "../clients/clob.js";
+import { PolymarketClobClient, type ClobBookSource, type ClobOrderBook } from "../clients/clob.js";
 import { writeJsonFile } from "../lib/fs.js";
-import type { NormalizedMarket } from "../normalize/normalizeMarkets.js";
+import { isTradeable, type NormalizedMarket } from "../normalize/normalizeMarkets.js";
+import { marketCategory } from "../normalize/eventMetadata.js";
 
 export type MarketOrderBookPair = {
   marketId: string;
   conditionId?: string;
   title: string;
+  eventId?: string;
   yesTokenId: string;
   noTokenId: string;
   tickSize?: number;
   negRisk?: boolean;
+  // Scheduled resolution (market end date, else its event's), for capital-efficiency ranking.
+  endDate?: string;
+  // Category / sport for portfolio risk limits (see `marketCategory`).
+  category?: string;
   yes: ClobOrderBook | null;
   no: ClobOrderBook | null;
 };
@@ -21,18 +27,38 @@ export type OrderBooksSnapshot = {
   requestedTokens: number;
   receivedBooks: number;
   markets: MarketOrderBookPair[];
+  // Binary markets per eventId among the scanned markets (before the ORDERBOOK_MAX_MARKETS cap),
+  // so consumers can tell whether an event's books are complete.
+  eventMarketCounts?: Record<string, number>;
+  // Non-priority binary markets left out because Gamma reports them closed, archived or not accepting orders.
+  skippedUntradeable?: number;
   warnings: string[];
 };
 
 export async function fetchOrderBooksForMarkets(
   markets: NormalizedMarket[],
-  opts: { client?: PolymarketClobClient; maxMarkets?: number; batchSize?: number } = {}
+  opts: {
+    client?: ClobBookSource;
+    maxMarkets?: number;
+    batchSize?: number;
+    // Markets that must be fetched before the ORDERBOOK_MAX_MARKETS cap applies (e.g. bucket family members).
+    // Priority markets are fetched even when not tradeable, so open positions keep their marks.
+    priorityMarketIds?: Set<string>;
+  } = {}
 ): Promise<OrderBooksSnapshot> {
   const fetchedAtIso = new Date().toISOString();
-  const eligible = markets
-    .filter((m) => m.outcomes.length === 2 && m.yesTokenId && m.noTokenId)
+  const priority = opts.priorityMarketIds ?? new Set<string>();
+  const binary = markets.filter((m) => m.outcomes.length === 2 && m.yesTokenId && m.noTokenId);
+  const rest = binary.filter((m) => !priority.has(m.marketId));
+  const tradeable = rest.filter(isTradeable);
+  const eligible = [...binary.filter((m) => priority.has(m.marketId)), ...tradeable]
     .slice(0, opts.maxMarkets ?? envIntOr("ORDERBOOK_MAX_MARKETS", 500, { min: 1, max: 10_000 }));
 
+  const eventMarketCounts: Record<string, number> = {};
+  for (const m of binary) {
+    if (m.eventId) eventMarketCounts[m.eventId] = (eventMarketCounts[m.eventId] ?? 0) + 1;
+  }
+
   const tokenIds = eligible.flatMap((m) => [m.yesTokenId!, m.noTokenId!]);
   const client = opts.client ?? new PolymarketClobClient();
   const batchSize = opts.batchSize ?? envIntOr("ORDERBOOK_BATCH_SIZE", 250, { min: 1, max: 500 });
@@ -49,17 +75,24 @@ export async function fetchOrderBooksForMarkets(
     }
   }
 
-  const pairs: MarketOrderBookPair[] = eligible.map((m) => ({
-    marketId: m.marketId,
-    ...(m.conditionId ? { conditionId: m.conditionId } : {}),
-    title: m.title,
-    yesTokenId: m.yesTokenId!,
-    noTokenId: m.noTokenId!,
-    ...(m.tickSize !== undefined ? { tickSize: m.tickSize } : {}),
-    ...(m.negRisk !== undefined ? { negRisk: m.negRisk } : {}),
-    yes: booksByToken.get(m.yesTokenId!) ?? null,
-    no: booksByToken.get(m.noTokenId!) ?? null
-  }));
+  const pairs: MarketOrderBookPair[] = eligible.map((m) => {
+    const endDate = m.endDate ?? m.event?.endDate;
+    const category = marketCategory(m);
+    return {
+      marketId: m.marketId,
+      ...(m.conditionId ? { conditionId: m.conditionId } : {}),
+      title: m.title,
+      ...(m.eventId ? { eventId: m.eventId } : {}),
+      yesTokenId: m.yesTokenId!,
+      noTokenId: m.noTokenId!,
+      ...(m.tickSize !== undefined ? { tickSize: m.tickSize } : {}),
+      ...(m.negRisk !== undefined ? { negRisk: m.negRisk } : {}),
+      ...(endDate ? { endDate } : {}),
+      ...(category ? { category } : {}),
+      yes: booksByToken.get(m.yesTokenId!) ?? null,
+      no: booksByToken.get(m.noTokenId!) ?? null
+    };
+  });
 
   const snapshot: OrderBooksSnapshot = {
     fetchedAtIso,
@@ -67,6 +100,8 @@ export async function fetchOrderBooksForMarkets(
     requestedTokens: tokenIds.length,
     receivedBooks: booksByToken.size,
     markets: pairs,
+    eventMarketCounts,
+    ...(rest.length > tradeable.length ? { skippedUntradeable: rest.length - tradeable.length } : {}),
     warnings
   };
 
@@ -0,0 +1,91 @@
+import {
+  PolymarketGammaClient,
+  extractMarketsArray,
+  parseMarketsLoosely,
+  type GammaMarketLoose
+} from "../clients/polymarket.js";
+import { normalizeGammaMarkets } from "../normalize/normalizeMarkets.js";
+
+export type MarketResolution = {
+  marketId: string;
+  resolvedAt?: string;
+  // Payout per share by outcome label: 1/0 for a winner, 0.5 each for a voided / 50-50 market.
+  payouts: Record<string, number>;
+  winner: string | null; // null when the payout is split
+};
+
+// Resolved outcome prices are exact; anything else is a last trade on a closed-but-unresolved market.
+const PAYOUT_LEVELS = [0, 0.5, 1];
+const EPS = 1e-6;
+
+/**
+ * Read the final payout of a closed Gamma market, or null while it is open or the oracle has not
+ * settled it (proposed / disputed, or prices that are not a clean 0/1 or 0.5/0.5 split).
+ */
+export function resolutionFromGamma(raw: GammaMarketLoose): MarketResolution | null {
+  if (raw.closed !== true) return null;
+  if (raw.umaResolutionStatus && raw.umaResolutionStatus.toLowerCase() !== "resolved") return null;
+  const m = normalizeGammaMarkets([raw]).markets[0];
+  if (!m || m.outcomes.length < 2) return null;
+
+  const payouts: Record<string, number> = {};
+  for (const o of m.outcomes) {
+    const p = m.prices[o];
+    const level = typeof p === "number" ? PAYOUT_LEVELS.find((x) => Math.abs(p - x) < EPS) : undefined;
+    if (level === undefined) return null;
+    payouts[o] = level;
+  }
+  if (Math.abs(Object.values(payouts).reduce((a, b) => a + b, 0) - 1) > EPS) return null;
+
+  const resolvedAt = raw.closedTime ? Date.parse(raw.closedTime) : Number.NaN;
+  return {
+    marketId: m.marketId,
+    ...(Number.isFinite(resolvedAt) ? { resolvedAt: new Date(resolvedAt).toISOString() } : {}),
+    payouts,
+    winner: m.outcomes.find((o) => payouts[o] === 1) ?? null
+  };
+}
+
+// Outcome labels differ in case between ledgers ("Yes" vs "YES").
+export function payoutFor(res: MarketResolution, outcome: string): number | null {
+  const key = outcome.trim().toLowerCase();
+  for (const [label, payout] of Object.entries(res.payouts)) {
+    if (label.trim().toLowerCase() === key) return payout;
+  }
+  return null;
+}
+
+/**
+ * Resolution watcher: polls Gamma for the closed markets among `marketIds` (the open paper
+ * positions) and returns the ones with a final payout, keyed by marketId.
+ *
+ * Env vars:
+ * - RESOLUTION_BATCH_SIZE: ids per `/markets` request (default 50)
+ */
+export async function fetchResolutions(
+  client: PolymarketGammaClient,
+  marketIds: Iterable<string>
+): Promise<Map<string, MarketResolution>> {
+  const ids = [...new Set(marketIds)];
+  const batchSize = envIntOr("RESOLUTION_BATCH_SIZE", 50, { min: 1, max: 200 });
+  const out = new Map<string, MarketResolution>();
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const page = await client.fetchMarketsByIdsRaw(ids.slice(i, i + batchSize), { closed: true });
+    for (const m of parseMarketsLoosely(extractMarketsArray(page))) {
+      const res = resolutionFromGamma(m);
+      if (res) out.set(res.marketId, res);
+    }
+  }
+  return out;
+}
+
+function envIntOr(name: string, fallback: number, bounds?: { min?: number; max?: number }): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return fallback;
+  const i = Math.trunc(n);
+  if (bounds?.min !== undefined && i < bounds.min) return bounds.min;
+  if (bounds?.max !== undefined && i > bounds.max) return bounds.max;
+  return i;
+}
@@ -0,0 +1,276 @@
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import { writeJsonFile } from "../lib/fs.js";
+import { extractMarketsArray, type PolymarketGammaClient } from "../clients/polymarket.js";
+
+export type CatalogEntry = {
+  id: string;
+  updatedAt: string | null;
+  firstSeen: string;
+  lastSeen: string;
+  raw: unknown; // verbatim market object from the latest fetch
+};
+
+/**
+ * Local copy of the open Gamma market universe, so discovery only has to fetch what changed.
+ * `watermark` is the newest `updatedAt` in the catalog; `sweep` is the cursor of a reconciliation
+ * sweep that ran out of page budget and resumes next run.
+ */
+export type MarketCatalog = {
+  version: 1;
+  updatedAt: string | null;
+  watermark: string | null;
+  lastFullSweepAt: string | null;
+  sweep: { startedAt: string; offset: number } | null;
+  markets: Record<string, CatalogEntry>;
+};
+
+export type CatalogSyncStats = {
+  deltaPages: number;
+  sweepPages: number;
+  fetched: number;
+  added: number;
+  changed: number;
+  removed: number;
+  // `caughtUp` (reached the watermark), `endOfList`, `budget`, `orderingUnsupported` or `skipped`.
+  deltaStop: string;
+  sweep: "none" | "partial" | "complete";
+};
+
+export type CatalogSyncOptions = {
+  ts: string;
+  limit: number;
+  // Page / market budget for this run across delta and sweep (null = unlimited).
+  pageLimit: number | null;
+  maxMarkets: number | null;
+  // A full reconciliation sweep starts when the last one is older than this.
+  sweepIntervalMs: number;
+};
+
+type GammaMarketsSource = Pick<PolymarketGammaClient, "fetchMarketsRaw">;
+
+export function emptyMarketCatalog(): MarketCatalog {
+  return { version: 1, updatedAt: null, watermark: null, lastFullSweepAt: null, sweep: null, markets: {} };
+}
+
+export function defaultMarketCatalogPath(): string {
+  return path.resolve(process.cwd(), "data/db/market_catalog.json");
+}
+
+export async function loadMarketCatalog(filePath = defaultMarketCatalogPath()): Promise<MarketCatalog> {
+  try {
+    const parsed = JSON.parse(await readFile(filePath, "utf8")) as MarketCatalog;
+    if (parsed?.version !== 1 || typeof parsed.markets !== "object") return emptyMarketCatalog();
+    return parsed;
+  } catch {
+    return emptyMarketCatalog();
+  }
+}
+
+export async function saveMarketCatalog(catalog: MarketCatalog, filePath = defaultMarketCatalogPath()): Promise<void> {
+  await writeJsonFile(filePath, catalog);
+}
+
+// Catalog markets in first-seen order, as the verbatim objects downstream parsing expects.
+export function catalogMarkets(catalog: MarketCatalog): unknown[] {
+  return Object.values(catalog.markets)
+    .sort((a, b) => a.firstSeen.localeCompare(b.firstSeen))
+    .map((e) => e.raw);
+}
+
+/**
+ * Brings the catalog up to date with two passes (mutates `catalog`):
+ *
+ * 1. Delta: `/markets` ordered by `updatedAt` descending, stopping at the first page that reaches the
+ *    watermark. New and changed markets are upserted; markets that come back closed are dropped.
+ * 2. Reconciliation sweep, when due (never swept, interval elapsed, a previous sweep is unfinished, or
+ *    the API ignored the ordering): full pagination of open markets. Markets not seen since the sweep
+ *    started are closed/delisted and removed. A sweep that runs out of budget saves its offset and
+ *    resumes next run (one page back, to absorb markets that dropped out in between).
+ */
+export async function syncMarketCatalog(
+  client: GammaMarketsSource,
+  catalog: MarketCatalog,
+  opts: CatalogSyncOptions
+): Promise<CatalogSyncStats> {
+  const stats: CatalogSyncStats = {
+    deltaPages: 0,
+    sweepPages: 0,
+    fetched: 0,
+    added: 0,
+    changed: 0,
+    removed: 0,
+    deltaStop: "skipped",
+    sweep: "none"
+  };
+  const budgetLeft = () =>
+    (opts.pageLimit === null || stats.deltaPages + stats.sweepPages < opts.pageLimit) &&
+    (opts.maxMarkets === null || stats.fetched < opts.maxMarkets);
+  const ingest = (arr: unknown[]) => {
+    stats.fetched += arr.length;
+    const r = upsertMarkets(catalog, arr, opts.ts);
+    stats.added += r.added;
+    stats.changed += r.changed;
+    stats.removed += r.removed;
+  };
+
+  let forceSweep = false;
+  const watermark = catalog.watermark;
+  if (watermark !== null) {
+    for (let offset = 0; ; ) {
+      if (!budgetLeft()) {
+        stats.deltaStop = "budget";
+        break;
+      }
+      const arr = extractMarketsArray(
+        await client.fetchMarketsRaw({ active: true, closed: false, limit: opts.limit, offset, order: "updatedAt", ascending: false })
+      );
+      stats.deltaPages += 1;
+      if (!isDescendingByUpdatedAt(arr)) {
+        // Ordering not honoured: the page is still valid data, but the watermark stop is not.
+        ingest(arr);
+        stats.deltaStop = "orderingUnsupported";
+        forceSweep = true;
+        break;
+      }
+      ingest(arr);
+      const oldest = arr.length ? updatedAtOf(arr[arr.length - 1]) : null;
+      if (oldest !== null && oldest <= watermark) {
+        stats.deltaStop = "caughtUp";
+        break;
+      }
+      if (arr.length < opts.limit) {
+        stats.deltaStop = "endOfList";
+        break;
+      }
+      offset += arr.length;
+    }
+  }
+
+  const lastSweep = catalog.lastFullSweepAt ? Date.parse(catalog.lastFullSweepAt) : null;
+  const sweepDue =
+    forceSweep ||
+    catalog.sweep !== null ||
+    lastSweep === null ||
+    Date.parse(opts.ts) - lastSweep >= opts.sweepIntervalMs;
+  if (sweepDue && budgetLeft()) {
+    const sweep = catalog.sweep ?? { startedAt: opts.ts, offset: 0 };
+    let offset = Math.max(0, sweep.offset - (catalog.sweep ? opts.limit : 0));
+    let done = false;
+    const seen = new Set<string>();
+    while (budgetLeft()) {
+      const arr = extractMarketsArray(
+        await client.fetchMarketsRaw({ active: true, closed: false, limit: opts.limit, offset, order: "id", ascending: true })
+      );
+      stats.sweepPages += 1;
+      ingest(arr);
+      // Same first/last ids as the previous page: the API is repeating itself, treat as the end.
+      const fp = arr.length ? `${marketId(arr[0])}:${marketId(arr[arr.length - 1])}` : "";
+      if (arr.length < opts.limit || seen.has(fp)) {
+        done = true;
+        break;
+      }
+      seen.add(fp);
+      offset += arr.length;
+    }
+    if (done) {
+      stats.removed += removeUnseenSince(catalog, sweep.startedAt);
+      catalog.lastFullSweepAt = opts.ts;
+      catalog.sweep = null;
+      stats.sweep = "complete";
+    } else {
+      catalog.sweep = { startedAt: sweep.startedAt, offset };
+      stats.sweep = "partial";
+    }
+  }
+
+  catalog.updatedAt = opts.ts;
+  catalog.watermark = maxUpdatedAt(catalog) ?? watermark;
+  return stats;
+}
+
+/**
+ * Upserts markets by id (markets without an id cannot be tracked and are skipped). A market counts as
+ * changed when its `updatedAt` moved, or, lacking one, when its JSON differs.
+ */
+export function upsertMarkets(
+  catalog: MarketCatalog,
+  arr: unknown[],
+  ts: string
+): { added: number; changed: number; removed: number } {
+  let added = 0;
+  let changed = 0;
+  let removed = 0;
+  for (const raw of arr) {
+    const id = marketId(raw);
+    if (!id) continue;
+    const prev = catalog.markets[id];
+    if (isClosed(raw)) {
+      if (prev) {
+        delete catalog.markets[id];
+        removed += 1;
+      }
+      continue;
+    }
+    const updatedAt = updatedAtOf(raw);
+    if (!prev) added += 1;
+    else if (updatedAt !== null ? updatedAt !== prev.updatedAt : JSON.stringify(raw) !== JSON.stringify(prev.raw)) changed += 1;
+    catalog.markets[id] = { id, updatedAt, firstSeen: prev?.firstSeen ?? ts, lastSeen: ts, raw };
+  }
+  return { added, changed, removed };
+}
+
+function removeUnseenSince(catalog: MarketCatalog, since: string): number {
+  let removed = 0;
+  for (const [id, e] of Object.entries(catalog.markets)) {
+    if (e.lastSeen < since) {
+      delete catalog.markets[id];
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+function maxUpdatedAt(catalog: MarketCatalog): string | null {
+  let max: string | null = null;
+  for (const e of Object.values(catalog.markets)) {
+    if (e.updatedAt !== null && (max === null || e.updatedAt > max)) max = e.updatedAt;
+  }
+  return max;
+}
+
+function isDescendingByUpdatedAt(arr: unknown[]): boolean {
+  let prev: string | null = null;
+  for (const m of arr) {
+    const u = updatedAtOf(m);
+    if (u === null) return false;
+    if (prev !== null && u > prev) return false;
+    prev = u;
+  }
+  return true;
+}
+
+// Normalized to ISO so string comparison orders correctly.
+function updatedAtOf(v: unknown): string | null {
+  if (!v || typeof v !== "object") return null;
+  const obj = v as Record<string, unknown>;
+  const raw = obj.updatedAt ?? obj.updated_at;
+  if (typeof raw !== "string") return null;
+  const ms = Date.parse(raw);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+function isClosed(v: unknown): boolean {
+  if (!v || typeof v !== "object") return false;
+  const obj = v as Record<string, unknown>;
+  return obj.closed === true || obj.active === false || obj.archived === true;
+}
+
+function marketId(v: unknown): string | undefined {
+  if (!v || typeof v !== "object") return undefined;
+  const obj = v as Record<string, unknown>;
+  const id = obj.id ?? obj.market_id ?? obj.conditionId ?? obj.condition_id;
+  if (typeof id === "string" && id.trim()) return id.trim();
+  if (typeof id === "number" && Number.isFinite(id)) return String(id);
+  return undefined;
+}
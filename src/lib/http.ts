@@ -4,25 +4,85 @@ export class HttpError extends Error {
   public readonly status: number;
   public readonly url: string;
   public readonly bodyText: string | undefined;
+  public readonly retryAfterMs: number | undefined;
 
-  constructor(args: { status: number; url: string; bodyText: string | undefined }) {
+  constructor(args: { status: number; url: string; bodyText: string | undefined; retryAfterMs?: number | undefined }) {
     super(`HTTP ${args.status} for ${args.url}`);
     this.status = args.status;
     this.url = args.url;
     this.bodyText = args.bodyText;
+    this.retryAfterMs = args.retryAfterMs;
   }
 }
 
-export async function getJson<T = unknown>(
-  url: string,
-  opts?: { timeoutMs?: number; headers?: Record<string, string>; method?: "GET" | "POST"; body?: string }
-): Promise<T> {
+export type RetryPolicy = {
+  // Extra attempts after the first one.
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type GetJsonOptions = {
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  method?: "GET" | "POST";
+  body?: string;
+  // Retries are only made for idempotent calls; GET is idempotent by default, POST must opt in
+  // (e.g. CLOB `/books`, which is a read despite the verb).
+  idempotent?: boolean;
+  retry?: Partial<RetryPolicy>;
+  // Metrics key; defaults to `host/path` of the URL.
+  endpoint?: string;
+};
+
+/**
+ * JSON fetch with per-host rate limiting, retries and metrics.
+ *
+ * Idempotent calls are retried on timeouts, network errors, 429 and 5xx with jittered exponential
+ * backoff; a `Retry-After` header (seconds or HTTP date) replaces the computed delay, still capped by
+ * `maxDelayMs`. Every attempt first takes a token from the host's bucket (`HTTP_RATE_LIMIT_RPS`,
+ * `HTTP_RATE_LIMIT_BURST`), so Gamma and CLOB callers share one budget per host.
+ */
+export async function getJson<T = unknown>(url: string, opts?: GetJsonOptions): Promise<T> {
+  const method = opts?.method ?? "GET";
+  const idempotent = opts?.idempotent ?? method === "GET";
+  const policy = { ...defaultRetryPolicy(), ...(opts?.retry ?? {}) };
+  const maxAttempts = idempotent ? policy.retries + 1 : 1;
+  const parsed = new URL(url);
+  const stats = endpointStats(opts?.endpoint ?? `${parsed.host}${parsed.pathname}`);
+
+  for (let attempt = 1; ; attempt++) {
+    await rateLimiterFor(parsed.host).take();
+    const started = Date.now();
+    stats.requests += 1;
+    if (attempt > 1) stats.retries += 1;
+    try {
+      const { value, bytes } = await attemptJson<T>(url, method, opts);
+      stats.bytes += bytes;
+      recordLatency(stats, Date.now() - started);
+      return value;
+    } catch (e) {
+      recordLatency(stats, Date.now() - started);
+      const status = e instanceof HttpError ? e.status : 0;
+      stats.statusCounts[String(status)] = (stats.statusCounts[String(status)] ?? 0) + 1;
+      if (attempt >= maxAttempts || !isRetryable(e)) {
+        stats.failures += 1;
+        throw e;
+      }
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+      const retryAfter = e instanceof HttpError ? e.retryAfterMs : undefined;
+      await sleep(Math.min(policy.maxDelayMs, retryAfter ?? backoff));
+    }
+  }
+}
+
+async function attemptJson<T>(url: string, method: "GET" | "POST", opts?: GetJsonOptions): Promise<{ value: T; bytes: number }> {
   const controller = new AbortController();
   const timeoutMs = opts?.timeoutMs ?? 20_000;
   const t = setTimeout(() => controller.abort(), timeoutMs);
   try {
     const res = await fetch(url, {
-      method: opts?.method ?? "GET",
+      method,
       headers: {
         accept: "application/json",
         ...(opts?.headers ?? {})
@@ -33,14 +93,183 @@ export async function getJson<T = unknown>(
 
     if (!res.ok) {
       const bodyText = await safeReadText(res);
-      throw new HttpError({ status: res.status, url, bodyText });
+      throw new HttpError({ status: res.status, url, bodyText, retryAfterMs: parseRetryAfter(res.headers.get("retry-after")) });
     }
-    return (await res.json()) as T;
+    const text = await res.text();
+    return { value: JSON.parse(text) as T, bytes: Buffer.byteLength(text) };
   } finally {
     clearTimeout(t);
   }
 }
 
+function isRetryable(e: unknown): boolean {
+  if (e instanceof HttpError) return e.status === 429 || e.status >= 500;
+  const err = e as { name?: unknown; cause?: unknown } | null;
+  if (err?.name === "AbortError") return true; // our timeout
+  // undici reports network failures as TypeError "fetch failed" with the socket error as `cause`;
+  // other TypeErrors (bad URL, invalid header value) are usage errors and fail at once.
+  return err?.name === "TypeError" && isNetworkFailure(err.cause);
+}
+
+// Transient socket / DNS / undici connection errors, by `code`.
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CLOSED"
+]);
+
+function isNetworkFailure(cause: unknown): boolean {
+  if (!cause || typeof cause !== "object") return false;
+  const { code, errors } = cause as { code?: unknown; errors?: unknown };
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) return true;
+  // Happy-eyeballs connects fail with an AggregateError of per-address errors.
+  return Array.isArray(errors) && errors.some(isNetworkFailure);
+}
+
+export function parseRetryAfter(v: string | null, now = Date.now()): number | undefined {
+  if (!v) return undefined;
+  const secs = Number(v);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(v);
+  return Number.isFinite(at) ? Math.max(0, at - now) : undefined;
+}
+
+function defaultRetryPolicy(): RetryPolicy {
+  return {
+    retries: envInt("HTTP_RETRIES", 3),
+    baseDelayMs: envInt("HTTP_RETRY_BASE_MS", 500),
+    maxDelayMs: envInt("HTTP_RETRY_MAX_MS", 30_000)
+  };
+}
+
+// ---- rate limiting ----
+
+/**
+ * Token bucket: `ratePerSec` tokens refill continuously up to `burst`; `take()` waits for one.
+ * A rate of 0 disables limiting.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private last: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerSec: number,
+    private readonly burst: number,
+    private readonly now: () => number = Date.now,
+    private readonly wait: (ms: number) => Promise<void> = sleep
+  ) {
+    this.tokens = burst;
+    this.last = now();
+  }
+
+  take(): Promise<void> {
+    if (this.ratePerSec <= 0) return Promise.resolve();
+    // Serialize waiters so tokens are handed out in call order.
+    const next = this.queue.then(() => this.takeOne());
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  private async takeOne(): Promise<void> {
+    for (;;) {
+      const now = this.now();
+      this.tokens = Math.min(this.burst, this.tokens + ((now - this.last) / 1000) * this.ratePerSec);
+      this.last = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.wait(Math.ceil(((1 - this.tokens) / this.ratePerSec) * 1000));
+    }
+  }
+}
+
+const limiters = new Map<string, TokenBucket>();
+
+function rateLimiterFor(host: string): TokenBucket {
+  let bucket = limiters.get(host);
+  if (!bucket) {
+    const rps = envNumber("HTTP_RATE_LIMIT_RPS", 10);
+    bucket = new TokenBucket(rps, Math.max(1, envInt("HTTP_RATE_LIMIT_BURST", Math.ceil(rps))));
+    limiters.set(host, bucket);
+  }
+  return bucket;
+}
+
+// ---- metrics ----
+
+export type HttpEndpointMetrics = {
+  endpoint: string;
+  requests: number;
+  retries: number;
+  failures: number;
+  bytes: number;
+  p50Ms: number | null;
+  p90Ms: number | null;
+  p99Ms: number | null;
+  maxMs: number | null;
+  // Failed attempts by status (`0` = timeout / network error).
+  statusCounts: Record<string, number>;
+};
+
+type EndpointStats = Omit<HttpEndpointMetrics, "p50Ms" | "p90Ms" | "p99Ms"> & { latencies: number[] };
+
+// Percentiles come from the most recent samples only.
+const LATENCY_SAMPLES = 500;
+const metrics = new Map<string, EndpointStats>();
+
+function endpointStats(endpoint: string): EndpointStats {
+  let s = metrics.get(endpoint);
+  if (!s) {
+    s = { endpoint, requests: 0, retries: 0, failures: 0, bytes: 0, maxMs: null, statusCounts: {}, latencies: [] };
+    metrics.set(endpoint, s);
+  }
+  return s;
+}
+
+function recordLatency(s: EndpointStats, ms: number): void {
+  s.latencies.push(ms);
+  if (s.latencies.length > LATENCY_SAMPLES) s.latencies.shift();
+  s.maxMs = Math.max(s.maxMs ?? 0, ms);
+}
+
+// Per-endpoint counters since process start (or the last reset), busiest first.
+export function httpMetricsSnapshot(): HttpEndpointMetrics[] {
+  return [...metrics.values()]
+    .map(({ latencies, ...rest }) => {
+      const sorted = [...latencies].sort((a, b) => a - b);
+      return {
+        ...rest,
+        statusCounts: { ...rest.statusCounts },
+        p50Ms: percentile(sorted, 0.5),
+        p90Ms: percentile(sorted, 0.9),
+        p99Ms: percentile(sorted, 0.99)
+      };
+    })
+    .sort((a, b) => b.requests - a.requests);
+}
+
+export function resetHttpMetrics(): void {
+  metrics.clear();
+}
+
+function percentile(sorted: number[], q: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)] ?? null;
+}
+
 async function safeReadText(res: Response): Promise<string | undefined> {
   try {
     return await res.text();
@@ -49,3 +278,20 @@ async function safeReadText(res: Response): Promise<string | undefined> {
   }
 }
 
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function envInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? Math.trunc(n) : fallback;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
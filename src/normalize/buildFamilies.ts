@@ -1,10 +1,18 @@
-import { parseRangeWithConfidence, removeFirstRangeForGrouping, type ParsedRange } from "./parseRanges.js";
+import { compareRanges, parseRangeWithConfidence, removeFirstRangeForGrouping, type ParsedRange } from "./parseRanges.js";
+import { parseDateRangeWithConfidence, removeFirstDateRangeForGrouping } from "./parseDateRanges.js";
 import type { NormalizedMarket } from "./normalizeMarkets.js";
+import { buildEventFamilies } from "./eventFamilies.js";
+import { marketCategory } from "./eventMetadata.js";
 
-export type FamilyType = "bucket" | "multi" | "single";
+export type FamilyType = "bucket" | "ladder" | "multi" | "single";
+
+// Price order along a ladder's sorted rungs: "by March 31" <= "by June 30", "above $90k" >= "above $100k".
+export type LadderDirection = "increasing" | "decreasing";
 
 export type BucketOutcome = {
   marketId: string;
+  yesTokenId?: string;
+  noTokenId?: string;
   label: string;
   range: ParsedRange;
   yes_price: number | null;
@@ -16,6 +24,12 @@ export type BucketOutcome = {
 export type MultiOutcome = {
   name: string;
   price: number | null;
+  // Set for event-level families, where each outcome is its own binary market.
+  marketId?: string;
+  yesTokenId?: string;
+  noTokenId?: string;
+  liquidity?: number;
+  volume?: number;
 };
 
 export type MarketFamily = {
@@ -24,13 +38,24 @@ export type MarketFamily = {
   title: string;
   num_outcomes: number;
   eventId?: string;
+  // Event-level multi families only: title-template confidence and whether every member is neg-risk.
+  templateConfidence?: number;
+  negRisk?: boolean;
+  // From the member markets, for portfolio risk limits: category / sport (see `marketCategory`) and
+  // the latest scheduled resolution (market end date, else its event's).
+  category?: string;
+  endDate?: string;
 
   // Exactly one of these is populated depending on family_type.
   buckets?: BucketOutcome[];
+  // Nested (cumulative) ranges rather than a partition; rungs sorted like buckets.
+  ladder?: { direction: LadderDirection; rungs: BucketOutcome[] };
   multi?: MultiOutcome[];
   single?: {
     marketId: string;
     yes_price: number | null;
+    yesTokenId?: string;
+    noTokenId?: string;
     liquidity?: number;
     volume?: number;
   };
@@ -38,15 +63,20 @@ export type MarketFamily = {
 
 export function buildFamilies(markets: NormalizedMarket[]): MarketFamily[] {
   // 1) Bucket families: group binary markets that have parseable ranges in the title.
+  // Numeric ranges first; date ranges ("by March 31", "Q1 2026") resolve yearless dates against the
+  // market's end date.
   const bucketGroups = new Map<
     string,
     { family_id: string; title: string; eventId?: string; members: BucketOutcome[] }
   >();
 
   for (const m of markets) {
-    const { base } = removeFirstRangeForGrouping(m.title);
-    const pr = parseRangeWithConfidence(m.title);
+    const ref = m.endDate ?? m.event?.endDate;
+    const dateOpts = ref ? { ref } : {};
+    const numeric = parseRangeWithConfidence(m.title);
+    const pr = numeric ?? parseDateRangeWithConfidence(m.title, dateOpts);
     if (!pr) continue;
+    const { base } = numeric ? removeFirstRangeForGrouping(m.title) : removeFirstDateRangeForGrouping(m.title, dateOpts);
 
     // Buckets are modeled as binary markets ("Yes"/"No") for each range.
     // We require a stable marketId and use the derived yes_price.
@@ -63,6 +93,8 @@ export function buildFamilies(markets: NormalizedMarket[]): MarketFamily[] {
 
     const member: BucketOutcome = {
       marketId: m.marketId,
+      ...(m.yesTokenId ? { yesTokenId: m.yesTokenId } : {}),
+      ...(m.noTokenId ? { noTokenId: m.noTokenId } : {}),
       label: pr.range.normalizedLabel,
       range: pr.range,
       yes_price: m.yes_price,
@@ -100,28 +132,34 @@ export function buildFamilies(markets: NormalizedMarket[]): MarketFamily[] {
         return { ...m, rangeParseConfidence: m.rangeParseConfidence + bonus };
       })
       .filter((m) => m.rangeParseConfidence >= 2)
-      .sort((a, b) => a.range.low - b.range.low);
+      .sort((a, b) => compareRanges(a.range, b.range));
 
     if (buckets.length < 2) continue; // requirement: >=2 outcomes after filtering
+    const direction = ladderDirection(buckets.map((b) => b.range));
     families.push({
-      family_id: g.family_id,
-      family_type: "bucket",
+      family_id: direction ? g.family_id.replace(/bucket:/, "ladder:") : g.family_id,
+      family_type: direction ? "ladder" : "bucket",
       title: g.title,
       ...(g.eventId ? { eventId: g.eventId } : {}),
       num_outcomes: buckets.length,
-      buckets
+      ...(direction ? { ladder: { direction, rungs: buckets } } : { buckets })
     });
   }
 
-  // 2) Multi families: markets with 3+ outcomes and prices embedded.
-  // 3) Single families: binary yes/no (or anything else we keep minimally).
+  // 2) Event multi families: non-range binary markets sharing an eventId and a title template.
+  const inBucket = new Set(
+    families.flatMap((f) => (f.buckets ?? f.ladder?.rungs ?? []).map((b) => b.marketId))
+  );
+  const eventFamilies = buildEventFamilies(markets, inBucket);
+  families.push(...eventFamilies);
+  const inEvent = new Set(eventFamilies.flatMap((f) => f.multi?.map((o) => o.marketId ?? "") ?? []));
+
+  // 3) Multi families: markets with 3+ outcomes and prices embedded.
+  // 4) Single families: binary yes/no (or anything else we keep minimally).
   for (const m of markets) {
-    // If this market is part of a bucket family, don't also emit it as a single.
+    // If this market is part of a bucket/ladder family, don't also emit it as a single.
     // Note: bucket candidates that didn't reach size>=2 are allowed to fall through as singles.
-    const isInEmittedBucket = families.some(
-      (f) => f.family_type === "bucket" && f.buckets?.some((b) => b.marketId === m.marketId)
-    );
-    if (isInEmittedBucket) continue;
+    if (inBucket.has(m.marketId) || inEvent.has(m.marketId)) continue;
 
     if (m.outcomes.length >= 3) {
       const multi: MultiOutcome[] = m.outcomes.map((name) => ({ name, price: m.prices[name] ?? null }));
@@ -146,21 +184,51 @@ export function buildFamilies(markets: NormalizedMarket[]): MarketFamily[] {
       single: {
         marketId: m.marketId,
         yes_price: m.yes_price,
+        ...(m.yesTokenId ? { yesTokenId: m.yesTokenId } : {}),
+        ...(m.noTokenId ? { noTokenId: m.noTokenId } : {}),
         ...(m.liquidity !== undefined ? { liquidity: m.liquidity } : {}),
         ...(m.volume !== undefined ? { volume: m.volume } : {})
       }
     });
   }
 
-  // Deterministic, readable ordering: buckets first by size, then multi by size, then singles.
-  return families.sort((a, b) => {
-    const prio = (t: FamilyType) => (t === "bucket" ? 0 : t === "multi" ? 1 : 2);
+  const byId = new Map(markets.map((m) => [m.marketId, m]));
+  // Deterministic, readable ordering: buckets first by size, then ladders, multi, singles.
+  return families.map((f) => withRiskMetadata(f, byId)).sort((a, b) => {
+    const prio = (t: FamilyType) => (t === "bucket" ? 0 : t === "ladder" ? 1 : t === "multi" ? 2 : 3);
     const dp = prio(a.family_type) - prio(b.family_type);
     if (dp !== 0) return dp;
     return b.num_outcomes - a.num_outcomes;
   });
 }
 
+function withRiskMetadata(f: MarketFamily, byId: Map<string, NormalizedMarket>): MarketFamily {
+  const ids = [
+    ...(f.buckets ?? f.ladder?.rungs ?? []).map((b) => b.marketId),
+    ...(f.multi ?? []).flatMap((o) => (o.marketId ? [o.marketId] : [])),
+    ...(f.single ? [f.single.marketId] : []),
+    ...(f.family_id.startsWith("market:") ? [f.family_id.slice("market:".length)] : [])
+  ];
+  const members = [...new Set(ids)].flatMap((id) => byId.get(id) ?? []);
+  const category = members.map(marketCategory).find((c) => c !== undefined);
+  const endDates = members
+    .map((m) => m.endDate ?? m.event?.endDate)
+    .filter((d): d is string => d !== undefined && Number.isFinite(Date.parse(d)));
+  const endDate = endDates.length ? endDates.reduce((a, b) => (Date.parse(b) > Date.parse(a) ? b : a)) : undefined;
+  return { ...f, ...(category ? { category } : {}), ...(endDate ? { endDate } : {}) };
+}
+
+/**
+ * Cumulative ladders: every rung is a lower tail ("by March 31", "below $80k") or every rung an upper
+ * tail ("after March 31", "above $100k", "hit $100k"). Rungs are nested, so the family is not a
+ * partition and prices must be monotone along the sorted rungs.
+ */
+function ladderDirection(ranges: ParsedRange[]): LadderDirection | null {
+  if (ranges.every((r) => r.low === -Infinity)) return "increasing";
+  if (ranges.every((r) => r.high === Infinity)) return "decreasing";
+  return null;
+}
+
 function bucketKey(eventId: string | undefined, base: string): string {
   const prefix = eventId ? `event:${eventId}:` : "";
   return `${prefix}bucket:${slugify(base)}`;
@@ -0,0 +1,126 @@
+import { parseRangeWithConfidence } from "./parseRanges.js";
+import type { NormalizedMarket } from "./normalizeMarkets.js";
+import type { MarketFamily, MultiOutcome } from "./buildFamilies.js";
+
+export type TitleTemplate = {
+  prefix: string;
+  suffix: string;
+  names: string[]; // per title, in input order
+  confidence: number;
+};
+
+// Template confidence (0..3) plus the neg-risk point.
+const MAX_TEMPLATE_CONFIDENCE = 4;
+
+/**
+ * Group non-range binary markets that share an `eventId` into `multi` families (one outcome per market).
+ *
+ * Polymarket models most multi-candidate events ("Will X win the election?") as one binary market per
+ * candidate. We only group when the titles follow a common template (see `inferTitleTemplate`), so
+ * unrelated props that happen to share an event page are left as singles.
+ *
+ * With `/events` metadata joined, a neg-risk event whose members all carry an outcome label
+ * (`groupItemTitle`) is grouped on that structure alone, at full confidence, using the labels as
+ * outcome names and the event title as the family title.
+ *
+ * Markets in `claimed` (e.g. already in a bucket family) are skipped.
+ */
+export function buildEventFamilies(markets: NormalizedMarket[], claimed: Set<string> = new Set()): MarketFamily[] {
+  const byEvent = new Map<string, NormalizedMarket[]>();
+  for (const m of markets) {
+    if (!m.eventId || claimed.has(m.marketId)) continue;
+    if (m.outcomes.length !== 2 || !m.yesTokenId) continue;
+    if (parseRangeWithConfidence(m.title)) continue;
+    const arr = byEvent.get(m.eventId) ?? [];
+    arr.push(m);
+    byEvent.set(m.eventId, arr);
+  }
+
+  const families: MarketFamily[] = [];
+  for (const [eventId, members] of byEvent.entries()) {
+    if (members.length < 2) continue;
+    const event = members[0]!.event;
+    const labels = members.map((m) => m.outcomeLabel ?? "");
+    const structured =
+      event?.negRisk === true &&
+      labels.every((l) => l.length > 0) &&
+      new Set(labels.map((l) => l.toLowerCase())).size === labels.length;
+    const template = inferTitleTemplate(members.map((m) => m.title));
+    if (!template && !structured) continue;
+    // Exclusivity flag from the venue counts as one point of confidence.
+    const confidence = structured
+      ? MAX_TEMPLATE_CONFIDENCE
+      : template!.confidence + (members.every((m) => m.negRisk === true) ? 1 : 0);
+    if (confidence < 2) continue;
+    const names = structured ? labels : template!.names;
+
+    const multi: MultiOutcome[] = members.map((m, i) => ({
+      name: names[i]!,
+      price: m.yes_price,
+      marketId: m.marketId,
+      ...(m.yesTokenId ? { yesTokenId: m.yesTokenId } : {}),
+      ...(m.noTokenId ? { noTokenId: m.noTokenId } : {}),
+      ...(m.liquidity !== undefined ? { liquidity: m.liquidity } : {}),
+      ...(m.volume !== undefined ? { volume: m.volume } : {})
+    }));
+
+    families.push({
+      family_id: `event:${eventId}:multi`,
+      family_type: "multi",
+      title: event?.title ?? [template!.prefix, "…", template!.suffix].filter(Boolean).join(" "),
+      eventId,
+      num_outcomes: multi.length,
+      multi,
+      templateConfidence: confidence,
+      ...(structured || members.every((m) => m.negRisk === true) ? { negRisk: true } : {})
+    });
+  }
+  return families;
+}
+
+/**
+ * Find a shared word-level prefix/suffix across titles; the varying middle is each outcome's name.
+ *
+ * Confidence (0..3):
+ * - +1 non-empty common prefix ("Will")
+ * - +1 non-empty common suffix ("win the 2028 election?")
+ * - +1 every name is short (<= 6 words), i.e. looks like a candidate rather than a different question
+ *
+ * Returns null when any name is empty or two names collide.
+ */
+export function inferTitleTemplate(titles: string[]): TitleTemplate | null {
+  if (titles.length < 2) return null;
+  const words = titles.map((t) => t.trim().split(/\s+/).filter(Boolean));
+  const minLen = Math.min(...words.map((w) => w.length));
+
+  let pre = 0;
+  while (pre < minLen && words.every((w) => sameWord(w[pre]!, words[0]![pre]!))) pre++;
+  let suf = 0;
+  while (
+    suf < minLen - pre &&
+    words.every((w) => sameWord(w[w.length - 1 - suf]!, words[0]![words[0]!.length - 1 - suf]!))
+  ) {
+    suf++;
+  }
+
+  const names = words.map((w) => w.slice(pre, w.length - suf).join(" "));
+  if (names.some((n) => n.length === 0)) return null;
+  if (new Set(names.map((n) => n.toLowerCase())).size !== names.length) return null;
+
+  const first = words[0]!;
+  let confidence = 0;
+  if (pre > 0) confidence += 1;
+  if (suf > 0) confidence += 1;
+  if (names.every((n) => n.split(" ").length <= 6)) confidence += 1;
+
+  return {
+    prefix: first.slice(0, pre).join(" "),
+    suffix: first.slice(first.length - suf).join(" "),
+    names,
+    confidence
+  };
+}
+
+function sameWord(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,134 @@
+import type { GammaEventLoose } from "../clients/polymarket.js";
+import type { MarketEvent, NormalizedMarket } from "./normalizeMarkets.js";
+
+// Event metadata plus the ids of its member markets (from `/events`).
+export type EventMeta = MarketEvent & { marketIds: string[] };
+
+export type EventJoinStats = {
+  events: number;
+  joined: number; // markets that received event metadata
+  eventIdFilled: number; // markets whose eventId was missing and came from event membership
+  eventIdCorrected: number; // markets whose eventId disagreed with event membership
+};
+
+export type CategoryFilter = {
+  // Lowercase category names / tag labels / tag slugs. Empty include = keep everything not excluded.
+  include: string[];
+  exclude: string[];
+};
+
+export function eventsFromGamma(events: GammaEventLoose[]): EventMeta[] {
+  const out: EventMeta[] = [];
+  for (const e of events) {
+    const id = String(e.id).trim();
+    if (!id) continue;
+    const negRisk = e.negRisk ?? e.enableNegRisk;
+    const marketIds = (e.markets ?? [])
+      .map((m) => (m.id === undefined ? "" : String(m.id).trim()))
+      .filter((x) => x.length > 0);
+    const tags = (e.tags ?? [])
+      .map((t) => (t.label ?? t.slug ?? "").trim())
+      .filter((x) => x.length > 0);
+    out.push({
+      id,
+      title: (e.title ?? e.slug ?? id).trim(),
+      ...(e.slug ? { slug: e.slug } : {}),
+      ...(e.category ? { category: e.category } : {}),
+      tags,
+      ...(typeof negRisk === "boolean" ? { negRisk } : {}),
+      ...(e.endDate ? { endDate: e.endDate } : {}),
+      marketCount: marketIds.length,
+      marketIds
+    });
+  }
+  return out;
+}
+
+/**
+ * Attach `/events` metadata to normalized markets. Event membership (the event's `markets` list) is
+ * authoritative: it fills a missing `eventId` and overrides a conflicting one; markets that are not
+ * listed by any event fall back to a lookup by their own `eventId`.
+ */
+export function joinEventMetadata(
+  markets: NormalizedMarket[],
+  events: EventMeta[]
+): { markets: NormalizedMarket[]; stats: EventJoinStats } {
+  const byId = new Map<string, EventMeta>();
+  const byMarket = new Map<string, EventMeta>();
+  for (const e of events) {
+    byId.set(e.id, e);
+    for (const id of e.marketIds) byMarket.set(id, e);
+  }
+
+  const stats: EventJoinStats = { events: events.length, joined: 0, eventIdFilled: 0, eventIdCorrected: 0 };
+  const out = markets.map((m) => {
+    const e = byMarket.get(m.marketId) ?? (m.eventId ? byId.get(m.eventId) : undefined);
+    if (!e) return m;
+    stats.joined += 1;
+    if (!m.eventId) stats.eventIdFilled += 1;
+    else if (m.eventId !== e.id) stats.eventIdCorrected += 1;
+    const { marketIds: _ids, ...event } = e;
+    return { ...m, eventId: e.id, event };
+  });
+  return { markets: out, stats };
+}
+
+// Matches the market's own category/tags and its event's. Unlabelled markets only pass when there is no include list.
+export function matchesCategoryFilter(m: NormalizedMarket, filter: CategoryFilter): boolean {
+  const labels = new Set(
+    [m.category, ...(m.tags ?? []), m.event?.category, ...(m.event?.tags ?? [])]
+      .filter((x): x is string => Boolean(x))
+      .map(labelKey)
+  );
+  if (filter.exclude.some((x) => labels.has(x))) return false;
+  return filter.include.length === 0 || filter.include.some((x) => labels.has(x));
+}
+
+/**
+ * Sport named by the event's category or tags ("NBA" -> "basketball"), or null.
+ */
+export function eventSport(m: NormalizedMarket): string | null {
+  const labels = [m.event?.category, ...(m.event?.tags ?? [])]
+    .filter((x): x is string => Boolean(x))
+    .map((x) => x.toLowerCase());
+  for (const [sport, re] of SPORT_TAGS) {
+    if (labels.some((l) => re.test(l))) return sport;
+  }
+  return null;
+}
+
+// Risk bucket for a market: its sport when the event names one, else its (or its event's) category.
+export function marketCategory(m: NormalizedMarket): string | undefined {
+  const category = m.category ?? m.event?.category;
+  return eventSport(m) ?? (category ? labelKey(category) : undefined);
+}
+
+const SPORT_TAGS: Array<[string, RegExp]> = [
+  ["soccer", /^(soccer|epl|premier league|la liga|serie a|bundesliga|ligue 1|mls|champions league|fifa world cup)$/],
+  ["basketball", /^(nba|wnba|ncaab|basketball)$/],
+  ["football", /^(nfl|ncaaf|american football|college football)$/],
+  ["baseball", /^(mlb|baseball)$/],
+  ["hockey", /^(nhl|hockey)$/]
+];
+
+/**
+ * `SCAN_CATEGORIES` / `SCAN_EXCLUDE_CATEGORIES`: comma-separated categories or tags (labels or slugs,
+ * case-insensitive), e.g. `politics,crypto`. Null when neither is set.
+ */
+export function categoryFilterFromEnv(env: NodeJS.ProcessEnv = process.env): CategoryFilter | null {
+  const include = splitList(env.SCAN_CATEGORIES);
+  const exclude = splitList(env.SCAN_EXCLUDE_CATEGORIES);
+  return include.length || exclude.length ? { include, exclude } : null;
+}
+
+function splitList(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map(labelKey)
+    .filter((x) => x.length > 0);
+}
+
+// "Premier League" and "premier-league" compare equal.
+function labelKey(s: string): string {
+  return s.trim().toLowerCase().replace(/[\s_]+/g, "-");
+}
@@ -1,10 +1,25 @@
 import type { GammaMarketLoose } from "../clients/polymarket.js";
 
+// Event metadata joined from Gamma `/events` (see `eventMetadata.ts`).
+export type MarketEvent = {
+  id: string;
+  title: string;
+  slug?: string;
+  category?: string;
+  tags: string[];
+  negRisk?: boolean;
+  endDate?: string;
+  marketCount: number;
+};
+
 export type NormalizedMarket = {
   marketId: string;
   title: string;
   eventId?: string;
   conditionId?: string;
+  // Outcome label within the event (Gamma `groupItemTitle`), e.g. "Trump".
+  outcomeLabel?: string;
+  event?: MarketEvent;
 
   // Fully coerced; never a JSON string.
   outcomes: string[];
@@ -21,6 +36,20 @@ export type NormalizedMarket = {
 
   liquidity?: number;
   volume?: number;
+
+  // Scheduled resolution time (ISO); falls back to the event's end date where used.
+  endDate?: string;
+  category?: string;
+  tags?: string[];
+  resolutionSource?: string;
+  // Trading status; absent = unknown (treated as tradeable).
+  acceptingOrders?: boolean;
+  closed?: boolean;
+  archived?: boolean;
+  // Gamma's cached top of book for the first outcome.
+  spread?: number;
+  bestBid?: number;
+  bestAsk?: number;
 };
 
 export type NormalizeMarketsStats = {
@@ -55,6 +84,7 @@ export function normalizeGammaMarkets(markets: GammaMarketLoose[]): { markets: N
     const title = (m.question ?? m.title ?? m.name ?? m.slug ?? marketId).trim();
     const conditionId = stringifyId(m.conditionId ?? m.condition_id);
     const eventId = stringifyId(m.event_id ?? m.eventId ?? m.events?.[0]?.id);
+    const outcomeLabel = m.groupItemTitle?.trim();
 
     const outcomes = coerceStringArray(m.outcomes) ?? [];
     if (outcomes.length) marketsWithOutcomes += 1;
@@ -89,12 +119,22 @@ export function normalizeGammaMarkets(markets: GammaMarketLoose[]): { markets: N
     const liquidity = coerceNumber(m.liquidityNum ?? (m as any).liquidity ?? (m as any).liquidityClob);
     const volume = coerceNumber(m.volumeNum ?? (m as any).volume ?? (m as any).volumeClob);
     const tickSize = coerceNumber(m.orderPriceMinTickSize);
+    const endDate = coerceIsoDate(m.endDate ?? m.endDateIso);
+    const category = m.category?.trim();
+    const tags = (m.tags ?? [])
+      .map((t) => (typeof t === "string" ? t : t.label ?? t.slug ?? "").trim())
+      .filter((t) => t.length > 0);
+    const resolutionSource = m.resolutionSource?.trim();
+    const spread = coerceNumber(m.spread);
+    const bestBid = coerceNumber(m.bestBid);
+    const bestAsk = coerceNumber(m.bestAsk);
 
     out.push({
       marketId,
       title,
       ...(conditionId ? { conditionId } : {}),
       ...(eventId ? { eventId } : {}),
+      ...(outcomeLabel ? { outcomeLabel } : {}),
       outcomes,
       prices,
       tokenIds,
@@ -104,7 +144,17 @@ export function normalizeGammaMarkets(markets: GammaMarketLoose[]): { markets: N
       ...(tickSize !== null ? { tickSize } : {}),
       ...(typeof m.negRisk === "boolean" ? { negRisk: m.negRisk } : {}),
       ...(liquidity !== null ? { liquidity } : {}),
-      ...(volume !== null ? { volume } : {})
+      ...(volume !== null ? { volume } : {}),
+      ...(endDate ? { endDate } : {}),
+      ...(category ? { category } : {}),
+      ...(tags.length ? { tags } : {}),
+      ...(resolutionSource ? { resolutionSource } : {}),
+      ...(typeof m.acceptingOrders === "boolean" ? { acceptingOrders: m.acceptingOrders } : {}),
+      ...(typeof m.closed === "boolean" ? { closed: m.closed } : {}),
+      ...(typeof m.archived === "boolean" ? { archived: m.archived } : {}),
+      ...(spread !== null ? { spread } : {}),
+      ...(bestBid !== null ? { bestBid } : {}),
+      ...(bestAsk !== null ? { bestAsk } : {})
     });
   }
 
@@ -121,6 +171,25 @@ export function normalizeGammaMarkets(markets: GammaMarketLoose[]): { markets: N
   };
 }
 
+/**
+ * False when Gamma says the market cannot take orders right now (paused, closed or archived).
+ * Markets without status flags are assumed tradeable.
+ */
+export function isTradeable(m: NormalizedMarket): boolean {
+  return m.acceptingOrders !== false && m.closed !== true && m.archived !== true;
+}
+
+/**
+ * Days from `ts` until the market's scheduled resolution (its own end date, else its event's).
+ * Null when neither is known; 0 once the end date has passed (resolution pending).
+ */
+export function timeToResolutionDays(m: NormalizedMarket, ts: string | number | Date): number | null {
+  const end = Date.parse(m.endDate ?? m.event?.endDate ?? "");
+  const now = new Date(ts).getTime();
+  if (!Number.isFinite(end) || !Number.isFinite(now)) return null;
+  return Math.max(0, (end - now) / 86_400_000);
+}
+
 function deriveYesPrice(outcomes: string[], prices: Record<string, number | null>): number | null {
   if (outcomes.length === 0) return null;
 
@@ -192,6 +261,13 @@ function coerceNumber(v: unknown): number | null {
   return null;
 }
 
+// Gamma dates are ISO strings, sometimes date-only ("2026-11-03"); anything unparseable is dropped.
+function coerceIsoDate(v: string | null | undefined): string | undefined {
+  if (!v || !v.trim()) return undefined;
+  const t = Date.parse(v.trim());
+  return Number.isFinite(t) ? new Date(t).toISOString() : undefined;
+}
+
 function safeJsonParse(s: string): unknown {
   try {
     return JSON.parse(s);
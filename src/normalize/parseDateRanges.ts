@@ -0,0 +1,251 @@
+import type { ParsedRange, RangeParseResult } from "./parseRanges.js";
+
+export type DateParseOptions = {
+  // Resolves dates without a year ("by March 31"): the latest such date that starts no later than a
+  // week after `ref`. Typically the market's end date. Without it, yearless dates do not parse.
+  ref?: string | number | Date;
+};
+
+// Month names as they appear in titles ("Jan", "Sept.", "December"). Shared with the numeric parser,
+// which must not read "Jan 1-15" as the numbers 1..15.
+export const MONTH_PATTERN =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+
+const DAY = "\\d{1,2}(?:st|nd|rd|th)?";
+const YEAR = "(?:19|20)\\d{2}";
+// Longest forms first; a bare year or bare month only counts after a preposition (see PERIOD_RE).
+const DATE_TOKEN = [
+  `${MONTH_PATTERN}\\s+${DAY}(?:,?\\s+${YEAR})?`,
+  `${DAY}\\s+${MONTH_PATTERN}(?:,?\\s+${YEAR})?`,
+  `${MONTH_PATTERN},?\\s+${YEAR}`,
+  `q[1-4],?\\s+${YEAR}`,
+  `${MONTH_PATTERN}`,
+  `q[1-4]`,
+  YEAR
+].join("|");
+// "2025-26" is a season, not a date.
+const T = `(?:${DATE_TOKEN})(?![\\w]|-\\d)`;
+
+const BETWEEN_RE = new RegExp(`\\bbetween\\s+(?<a>${T})\\s+and\\s+(?<b>${T})`, "i");
+// "Jan 1-15, 2026": the second side is a bare day in the same month.
+const DAY_SPAN_RE = new RegExp(
+  `\\b(?<m>${MONTH_PATTERN})\\s+(?<d1>${DAY})\\s*(?:-|to|through)\\s*(?<d2>${DAY})(?![\\w])(?!\\s*${MONTH_PATTERN})(?:,?\\s+(?<y>${YEAR}))?`,
+  "i"
+);
+const SPAN_RE = new RegExp(`\\b(?:from\\s+)?(?<a>${T})\\s*(?:-|to|through|until)\\s*(?<b>${T})`, "i");
+// Lower tails: the event happens at or before the date. "before X" ends when X starts; the others include X.
+const BEFORE_RE = new RegExp(
+  `\\b(?<op>before|by(?:\\s+the)?\\s+end\\s+of|by|on\\s+or\\s+before|no\\s+later\\s+than|prior\\s+to)\\s+(?<a>${T})`,
+  "i"
+);
+const AFTER_RE = new RegExp(`\\b(?<op>after|on\\s+or\\s+after|not\\s+before)\\s+(?<a>${T})`, "i");
+const SUFFIX_TAIL_RE = new RegExp(`\\b(?<a>${T})\\s+or\\s+(?<op>earlier|before|later|after)\\b`, "i");
+const PERIOD_RE = new RegExp(
+  `\\b(?:(?:in|on|during|for)\\s+(?:the\\s+)?(?<a>${T})|(?<b>${MONTH_PATTERN}\\s+${DAY}(?:,?\\s+${YEAR})?|${MONTH_PATTERN},?\\s+${YEAR}|q[1-4],?\\s+${YEAR})(?![\\w]))`,
+  "i"
+);
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_MS = 86_400_000;
+
+type Period = { start: number; end: number }; // epoch ms, end exclusive
+type PeriodSpec = { year: number | null; resolve: (year: number) => Period };
+
+/**
+ * Parse date buckets into ranges over epoch milliseconds (`unit: "date"`), half-open [low, high):
+ * - "between Jan 1 and Jan 15", "Jan 1–15, 2026", "March 1 to April 15", "Q1 2026", "in March"
+ * - tails: "before April 1", "by March 31", "by end of 2026", "after June 30", "2027 or later"
+ *
+ * A year in the label applies to every yearless date in it; otherwise `opts.ref` picks the year.
+ * Day precision is UTC calendar days.
+ */
+export function parseDateRangeFromText(text: string, opts: DateParseOptions = {}): ParsedRange | null {
+  return matchDateRange(normalize(text), opts)?.range ?? null;
+}
+
+/**
+ * Date-range counterpart of `parseRangeWithConfidence`:
+ * - +2 for a recognized date form (every match is one)
+ * - +1 if the span is at most 10 years, or a tail's bound falls in 1900..2100
+ * Other numbers in the label (a price threshold, say) do not count against a date.
+ */
+export function parseDateRangeWithConfidence(text: string, opts: DateParseOptions = {}): RangeParseResult | null {
+  const range = parseDateRangeFromText(text, opts);
+  if (!range) return null;
+  const reasons = ["cleanDateForm"];
+  let confidence = 2;
+  const sane = Number.isFinite(range.low) && Number.isFinite(range.high)
+    ? range.high - range.low <= 3660 * DAY_MS
+    : [range.low, range.high].filter(Number.isFinite).every((t) => {
+        const y = new Date(t).getUTCFullYear();
+        return y >= 1900 && y <= 2100;
+      });
+  if (sane) {
+    confidence += 1;
+    reasons.push("saneSpan");
+  }
+  return { range, confidence, reasons };
+}
+
+export function removeFirstDateRangeForGrouping(text: string, opts: DateParseOptions = {}): { base: string; range?: ParsedRange } {
+  const normalized = normalize(text);
+  const m = matchDateRange(normalized, opts);
+  if (!m) return { base: normalized };
+  const base = normalized
+    .replace(m.text, " ")
+    .replace(/\s+/g, " ")
+    .replace(/\s+([?.,!])/g, "$1")
+    .trim();
+  return { base, range: m.range };
+}
+
+function matchDateRange(text: string, opts: DateParseOptions): { range: ParsedRange; text: string } | null {
+  const ref = opts.ref !== undefined ? new Date(opts.ref).getTime() : Number.NaN;
+  const fallbackYear = yearIn(text);
+  const yearOf = (spec: PeriodSpec, shared: number | null = null): number | null =>
+    spec.year ?? shared ?? fallbackYear ?? (Number.isFinite(ref) ? yearNear(spec, ref) : null);
+
+  const closed = (a: PeriodSpec, b: PeriodSpec, matched: string) => {
+    const shared = b.year ?? a.year;
+    const ya = yearOf(a, shared);
+    const yb = yearOf(b, shared);
+    if (ya === null || yb === null) return null;
+    const high = b.resolve(yb).end;
+    let low = a.resolve(ya).start;
+    // "Dec 15 - Jan 15, 2026" starts in the previous year.
+    if (low >= high && a.year === null) low = a.resolve(ya - 1).start;
+    return high > low ? { range: closedRange(low, high), text: matched } : null;
+  };
+
+  let m = text.match(BETWEEN_RE) ?? text.match(SPAN_RE);
+  if (m?.groups?.a && m.groups.b) {
+    const a = parseToken(m.groups.a);
+    const b = parseToken(m.groups.b);
+    const r = a && b ? closed(a, b, m[0]) : null;
+    if (r) return r;
+  }
+
+  m = text.match(DAY_SPAN_RE);
+  if (m?.groups?.m && m.groups.d1 && m.groups.d2) {
+    const year = m.groups.y ? ` ${m.groups.y}` : "";
+    const a = parseToken(`${m.groups.m} ${m.groups.d1}${year}`);
+    const b = parseToken(`${m.groups.m} ${m.groups.d2}${year}`);
+    const r = a && b ? closed(a, b, m[0]) : null;
+    if (r) return r;
+  }
+
+  m = text.match(BEFORE_RE);
+  if (m?.groups?.a && m.groups.op) {
+    const spec = parseToken(m.groups.a);
+    const year = spec ? yearOf(spec) : null;
+    if (spec && year !== null) {
+      const p = spec.resolve(year);
+      return { range: lowerTail(/^(?:before|prior)/i.test(m.groups.op) ? p.start : p.end), text: m[0] };
+    }
+  }
+
+  m = text.match(AFTER_RE);
+  if (m?.groups?.a && m.groups.op) {
+    const spec = parseToken(m.groups.a);
+    const year = spec ? yearOf(spec) : null;
+    if (spec && year !== null) {
+      const p = spec.resolve(year);
+      return { range: upperTail(/^after/i.test(m.groups.op) ? p.end : p.start), text: m[0] };
+    }
+  }
+
+  m = text.match(SUFFIX_TAIL_RE);
+  if (m?.groups?.a && m.groups.op) {
+    const spec = parseToken(m.groups.a);
+    const year = spec ? yearOf(spec) : null;
+    if (spec && year !== null) {
+      const p = spec.resolve(year);
+      const later = /later|after/i.test(m.groups.op);
+      return { range: later ? upperTail(p.start) : lowerTail(p.end), text: m[0] };
+    }
+  }
+
+  m = text.match(PERIOD_RE);
+  const token = m?.groups?.a ?? m?.groups?.b;
+  if (m && token) {
+    const spec = parseToken(token);
+    const year = spec ? yearOf(spec) : null;
+    if (spec && year !== null) {
+      const p = spec.resolve(year);
+      return { range: closedRange(p.start, p.end), text: m[0] };
+    }
+  }
+
+  return null;
+}
+
+function parseToken(raw: string): PeriodSpec | null {
+  const t = raw.toLowerCase().replace(/[.,]/g, " ").replace(/\s+/g, " ").trim();
+  const year = t.match(new RegExp(`\\b${YEAR}$`))?.[0];
+  const y = year ? Number(year) : null;
+  const rest = year ? t.slice(0, -year.length).trim() : t;
+
+  if (!rest) {
+    return y === null ? null : { year: y, resolve: (yy) => ({ start: Date.UTC(yy, 0, 1), end: Date.UTC(yy + 1, 0, 1) }) };
+  }
+
+  const q = rest.match(/^q([1-4])$/);
+  if (q) {
+    const m0 = (Number(q[1]) - 1) * 3;
+    return { year: y, resolve: (yy) => ({ start: Date.UTC(yy, m0, 1), end: Date.UTC(yy, m0 + 3, 1) }) };
+  }
+
+  const parts = rest.split(" ");
+  const monthWord = parts.find((p) => /^[a-z]/.test(p));
+  const dayWord = parts.find((p) => /^\d/.test(p));
+  const month = monthWord ? MONTHS.indexOf(monthWord.slice(0, 3)) : -1;
+  if (month < 0) return null;
+  if (!dayWord) {
+    return { year: y, resolve: (yy) => ({ start: Date.UTC(yy, month, 1), end: Date.UTC(yy, month + 1, 1) }) };
+  }
+  const day = Number.parseInt(dayWord, 10);
+  if (!(day >= 1 && day <= 31)) return null;
+  return {
+    year: y,
+    resolve: (yy) => {
+      // Clamp "Feb 30" style labels to the month's last day.
+      const d = Math.min(day, new Date(Date.UTC(yy, month + 1, 0)).getUTCDate());
+      return { start: Date.UTC(yy, month, d), end: Date.UTC(yy, month, d + 1) };
+    }
+  };
+}
+
+// Latest year whose occurrence of the date starts no later than a week after the reference time.
+function yearNear(spec: PeriodSpec, ref: number): number {
+  const y = new Date(ref).getUTCFullYear();
+  return spec.resolve(y).start <= ref + 7 * DAY_MS ? y : y - 1;
+}
+
+function yearIn(text: string): number | null {
+  const m = text.match(new RegExp(`\\b${YEAR}\\b`));
+  return m ? Number(m[0]) : null;
+}
+
+function closedRange(low: number, high: number): ParsedRange {
+  return { low, high, unit: "date", normalizedLabel: `${isoDay(low)}..${isoDay(high - DAY_MS)}` };
+}
+
+// Dates are half-open: "by March 31" ends at April 1 00:00, which the range excludes.
+function lowerTail(end: number): ParsedRange {
+  return { low: -Infinity, high: end, highInclusive: false, unit: "date", normalizedLabel: `<=${isoDay(end - DAY_MS)}` };
+}
+
+function upperTail(start: number): ParsedRange {
+  return { low: start, high: Infinity, lowInclusive: true, unit: "date", normalizedLabel: `>=${isoDay(start)}` };
+}
+
+function isoDay(t: number): string {
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+function normalize(s: string): string {
+  return s
+    .replace(/[\u2012\u2013\u2014\u2212]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
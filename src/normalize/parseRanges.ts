@@ -1,6 +1,13 @@
+import { MONTH_PATTERN } from "./parseDateRanges.js";
+
 export type ParsedRange = {
+  // Open-ended tails use -Infinity / Infinity (serialized as null in JSON).
   low: number;
   high: number;
+  // Only set on open-ended ranges ("<10" excludes 10, "10 or more" includes it); closed A-B labels
+  // do not say which side owns a shared endpoint.
+  lowInclusive?: boolean;
+  highInclusive?: boolean;
   unit?: string;
   normalizedLabel: string;
 };
@@ -14,6 +21,8 @@ export type RangeParseResult = {
 /**
  * Parse bucket/range labels with common variants:
  * - "10–12", "10-12", "10 to 12", "between 10 and 12"
+ * - open-ended tails: "<10", "≥ 500", "less than 10", "above $100k", "at least 5", "20 or more", "20+",
+ *   and threshold verbs ("hit $100k", "reach 5%", "dip to $80k")
  * - units: $, %, °C/°F
  * - magnitude suffixes: k/m (e.g. "$10k–$20k")
  *
@@ -50,7 +59,8 @@ export function parseRangeFromText(text: string): ParsedRange | null {
     }
   }
 
-  return null;
+  // Pattern 3: open-ended tails, only when no closed range matched.
+  return matchTail(cleaned)?.range ?? null;
 }
 
 /**
@@ -69,7 +79,7 @@ export function parseRangeWithConfidence(text: string): RangeParseResult | null
   // Detect "clean range form" first; we reuse the same matching logic as parseRangeFromText.
   const betweenRe = /between\s+\S+\s+and\s+\S+/i;
   const dashRe = /(\$?[-]?\d[\d,]*(?:\.\d+)?(?:[km])?(?:%|°c|°f|c|f)?)\s*(?:-|to)\s*(\$?[-]?\d[\d,]*(?:\.\d+)?(?:[km])?(?:%|°c|°f|c|f)?)/i;
-  const cleanForm = betweenRe.test(cleaned) || dashRe.test(cleaned);
+  const cleanForm = betweenRe.test(cleaned) || dashRe.test(cleaned) || matchTail(cleaned) !== null;
 
   const range = parseRangeFromText(cleaned);
   if (!range) return null;
@@ -81,7 +91,7 @@ export function parseRangeWithConfidence(text: string): RangeParseResult | null
   }
 
   const span = range.high - range.low;
-  if (span > 0 && isSaneSpan(range, cleaned)) {
+  if (span > 0 && (isOpenEnded(range) ? isSaneBound(range) : isSaneSpan(range, cleaned))) {
     confidence += 1;
     reasons.push("saneSpan");
   }
@@ -121,9 +131,76 @@ export function removeFirstRangeForGrouping(text: string): { base: string; range
     return range ? { base, range } : { base };
   }
 
+  const tail = matchTail(normalized);
+  if (tail) {
+    const base = normalized.replace(tail.text, " ").replace(/\s+/g, " ").trim();
+    return { base, range: tail.range };
+  }
+
   return { base: normalized.trim() };
 }
 
+export function isOpenEnded(r: ParsedRange): boolean {
+  return !Number.isFinite(r.low) || !Number.isFinite(r.high);
+}
+
+// Sort by low then high; subtraction would give NaN for two "-Infinity" lows.
+export function compareRanges(a: ParsedRange, b: ParsedRange): number {
+  if (a.low !== b.low) return a.low < b.low ? -1 : 1;
+  if (a.high !== b.high) return a.high < b.high ? -1 : 1;
+  return 0;
+}
+
+// Tail phrasings. "Under"/"below" exclude the bound, "or less"/"at most" include it; same for the upper tail.
+// Threshold verbs count too: "hit $100k" / "reach 5%" is at least the level, "dip to $80k" at most.
+const VALUE = `\\$?-?\\d[\\d,]*(?:\\.\\d+)?(?:[km])?(?:%|°c|°f|c|f)?`;
+const PREFIX_TAIL_OPS: Array<[RegExp, "below" | "above", boolean]> = [
+  [/(?:<=|≤|\bat most|\bno more than|\bup to|\b(?:dips?|falls?|drops?) to)$/i, "below", true],
+  [/(?:<|\bless than|\bfewer than|\bunder|\bbelow)$/i, "below", false],
+  [/(?:>=|≥|\bat least|\bno less than|\bhits?|\breach(?:es)?)$/i, "above", true],
+  [/(?:>|\bmore than|\bgreater than|\bover|\babove|\bexceeds?)$/i, "above", false]
+];
+const SUFFIX_TAIL_OPS: Array<[RegExp, "below" | "above"]> = [
+  [/^(?:\+|\s*or (?:more|higher|above|greater|over)\b)/i, "above"],
+  [/^\s*or (?:less|fewer|lower|below|under)\b/i, "below"]
+];
+
+/**
+ * First open-ended bound in the text: an operator before a value ("less than 10", "≥ 500") or a
+ * qualifier after it ("20 or more", "20+"). Returns the matched substring for grouping.
+ */
+function matchTail(text: string): { range: ParsedRange; text: string } | null {
+  const valueRe = new RegExp(`(?<![\\w.])${VALUE}(?![\\w])`, "gi");
+  for (const m of text.matchAll(valueRe)) {
+    const start = m.index ?? 0;
+    const end = start + m[0].length;
+    const token = parseValueToken(m[0]);
+    if (!token) continue;
+
+    const before = text.slice(0, start).replace(/\s+$/, "");
+    for (const [re, side, inclusive] of PREFIX_TAIL_OPS) {
+      const op = before.match(re);
+      if (op) return { range: tailRange(token, side, inclusive), text: text.slice(before.length - op[0].length, end) };
+    }
+
+    const after = text.slice(end);
+    for (const [re, side] of SUFFIX_TAIL_OPS) {
+      const op = after.match(re);
+      if (op) return { range: tailRange(token, side, true), text: text.slice(start, end + op[0].length) };
+    }
+  }
+  return null;
+}
+
+function tailRange(token: { value: number; unit?: string }, side: "below" | "above", inclusive: boolean): ParsedRange {
+  const unit = token.unit === "°" ? undefined : token.unit;
+  const op = side === "below" ? (inclusive ? "<=" : "<") : inclusive ? ">=" : ">";
+  const normalizedLabel = `${op}${stripTrailingZeros(token.value)}${unit ?? ""}`;
+  return side === "below"
+    ? { low: -Infinity, high: token.value, highInclusive: inclusive, normalizedLabel, ...(unit ? { unit } : {}) }
+    : { low: token.value, high: Infinity, lowInclusive: inclusive, normalizedLabel, ...(unit ? { unit } : {}) };
+}
+
 function parseRangeTokens(aRaw: string, bRaw: string): ParsedRange | null {
   const a = parseValueToken(aRaw);
   const b = parseValueToken(bRaw);
@@ -165,6 +242,9 @@ function isLikelySeasonOrYearRange(fullText: string, r: ParsedRange): boolean {
   const hasYear = /\b(19|20)\d{2}\b/.test(t);
   if (t.includes("season") && hasYear) return true;
 
+  // "Jan 1-15" is a run of days (see parseDateRanges.ts).
+  if (new RegExp(`\\b${MONTH_PATTERN}\\s+${r.low}(?:st|nd|rd|th)?\\s*(?:-|to)`, "i").test(t)) return true;
+
   // Reject pure year-to-year ranges like 2025-2026.
   if (r.low >= 1900 && r.high <= 2100) return true;
 
@@ -271,15 +351,30 @@ function isSaneSpan(r: ParsedRange, fullText: string): boolean {
   return span > 0 && span <= 5_000_000;
 }
 
+// Open-ended ranges have no span to check; only their finite bound.
+function isSaneBound(r: ParsedRange): boolean {
+  const bound = Number.isFinite(r.low) ? r.low : r.high;
+  if (r.unit === "%") return bound >= 0 && bound <= 100;
+  if (r.unit === "°c" || r.unit === "°f") return Math.abs(bound) <= 300;
+  return Math.abs(bound) <= 50_000_000;
+}
+
 function countExtraNonYearNumbers(text: string, r: ParsedRange): number {
   // Count numbers in the label, excluding:
   // - 4-digit years (1900..2100)
   // - the two range endpoints (approx)
-  const nums = [...text.matchAll(/-?\d+(?:\.\d+)?/g)].map((m) => Number(m[0]));
+  // Numbers are read whole ("$100,000", "$100k") and a dash after a digit is a separator, not a sign.
+  const nums = [...text.matchAll(/(?<![\w.])-?\d[\d,]*(?:\.\d+)?(?:[km](?![a-z]))?/gi)].map((m) => readNumber(m[0]));
   const isYear = (n: number) => Number.isInteger(n) && n >= 1900 && n <= 2100;
   const approxEq = (a: number, b: number) => Math.abs(a - b) < 1e-9;
   const extra = nums.filter((n) => !isYear(n) && !approxEq(n, r.low) && !approxEq(n, r.high));
   return extra.length;
 }
 
+function readNumber(raw: string): number {
+  const mag = raw.slice(-1).toLowerCase();
+  const mult = mag === "k" ? 1_000 : mag === "m" ? 1_000_000 : 1;
+  return Number(raw.replace(/[,km]/gi, "")) * mult;
+}
+
 
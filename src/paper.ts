@@ -5,12 +5,20 @@ async function main(): Promise<void> {
   console.log("");
   console.log("Paper trading (read-only simulation)");
   console.log(`ts: ${summary.ts}`);
+  for (const w of summary.warnings) console.log(`warning: ${w}`);
   console.log(
     `positions=${summary.openPositions} exposure=$${summary.exposureUsd.toFixed(2)} cash=$${summary.bankrollCashUsd.toFixed(2)}`
   );
   console.log(
-    `entered=${summary.entered} exited=${summary.exited} marked=${summary.marked} realizedPnL=$${summary.realizedPnlUsd.toFixed(2)} unrealizedPnL=$${summary.unrealizedPnlUsd.toFixed(2)}`
+    `entered=${summary.entered} exited=${summary.exited} marked=${summary.marked} riskRejected=${summary.riskRejected} realizedPnL=$${summary.realizedPnlUsd.toFixed(2)} unrealizedPnL=$${summary.unrealizedPnlUsd.toFixed(2)}`
   );
+  if (summary.strategies.length > 1) {
+    for (const s of summary.strategies) {
+      console.log(
+        `  ${s.id}: positions=${s.openPositions} cash=$${s.bankrollCashUsd.toFixed(2)} entered=${s.entered} exited=${s.exited} realizedPnL=$${s.realizedPnlUsd.toFixed(2)} unrealizedPnL=$${s.unrealizedPnlUsd.toFixed(2)}`
+      );
+    }
+  }
   console.log("");
 }
 
@@ -3,24 +3,101 @@ import crypto from "node:crypto";
 import { readFile, writeFile, appendFile } from "node:fs/promises";
 import { ensureDir } from "../lib/fs.js";
 import type { ClobOrderBook } from "../clients/clob.js";
-import type { OrderBooksSnapshot, MarketOrderBookPair } from "../ingest/fetchOrderBooks.js";
+import type { OrderBooksSnapshot } from "../ingest/fetchOrderBooks.js";
+import type { MarketFamily } from "../normalize/buildFamilies.js";
+import { rangeAdjacencyStats } from "../detect/basicAnomalies.js";
+import { groupNegRiskEvents, type NegRiskEventGroup } from "../detect/negRisk.js";
+import { withFingerprint } from "../detect/signals.js";
+import { payoutFor, type MarketResolution } from "../ingest/fetchResolutions.js";
+import type { Signal } from "../detect/types.js";
+import {
+  optimalBasketSell,
+  optimalSetTrade,
+  simulateSell,
+  type BasketFillPlan,
+  type FillResult,
+  type SetTradeLeg
+} from "./fills.js";
+import { edgeProportionalSize, flatSize, type SizingDecision } from "./sizing.js";
+import {
+  addDailyPnl,
+  checkRisk,
+  hasRiskLimits,
+  mergeRiskBooks,
+  realizedToday,
+  riskLimitsFromEnv,
+  type DailyPnl,
+  type RiskBook,
+  type RiskLimits,
+  type RiskPosition,
+  type RiskRejection
+} from "./risk.js";
+import { loadDirectionalRiskBook } from "./portfolio.js";
+import { loadPaperStrategies } from "./config.js";
+import type { PaperStrategy } from "./strategies.js";
+
+// bundle_short never holds a position: the complete set is minted and sold in the same scan.
+// negrisk_convert either converts NO into the other outcomes' YES and sells them (instant), or
+// replicates NO_i with the other outcomes' YES plus a minted YES_i (held to resolution).
+// ladder_pair holds YES on a ladder rung and NO on a narrower rung it contains (pays $1 or $2).
+export type PaperArbStrategy =
+  | "bundle_long"
+  | "bucket_basket"
+  | "event_basket"
+  | "ladder_pair"
+  | "bundle_short"
+  | "negrisk_convert";
+
+// Entry ranking: raw edge, annualized return, or locked profit per dollar-day of exposure.
+export type ArbRankObjective = "edge" | "annualized" | "dollar_day";
+
+// Entry budget: PAPER_ARB_MAX_TRADE_USD for every opportunity, or scaled with its top-of-book edge.
+export type ArbSizingModel = "flat" | "edge";
+
+export type PaperArbLeg = {
+  marketId: string;
+  tokenId: string;
+  outcome: "YES" | "NO";
+  label?: string;
+  price: number; // VWAP across the ask levels walked
+  feeUsd: number;
+  limitPrice?: number; // worst level touched, tick-aligned
+};
 
 export type PaperArbPosition = {
   id: string;
-  marketId: string;
+  strategy: PaperArbStrategy;
+  marketId: string; // market for bundles, family_id for baskets
   title: string;
-  yesTokenId: string;
-  noTokenId: string;
+  legs: PaperArbLeg[];
   entryTs: string;
-  shares: number;
-  yesAsk: number;
-  noAsk: number;
+  shares: number; // per leg; every leg holds the same share count
   feeUsd: number;
   costUsd: number;
   guaranteedPayoutUsd: number;
   lockedProfitUsd: number;
+
+  // Latest leg end date at entry; daysToResolution is refreshed every run, the returns are as entered.
+  resolvesAt?: string;
+  daysToResolution?: number;
+  annualizedReturn?: number;
+  returnOnExposure?: number;
+
+  // Risk limit keys at entry (see `checkRisk`). `riskGroup` is the family for baskets and ladder pairs,
+  // the event for neg-risk replications, else the market.
+  eventId?: string;
+  category?: string;
+  riskGroup?: string;
+
+  // Bundle-only fields kept for older ledgers/readers.
+  yesTokenId?: string;
+  noTokenId?: string;
+  yesAsk?: number;
+  noAsk?: number;
+
   lastMarkTs?: string;
   lastBidExitUsd?: number;
+  lastBidExitShares?: number; // complete sets the bids could absorb at the last mark
   lastMarkPnlUsd?: number;
 };
 
@@ -31,6 +108,7 @@ export type PaperArbState = {
   realizedPnlUsd: number;
   positions: PaperArbPosition[];
   lastEntryByMarketId: Record<string, string>;
+  dailyPnl?: DailyPnl; // realized PnL today (UTC), for the daily loss limit
 };
 
 export type PaperArbSummary = {
@@ -40,116 +118,375 @@ export type PaperArbSummary = {
   opportunities: number;
   entered: number;
   exited: number;
+  merged: number;
+  settled: number;
+  mintSells: number;
+  conversions: number;
   bankrollCashUsd: number;
   realizedPnlUsd: number;
   lockedProfitUsd: number;
   markToBidPnlUsd: number;
   exposureUsd: number;
   openPositionsCount: number;
+  riskRejected: number; // entries and instant trades blocked by a portfolio risk limit (logged as REJECT events)
+  // Every sized opportunity this scan (entered or not), as common signals for lifecycle tracking.
+  signals: Signal[];
   newTradesSummary: Array<{
     positionId: string;
+    strategy: PaperArbStrategy;
     marketId: string;
     title: string;
+    legs: number;
     shares: number;
     costUsd: number;
     lockedProfitUsd: number;
     edge: number;
+    vwapSetCost: number;
+    marginalEdge: number;
+    daysToResolution?: number;
+    annualizedReturn: number;
+    returnOnExposure: number;
+    yesAsk?: number;
+    noAsk?: number;
+  }>;
+  mintSellsSummary: Array<{
+    tradeId: string;
+    marketId: string;
+    title: string;
+    shares: number;
+    mintCostUsd: number;
+    proceedsUsd: number;
+    realizedPnlUsd: number;
+    edge: number;
+    yesBid: number;
+    noBid: number;
+  }>;
+  conversionsSummary: Array<{
+    tradeId: string;
+    eventId: string;
+    marketId: string; // the outcome whose NO was bought and converted
+    title: string;
+    legs: number;
+    shares: number;
+    costUsd: number;
+    proceedsUsd: number;
+    realizedPnlUsd: number;
+    edge: number;
   }>;
   openPositionsSummary: Array<{
     positionId: string;
+    strategy: PaperArbStrategy;
     marketId: string;
     title: string;
+    legs: number;
     entryTs: string;
     shares: number;
     costUsd: number;
     lockedProfitUsd: number;
     lastMarkPnlUsd: number | null;
+    daysToResolution?: number;
+    annualizedReturn?: number;
   }>;
 };
 
-type BundleOpportunity = {
-  market: MarketOrderBookPair;
-  yesAsk: number;
-  noAsk: number;
-  yesAskSize: number;
-  noAskSize: number;
+type ArbOpportunity = {
+  strategy: PaperArbStrategy;
+  key: string; // cooldown/ledger key: marketId for bundles, family_id for baskets
+  title: string;
+  legs: PaperArbLeg[];
   shares: number;
   feeUsd: number;
   costUsd: number;
   lockedProfitUsd: number;
   edge: number;
+  vwapSetCost: number; // cost per complete set incl. fees
+  marginalEdge: number; // payout minus marginal set cost at the last level bought
+  levelsWalked: number;
+  sizing: SizingDecision;
+  yesAsk?: number; // bundle VWAPs
+  noAsk?: number;
+  // Book sides the entry walks (`bookSide`) when they are not simply every leg's asks.
+  booksWalked?: string[];
+};
+
+// How long an opportunity locks capital; see `withCapitalEfficiency`.
+type CapitalEfficiency = {
+  resolvesAt?: string;
+  daysToResolution?: number; // unset when a leg has no end date
+  annualizedReturn: number;
+  returnOnExposure: number; // locked profit per dollar of cost per day held
+};
+
+type RankedArbOpportunity = ArbOpportunity & CapitalEfficiency;
+
+// Opportunities that open and close in the same scan (no position is held).
+type InstantOpportunity = {
+  type: "MINT_SELL" | "CONVERT";
+  strategy: "bundle_short" | "negrisk_convert";
+  key: string;
+  marketId: string;
+  eventId?: string;
+  title: string;
+  plan: BasketFillPlan;
+  mintCostPerSet: number;
+  legs: Array<Omit<PaperArbLeg, "price" | "feeUsd"> & { side: "buy" | "sell" }>;
 };
 
 type PaperArbEvent =
   | {
       ts: string;
       type: "ENTRY";
+      strategy: PaperArbStrategy;
       positionId: string;
       marketId: string;
-      yesAsk: number;
-      noAsk: number;
+      legs: Array<{ marketId: string; tokenId: string; outcome: "YES" | "NO"; price: number; limitPrice?: number }>;
+      yesAsk?: number;
+      noAsk?: number;
       shares: number;
       feeUsd: number;
       costUsd: number;
       lockedProfitUsd: number;
       edge: number;
+      vwapSetCost: number;
+      marginalEdge: number;
+      levelsWalked: number;
+      daysToResolution?: number;
+      annualizedReturn: number;
+      returnOnExposure: number;
+      sizing: SizingDecision; // budget model and inputs; the plan may spend less (depth, edge exhausted)
     }
   | {
       ts: string;
       type: "MARK";
+      strategy: PaperArbStrategy;
       positionId: string;
       marketId: string;
       bidExitUsd: number;
+      bidExitShares: number;
       markPnlUsd: number;
     }
   | {
       ts: string;
       type: "EXIT";
+      strategy: PaperArbStrategy;
       positionId: string;
       marketId: string;
       exitUsd: number;
       realizedPnlUsd: number;
       reason: string;
+    }
+  | ({
+      // A held entry blocked by a portfolio risk limit (nothing is bought).
+      ts: string;
+      type: "REJECT";
+      strategy: PaperArbStrategy;
+      marketId: string;
+      costUsd: number;
+    } & RiskRejection)
+  | {
+      // Early redemption of a held YES+NO set for $1/share via the CTF merge.
+      ts: string;
+      type: "MERGE";
+      strategy: PaperArbStrategy;
+      positionId: string;
+      marketId: string;
+      shares: number;
+      exitUsd: number;
+      realizedPnlUsd: number;
+    }
+  | {
+      // Actual resolution payout, once every leg's market has resolved (see `fetchResolutions`).
+      ts: string;
+      type: "SETTLE";
+      strategy: PaperArbStrategy;
+      positionId: string;
+      marketId: string;
+      shares: number;
+      payoutUsd: number;
+      realizedPnlUsd: number;
+      voided: boolean; // some leg resolved 50-50
+      legs: Array<{ marketId: string; outcome: "YES" | "NO"; payout: number }>;
+    }
+  | {
+      // MINT_SELL: split $1/share into a YES+NO set and sell both legs into the bids.
+      // CONVERT: buy NO on one neg-risk outcome, convert it to YES on the others and sell those.
+      ts: string;
+      type: "MINT_SELL" | "CONVERT";
+      strategy: "bundle_short" | "negrisk_convert";
+      positionId: string;
+      marketId: string;
+      eventId?: string;
+      legs: Array<{
+        marketId: string;
+        tokenId: string;
+        outcome: "YES" | "NO";
+        side: "buy" | "sell";
+        price: number;
+        limitPrice?: number;
+      }>;
+      shares: number;
+      mintCostUsd: number;
+      costUsd: number; // buy legs incl. fees
+      feeUsd: number;
+      proceedsUsd: number;
+      realizedPnlUsd: number;
+      edge: number;
+      vwapSetProceeds: number;
+      marginalEdge: number;
+      levelsWalked: number;
     };
 
-export async function runPaperArbitrage(snapshot: OrderBooksSnapshot): Promise<PaperArbSummary> {
+export type RunPaperArbArgs = {
+  // Injected clock: replays pass the snapshot timestamp so holds/cooldowns follow archive time.
+  ts?: string;
+  statePath?: string;
+  eventsPath?: string;
+  // Scored/built families; enables the multi-leg bucket and event basket strategies.
+  families?: MarketFamily[];
+  // Long-running callers (the daemon) keep the state in memory and pass it in instead of re-reading
+  // `statePath` every run. It is mutated in place and still saved to `statePath`.
+  state?: PaperArbState;
+  // Resolved markets from the resolution watcher. Positions whose legs have all resolved settle at the
+  // actual payout, and positions past PAPER_ARB_MAX_HOLD_HOURS wait for resolution instead of exiting
+  // at an assumed payout.
+  resolutions?: Map<string, MarketResolution>;
+  // Portfolio limits checked before every held entry; defaults to `riskLimitsFromEnv()`.
+  riskLimits?: RiskLimits;
+  // Directional strategies whose ledgers count toward the limits; defaults to `loadPaperStrategies()`.
+  paperStrategies?: PaperStrategy[];
+};
+
+export async function runPaperArbitrage(snapshot: OrderBooksSnapshot, args: RunPaperArbArgs = {}): Promise<PaperArbSummary> {
   const cfg = paperArbConfig();
-  const ts = new Date().toISOString();
-  const state = (await loadPaperArbState()) ?? defaultPaperArbState(cfg.bankrollStartUsd, ts);
+  const ts = args.ts ?? new Date().toISOString();
+  const statePath = args.statePath ?? defaultPaperArbStatePath();
+  const eventsPath = args.eventsPath ?? defaultPaperArbEventsPath();
+  const state = args.state ?? (await openPaperArbState(statePath, ts));
   state.updatedAt = ts;
 
+  const booksByToken = indexBooksByToken(snapshot);
+  const riskLimits = args.riskLimits ?? riskLimitsFromEnv();
+  // The directional side of the portfolio, as last saved; only read when a limit is set.
+  const directionalRisk = hasRiskLimits(riskLimits)
+    ? await loadDirectionalRiskBook(args.paperStrategies ?? (await loadPaperStrategies()), ts)
+    : { positions: [], realizedTodayUsd: 0 };
   const events: PaperArbEvent[] = [];
   let exited = 0;
 
+  let settled = 0;
+  if (args.resolutions) {
+    const unresolved: PaperArbPosition[] = [];
+    for (const pos of state.positions) {
+      const legs = settlementLegs(pos, args.resolutions);
+      if (!legs) {
+        unresolved.push(pos);
+        continue;
+      }
+      const payoutUsd = legs.reduce((acc, l) => acc + l.payout * pos.shares, 0);
+      const pnl = payoutUsd - pos.costUsd;
+      state.bankrollCashUsd += payoutUsd;
+      state.realizedPnlUsd += pnl;
+      state.dailyPnl = addDailyPnl(state.dailyPnl, ts, pnl);
+      settled += 1;
+      events.push({
+        ts,
+        type: "SETTLE",
+        strategy: pos.strategy,
+        positionId: pos.id,
+        marketId: pos.marketId,
+        shares: pos.shares,
+        payoutUsd,
+        realizedPnlUsd: pnl,
+        voided: legs.some((l) => args.resolutions!.get(l.marketId)?.winner === null),
+        legs
+      });
+    }
+    state.positions = unresolved;
+  }
+
   for (const pos of state.positions) {
-    const m = snapshot.markets.find((x) => x.marketId === pos.marketId);
-    const bidExitUsd = m ? markBidExitUsd(pos, m) : null;
-    if (bidExitUsd === null) continue;
+    if (pos.resolvesAt) pos.daysToResolution = daysUntil(pos.resolvesAt, ts);
+    const mark = markBidExitUsd(pos, booksByToken, cfg.takerFeeRate);
+    if (mark === null) continue;
 
+    const bidExitUsd = mark.exitUsd;
     const markPnlUsd = bidExitUsd - pos.costUsd;
     pos.lastMarkTs = ts;
     pos.lastBidExitUsd = bidExitUsd;
+    pos.lastBidExitShares = mark.shares;
     pos.lastMarkPnlUsd = markPnlUsd;
-    events.push({ ts, type: "MARK", positionId: pos.id, marketId: pos.marketId, bidExitUsd, markPnlUsd });
+    events.push({
+      ts,
+      type: "MARK",
+      strategy: pos.strategy,
+      positionId: pos.id,
+      marketId: pos.marketId,
+      bidExitUsd,
+      bidExitShares: mark.shares,
+      markPnlUsd
+    });
   }
 
+  // Book sides already traded this scan (see `bookSide`). Every fill is planned against the full
+  // snapshot books, so a second trade on the same side would take liquidity an earlier one already
+  // used; it waits for the next scan.
+  const tradedBooks = new Set<string>();
+  const touchesTraded = (books: string[]) => books.some((b) => tradedBooks.has(b));
+  const markTraded = (books: string[]) => {
+    for (const b of books) tradedBooks.add(b);
+  };
+  const exitBooks = (pos: PaperArbPosition) => pos.legs.map((l) => bookSide(l.tokenId, "sell"));
+  const instantBooks = (opp: InstantOpportunity) => opp.legs.map((l) => bookSide(l.tokenId, l.side));
+  const entryBooks = (opp: ArbOpportunity) => opp.booksWalked ?? opp.legs.map((l) => bookSide(l.tokenId, "buy"));
+
   const remaining: PaperArbPosition[] = [];
+  let merged = 0;
   for (const pos of state.positions) {
     const ageHours = (Date.parse(ts) - Date.parse(pos.entryTs)) / 36e5;
-    const canExitAtProfit = (pos.lastMarkPnlUsd ?? -Infinity) >= cfg.exitProfitUsd;
-    if (!canExitAtProfit && ageHours < cfg.maxHoldHours) {
+    // Only exit into the bids when they can absorb the whole position.
+    const canExitAtProfit =
+      (pos.lastMarkPnlUsd ?? -Infinity) >= cfg.exitProfitUsd &&
+      (pos.lastBidExitShares ?? pos.shares) >= pos.shares - 1e-9 &&
+      !touchesTraded(exitBooks(pos));
+    const bidsBeatMerge = canExitAtProfit && (pos.lastBidExitUsd ?? 0) > pos.guaranteedPayoutUsd;
+
+    if (cfg.mergeEnabled && isMergeableSet(pos) && !bidsBeatMerge) {
+      const exitUsd = pos.shares;
+      const pnl = exitUsd - pos.costUsd;
+      state.bankrollCashUsd += exitUsd;
+      state.realizedPnlUsd += pnl;
+      state.dailyPnl = addDailyPnl(state.dailyPnl, ts, pnl);
+      merged += 1;
+      events.push({
+        ts,
+        type: "MERGE",
+        strategy: pos.strategy,
+        positionId: pos.id,
+        marketId: pos.marketId,
+        shares: pos.shares,
+        exitUsd,
+        realizedPnlUsd: pnl
+      });
+      continue;
+    }
+
+    // With real resolutions available, an aged position waits for its SETTLE rather than assuming one.
+    if (!canExitAtProfit && (args.resolutions || ageHours < cfg.maxHoldHours)) {
       remaining.push(pos);
       continue;
     }
 
     const exitUsd = canExitAtProfit ? pos.lastBidExitUsd ?? pos.guaranteedPayoutUsd : pos.guaranteedPayoutUsd;
+    if (canExitAtProfit) markTraded(exitBooks(pos));
     const pnl = exitUsd - pos.costUsd;
     state.bankrollCashUsd += exitUsd;
     state.realizedPnlUsd += pnl;
+    state.dailyPnl = addDailyPnl(state.dailyPnl, ts, pnl);
     exited += 1;
     events.push({
       ts,
       type: "EXIT",
+      strategy: pos.strategy,
       positionId: pos.id,
       marketId: pos.marketId,
       exitUsd,
@@ -159,7 +496,93 @@ export async function runPaperArbitrage(snapshot: OrderBooksSnapshot): Promise<P
   }
   state.positions = remaining;
 
-  const opportunities = findBundleLongOpportunities(snapshot, cfg);
+  const negRiskGroups = cfg.negRiskEnabled ? groupNegRiskEvents(snapshot) : [];
+  const instantOpps = [
+    ...(cfg.mintSellEnabled ? findBundleShortOpportunities(snapshot, cfg) : []),
+    ...findNegRiskConvertOpportunities(negRiskGroups, cfg)
+  ].sort((a, b) => b.plan.netUsd - a.plan.netUsd);
+  const instantEvents: Extract<PaperArbEvent, { type: "MINT_SELL" | "CONVERT" }>[] = [];
+  const marketsById = new Map(snapshot.markets.map((m) => [m.marketId, m]));
+  let riskRejected = 0;
+  // Instant trades hold nothing once done, so only the daily loss halt and the event cap apply to them.
+  const instantLimits: RiskLimits = {
+    maxEventUsd: riskLimits.maxEventUsd,
+    maxCategoryUsd: null,
+    maxResolutionDayUsd: null,
+    maxCorrelatedUsd: null,
+    maxCorrelatedPositions: null,
+    dailyLossLimitUsd: riskLimits.dailyLossLimitUsd
+  };
+  for (const opp of instantOpps) {
+    if (instantEvents.length >= cfg.maxNewTradesPerScan) break;
+    const mintCostUsd = opp.plan.shares * opp.mintCostPerSet;
+    if (state.bankrollCashUsd < mintCostUsd + opp.plan.costUsd) continue;
+
+    const last = state.lastEntryByMarketId[opp.key];
+    if (last && (Date.parse(ts) - Date.parse(last)) / 36e5 < cfg.cooldownHours) continue;
+    if (touchesTraded(instantBooks(opp))) continue;
+
+    const eventId = opp.eventId ?? marketsById.get(opp.marketId)?.eventId;
+    const outlayUsd = mintCostUsd + opp.plan.costUsd;
+    const rejection = checkRisk(instantLimits, mergeRiskBooks(arbRiskBook(state, ts), directionalRisk), {
+      usd: outlayUsd,
+      ...(eventId ? { eventId } : {})
+    });
+    if (rejection) {
+      riskRejected += 1;
+      events.push({ ts, type: "REJECT", strategy: opp.strategy, marketId: opp.key, costUsd: outlayUsd, ...rejection });
+      continue;
+    }
+
+    const realizedPnlUsd = opp.plan.netUsd;
+    state.bankrollCashUsd += realizedPnlUsd;
+    state.realizedPnlUsd += realizedPnlUsd;
+    state.dailyPnl = addDailyPnl(state.dailyPnl, ts, realizedPnlUsd);
+    state.lastEntryByMarketId[opp.key] = ts;
+    markTraded(instantBooks(opp));
+    instantEvents.push({
+      ts,
+      type: opp.type,
+      strategy: opp.strategy,
+      positionId: crypto.randomUUID(),
+      marketId: opp.marketId,
+      ...(opp.eventId ? { eventId: opp.eventId } : {}),
+      legs: opp.legs.map((l, i) => {
+        const fill = opp.plan.legs[i]!;
+        return {
+          marketId: l.marketId,
+          tokenId: l.tokenId,
+          outcome: l.outcome,
+          side: l.side,
+          price: fill.vwap,
+          ...(fill.limitPrice !== null ? { limitPrice: fill.limitPrice } : {})
+        };
+      }),
+      shares: opp.plan.shares,
+      mintCostUsd,
+      costUsd: opp.plan.costUsd,
+      feeUsd: opp.plan.feeUsd,
+      proceedsUsd: opp.plan.proceedsUsd,
+      realizedPnlUsd,
+      edge: realizedPnlUsd / Math.max(outlayUsd, 0.001),
+      vwapSetProceeds: opp.plan.proceedsUsd / opp.plan.shares,
+      marginalEdge: opp.plan.steps[opp.plan.steps.length - 1]?.marginalEdge ?? 0,
+      levelsWalked: opp.plan.steps.length
+    });
+  }
+  events.push(...instantEvents);
+  const mintSells = instantEvents.filter((e) => e.type === "MINT_SELL");
+  const conversions = instantEvents.filter((e) => e.type === "CONVERT");
+
+  const endDates = indexEndDatesByMarket(snapshot);
+  const opportunities = [
+    ...findBundleLongOpportunities(snapshot, cfg),
+    ...(cfg.basketsEnabled && args.families ? findBasketOpportunities(args.families, snapshot, booksByToken, cfg) : []),
+    ...(cfg.laddersEnabled && args.families ? findLadderPairOpportunities(args.families, booksByToken, cfg) : []),
+    ...findNegRiskReplicationOpportunities(negRiskGroups, cfg)
+  ]
+    .map((o) => withCapitalEfficiency(o, endDates, ts, cfg))
+    .sort((a, b) => rankValue(b, cfg.rankBy) - rankValue(a, cfg.rankBy) || b.lockedProfitUsd - a.lockedProfitUsd);
   const enteredEvents: Extract<PaperArbEvent, { type: "ENTRY" }>[] = [];
 
   for (const opp of opportunities) {
@@ -167,47 +590,88 @@ export async function runPaperArbitrage(snapshot: OrderBooksSnapshot): Promise<P
     if (state.bankrollCashUsd < opp.costUsd) continue;
     if (exposureUsd(state.positions) + opp.costUsd > cfg.maxExposureUsd) continue;
 
-    const last = state.lastEntryByMarketId[opp.market.marketId];
+    const last = state.lastEntryByMarketId[opp.key];
     if (last && (Date.parse(ts) - Date.parse(last)) / 36e5 < cfg.cooldownHours) continue;
+    if (touchesTraded(entryBooks(opp))) continue;
+
+    const risk = riskTags(opp, marketsById);
+    const rejection = checkRisk(riskLimits, mergeRiskBooks(arbRiskBook(state, ts), directionalRisk), {
+      usd: opp.costUsd,
+      ...risk
+    });
+    if (rejection) {
+      riskRejected += 1;
+      events.push({ ts, type: "REJECT", strategy: opp.strategy, marketId: opp.key, costUsd: opp.costUsd, ...rejection });
+      continue;
+    }
 
     const pos: PaperArbPosition = {
       id: crypto.randomUUID(),
-      marketId: opp.market.marketId,
-      title: opp.market.title,
-      yesTokenId: opp.market.yesTokenId,
-      noTokenId: opp.market.noTokenId,
+      strategy: opp.strategy,
+      marketId: opp.key,
+      title: opp.title,
+      legs: opp.legs,
       entryTs: ts,
       shares: opp.shares,
-      yesAsk: opp.yesAsk,
-      noAsk: opp.noAsk,
       feeUsd: opp.feeUsd,
       costUsd: opp.costUsd,
       guaranteedPayoutUsd: opp.shares,
-      lockedProfitUsd: opp.lockedProfitUsd
+      lockedProfitUsd: opp.lockedProfitUsd,
+      ...(opp.resolvesAt ? { resolvesAt: opp.resolvesAt } : {}),
+      ...(opp.daysToResolution !== undefined ? { daysToResolution: opp.daysToResolution } : {}),
+      annualizedReturn: opp.annualizedReturn,
+      returnOnExposure: opp.returnOnExposure,
+      ...(risk.eventId ? { eventId: risk.eventId } : {}),
+      ...(risk.category ? { category: risk.category } : {}),
+      riskGroup: risk.group,
+      ...(opp.strategy === "bundle_long"
+        ? {
+            yesTokenId: opp.legs[0]!.tokenId,
+            noTokenId: opp.legs[1]!.tokenId,
+            yesAsk: opp.yesAsk!,
+            noAsk: opp.noAsk!
+          }
+        : {})
     };
 
     state.positions.push(pos);
     state.bankrollCashUsd -= opp.costUsd;
-    state.lastEntryByMarketId[opp.market.marketId] = ts;
+    state.lastEntryByMarketId[opp.key] = ts;
+    markTraded(entryBooks(opp));
 
     enteredEvents.push({
       ts,
       type: "ENTRY",
+      strategy: opp.strategy,
       positionId: pos.id,
       marketId: pos.marketId,
-      yesAsk: opp.yesAsk,
-      noAsk: opp.noAsk,
+      legs: opp.legs.map((l) => ({
+        marketId: l.marketId,
+        tokenId: l.tokenId,
+        outcome: l.outcome,
+        price: l.price,
+        ...(l.limitPrice !== undefined ? { limitPrice: l.limitPrice } : {})
+      })),
+      ...(opp.yesAsk !== undefined ? { yesAsk: opp.yesAsk } : {}),
+      ...(opp.noAsk !== undefined ? { noAsk: opp.noAsk } : {}),
       shares: opp.shares,
       feeUsd: opp.feeUsd,
       costUsd: opp.costUsd,
       lockedProfitUsd: opp.lockedProfitUsd,
-      edge: opp.edge
+      edge: opp.edge,
+      vwapSetCost: opp.vwapSetCost,
+      marginalEdge: opp.marginalEdge,
+      levelsWalked: opp.levelsWalked,
+      ...(opp.daysToResolution !== undefined ? { daysToResolution: opp.daysToResolution } : {}),
+      annualizedReturn: opp.annualizedReturn,
+      returnOnExposure: opp.returnOnExposure,
+      sizing: opp.sizing
     });
   }
   events.push(...enteredEvents);
 
-  await savePaperArbState(state);
-  await appendPaperArbEvents(events);
+  await savePaperArbState(state, statePath);
+  await appendPaperArbEvents(events, eventsPath);
 
   const lockedProfitUsd = state.positions.reduce((acc, p) => acc + p.lockedProfitUsd, 0);
   const markToBidPnlUsd = state.positions.reduce((acc, p) => acc + (p.lastMarkPnlUsd ?? 0), 0);
@@ -216,105 +680,630 @@ export async function runPaperArbitrage(snapshot: OrderBooksSnapshot): Promise<P
     ts,
     scannedMarkets: snapshot.markets.length,
     completeBooks: snapshot.markets.filter((m) => m.yes && m.no).length,
-    opportunities: opportunities.length,
+    opportunities: opportunities.length + instantOpps.length,
+    signals: opportunitySignals(ts, opportunities, instantOpps),
     entered: enteredEvents.length,
     exited,
+    merged,
+    settled,
+    mintSells: mintSells.length,
+    conversions: conversions.length,
     bankrollCashUsd: state.bankrollCashUsd,
     realizedPnlUsd: state.realizedPnlUsd,
     lockedProfitUsd,
     markToBidPnlUsd,
     exposureUsd: exposureUsd(state.positions),
     openPositionsCount: state.positions.length,
+    riskRejected,
     newTradesSummary: enteredEvents.map((e) => {
       const pos = state.positions.find((p) => p.id === e.positionId)!;
       return {
         positionId: e.positionId,
+        strategy: e.strategy,
         marketId: e.marketId,
         title: pos.title,
+        legs: e.legs.length,
         shares: e.shares,
         costUsd: e.costUsd,
         lockedProfitUsd: e.lockedProfitUsd,
-        edge: e.edge
+        edge: e.edge,
+        vwapSetCost: e.vwapSetCost,
+        marginalEdge: e.marginalEdge,
+        ...(e.daysToResolution !== undefined ? { daysToResolution: e.daysToResolution } : {}),
+        annualizedReturn: e.annualizedReturn,
+        returnOnExposure: e.returnOnExposure,
+        ...(e.yesAsk !== undefined ? { yesAsk: e.yesAsk } : {}),
+        ...(e.noAsk !== undefined ? { noAsk: e.noAsk } : {})
       };
     }),
+    mintSellsSummary: mintSells.map((e) => ({
+      tradeId: e.positionId,
+      marketId: e.marketId,
+      title: instantOpps.find((o) => o.type === "MINT_SELL" && o.marketId === e.marketId)?.title ?? e.marketId,
+      shares: e.shares,
+      mintCostUsd: e.mintCostUsd,
+      proceedsUsd: e.proceedsUsd,
+      realizedPnlUsd: e.realizedPnlUsd,
+      edge: e.edge,
+      yesBid: e.legs[0]!.price,
+      noBid: e.legs[1]!.price
+    })),
+    conversionsSummary: conversions.map((e) => ({
+      tradeId: e.positionId,
+      eventId: e.eventId ?? "",
+      marketId: e.marketId,
+      title: instantOpps.find((o) => o.type === "CONVERT" && o.marketId === e.marketId)?.title ?? e.marketId,
+      legs: e.legs.length,
+      shares: e.shares,
+      costUsd: e.costUsd,
+      proceedsUsd: e.proceedsUsd,
+      realizedPnlUsd: e.realizedPnlUsd,
+      edge: e.edge
+    })),
     openPositionsSummary: state.positions.map((p) => ({
       positionId: p.id,
+      strategy: p.strategy,
       marketId: p.marketId,
       title: p.title,
+      legs: p.legs.length,
       entryTs: p.entryTs,
       shares: p.shares,
       costUsd: p.costUsd,
       lockedProfitUsd: p.lockedProfitUsd,
-      lastMarkPnlUsd: typeof p.lastMarkPnlUsd === "number" ? p.lastMarkPnlUsd : null
+      lastMarkPnlUsd: typeof p.lastMarkPnlUsd === "number" ? p.lastMarkPnlUsd : null,
+      ...(p.daysToResolution !== undefined ? { daysToResolution: p.daysToResolution } : {}),
+      ...(p.annualizedReturn !== undefined ? { annualizedReturn: p.annualizedReturn } : {})
     }))
   };
 }
 
-function findBundleLongOpportunities(snapshot: OrderBooksSnapshot, cfg: ReturnType<typeof paperArbConfig>): BundleOpportunity[] {
-  const out: BundleOpportunity[] = [];
+function findBundleLongOpportunities(snapshot: OrderBooksSnapshot, cfg: ReturnType<typeof paperArbConfig>): ArbOpportunity[] {
+  const out: ArbOpportunity[] = [];
   for (const market of snapshot.markets) {
     if (!market.yes || !market.no) continue;
-    const yesAsk = bestAsk(market.yes);
-    const noAsk = bestAsk(market.no);
-    if (!yesAsk || !noAsk) continue;
 
-    const maxSharesByDepth = Math.min(yesAsk.size, noAsk.size);
-    const maxSharesBySpend = cfg.maxTradeUsd / Math.max(yesAsk.price + noAsk.price, 0.001);
-    const shares = roundShares(Math.min(maxSharesByDepth, maxSharesBySpend));
-    if (shares < cfg.minShares) continue;
+    const sized = sizedBuy([market.yes, market.no], cfg);
+    if (!sized) continue;
+    const { plan, sizing } = sized;
+    const [yesFill, noFill] = plan.legs as [FillResult, FillResult];
 
-    const feeUsd = takerFeeUsd(shares, yesAsk.price, cfg.takerFeeRate) + takerFeeUsd(shares, noAsk.price, cfg.takerFeeRate);
-    const costUsd = shares * (yesAsk.price + noAsk.price) + feeUsd;
-    const lockedProfitUsd = shares - costUsd;
-    const edge = lockedProfitUsd / Math.max(costUsd, 0.001);
-    if (lockedProfitUsd < cfg.minProfitUsd || edge < cfg.minEdge) continue;
+    const opp = opportunityFromPlan("bundle_long", market.marketId, market.title, plan, sizing, [
+      { marketId: market.marketId, tokenId: market.yesTokenId, outcome: "YES" },
+      { marketId: market.marketId, tokenId: market.noTokenId, outcome: "NO" }
+    ]);
+    if (opp.lockedProfitUsd < cfg.minProfitUsd || opp.edge < cfg.minEdge) continue;
+    out.push({ ...opp, yesAsk: yesFill.vwap, noAsk: noFill.vwap });
+  }
+  return out;
+}
+
+/**
+ * Bundle-short (overround): YES bid + NO bid minus taker fees above the $1 it costs to mint the set.
+ * Sized by walking both bid ladders; the mint is capped by `PAPER_ARB_MAX_TRADE_USD`.
+ */
+function findBundleShortOpportunities(
+  snapshot: OrderBooksSnapshot,
+  cfg: ReturnType<typeof paperArbConfig>
+): InstantOpportunity[] {
+  const out: InstantOpportunity[] = [];
+  for (const market of snapshot.markets) {
+    if (!market.yes || !market.no) continue;
+    const plan = optimalBasketSell([market.yes, market.no], {
+      costPerShare: 1,
+      maxUsd: cfg.maxTradeUsd,
+      feeRate: cfg.takerFeeRate,
+      minShares: cfg.minShares
+    });
+    if (!plan) continue;
 
+    if (plan.netUsd < cfg.minProfitUsd || plan.netUsd / plan.shares < cfg.minEdge) continue;
     out.push({
-      market,
-      yesAsk: yesAsk.price,
-      noAsk: noAsk.price,
-      yesAskSize: yesAsk.size,
-      noAskSize: noAsk.size,
-      shares,
-      feeUsd,
-      costUsd,
-      lockedProfitUsd,
-      edge
+      type: "MINT_SELL",
+      strategy: "bundle_short",
+      key: `bundle_short:${market.marketId}`,
+      marketId: market.marketId,
+      title: market.title,
+      plan,
+      mintCostPerSet: 1,
+      legs: [
+        { marketId: market.marketId, tokenId: market.yesTokenId, outcome: "YES", side: "sell" },
+        { marketId: market.marketId, tokenId: market.noTokenId, outcome: "NO", side: "sell" }
+      ]
     });
   }
-  return out.sort((a, b) => b.edge - a.edge || b.lockedProfitUsd - a.lockedProfitUsd);
+  return out;
 }
 
-function markBidExitUsd(pos: PaperArbPosition, market: MarketOrderBookPair): number | null {
-  if (!market.yes || !market.no) return null;
-  const yesBid = bestBid(market.yes);
-  const noBid = bestBid(market.no);
-  if (!yesBid || !noBid) return null;
-  const shares = Math.min(pos.shares, yesBid.size, noBid.size);
-  return shares * (yesBid.price + noBid.price);
+/**
+ * Neg-risk conversion, instant leg: buy NO_i, convert it into YES on every other outcome and sell the
+ * ones that have bids. Other outcomes without bids are kept and valued at 0, so the event does not
+ * need to be complete in the snapshot.
+ */
+function findNegRiskConvertOpportunities(
+  groups: NegRiskEventGroup[],
+  cfg: ReturnType<typeof paperArbConfig>
+): InstantOpportunity[] {
+  const out: InstantOpportunity[] = [];
+  for (const g of groups) {
+    if (g.markets.length > cfg.basketMaxLegs) continue;
+    for (const target of g.markets) {
+      if (!target.no || target.no.asks.length === 0) continue;
+      const others = g.markets.filter((m) => m !== target && m.yes && m.yes.bids.length > 0);
+      if (others.length === 0) continue;
+
+      const plan = optimalSetTrade(
+        [{ book: target.no, side: "buy" }, ...others.map((m) => ({ book: m.yes!, side: "sell" as const }))],
+        { payoutPerSet: 0, mintCostPerSet: 0, maxUsd: cfg.maxTradeUsd, feeRate: cfg.takerFeeRate, minShares: cfg.minShares }
+      );
+      if (!plan) continue;
+      if (plan.netUsd < cfg.minProfitUsd || plan.netUsd / Math.max(plan.costUsd, 0.001) < cfg.minEdge) continue;
+
+      out.push({
+        type: "CONVERT",
+        strategy: "negrisk_convert",
+        key: `negrisk_convert:${target.marketId}`,
+        marketId: target.marketId,
+        eventId: g.eventId,
+        title: target.title,
+        plan,
+        mintCostPerSet: 0,
+        legs: [
+          { marketId: target.marketId, tokenId: target.noTokenId, outcome: "NO", side: "buy" },
+          ...others.map((m) => ({ marketId: m.marketId, tokenId: m.yesTokenId, outcome: "YES" as const, side: "sell" as const }))
+        ]
+      });
+    }
+  }
+  return out;
 }
 
-function bestAsk(book: ClobOrderBook): { price: number; size: number } | null {
-  return book.asks[0] ?? null;
+/**
+ * Neg-risk conversion, reverse direction: when the other outcomes' YES asks undercut NO_i, buy them,
+ * mint a YES_i+NO_i set and sell NO_i into its bids. Holding YES on every outcome pays $1 per set, so
+ * this requires the event to be complete in the snapshot.
+ */
+function findNegRiskReplicationOpportunities(
+  groups: NegRiskEventGroup[],
+  cfg: ReturnType<typeof paperArbConfig>
+): ArbOpportunity[] {
+  const out: ArbOpportunity[] = [];
+  for (const g of groups) {
+    if (!g.complete || g.markets.length > cfg.basketMaxLegs) continue;
+    for (const target of g.markets) {
+      if (!target.no || target.no.bids.length === 0) continue;
+      const others = g.markets.filter((m) => m !== target);
+      if (others.some((m) => !m.yes || m.yes.asks.length === 0)) continue;
+
+      const sized = sizedSetTrade(
+        [...others.map((m) => ({ book: m.yes!, side: "buy" as const })), { book: target.no, side: "sell" }],
+        { payoutPerSet: 1, mintCostPerSet: 1 },
+        cfg
+      );
+      if (!sized) continue;
+      const { plan, sizing } = sized;
+
+      // Net cost: the YES legs, plus $1/set minted, less the NO_i sale.
+      const costUsd = plan.costUsd + plan.shares - plan.proceedsUsd;
+      const lockedProfitUsd = plan.shares - costUsd;
+      const edge = lockedProfitUsd / Math.max(costUsd, 0.001);
+      if (lockedProfitUsd < cfg.minProfitUsd || edge < cfg.minEdge) continue;
+
+      const noFill = plan.legs[plan.legs.length - 1]!;
+      const legs: PaperArbLeg[] = [
+        ...others.map((m, i) => {
+          const fill = plan.legs[i]!;
+          return {
+            marketId: m.marketId,
+            tokenId: m.yesTokenId,
+            outcome: "YES" as const,
+            price: fill.vwap,
+            feeUsd: fill.feeUsd,
+            ...(fill.limitPrice !== null ? { limitPrice: fill.limitPrice } : {})
+          };
+        }),
+        // Minted YES_i: effective price is $1 less the net NO_i proceeds per share.
+        {
+          marketId: target.marketId,
+          tokenId: target.yesTokenId,
+          outcome: "YES",
+          label: "minted",
+          price: 1 - plan.proceedsUsd / plan.shares,
+          feeUsd: noFill.feeUsd
+        }
+      ];
+
+      out.push({
+        strategy: "negrisk_convert",
+        key: `negrisk_replicate:${target.marketId}`,
+        title: `${target.title} (replicate NO)`,
+        legs,
+        shares: plan.shares,
+        feeUsd: plan.feeUsd,
+        costUsd,
+        lockedProfitUsd,
+        edge,
+        vwapSetCost: costUsd / plan.shares,
+        marginalEdge: plan.steps[plan.steps.length - 1]?.marginalEdge ?? 0,
+        levelsWalked: plan.steps.length,
+        sizing,
+        // The minted YES_i never touches its book; NO_i is sold into its bids.
+        booksWalked: [...others.map((m) => bookSide(m.yesTokenId, "buy")), bookSide(target.noTokenId, "sell")]
+      });
+    }
+  }
+  return out;
 }
 
-function bestBid(book: ClobOrderBook): { price: number; size: number } | null {
-  return book.bids[0] ?? null;
+/**
+ * Family underround: buy YES on every outcome so exactly one leg pays $1.
+ *
+ * Guarantees we require before treating the basket as locked (explicit):
+ * - Buckets form a full partition (`rangeAdjacencyStats().fullPartition`): no gaps or overlaps and
+ *   open-ended tails, so a result outside every bucket cannot leave the basket paying $0.
+ * - Event multi families are neg-risk (mutually exclusive) and every binary market Gamma returned for
+ *   the event is a member.
+ * - Every outcome has a YES ask ladder in this snapshot.
+ * - If the family has an eventId, no other market of that event appears in the snapshot
+ *   (an unparsed tail bucket would otherwise be a missing leg).
+ */
+function findBasketOpportunities(
+  families: MarketFamily[],
+  snapshot: OrderBooksSnapshot,
+  booksByToken: Map<string, ClobOrderBook>,
+  cfg: ReturnType<typeof paperArbConfig>
+): ArbOpportunity[] {
+  const out: ArbOpportunity[] = [];
+  for (const f of families) {
+    const basket = basketLegs(f, snapshot);
+    if (!basket) continue;
+    if (basket.legs.length < 2 || basket.legs.length > cfg.basketMaxLegs) continue;
+
+    if (f.eventId) {
+      const members = new Set(basket.legs.map((l) => l.marketId));
+      const outsider = snapshot.markets.some((m) => m.eventId === f.eventId && !members.has(m.marketId));
+      if (outsider) continue;
+    }
+
+    const books: ClobOrderBook[] = [];
+    for (const l of basket.legs) {
+      const book = booksByToken.get(l.tokenId);
+      if (!book || book.asks.length === 0) break;
+      books.push(book);
+    }
+    if (books.length !== basket.legs.length) continue;
+
+    const sized = sizedBuy(books, cfg);
+    if (!sized) continue;
+
+    const opp = opportunityFromPlan(basket.strategy, f.family_id, f.title, sized.plan, sized.sizing, basket.legs);
+    if (opp.lockedProfitUsd < cfg.minProfitUsd || opp.edge < cfg.minEdge) continue;
+    out.push(opp);
+  }
+  return out;
 }
 
-function takerFeeUsd(shares: number, price: number, feeRate: number): number {
-  return shares * feeRate * price * (1 - price);
+/**
+ * Ladder inversion: when a rung trades above a rung that contains it ("above $100k" over "above $90k"),
+ * buy YES on the containing rung and NO on the narrower one. Whatever the outcome at least one leg pays,
+ * so the pair is a locked $1 (and pays $2 if the result lands between the rungs). Every pair of rungs is
+ * priced from the asks; the best one per family is kept.
+ */
+function findLadderPairOpportunities(
+  families: MarketFamily[],
+  booksByToken: Map<string, ClobOrderBook>,
+  cfg: ReturnType<typeof paperArbConfig>
+): ArbOpportunity[] {
+  const out: ArbOpportunity[] = [];
+  for (const f of families) {
+    if (f.family_type !== "ladder" || !f.ladder || f.ladder.rungs.length > cfg.basketMaxLegs) continue;
+    const { rungs, direction } = f.ladder;
+    let best: ArbOpportunity | null = null;
+    for (let i = 0; i < rungs.length; i++) {
+      for (let j = i + 1; j < rungs.length; j++) {
+        const [subset, superset] = direction === "increasing" ? [rungs[i]!, rungs[j]!] : [rungs[j]!, rungs[i]!];
+        if (!superset.yesTokenId || !subset.noTokenId) continue;
+        const yesBook = booksByToken.get(superset.yesTokenId);
+        const noBook = booksByToken.get(subset.noTokenId);
+        if (!yesBook?.asks.length || !noBook?.asks.length) continue;
+
+        const sized = sizedBuy([yesBook, noBook], cfg);
+        if (!sized) continue;
+
+        const title = `${f.title} (YES ${superset.label} / NO ${subset.label})`;
+        const opp = opportunityFromPlan("ladder_pair", f.family_id, title, sized.plan, sized.sizing, [
+          { marketId: superset.marketId, tokenId: superset.yesTokenId, outcome: "YES", label: superset.label },
+          { marketId: subset.marketId, tokenId: subset.noTokenId, outcome: "NO", label: subset.label }
+        ]);
+        if (opp.lockedProfitUsd < cfg.minProfitUsd || opp.edge < cfg.minEdge) continue;
+        if (!best || opp.lockedProfitUsd > best.lockedProfitUsd) best = opp;
+      }
+    }
+    if (best) out.push(best);
+  }
+  return out;
 }
 
-function exposureUsd(positions: PaperArbPosition[]): number {
-  return positions.reduce((acc, p) => acc + p.costUsd, 0);
+function basketLegs(
+  f: MarketFamily,
+  snapshot: OrderBooksSnapshot
+): { strategy: PaperArbStrategy; legs: Array<Omit<PaperArbLeg, "price" | "feeUsd">> } | null {
+  if (f.family_type === "bucket" && f.buckets) {
+    if (!rangeAdjacencyStats(f.buckets).fullPartition) return null;
+    if (f.buckets.some((b) => !b.yesTokenId)) return null;
+    return {
+      strategy: "bucket_basket",
+      legs: f.buckets.map((b) => ({ marketId: b.marketId, tokenId: b.yesTokenId!, outcome: "YES" as const, label: b.label }))
+    };
+  }
+
+  if (f.family_type === "multi" && f.multi && f.eventId && f.negRisk) {
+    if (f.multi.some((o) => !o.marketId || !o.yesTokenId)) return null;
+    if (snapshot.eventMarketCounts?.[f.eventId] !== f.multi.length) return null;
+    return {
+      strategy: "event_basket",
+      legs: f.multi.map((o) => ({ marketId: o.marketId!, tokenId: o.yesTokenId!, outcome: "YES" as const, label: o.name }))
+    };
+  }
+  return null;
+}
+
+/**
+ * Attach time-to-resolution figures. Capital is assumed locked until the latest leg's end date; an
+ * opportunity with an undated leg is assumed to hold for `PAPER_ARB_UNKNOWN_RESOLUTION_DAYS`. Holding
+ * periods are floored at `PAPER_ARB_MIN_RESOLUTION_DAYS` so overdue markets do not annualize to infinity.
+ */
+function withCapitalEfficiency(
+  opp: ArbOpportunity,
+  endDates: Map<string, string>,
+  ts: string,
+  cfg: ReturnType<typeof paperArbConfig>
+): RankedArbOpportunity {
+  const legDates = opp.legs.map((l) => endDates.get(l.marketId));
+  const resolvesAt = legDates.every((d): d is string => d !== undefined)
+    ? legDates.reduce((a, b) => (Date.parse(b) > Date.parse(a) ? b : a))
+    : undefined;
+  const daysToResolution = resolvesAt ? daysUntil(resolvesAt, ts) : undefined;
+  const holdDays = Math.max(cfg.minResolutionDays, daysToResolution ?? cfg.unknownResolutionDays);
+  return {
+    ...opp,
+    ...(resolvesAt ? { resolvesAt } : {}),
+    ...(daysToResolution !== undefined ? { daysToResolution } : {}),
+    annualizedReturn: Math.pow(1 + opp.edge, 365 / holdDays) - 1,
+    returnOnExposure: opp.edge / holdDays
+  };
+}
+
+function rankValue(opp: RankedArbOpportunity, objective: ArbRankObjective): number {
+  if (objective === "annualized") return opp.annualizedReturn;
+  if (objective === "dollar_day") return opp.returnOnExposure;
+  return opp.edge;
 }
 
-function roundShares(x: number): number {
-  return Math.floor(x * 100) / 100;
+function daysUntil(iso: string, ts: string): number {
+  return Math.max(0, (Date.parse(iso) - Date.parse(ts)) / 864e5);
+}
+
+/**
+ * Plan a held set trade within the entry budget of `PAPER_ARB_SIZING`. Edge sizing prices the
+ * opportunity at the full `PAPER_ARB_MAX_TRADE_USD` first and re-plans with the smaller budget its
+ * top-of-book edge (profit per dollar of the first set) earns.
+ */
+function sizedSetTrade(
+  legs: SetTradeLeg[],
+  opts: { payoutPerSet: number; mintCostPerSet: number },
+  cfg: ReturnType<typeof paperArbConfig>
+): { plan: BasketFillPlan; sizing: SizingDecision } | null {
+  const planOpts = { ...opts, feeRate: cfg.takerFeeRate, minShares: cfg.minShares };
+  const full = optimalSetTrade(legs, { ...planOpts, maxUsd: cfg.maxTradeUsd });
+  if (!full) return null;
+  if (cfg.sizing === "flat") return { plan: full, sizing: flatSize(cfg.maxTradeUsd) };
+
+  const top = full.steps[0];
+  const edge = top && top.marginalSetCost > 0 ? top.marginalEdge / top.marginalSetCost : 0;
+  const sizing = edgeProportionalSize({ edge, fullEdge: cfg.sizingFullEdge, maxUsd: cfg.maxTradeUsd });
+  if (sizing.usd >= cfg.maxTradeUsd) return { plan: full, sizing };
+  const plan = optimalSetTrade(legs, { ...planOpts, maxUsd: sizing.usd });
+  return plan ? { plan, sizing } : null;
+}
+
+function sizedBuy(books: ClobOrderBook[], cfg: ReturnType<typeof paperArbConfig>): ReturnType<typeof sizedSetTrade> {
+  return sizedSetTrade(
+    books.map((book) => ({ book, side: "buy" as const })),
+    { payoutPerSet: 1, mintCostPerSet: 0 },
+    cfg
+  );
+}
+
+function opportunityFromPlan(
+  strategy: PaperArbStrategy,
+  key: string,
+  title: string,
+  plan: BasketFillPlan,
+  sizing: SizingDecision,
+  legs: Array<Omit<PaperArbLeg, "price" | "feeUsd" | "limitPrice">>
+): ArbOpportunity {
+  const lockedProfitUsd = plan.shares - plan.costUsd;
+  return {
+    strategy,
+    key,
+    title,
+    legs: legs.map((l, i) => {
+      const fill = plan.legs[i]!;
+      return { ...l, price: fill.vwap, feeUsd: fill.feeUsd, ...(fill.limitPrice !== null ? { limitPrice: fill.limitPrice } : {}) };
+    }),
+    shares: plan.shares,
+    feeUsd: plan.feeUsd,
+    costUsd: plan.costUsd,
+    lockedProfitUsd,
+    edge: lockedProfitUsd / Math.max(plan.costUsd, 0.001),
+    vwapSetCost: plan.vwapSetCost,
+    marginalEdge: plan.steps[plan.steps.length - 1]?.marginalEdge ?? 0,
+    levelsWalked: plan.steps.length,
+    sizing
+  };
+}
+
+// One `paper_arb` detector signal per ranked held and instant opportunity this run.
+function opportunitySignals(ts: string, held: RankedArbOpportunity[], instant: InstantOpportunity[]): Signal[] {
+  const heldSignals = held.map((o) =>
+    withFingerprint({
+      ts,
+      detector: "paper_arb",
+      kind: o.strategy,
+      key: o.key,
+      title: o.title,
+      score: clamp01(o.edge),
+      edge: o.edge,
+      cost: o.vwapSetCost,
+      lockedProfit: o.lockedProfitUsd / o.shares,
+      marketIds: o.legs.map((l) => l.marketId),
+      reason: `${o.legs.length} legs, ${o.shares} sets at ${o.vwapSetCost.toFixed(4)} incl. fees`,
+      payload: {
+        shares: o.shares,
+        costUsd: o.costUsd,
+        lockedProfitUsd: o.lockedProfitUsd,
+        marginalEdge: o.marginalEdge,
+        levelsWalked: o.levelsWalked,
+        ...(o.daysToResolution !== undefined ? { daysToResolution: o.daysToResolution } : {}),
+        annualizedReturn: o.annualizedReturn,
+        returnOnExposure: o.returnOnExposure,
+        ...(o.yesAsk !== undefined ? { yesAsk: o.yesAsk } : {}),
+        ...(o.noAsk !== undefined ? { noAsk: o.noAsk } : {})
+      }
+    })
+  );
+  const instantSignals = instant.map((o) => {
+    const outlayUsd = o.plan.shares * o.mintCostPerSet + o.plan.costUsd;
+    const edge = o.plan.netUsd / Math.max(outlayUsd, 0.001);
+    return withFingerprint({
+      ts,
+      detector: "paper_arb",
+      kind: o.strategy,
+      key: o.key,
+      title: o.title,
+      score: clamp01(edge),
+      edge,
+      cost: outlayUsd / o.plan.shares,
+      lockedProfit: o.plan.netUsd / o.plan.shares,
+      marketIds: o.legs.map((l) => l.marketId),
+      reason: `${o.type} ${o.plan.shares} sets, net ${o.plan.netUsd.toFixed(4)} USD`,
+      payload: {
+        shares: o.plan.shares,
+        outlayUsd,
+        proceedsUsd: o.plan.proceedsUsd,
+        netUsd: o.plan.netUsd,
+        ...(o.eventId ? { eventId: o.eventId } : {})
+      }
+    });
+  });
+  return [...heldSignals, ...instantSignals];
+}
+
+/**
+ * Value an open position by walking every leg's bids (VWAP, net of taker fees).
+ * `shares` is how many complete sets the books can absorb right now; unsellable sets are valued at 0.
+ */
+function markBidExitUsd(
+  pos: PaperArbPosition,
+  booksByToken: Map<string, ClobOrderBook>,
+  feeRate: number
+): { exitUsd: number; shares: number } | null {
+  const books: ClobOrderBook[] = [];
+  for (const leg of pos.legs) {
+    const book = booksByToken.get(leg.tokenId);
+    if (!book || book.bids.length === 0) return null;
+    books.push(book);
+  }
+
+  const shares = Math.min(...books.map((b) => simulateSell(b, pos.shares, { feeRate }).shares));
+  if (!(shares > 0)) return null;
+  const exitUsd = books.reduce((acc, b) => {
+    const fill = simulateSell(b, shares, { feeRate });
+    return acc + fill.notionalUsd - fill.feeUsd;
+  }, 0);
+  return { exitUsd, shares };
+}
+
+// Payout per share of every leg, or null until all of the position's markets have resolved.
+function settlementLegs(
+  pos: PaperArbPosition,
+  resolutions: Map<string, MarketResolution>
+): Array<{ marketId: string; outcome: "YES" | "NO"; payout: number }> | null {
+  const out: Array<{ marketId: string; outcome: "YES" | "NO"; payout: number }> = [];
+  for (const leg of pos.legs) {
+    const res = resolutions.get(leg.marketId);
+    const payout = res ? payoutFor(res, leg.outcome) : null;
+    if (payout === null) return null;
+    out.push({ marketId: leg.marketId, outcome: leg.outcome, payout });
+  }
+  return out;
+}
+
+/**
+ * A YES+NO pair of the same market can be merged back into $1/share at any time. Bucket baskets
+ * are not mergeable here: that needs the neg-risk adapter and every outcome of the event.
+ */
+function isMergeableSet(pos: PaperArbPosition): boolean {
+  if (pos.strategy !== "bundle_long" || pos.legs.length !== 2) return false;
+  const [a, b] = pos.legs as [PaperArbLeg, PaperArbLeg];
+  return a.marketId === b.marketId && a.outcome !== b.outcome;
+}
+
+function indexBooksByToken(snapshot: OrderBooksSnapshot): Map<string, ClobOrderBook> {
+  const out = new Map<string, ClobOrderBook>();
+  for (const m of snapshot.markets) {
+    if (m.yes) out.set(m.yesTokenId, m.yes);
+    if (m.no) out.set(m.noTokenId, m.no);
+  }
+  return out;
+}
+
+function indexEndDatesByMarket(snapshot: OrderBooksSnapshot): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const m of snapshot.markets) {
+    if (m.endDate && Number.isFinite(Date.parse(m.endDate))) out.set(m.marketId, m.endDate);
+  }
+  return out;
+}
+
+function riskTags(
+  opp: RankedArbOpportunity,
+  marketsById: Map<string, OrderBooksSnapshot["markets"][number]>
+): Omit<RiskPosition, "usd"> & { group: string } {
+  const legMarkets = opp.legs.map((l) => marketsById.get(l.marketId));
+  const eventIds = new Set(legMarkets.map((m) => m?.eventId));
+  const eventId = eventIds.size === 1 ? [...eventIds][0] : undefined;
+  const category = legMarkets.find((m) => m?.category)?.category;
+  const group = opp.strategy === "negrisk_convert" && eventId ? `event:${eventId}` : opp.key;
+  return {
+    ...(eventId ? { eventId } : {}),
+    ...(category ? { category } : {}),
+    ...(opp.resolvesAt ? { resolvesAt: opp.resolvesAt } : {}),
+    group
+  };
+}
+
+function riskPosition(p: PaperArbPosition): RiskPosition {
+  return {
+    usd: p.costUsd,
+    ...(p.eventId ? { eventId: p.eventId } : {}),
+    ...(p.category ? { category: p.category } : {}),
+    ...(p.resolvesAt ? { resolvesAt: p.resolvesAt } : {}),
+    group: p.riskGroup ?? p.marketId
+  };
+}
+
+// A buy walks the token's asks, a sell its bids.
+function bookSide(tokenId: string, side: "buy" | "sell"): string {
+  return `${tokenId}:${side === "buy" ? "ask" : "bid"}`;
+}
+
+function exposureUsd(positions: PaperArbPosition[]): number {
+  return positions.reduce((acc, p) => acc + p.costUsd, 0);
 }
 
 function paperArbConfig() {
+  const maxHoldHours = envNumber("PAPER_ARB_MAX_HOLD_HOURS", 24 * 30);
   return {
     bankrollStartUsd: envNumber("PAPER_ARB_BANKROLL_USD", 500),
     maxNewTradesPerScan: envInt("PAPER_ARB_MAX_NEW_TRADES", 5),
@@ -325,11 +1314,26 @@ function paperArbConfig() {
     minProfitUsd: envNumber("PAPER_ARB_MIN_PROFIT_USD", 0.05),
     exitProfitUsd: envNumber("PAPER_ARB_EXIT_PROFIT_USD", 0.05),
     cooldownHours: envNumber("PAPER_ARB_COOLDOWN_HOURS", 6),
-    maxHoldHours: envNumber("PAPER_ARB_MAX_HOLD_HOURS", 24 * 30),
-    takerFeeRate: envNumber("PAPER_ARB_TAKER_FEE_RATE", 0.05)
+    maxHoldHours,
+    takerFeeRate: envNumber("PAPER_ARB_TAKER_FEE_RATE", 0.05),
+    basketsEnabled: process.env.PAPER_ARB_BASKETS !== "0",
+    laddersEnabled: process.env.PAPER_ARB_LADDERS !== "0",
+    mintSellEnabled: process.env.PAPER_ARB_MINT_SELL !== "0",
+    mergeEnabled: process.env.PAPER_ARB_MERGE !== "0",
+    negRiskEnabled: process.env.PAPER_ARB_NEG_RISK !== "0",
+    basketMaxLegs: envInt("PAPER_ARB_BASKET_MAX_LEGS", 20),
+    rankBy: rankObjective(process.env.PAPER_ARB_RANK_BY),
+    sizing: (process.env.PAPER_ARB_SIZING === "edge" ? "edge" : "flat") as ArbSizingModel,
+    sizingFullEdge: envNumber("PAPER_ARB_SIZING_FULL_EDGE", 0.05),
+    minResolutionDays: Math.max(envNumber("PAPER_ARB_MIN_RESOLUTION_DAYS", 1), 1 / 24),
+    unknownResolutionDays: envNumber("PAPER_ARB_UNKNOWN_RESOLUTION_DAYS", maxHoldHours / 24)
   };
 }
 
+function rankObjective(raw: string | undefined): ArbRankObjective {
+  return raw === "annualized" || raw === "dollar_day" ? raw : "edge";
+}
+
 function defaultPaperArbState(bankrollStartUsd: number, ts: string): PaperArbState {
   return {
     version: 1,
@@ -341,33 +1345,73 @@ function defaultPaperArbState(bankrollStartUsd: number, ts: string): PaperArbSta
   };
 }
 
-async function loadPaperArbState(): Promise<PaperArbState | null> {
+/**
+ * Load the paper-arb state (upgrading legacy positions), or start a fresh bankroll.
+ */
+export async function openPaperArbState(
+  filePath = defaultPaperArbStatePath(),
+  ts = new Date().toISOString()
+): Promise<PaperArbState> {
+  return (await loadPaperArbState(filePath)) ?? defaultPaperArbState(paperArbConfig().bankrollStartUsd, ts);
+}
+
+async function loadPaperArbState(filePath: string): Promise<PaperArbState | null> {
   try {
-    const txt = await readFile(defaultPaperArbStatePath(), "utf8");
+    const txt = await readFile(filePath, "utf8");
     const obj = JSON.parse(txt) as PaperArbState;
-    return obj?.version === 1 ? obj : null;
+    if (obj?.version !== 1) return null;
+    obj.positions = obj.positions.map(upgradePosition);
+    return obj;
   } catch {
     return null;
   }
 }
 
-async function savePaperArbState(state: PaperArbState): Promise<void> {
-  const filePath = defaultPaperArbStatePath();
+/**
+ * Positions written before multi-leg support only carry yes/no bundle fields; derive their legs.
+ */
+function upgradePosition(pos: PaperArbPosition): PaperArbPosition {
+  if (Array.isArray(pos.legs) && pos.strategy) return pos;
+  const legs: PaperArbLeg[] = [
+    { marketId: pos.marketId, tokenId: pos.yesTokenId ?? "", outcome: "YES", price: pos.yesAsk ?? 0, feeUsd: 0 },
+    { marketId: pos.marketId, tokenId: pos.noTokenId ?? "", outcome: "NO", price: pos.noAsk ?? 0, feeUsd: 0 }
+  ];
+  return { ...pos, strategy: pos.strategy ?? "bundle_long", legs: Array.isArray(pos.legs) ? pos.legs : legs };
+}
+
+async function savePaperArbState(state: PaperArbState, filePath: string): Promise<void> {
   await ensureDir(path.dirname(filePath));
   await writeFile(filePath, JSON.stringify(state, null, 2) + "\n", "utf8");
 }
 
-async function appendPaperArbEvents(events: PaperArbEvent[]): Promise<void> {
+async function appendPaperArbEvents(events: PaperArbEvent[], filePath: string): Promise<void> {
   if (events.length === 0) return;
-  const filePath = path.resolve(process.cwd(), "data/db/paper_arb_trades.jsonl");
   await ensureDir(path.dirname(filePath));
   await appendFile(filePath, events.map((e) => JSON.stringify(e)).join("\n") + "\n", "utf8");
 }
 
-function defaultPaperArbStatePath(): string {
+/**
+ * The paper-arb side of the portfolio the risk limits apply to: open positions (correlation group =
+ * `riskGroup`) and today's realized PnL, including instant trades.
+ */
+export function arbRiskBook(state: PaperArbState, ts: string): RiskBook {
+  return { positions: state.positions.map(riskPosition), realizedTodayUsd: realizedToday(state.dailyPnl, ts) };
+}
+
+// The saved paper-arb ledger as a risk book, for the directional engine. A missing ledger holds nothing.
+export async function loadPaperArbRiskBook(filePath = defaultPaperArbStatePath(), ts = new Date().toISOString()): Promise<RiskBook> {
+  const state = await loadPaperArbState(filePath);
+  return state ? arbRiskBook(state, ts) : { positions: [], realizedTodayUsd: 0 };
+}
+
+export function defaultPaperArbStatePath(): string {
   return path.resolve(process.cwd(), "data/db/paper_arb_state.json");
 }
 
+export function defaultPaperArbEventsPath(): string {
+  return path.resolve(process.cwd(), "data/db/paper_arb_trades.jsonl");
+}
+
 function envNumber(name: string, fallback: number): number {
   const raw = process.env[name];
   if (!raw) return fallback;
@@ -378,3 +1422,7 @@ function envNumber(name: string, fallback: number): number {
 function envInt(name: string, fallback: number): number {
   return Math.max(0, Math.trunc(envNumber(name, fallback)));
 }
+
+function clamp01(x: number): number {
+  return Math.max(0, Math.min(1, x));
+}
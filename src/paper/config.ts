@@ -0,0 +1,149 @@
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import type { PaperConfig } from "./types.js";
+import { DEFAULT_STRATEGY_ID, paperStatePathFor, paperTradesPathFor } from "./storage.js";
+import { entryRules, exitRules, sizingRules, type PaperStrategy } from "./strategies.js";
+
+export const paperParamsSchema = z.object({
+  bankrollStartUsd: z.number().positive(),
+  maxNewTradesPerScan: z.number().int().min(0),
+  maxTradeUsd: z.number().positive(),
+  maxExposurePct: z.number().min(0).max(1),
+  cooldownHours: z.number().min(0),
+  takeProfitMove: z.number().min(0),
+  stopLossMove: z.number().max(0),
+  maxHoldHours: z.number().positive(),
+  takerFeeRate: z.number().min(0).max(1),
+  bookCandidates: z.number().int().min(1).max(500),
+  kellyFraction: z.number().positive().max(1),
+  targetVolatility: z.number().positive(),
+  volatilityLookback: z.number().int().min(2),
+  volatilityMinSamples: z.number().int().min(3)
+}).strict();
+
+const strategySchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/i, "use letters, digits, '_' or '-'"),
+  enabled: z.boolean().default(true),
+  entry: z.string().default("cluster"),
+  sizing: z.string().default("flat"),
+  exit: z.string().default("move"),
+  params: paperParamsSchema.partial().default({})
+}).strict();
+
+const profileSchema = z.object({
+  defaults: paperParamsSchema.partial().default({}),
+  strategies: z.array(strategySchema).min(1).default([{ id: DEFAULT_STRATEGY_ID }])
+}).strict();
+
+export function defaultPaperConfig(): PaperConfig {
+  return {
+    bankrollStartUsd: 500,
+    maxNewTradesPerScan: 2,
+    maxTradeUsd: 25,
+    maxExposurePct: 0.3,
+    cooldownHours: 6,
+    takeProfitMove: 0.02,
+    stopLossMove: -0.02,
+    maxHoldHours: 24,
+    takerFeeRate: 0.05,
+    bookCandidates: 10,
+    kellyFraction: 0.25,
+    targetVolatility: 0.02,
+    volatilityLookback: 48,
+    volatilityMinSamples: 6
+  };
+}
+
+/**
+ * Resolve the directional paper strategies from a profile object. Each strategy's `PaperConfig`
+ * merges (lowest to highest precedence):
+ * - `defaultPaperConfig()`,
+ * - the profile's `defaults`, then the strategy's own `params`,
+ * - env overrides `PAPER_<PARAM>` (camelCase param as UPPER_SNAKE, e.g. `PAPER_MAX_TRADE_USD=10`),
+ *   which apply to every strategy.
+ *
+ * Without a `strategies` list the profile runs one "default" strategy (cluster entry, flat sizing,
+ * TP/SL exits) on the original `paper_state.json` ledger. Unknown rule ids, duplicate strategy ids
+ * and out-of-range params throw.
+ */
+export function resolvePaperStrategies(profile: unknown = {}, env: NodeJS.ProcessEnv = process.env): PaperStrategy[] {
+  const parsed = profileSchema.safeParse(profile);
+  if (!parsed.success) throw new Error(`paper config: ${formatIssues(parsed.error)}`);
+
+  const envParams: Record<string, number> = {};
+  for (const key of Object.keys(paperParamsSchema.shape)) {
+    const raw = env[`PAPER_${envKey(key)}`];
+    if (raw === undefined || raw === "") continue;
+    const n = Number(raw);
+    if (!Number.isFinite(n)) throw new Error(`paper config: PAPER_${envKey(key)} is not a number: ${raw}`);
+    envParams[key] = n;
+  }
+
+  const seen = new Set<string>();
+  const out: PaperStrategy[] = [];
+  for (const s of parsed.data.strategies) {
+    if (seen.has(s.id)) throw new Error(`paper config: duplicate strategy "${s.id}"`);
+    seen.add(s.id);
+    if (!s.enabled) continue;
+
+    const entry = entryRules.find((r) => r.id === s.entry);
+    const sizing = sizingRules.find((r) => r.id === s.sizing);
+    const exit = exitRules.find((r) => r.id === s.exit);
+    if (!entry) throw new Error(`paper config: strategy "${s.id}": unknown entry rule "${s.entry}"`);
+    if (!sizing) throw new Error(`paper config: strategy "${s.id}": unknown sizing rule "${s.sizing}"`);
+    if (!exit) throw new Error(`paper config: strategy "${s.id}": unknown exit rule "${s.exit}"`);
+
+    const config = paperParamsSchema.safeParse({
+      ...defaultPaperConfig(),
+      ...parsed.data.defaults,
+      ...s.params,
+      ...envParams
+    });
+    if (!config.success) throw new Error(`paper config: strategy "${s.id}": ${formatIssues(config.error)}`);
+
+    out.push({
+      id: s.id,
+      entry,
+      sizing,
+      exit,
+      config: config.data,
+      statePath: paperStatePathFor(s.id),
+      tradesPath: paperTradesPathFor(s.id)
+    });
+  }
+  return out;
+}
+
+/**
+ * Read `PAPER_CONFIG` (default `config/paper.json`) and resolve it. A missing file is fine
+ * (one default strategy + env); an unreadable or invalid one throws. The profile is JSON.
+ */
+export async function loadPaperStrategies(
+  filePath = path.resolve(process.cwd(), process.env.PAPER_CONFIG ?? "config/paper.json"),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<PaperStrategy[]> {
+  let txt: string | null = null;
+  try {
+    txt = await readFile(filePath, "utf8");
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") throw e;
+  }
+  if (txt === null) return resolvePaperStrategies({}, env);
+  let file: unknown;
+  try {
+    file = JSON.parse(txt);
+  } catch (e: any) {
+    throw new Error(`paper config: ${filePath} is not valid JSON: ${e?.message ?? String(e)}`);
+  }
+  return resolvePaperStrategies(file, env);
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+}
+
+// "maxTradeUsd" -> "MAX_TRADE_USD"
+function envKey(s: string): string {
+  return s.replace(/([a-z0-9])([A-Z])/g, "$1_$2").replace(/[^A-Za-z0-9]+/g, "_").toUpperCase();
+}
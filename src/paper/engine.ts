@@ -2,12 +2,44 @@ import path from "node:path";
 import { readFile } from "node:fs/promises";
 import crypto from "node:crypto";
 import type { PaperConfig, PaperPosition, PaperState, PaperTradeEvent } from "./types.js";
+import type { FamilyType } from "../normalize/buildFamilies.js";
 import { appendPaperEvents, loadPaperState, savePaperState } from "./storage.js";
-import { getOutcomePrice, loadPricesSnapshot } from "./pricing.js";
+import { loadPricesSnapshot } from "./pricing.js";
+import { loadPaperStrategies } from "./config.js";
+import { bookExecution, gammaExecution, type OutcomeRef, type PaperExecution } from "./execution.js";
+import type { EntryTarget, FamilyRecord, PaperStrategy } from "./strategies.js";
+import { PolymarketClobClient, type ClobBookSource } from "../clients/clob.js";
+import { readPriceHistory } from "../persist/familyLog.js";
+import {
+  addDailyPnl,
+  checkRisk,
+  hasRiskLimits,
+  mergeRiskBooks,
+  riskLimitsFromEnv,
+  type RiskBook,
+  type RiskLimits,
+  type RiskPosition
+} from "./risk.js";
+import { directionalRiskBook } from "./portfolio.js";
+import { defaultPaperArbStatePath, loadPaperArbRiskBook } from "./arb.js";
+import { payoutFor, type MarketResolution } from "../ingest/fetchResolutions.js";
 
 type RunPaperTradeArgs = {
   familiesPath?: string;
   pricesPath?: string;
+  // Resolved markets from the resolution watcher; positions on them settle at the actual payout.
+  resolutions?: Map<string, MarketResolution>;
+  // Strategies to run; defaults to `loadPaperStrategies()` (PAPER_CONFIG profile + env).
+  strategies?: PaperStrategy[];
+  // Order books for fills (REST client or the websocket cache). Null fills at Gamma prices instead;
+  // the default is a REST client unless PAPER_BOOK_FILLS=0.
+  books?: ClobBookSource | null;
+  // Family score log read for price history by sizing rules that need it (default `data/db/family_scores.jsonl`).
+  familyLogPath?: string;
+  // Portfolio limits checked before every entry; defaults to `riskLimitsFromEnv()`.
+  riskLimits?: RiskLimits;
+  // Paper-arb ledger whose positions and realized PnL count toward the limits (default `data/db/paper_arb_state.json`).
+  arbStatePath?: string;
 };
 
 export type PaperRunSummary = {
@@ -19,8 +51,12 @@ export type PaperRunSummary = {
   bankrollCashUsd: number;
   entered: number;
   exited: number;
+  settled: number;
   marked: number;
+  riskRejected: number; // candidates blocked by a portfolio risk limit (logged as REJECT events)
+  warnings: string[]; // e.g. a failed order book fetch that fell back to Gamma prices
   newTradesSummary: Array<{
+    strategy: string;
     positionId: string;
     family_id: string;
     marketId: string;
@@ -30,6 +66,7 @@ export type PaperRunSummary = {
     reason: string;
   }>;
   openPositionsSummary: Array<{
+    strategy: string;
     positionId: string;
     family_id: string;
     marketId: string;
@@ -39,30 +76,205 @@ export type PaperRunSummary = {
     entryUsd: number;
     lastMarkPrice: number | null;
   }>;
+  // Per-strategy breakdown; the top-level numbers are their sums.
+  strategies: Array<Omit<PaperRunSummary, "ts" | "strategies" | "warnings" | "newTradesSummary" | "openPositionsSummary"> & { id: string }>;
 };
 
+type StrategyRun = Omit<PaperRunSummary, "ts" | "strategies" | "warnings">;
+
+/**
+ * Run every configured directional strategy once against the latest families and prices. Each
+ * strategy settles, marks, exits and enters on its own ledger (see `PaperStrategy`).
+ *
+ * Fills walk the CLOB books of held and candidate tokens: buys at the asks, sells and marks at the
+ * bids, with the paper-arb taker fee. An exit waits for a scan where the bids absorb the whole position.
+ */
 export async function runPaperTrade(args: RunPaperTradeArgs = {}): Promise<PaperRunSummary> {
-  const cfg = defaultConfig();
   const ts = new Date().toISOString();
+  const strategies = args.strategies ?? (await loadPaperStrategies());
 
   const familiesPath = args.familiesPath ?? path.resolve(process.cwd(), "data/out/families.json");
   const pricesPath = args.pricesPath ?? path.resolve(process.cwd(), "data/raw/prices_raw.json");
 
-  const families = await safeReadJsonArray<any>(familiesPath);
-  const pricesSnap = await loadPricesSnapshot(pricesPath);
+  const families = await safeReadJsonArray<FamilyRecord>(familiesPath);
+  const books =
+    args.books !== undefined ? args.books : process.env.PAPER_BOOK_FILLS !== "0" ? new PolymarketClobClient() : null;
+  const execution = books ? bookExecution(books) : gammaExecution(await loadPricesSnapshot(pricesPath));
+  const tokens = tokenIndex(families);
+
+  // Every ledger is loaded up front: risk limits apply to the positions of all strategies together,
+  // plus the paper-arb ledger.
+  const ledgers = new Map<string, PaperState>();
+  for (const strategy of strategies) {
+    const existing = (await loadPaperState(strategy.statePath)) ?? defaultState(strategy.config, ts);
+    ledgers.set(strategy.id, { ...existing, updatedAt: ts });
+  }
+  const riskLimits = args.riskLimits ?? riskLimitsFromEnv();
+  const arbRisk = hasRiskLimits(riskLimits)
+    ? await loadPaperArbRiskBook(args.arbStatePath ?? defaultPaperArbStatePath(), ts)
+    : { positions: [], realizedTodayUsd: 0 };
+  const ctx: RunContext = {
+    families,
+    tokens,
+    execution,
+    ts,
+    fallbackExecution: async () => gammaExecution(await loadPricesSnapshot(pricesPath)),
+    warnings: [],
+    resolutions: args.resolutions,
+    familyLogPath: args.familyLogPath,
+    riskLimits,
+    arbRisk,
+    ledgers
+  };
+
+  const runs: Array<StrategyRun & { id: string }> = [];
+  for (const strategy of strategies) {
+    runs.push({ id: strategy.id, ...(await runStrategy(strategy, ctx)) });
+  }
+
+  const sum = (k: keyof Omit<StrategyRun, "newTradesSummary" | "openPositionsSummary">) =>
+    runs.reduce((acc, r) => acc + r[k], 0);
+  return {
+    ts,
+    openPositions: sum("openPositions"),
+    exposureUsd: sum("exposureUsd"),
+    realizedPnlUsd: sum("realizedPnlUsd"),
+    unrealizedPnlUsd: sum("unrealizedPnlUsd"),
+    bankrollCashUsd: sum("bankrollCashUsd"),
+    entered: sum("entered"),
+    exited: sum("exited"),
+    settled: sum("settled"),
+    marked: sum("marked"),
+    riskRejected: sum("riskRejected"),
+    warnings: ctx.warnings,
+    newTradesSummary: runs.flatMap((r) => r.newTradesSummary),
+    openPositionsSummary: runs.flatMap((r) => r.openPositionsSummary),
+    strategies: runs.map(({ newTradesSummary: _n, openPositionsSummary: _o, ...r }) => r)
+  };
+}
+
+/**
+ * Market ids of every open directional position across the configured strategies' ledgers, for
+ * the resolution watcher.
+ */
+export async function openPaperPositionMarketIds(strategies?: PaperStrategy[]): Promise<string[]> {
+  const ids: string[] = [];
+  for (const s of strategies ?? (await loadPaperStrategies())) {
+    ids.push(...((await loadPaperState(s.statePath))?.positions.map((p) => p.marketId) ?? []));
+  }
+  return ids;
+}
 
-  const existing = (await loadPaperState()) ?? defaultState(cfg, ts);
-  let state: PaperState = { ...existing, updatedAt: ts };
+type RunContext = {
+  families: FamilyRecord[];
+  tokens: TokenIndex;
+  execution: PaperExecution; // swapped for `fallbackExecution()` when the book fetch fails
+  fallbackExecution: () => Promise<PaperExecution>;
+  warnings: string[];
+  ts: string;
+  resolutions: Map<string, MarketResolution> | undefined;
+  familyLogPath: string | undefined;
+  riskLimits: RiskLimits;
+  arbRisk: RiskBook; // the paper-arb side of the portfolio
+  ledgers: Map<string, PaperState>; // by strategy id, mutated in place
+};
+
+async function runStrategy(strategy: PaperStrategy, ctx: RunContext): Promise<StrategyRun> {
+  const { families, tokens, ts, resolutions, familyLogPath } = ctx;
+  const cfg = strategy.config;
+  const state = ctx.ledgers.get(strategy.id)!;
 
   const events: PaperTradeEvent[] = [];
 
+  // Settle positions whose market has resolved
+  let settled = 0;
+  let realizedPnlUsd = 0;
+  if (resolutions) {
+    const unresolved: PaperPosition[] = [];
+    for (const pos of state.positions) {
+      const res = resolutions.get(pos.marketId);
+      const payout = res ? payoutFor(res, pos.outcome) : null;
+      if (!res || payout === null) {
+        unresolved.push(pos);
+        continue;
+      }
+      const usd = pos.shares * payout;
+      const pnl = usd - pos.entryUsd;
+      realizedPnlUsd += pnl;
+      state.dailyPnl = addDailyPnl(state.dailyPnl, ts, pnl);
+      state.bankrollCashUsd += usd;
+      settled += 1;
+      events.push({
+        ts,
+        type: "SETTLE",
+        strategy: strategy.id,
+        positionId: pos.id,
+        family_id: pos.family_id,
+        marketId: pos.marketId,
+        outcome: pos.outcome,
+        payout,
+        shares: pos.shares,
+        usd,
+        realizedPnlUsd: pnl,
+        voided: res.winner === null,
+        holdHours: (Date.parse(ts) - Date.parse(pos.entryTs)) / 36e5
+      });
+    }
+    state.positions = unresolved;
+  }
+
+  // Entry candidates = top-ranked, positive-score families off cooldown, with the outcome to buy.
+  const candidates: Array<{ f: FamilyRecord; family_id: string; family_type: FamilyType; ref: OutcomeRef; target: EntryTarget }> = [];
+  const ranked = families
+    .filter((f) => typeof f?.opportunity_score === "number" && f.opportunity_score > 0)
+    .sort((a, b) => b.opportunity_score - a.opportunity_score);
+  for (const f of ranked) {
+    if (candidates.length >= cfg.bookCandidates) break;
+    const family_id: string | undefined = f?.family_id;
+    const family_type: FamilyType | undefined = f?.family_type;
+    if (!family_id || !family_type) continue;
+
+    // Cooldown
+    const last = state.lastEntryByFamilyId[family_id];
+    if (last) {
+      const hours = (Date.parse(ts) - Date.parse(last)) / 36e5;
+      if (hours < cfg.cooldownHours) continue;
+    }
+
+    const pick = strategy.entry.pick(f);
+    if (!pick) continue;
+    candidates.push({ f, family_id, family_type, ref: outcomeRef(pick, tokens), target: pick });
+  }
+  const history = strategy.sizing.history
+    ? await readPriceHistory(
+        candidates.map((c) => c.ref.marketId),
+        familyLogPath ? { filePath: familyLogPath } : {}
+      )
+    : new Map<string, number[]>();
+
+  // One book fetch per run covers held positions and this strategy's candidates.
+  const positionRef = (pos: PaperPosition): OutcomeRef =>
+    pos.tokenId ? { marketId: pos.marketId, outcome: pos.outcome, tokenId: pos.tokenId } : outcomeRef(pos, tokens);
+  try {
+    await ctx.execution.prefetch(
+      [...state.positions.map(positionRef), ...candidates.map((c) => c.ref)].flatMap((r) => (r.tokenId ? [r.tokenId] : []))
+    );
+  } catch (e: any) {
+    // Settlements, marks and exits must still run and be saved: fill at Gamma prices for the rest of this run.
+    ctx.warnings.push(`${strategy.id}: order book fetch failed, using Gamma prices this run: ${e?.message ?? String(e)}`);
+    ctx.execution = await ctx.fallbackExecution();
+  }
+  const execution = ctx.execution;
+
   // Mark existing positions
   let marked = 0;
   let unrealizedPnlUsd = 0;
+  const marks = new Map<string, number>();
   for (const pos of state.positions) {
-    const px = getOutcomePrice(pricesSnap, pos.marketId, pos.outcome);
+    const px = execution.mark(positionRef(pos), pos.shares);
     if (px === null) continue; // never throw on missing prices
-    const u = (px - pos.entryPrice) * pos.shares;
+    marks.set(pos.id, px);
+    const u = px * pos.shares - pos.entryUsd;
     unrealizedPnlUsd += u;
     marked += 1;
     events.push({
@@ -81,81 +293,62 @@ export async function runPaperTrade(args: RunPaperTradeArgs = {}): Promise<Paper
   // Exit rules
   const remaining: PaperPosition[] = [];
   let exited = 0;
-  let realizedPnlUsd = 0;
   for (const pos of state.positions) {
-    const px = getOutcomePrice(pricesSnap, pos.marketId, pos.outcome);
-    if (px === null) {
+    const px = marks.get(pos.id);
+    if (px === undefined) {
       remaining.push(pos);
       continue;
     }
 
-    const move = px - pos.entryPrice;
     const holdHours = (Date.parse(ts) - Date.parse(pos.entryTs)) / 36e5;
-    const shouldExit =
-      move >= cfg.takeProfitMove || move <= cfg.stopLossMove || holdHours >= cfg.maxHoldHours;
-    if (!shouldExit) {
+    const reason = strategy.exit.check({ cfg, pos, price: px, holdHours });
+    const fill = reason ? execution.sell(positionRef(pos), pos.shares, cfg.takerFeeRate) : null;
+    if (!reason || !fill) {
       remaining.push(pos);
       continue;
     }
 
-    const exitUsd = pos.shares * px;
+    const exitUsd = fill.usd;
     const pnl = exitUsd - pos.entryUsd;
     realizedPnlUsd += pnl;
+    state.dailyPnl = addDailyPnl(state.dailyPnl, ts, pnl);
     state.bankrollCashUsd += exitUsd;
     exited += 1;
     events.push({
       ts,
       type: "EXIT",
+      strategy: strategy.id,
       positionId: pos.id,
       family_id: pos.family_id,
       marketId: pos.marketId,
       outcome: pos.outcome,
-      price: px,
+      price: fill.price,
       shares: pos.shares,
       usd: exitUsd,
       realizedPnlUsd: pnl,
-      reason:
-        move >= cfg.takeProfitMove
-          ? "TP"
-          : move <= cfg.stopLossMove
-            ? "SL"
-            : "MAX_HOLD",
-      holdHours
+      reason,
+      holdHours,
+      fillSource: fill.source,
+      feeUsd: fill.feeUsd,
+      midPrice: fill.midPrice,
+      spreadPaidUsd: fill.spreadPaidUsd
     });
   }
   state.positions = remaining;
 
-  // Entry selection (BUY YES only)
+  // Entry selection
   const enteredEvents: PaperTradeEvent[] = [];
   let entered = 0;
+  let riskRejected = 0;
   const exposureUsdBefore = exposureUsd(state.positions);
   const nav = state.bankrollCashUsd + exposureUsdBefore;
   const maxExposureUsd = nav * cfg.maxExposurePct;
 
-  // Candidates = top-ranked, positive-score families (prefer bucket).
-  const candidates = families
-    .filter((f) => typeof f?.opportunity_score === "number" && f.opportunity_score > 0)
-    .sort((a, b) => b.opportunity_score - a.opportunity_score);
-
-  for (const f of candidates) {
+  for (const { f, family_id, family_type, ref, target } of candidates) {
     if (entered >= cfg.maxNewTradesPerScan) break;
-    const family_id: string | undefined = f?.family_id;
-    const family_type: "bucket" | "multi" | "single" | undefined = f?.family_type;
     const title: string | undefined = f?.title;
-    if (!family_id || !family_type) continue;
-
-    // Cooldown
-    const last = state.lastEntryByFamilyId[family_id];
-    if (last) {
-      const hours = (Date.parse(ts) - Date.parse(last)) / 36e5;
-      if (hours < cfg.cooldownHours) continue;
-    }
-
-    // Identify a marketId for the trade.
-    const pick = pickTradeTarget(f);
-    if (!pick) continue;
 
-    const px = getOutcomePrice(pricesSnap, pick.marketId, pick.outcome);
+    const px = execution.ask(ref);
     if (px === null) continue;
     if (!(px > 0.001 && px < 0.999)) continue; // skip extremes
 
@@ -163,12 +356,43 @@ export async function runPaperTrade(args: RunPaperTradeArgs = {}): Promise<Paper
     const curExposure = exposureUsd(state.positions);
     if (curExposure >= maxExposureUsd) continue;
 
-    const tradeUsd = Math.min(cfg.maxTradeUsd, state.bankrollCashUsd);
-    if (tradeUsd <= 0) break;
+    if (state.bankrollCashUsd <= 0) break;
+    const sizing = strategy.sizing.size({
+      cfg,
+      cashUsd: state.bankrollCashUsd,
+      navUsd: nav,
+      price: px,
+      family: f,
+      target,
+      history: history.get(ref.marketId) ?? []
+    });
+    const tradeUsd = Math.min(sizing.usd, state.bankrollCashUsd);
+    if (!(tradeUsd > 0)) continue;
+
+    const risk = riskTags(f, family_id);
+    const rejection = checkRisk(
+      ctx.riskLimits,
+      mergeRiskBooks(directionalRiskBook([...ctx.ledgers.values()], ts), ctx.arbRisk),
+      { usd: tradeUsd, ...risk }
+    );
+    if (rejection) {
+      riskRejected += 1;
+      events.push({
+        ts,
+        type: "REJECT",
+        strategy: strategy.id,
+        family_id,
+        marketId: ref.marketId,
+        outcome: ref.outcome,
+        usd: tradeUsd,
+        ...rejection
+      });
+      continue;
+    }
 
-    // Shares = USD / price
-    const shares = tradeUsd / px;
-    if (!Number.isFinite(shares) || shares <= 0) continue;
+    const fill = execution.buy(ref, tradeUsd, cfg.takerFeeRate);
+    if (!fill || !Number.isFinite(fill.shares) || fill.shares <= 0) continue;
+    const { shares, usd } = fill;
 
     // Enter position
     const posId = crypto.randomUUID();
@@ -176,44 +400,56 @@ export async function runPaperTrade(args: RunPaperTradeArgs = {}): Promise<Paper
       id: posId,
       family_id,
       family_type,
-      marketId: pick.marketId,
-      outcome: pick.outcome,
+      strategy: strategy.id,
+      marketId: ref.marketId,
+      outcome: ref.outcome,
+      ...(ref.tokenId ? { tokenId: ref.tokenId } : {}),
+      ...(risk.eventId ? { eventId: risk.eventId } : {}),
+      ...(risk.category ? { category: risk.category } : {}),
+      ...(risk.resolvesAt ? { resolvesAt: risk.resolvesAt } : {}),
       entryTs: ts,
-      entryPrice: px,
+      entryPrice: fill.price,
       shares,
-      entryUsd: tradeUsd
+      entryUsd: usd
     };
     state.positions.push(pos);
-    state.bankrollCashUsd -= tradeUsd;
+    state.bankrollCashUsd -= usd;
     state.lastEntryByFamilyId[family_id] = ts;
     entered += 1;
 
     enteredEvents.push({
       ts,
       type: "ENTRY",
+      strategy: strategy.id,
       positionId: posId,
       family_id,
-      marketId: pick.marketId,
-      outcome: pick.outcome,
-      price: px,
+      marketId: ref.marketId,
+      outcome: ref.outcome,
+      price: fill.price,
       shares,
-      usd: tradeUsd,
-      reason: `topFamily score=${Number(f.opportunity_score).toFixed(3)}${title ? ` title=${title}` : ""}`
+      usd,
+      reason: `topFamily score=${Number(f.opportunity_score).toFixed(3)}${title ? ` title=${title}` : ""}${target.note ? ` pick=${target.note}` : ""}`,
+      fillSource: fill.source,
+      feeUsd: fill.feeUsd,
+      midPrice: fill.midPrice,
+      spreadPaidUsd: fill.spreadPaidUsd,
+      sizing
     });
   }
 
   events.push(...enteredEvents);
 
   // Persist
-  await savePaperState(state);
-  await appendPaperEvents(events);
+  await savePaperState(state, strategy.statePath);
+  await appendPaperEvents(events, strategy.tradesPath);
 
   const exposureUsdAfter = exposureUsd(state.positions);
-  const unrealizedAfter = computeUnrealized(state.positions, pricesSnap);
+  const unrealizedAfter = computeUnrealized(state.positions, (pos) => execution.mark(positionRef(pos), pos.shares));
 
   const newTradesSummary = enteredEvents
     .filter((e): e is Extract<PaperTradeEvent, { type: "ENTRY" }> => e.type === "ENTRY")
     .map((e) => ({
+      strategy: strategy.id,
       positionId: e.positionId,
       family_id: e.family_id,
       marketId: e.marketId,
@@ -224,6 +460,7 @@ export async function runPaperTrade(args: RunPaperTradeArgs = {}): Promise<Paper
     }));
 
   const openPositionsSummary = state.positions.map((p) => ({
+    strategy: strategy.id,
     positionId: p.id,
     family_id: p.family_id,
     marketId: p.marketId,
@@ -235,7 +472,6 @@ export async function runPaperTrade(args: RunPaperTradeArgs = {}): Promise<Paper
   }));
 
   return {
-    ts,
     openPositions: state.positions.length,
     exposureUsd: exposureUsdAfter,
     realizedPnlUsd,
@@ -243,25 +479,14 @@ export async function runPaperTrade(args: RunPaperTradeArgs = {}): Promise<Paper
     bankrollCashUsd: state.bankrollCashUsd,
     entered,
     exited,
+    settled,
     marked,
+    riskRejected,
     newTradesSummary,
     openPositionsSummary
   };
 }
 
-function defaultConfig(): PaperConfig {
-  return {
-    bankrollStartUsd: 500,
-    maxNewTradesPerScan: 2,
-    maxTradeUsd: 25,
-    maxExposurePct: 0.3,
-    cooldownHours: 6,
-    takeProfitMove: 0.02,
-    stopLossMove: -0.02,
-    maxHoldHours: 24
-  };
-}
-
 function defaultState(cfg: PaperConfig, ts: string): PaperState {
   return {
     version: 1,
@@ -272,43 +497,53 @@ function defaultState(cfg: PaperConfig, ts: string): PaperState {
   };
 }
 
+// Limits group positions by event, category, resolution day and family (the correlation group).
+function riskTags(f: FamilyRecord, family_id: string): Omit<RiskPosition, "usd"> {
+  return {
+    ...(typeof f?.eventId === "string" ? { eventId: f.eventId } : {}),
+    ...(typeof f?.category === "string" ? { category: f.category } : {}),
+    ...(typeof f?.endDate === "string" ? { resolvesAt: f.endDate } : {}),
+    group: family_id
+  };
+}
+
 function exposureUsd(positions: PaperPosition[]): number {
   return positions.reduce((acc, p) => acc + p.entryUsd, 0);
 }
 
-function computeUnrealized(positions: PaperPosition[], snap: Awaited<ReturnType<typeof loadPricesSnapshot>>): number {
+function computeUnrealized(positions: PaperPosition[], markOf: (pos: PaperPosition) => number | null): number {
   let u = 0;
   for (const p of positions) {
-    const px = getOutcomePrice(snap, p.marketId, p.outcome);
+    const px = markOf(p);
     if (px === null) continue;
-    u += (px - p.entryPrice) * p.shares;
+    u += px * p.shares - p.entryUsd;
   }
   return u;
 }
 
-function pickTradeTarget(f: any): { marketId: string; outcome: string } | null {
-  // Prefer bucket: choose first label of the bestCluster (if present) and map back to bucket marketId.
-  if (f?.family_type === "bucket" && Array.isArray(f?.buckets)) {
-    const clusterLabels: string[] | undefined = Array.isArray(f?.features?.bestCluster?.labels)
-      ? f.features.bestCluster.labels
-      : undefined;
-    const desiredLabel = clusterLabels?.[0];
-    const bucket = desiredLabel
-      ? f.buckets.find((b: any) => b?.label === desiredLabel)
-      : f.buckets[0];
-    const marketId = typeof bucket?.marketId === "string" ? bucket.marketId : undefined;
-    if (!marketId) return null;
-    // Polymarket binary markets use "Yes"/"No"
-    return { marketId, outcome: "Yes" };
-  }
+// marketId -> outcome token ids, from every family member that carries them.
+type TokenIndex = Map<string, { yes?: string; no?: string }>;
 
-  // Single: trade that market's "Yes"
-  if (f?.family_type === "single" && f?.single?.marketId) {
-    return { marketId: String(f.single.marketId), outcome: "Yes" };
+function tokenIndex(families: FamilyRecord[]): TokenIndex {
+  const out: TokenIndex = new Map();
+  const add = (m: any) => {
+    if (typeof m?.marketId !== "string") return;
+    out.set(m.marketId, {
+      ...(typeof m.yesTokenId === "string" ? { yes: m.yesTokenId } : {}),
+      ...(typeof m.noTokenId === "string" ? { no: m.noTokenId } : {})
+    });
+  };
+  for (const f of families) {
+    for (const m of [...(f?.buckets ?? []), ...(f?.ladder?.rungs ?? []), ...(f?.multi ?? []), f?.single]) add(m);
   }
+  return out;
+}
 
-  // Multi: not implemented for entries in this MVP (could add "winner" selection later).
-  return null;
+function outcomeRef(target: { marketId: string; outcome: string }, tokens: TokenIndex): OutcomeRef {
+  const t = tokens.get(target.marketId);
+  const side = target.outcome.trim().toLowerCase();
+  const tokenId = side === "yes" ? t?.yes : side === "no" ? t?.no : undefined;
+  return { marketId: target.marketId, outcome: target.outcome, ...(tokenId ? { tokenId } : {}) };
 }
 
 async function safeReadJsonArray<T>(filePath: string): Promise<T[]> {
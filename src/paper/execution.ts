@@ -0,0 +1,115 @@
+import type { ClobBookSource, ClobOrderBook } from "../clients/clob.js";
+import { optimalBasketBuy, simulateSell, takerFeeUsd } from "./fills.js";
+import { getOutcomePrice, type PricesSnapshot } from "./pricing.js";
+
+export type OutcomeRef = { marketId: string; outcome: string; tokenId?: string };
+
+export type ExecutionFill = {
+  source: "book" | "gamma";
+  price: number; // VWAP before fees
+  shares: number;
+  usd: number; // buys: cost incl. fees; sells: proceeds net of fees
+  feeUsd: number;
+  midPrice: number | null; // book midpoint (Gamma price for Gamma fills); null on a one-sided book
+  spreadPaidUsd: number | null; // shares * distance from mid to VWAP, paid on either side
+};
+
+/**
+ * Where the directional engine gets prices and fills. `bookExecution` buys at the asks and sells at
+ * the bids, walking depth; `gammaExecution` fills at Gamma `outcomePrices` (offline / `PAPER_BOOK_FILLS=0`).
+ * Both charge the taker fee model shared with paper arb (`takerFeeUsd`).
+ */
+export type PaperExecution = {
+  // Fetch what `ask` / `buy` / `sell` / `mark` will need for these tokens, once per run.
+  prefetch: (tokenIds: string[]) => Promise<void>;
+  // Best price to buy one share (top ask), or null when there is nothing to buy.
+  ask: (ref: OutcomeRef) => number | null;
+  buy: (ref: OutcomeRef, usd: number, feeRate: number) => ExecutionFill | null;
+  // Null unless all `shares` fill.
+  sell: (ref: OutcomeRef, shares: number, feeRate: number) => ExecutionFill | null;
+  // Per-share price for marking `shares` (bid VWAP, partial depth allowed), or null.
+  mark: (ref: OutcomeRef, shares: number) => number | null;
+};
+
+export function bookExecution(source: ClobBookSource): PaperExecution {
+  const books = new Map<string, ClobOrderBook>();
+  const bookOf = (ref: OutcomeRef) => (ref.tokenId ? books.get(ref.tokenId) : undefined);
+
+  return {
+    prefetch: async (tokenIds) => {
+      const missing = [...new Set(tokenIds)].filter((t) => t && !books.has(t));
+      if (missing.length === 0) return;
+      for (const b of await source.fetchOrderBooks(missing)) books.set(b.tokenId, b);
+    },
+    ask: (ref) => bookOf(ref)?.asks.find((lv) => lv.size > 0 && lv.price > 0)?.price ?? null,
+    buy: (ref, usd, feeRate) => {
+      const book = bookOf(ref);
+      if (!book) return null;
+      // A single-leg "basket" with a $1 payout is a budgeted walk up the asks.
+      const plan = optimalBasketBuy([book], { payoutPerShare: 1, maxUsd: usd, feeRate });
+      const leg = plan?.legs[0];
+      if (!plan || !leg) return null;
+      const mid = midPrice(book);
+      return {
+        source: "book",
+        price: leg.vwap,
+        shares: plan.shares,
+        usd: plan.costUsd,
+        feeUsd: plan.feeUsd,
+        midPrice: mid,
+        spreadPaidUsd: mid === null ? null : plan.shares * (leg.vwap - mid)
+      };
+    },
+    sell: (ref, shares, feeRate) => {
+      const book = bookOf(ref);
+      if (!book) return null;
+      const fill = simulateSell(book, shares, { feeRate });
+      if (!fill.complete) return null;
+      const mid = midPrice(book);
+      return {
+        source: "book",
+        price: fill.vwap,
+        shares,
+        usd: fill.notionalUsd - fill.feeUsd,
+        feeUsd: fill.feeUsd,
+        midPrice: mid,
+        spreadPaidUsd: mid === null ? null : shares * (mid - fill.vwap)
+      };
+    },
+    mark: (ref, shares) => {
+      const book = bookOf(ref);
+      if (!book) return null;
+      const fill = simulateSell(book, shares, { feeRate: 0 });
+      return fill.shares > 0 ? fill.vwap : null;
+    }
+  };
+}
+
+export function gammaExecution(snapshot: PricesSnapshot): PaperExecution {
+  const priceOf = (ref: OutcomeRef) => getOutcomePrice(snapshot, ref.marketId, ref.outcome);
+
+  return {
+    prefetch: async () => {},
+    ask: priceOf,
+    buy: (ref, usd, feeRate) => {
+      const px = priceOf(ref);
+      if (px === null || !(px > 0)) return null;
+      // Spend exactly `usd`: price plus the per-share fee.
+      const shares = usd / (px + takerFeeUsd(1, px, feeRate));
+      return { source: "gamma", price: px, shares, usd, feeUsd: usd - shares * px, midPrice: px, spreadPaidUsd: 0 };
+    },
+    sell: (ref, shares, feeRate) => {
+      const px = priceOf(ref);
+      if (px === null) return null;
+      const feeUsd = takerFeeUsd(shares, px, feeRate);
+      return { source: "gamma", price: px, shares, usd: shares * px - feeUsd, feeUsd, midPrice: px, spreadPaidUsd: 0 };
+    },
+    mark: (ref) => priceOf(ref)
+  };
+}
+
+function midPrice(book: ClobOrderBook): number | null {
+  const bid = book.bids.find((lv) => lv.size > 0 && lv.price > 0)?.price;
+  const ask = book.asks.find((lv) => lv.size > 0 && lv.price > 0)?.price;
+  return bid !== undefined && ask !== undefined ? (bid + ask) / 2 : null;
+}
@@ -0,0 +1,239 @@
+import type { ClobOrderBook, ClobPriceLevel } from "../clients/clob.js";
+
+export type LevelFill = {
+  price: number;
+  size: number;
+};
+
+export type FillResult = {
+  side: "buy" | "sell";
+  requestedShares: number;
+  shares: number; // actually filled (<= requested when depth runs out)
+  notionalUsd: number; // sum(price * size), before fees
+  feeUsd: number;
+  vwap: number;
+  limitPrice: number | null; // worst level touched, aligned to the book's tick size
+  fills: LevelFill[];
+  complete: boolean;
+};
+
+export type BasketStep = {
+  setsFrom: number;
+  setsTo: number;
+  marginalSetCost: number; // cash out per set at this step: buys (price + fee) + mint - sells (price - fee)
+  marginalEdge: number; // payoutPerSet - marginalSetCost
+};
+
+export type SetTradeLeg = {
+  book: ClobOrderBook;
+  side: "buy" | "sell";
+};
+
+export type BasketFillPlan = {
+  shares: number; // sets traded; every leg fills this many shares
+  legs: FillResult[]; // same order as the input legs/books
+  feeUsd: number;
+  costUsd: number; // buy legs incl. fees
+  proceedsUsd: number; // sell legs net of fees
+  netUsd: number; // (payout - mint) * shares + proceeds - cost
+  vwapSetCost: number; // costUsd / shares
+  steps: BasketStep[];
+  stopReason: "noEdge" | "depth" | "budget";
+};
+
+type BasketPlanOpts = { maxUsd: number; feeRate: number; minShares?: number; lotSize?: number };
+
+/**
+ * Polymarket taker fee model used across paper engines (conservative, symmetric in p).
+ */
+export function takerFeeUsd(shares: number, price: number, feeRate: number): number {
+  return shares * feeRate * price * (1 - price);
+}
+
+/**
+ * Walk ask levels to buy `shares`. Partial fills are reported, never extrapolated.
+ */
+export function simulateBuy(book: ClobOrderBook, shares: number, opts: { feeRate: number }): FillResult {
+  return walkLevels("buy", book.asks, shares, opts.feeRate, book.tickSize);
+}
+
+/**
+ * Walk bid levels to sell `shares`. Partial fills are reported, never extrapolated.
+ */
+export function simulateSell(book: ClobOrderBook, shares: number, opts: { feeRate: number }): FillResult {
+  return walkLevels("sell", book.bids, shares, opts.feeRate, book.tickSize);
+}
+
+/**
+ * Size a "complete set" purchase across N ask ladders (one share of every leg per set).
+ *
+ * We keep buying while the marginal set cost (level prices + taker fees) is below the payout, i.e.
+ * up to the share count where marginal profit goes to zero, then cap by budget and depth.
+ * The result is rounded down to `lotSize` and must clear every book's `minOrderSize` (and `minShares`).
+ */
+export function optimalBasketBuy(
+  books: ClobOrderBook[],
+  opts: BasketPlanOpts & { payoutPerShare: number }
+): BasketFillPlan | null {
+  return optimalSetTrade(
+    books.map((book) => ({ book, side: "buy" as const })),
+    { ...opts, payoutPerSet: opts.payoutPerShare, mintCostPerSet: 0 }
+  );
+}
+
+/**
+ * Mirror of `optimalBasketBuy` for selling a complete set into N bid ladders: keep selling while the
+ * marginal proceeds (level prices - taker fees) exceed `costPerShare` (e.g. $1 to mint a set).
+ */
+export function optimalBasketSell(
+  books: ClobOrderBook[],
+  opts: BasketPlanOpts & { costPerShare: number }
+): BasketFillPlan | null {
+  return optimalSetTrade(
+    books.map((book) => ({ book, side: "sell" as const })),
+    { ...opts, payoutPerSet: 0, mintCostPerSet: opts.costPerShare }
+  );
+}
+
+/**
+ * General form: each "set" buys one share on every buy leg (walking asks) and sells one share on every
+ * sell leg (walking bids), costs `mintCostPerSet` up front and pays `payoutPerSet` (at resolution, merge
+ * or conversion). Trades stop where the marginal set stops paying, at `maxUsd` of outlay
+ * (buys + mint), or when a ladder runs dry.
+ */
+export function optimalSetTrade(
+  legs: SetTradeLeg[],
+  opts: BasketPlanOpts & { payoutPerSet: number; mintCostPerSet: number }
+): BasketFillPlan | null {
+  const ladder = (l: SetTradeLeg) => (l.side === "buy" ? l.book.asks : l.book.bids);
+  if (legs.length === 0 || legs.some((l) => ladder(l).length === 0)) return null;
+  const lot = opts.lotSize ?? 0.01;
+
+  const idx = legs.map(() => 0);
+  const left = legs.map((l) => ladder(l)[0]!.size);
+  const steps: BasketStep[] = [];
+  let sets = 0;
+  let spent = 0;
+  let stopReason: BasketFillPlan["stopReason"] = "depth";
+
+  for (;;) {
+    const levels = legs.map((l, i) => ladder(l)[idx[i]!]);
+    if (levels.some((lv) => !lv)) {
+      stopReason = "depth";
+      break;
+    }
+    let outlay = opts.mintCostPerSet;
+    let inflow = 0;
+    legs.forEach((l, i) => {
+      const lv = levels[i]!;
+      const fee = takerFeeUsd(1, lv.price, opts.feeRate);
+      if (l.side === "buy") outlay += lv.price + fee;
+      else inflow += lv.price - fee;
+    });
+    const marginal = outlay - inflow;
+    const edge = opts.payoutPerSet - marginal;
+    if (edge <= 0) {
+      stopReason = "noEdge";
+      break;
+    }
+
+    const byDepth = Math.min(...left);
+    const byBudget = outlay > 0 ? (opts.maxUsd - spent) / outlay : Infinity;
+    const take = Math.min(byDepth, byBudget);
+    if (take <= 1e-9) {
+      stopReason = "budget";
+      break;
+    }
+    steps.push({ setsFrom: sets, setsTo: sets + take, marginalSetCost: marginal, marginalEdge: edge });
+    sets += take;
+    spent += take * outlay;
+    if (byBudget <= byDepth) {
+      stopReason = "budget";
+      break;
+    }
+
+    for (let i = 0; i < legs.length; i++) {
+      left[i] = left[i]! - take;
+      if (left[i]! <= 1e-9) {
+        idx[i] = idx[i]! + 1;
+        left[i] = ladder(legs[i]!)[idx[i]!]?.size ?? 0;
+      }
+    }
+  }
+
+  const minOrder = Math.max(opts.minShares ?? 0, ...legs.map((l) => l.book.minOrderSize ?? 0));
+  const shares = Math.round(Math.floor((sets + 1e-9) / lot) * lot * 1e6) / 1e6;
+  if (shares <= 0 || shares < minOrder) return null;
+
+  const fills = legs.map((l) =>
+    l.side === "buy"
+      ? simulateBuy(l.book, shares, { feeRate: opts.feeRate })
+      : simulateSell(l.book, shares, { feeRate: opts.feeRate })
+  );
+  if (fills.some((f) => !f.complete)) return null;
+  const buys = fills.filter((f) => f.side === "buy");
+  const sells = fills.filter((f) => f.side === "sell");
+  const costUsd = sum(buys.map((f) => f.notionalUsd + f.feeUsd));
+  const proceedsUsd = sum(sells.map((f) => f.notionalUsd - f.feeUsd));
+  return {
+    shares,
+    legs: fills,
+    feeUsd: sum(fills.map((f) => f.feeUsd)),
+    costUsd,
+    proceedsUsd,
+    netUsd: (opts.payoutPerSet - opts.mintCostPerSet) * shares + proceedsUsd - costUsd,
+    vwapSetCost: costUsd / shares,
+    steps,
+    stopReason
+  };
+}
+
+function walkLevels(
+  side: "buy" | "sell",
+  levels: ClobPriceLevel[],
+  shares: number,
+  feeRate: number,
+  tickSize: number | undefined
+): FillResult {
+  let remaining = shares;
+  let notionalUsd = 0;
+  let feeUsd = 0;
+  let worst: number | null = null;
+  const fills: LevelFill[] = [];
+
+  for (const lv of levels) {
+    if (remaining <= 1e-9) break;
+    if (!(lv.size > 0) || !(lv.price > 0)) continue;
+    const take = Math.min(remaining, lv.size);
+    notionalUsd += take * lv.price;
+    feeUsd += takerFeeUsd(take, lv.price, feeRate);
+    fills.push({ price: lv.price, size: take });
+    worst = lv.price;
+    remaining -= take;
+  }
+
+  const filled = shares - Math.max(remaining, 0);
+  return {
+    side,
+    requestedShares: shares,
+    shares: filled,
+    notionalUsd,
+    feeUsd,
+    vwap: filled > 0 ? notionalUsd / filled : 0,
+    limitPrice: worst === null ? null : alignToTick(worst, tickSize, side),
+    fills,
+    complete: remaining <= 1e-9
+  };
+}
+
+function alignToTick(price: number, tickSize: number | undefined, side: "buy" | "sell"): number {
+  if (!tickSize || !(tickSize > 0)) return price;
+  // A buy limit must be at or above the worst ask; a sell limit at or below the worst bid.
+  const ticks = price / tickSize;
+  const aligned = side === "buy" ? Math.ceil(ticks - 1e-9) : Math.floor(ticks + 1e-9);
+  return Number((aligned * tickSize).toFixed(10));
+}
+
+function sum(xs: number[]): number {
+  return xs.reduce((a, b) => a + b, 0);
+}
@@ -0,0 +1,35 @@
+import type { PaperState } from "./types.js";
+import type { PaperStrategy } from "./strategies.js";
+import { loadPaperState } from "./storage.js";
+import { realizedToday, type RiskBook, type RiskPosition } from "./risk.js";
+
+/**
+ * The directional side of the portfolio both engines check entries against: open positions of every
+ * strategy ledger (correlation group = family) and their realized PnL today.
+ */
+export function directionalRiskBook(states: PaperState[], ts: string): RiskBook {
+  return {
+    positions: states.flatMap((s) =>
+      s.positions.map(
+        (p): RiskPosition => ({
+          usd: p.entryUsd,
+          ...(p.eventId ? { eventId: p.eventId } : {}),
+          ...(p.category ? { category: p.category } : {}),
+          ...(p.resolvesAt ? { resolvesAt: p.resolvesAt } : {}),
+          group: p.family_id
+        })
+      )
+    ),
+    realizedTodayUsd: states.reduce((acc, s) => acc + realizedToday(s.dailyPnl, ts), 0)
+  };
+}
+
+// Directional ledgers as saved on disk, for paper arb's risk checks. Missing ledgers hold nothing.
+export async function loadDirectionalRiskBook(strategies: PaperStrategy[], ts: string): Promise<RiskBook> {
+  const states: PaperState[] = [];
+  for (const s of strategies) {
+    const state = await loadPaperState(s.statePath);
+    if (state) states.push(state);
+  }
+  return directionalRiskBook(states, ts);
+}
@@ -0,0 +1,124 @@
+export type RiskLimitId = "dailyLoss" | "event" | "category" | "resolutionDay" | "correlated" | "correlatedPositions";
+
+/**
+ * Portfolio limits shared by the directional and paper-arb engines, checked against both engines'
+ * positions together (`RISK_*` env, unset = no limit):
+ * - `event`: open USD per Polymarket eventId;
+ * - `category`: open USD per category / sport (see `marketCategory`);
+ * - `resolutionDay`: open USD resolving on the same UTC day;
+ * - `correlated` / `correlatedPositions`: open USD / positions per correlation group (a family, so
+ *   several buckets or rungs of one family count together);
+ * - `dailyLoss`: no new entries once today's (UTC) realized PnL is down this much.
+ */
+export type RiskLimits = {
+  maxEventUsd: number | null;
+  maxCategoryUsd: number | null;
+  maxResolutionDayUsd: number | null;
+  maxCorrelatedUsd: number | null;
+  maxCorrelatedPositions: number | null;
+  dailyLossLimitUsd: number | null;
+};
+
+// An open position or a candidate entry, tagged with what the limits group by.
+export type RiskPosition = {
+  usd: number;
+  eventId?: string;
+  category?: string;
+  resolvesAt?: string;
+  group?: string;
+};
+
+/**
+ * What a candidate is checked against: open positions and today's realized PnL of the whole paper
+ * portfolio (every directional strategy ledger plus the paper-arb ledger, see `mergeRiskBooks`).
+ */
+export type RiskBook = { positions: RiskPosition[]; realizedTodayUsd: number };
+
+export type RiskRejection = {
+  limit: RiskLimitId;
+  key: string; // the eventId / category / day / group that is full ("today" for dailyLoss)
+  currentUsd: number; // open USD under the key (positions for correlatedPositions, today's PnL for dailyLoss)
+  limitUsd: number;
+};
+
+// Realized PnL for one UTC day, kept on each ledger's state.
+export type DailyPnl = { day: string; realizedPnlUsd: number };
+
+export function riskLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): RiskLimits {
+  return {
+    maxEventUsd: envLimit(env, "RISK_MAX_EVENT_USD"),
+    maxCategoryUsd: envLimit(env, "RISK_MAX_CATEGORY_USD"),
+    maxResolutionDayUsd: envLimit(env, "RISK_MAX_RESOLUTION_DAY_USD"),
+    maxCorrelatedUsd: envLimit(env, "RISK_MAX_CORRELATED_USD"),
+    maxCorrelatedPositions: envLimit(env, "RISK_MAX_CORRELATED_POSITIONS"),
+    dailyLossLimitUsd: envLimit(env, "RISK_DAILY_LOSS_USD")
+  };
+}
+
+// True when any limit is set; engines skip loading the other engine's ledgers otherwise.
+export function hasRiskLimits(limits: RiskLimits): boolean {
+  return Object.values(limits).some((v) => v !== null);
+}
+
+export function mergeRiskBooks(...books: RiskBook[]): RiskBook {
+  return {
+    positions: books.flatMap((b) => b.positions),
+    realizedTodayUsd: books.reduce((acc, b) => acc + b.realizedTodayUsd, 0)
+  };
+}
+
+/**
+ * The first limit `candidate` would breach on top of `positions`, or null when it fits. The daily
+ * loss limit is checked first: once hit, every entry is rejected until the next UTC day.
+ */
+export function checkRisk(
+  limits: RiskLimits,
+  book: RiskBook,
+  candidate: RiskPosition
+): RiskRejection | null {
+  if (limits.dailyLossLimitUsd !== null && book.realizedTodayUsd <= -limits.dailyLossLimitUsd) {
+    return { limit: "dailyLoss", key: "today", currentUsd: book.realizedTodayUsd, limitUsd: limits.dailyLossLimitUsd };
+  }
+
+  const dims: Array<[RiskLimitId, number | null, (p: RiskPosition) => string | undefined]> = [
+    ["event", limits.maxEventUsd, (p) => p.eventId],
+    ["category", limits.maxCategoryUsd, (p) => p.category],
+    ["resolutionDay", limits.maxResolutionDayUsd, resolutionDay],
+    ["correlated", limits.maxCorrelatedUsd, (p) => p.group]
+  ];
+  for (const [limit, limitUsd, keyOf] of dims) {
+    const key = keyOf(candidate);
+    if (limitUsd === null || key === undefined) continue;
+    const currentUsd = book.positions.filter((p) => keyOf(p) === key).reduce((acc, p) => acc + p.usd, 0);
+    if (currentUsd + candidate.usd > limitUsd + 1e-9) return { limit, key, currentUsd, limitUsd };
+  }
+
+  if (limits.maxCorrelatedPositions !== null && candidate.group !== undefined) {
+    const open = book.positions.filter((p) => p.group === candidate.group).length;
+    if (open + 1 > limits.maxCorrelatedPositions) {
+      return { limit: "correlatedPositions", key: candidate.group, currentUsd: open, limitUsd: limits.maxCorrelatedPositions };
+    }
+  }
+  return null;
+}
+
+// Add a realized PnL to the ledger's day, starting a new day when `ts` is on a later UTC date.
+export function addDailyPnl(daily: DailyPnl | undefined, ts: string, pnl: number): DailyPnl {
+  const day = ts.slice(0, 10);
+  return { day, realizedPnlUsd: (daily?.day === day ? daily.realizedPnlUsd : 0) + pnl };
+}
+
+export function realizedToday(daily: DailyPnl | undefined, ts: string): number {
+  return daily?.day === ts.slice(0, 10) ? daily.realizedPnlUsd : 0;
+}
+
+function resolutionDay(p: RiskPosition): string | undefined {
+  return p.resolvesAt && Number.isFinite(Date.parse(p.resolvesAt)) ? new Date(p.resolvesAt).toISOString().slice(0, 10) : undefined;
+}
+
+function envLimit(env: NodeJS.ProcessEnv, name: string): number | null {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
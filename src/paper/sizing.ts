@@ -0,0 +1,72 @@
+import { takerFeeUsd } from "./fills.js";
+
+/**
+ * What a sizing model decided and why. `usd` is the budget it produced (the engines still cap it at
+ * cash, exposure and book depth); `inputs` are the numbers it was computed from. ENTRY events carry
+ * this record so reports can compare models.
+ */
+export type SizingDecision = {
+  model: string;
+  usd: number;
+  inputs: Record<string, number | null>;
+};
+
+export function flatSize(maxUsd: number): SizingDecision {
+  return { model: "flat", usd: maxUsd, inputs: { maxUsd } };
+}
+
+/**
+ * Fractional Kelly for a token that pays $1 with probability `prob`, bought at `price` plus the taker
+ * fee: full Kelly stakes (q - c) / (1 - c) of the bankroll at all-in cost c. Zero when the model sees
+ * no edge after fees.
+ */
+export function kellySize(args: {
+  prob: number;
+  price: number;
+  feeRate: number;
+  bankrollUsd: number;
+  fraction: number;
+  maxUsd: number;
+}): SizingDecision {
+  const { prob, price, feeRate, bankrollUsd, fraction, maxUsd } = args;
+  const cost = price + takerFeeUsd(1, price, feeRate);
+  const kelly = cost < 1 ? (prob - cost) / (1 - cost) : 0;
+  const usd = kelly > 0 ? Math.min(maxUsd, fraction * kelly * bankrollUsd) : 0;
+  return { model: "kelly", usd, inputs: { prob, price, cost, kelly, fraction, bankrollUsd, maxUsd } };
+}
+
+/**
+ * Locked arbitrage: scale the budget with the edge, reaching `maxUsd` at `fullEdge` (both as profit
+ * per dollar of cost).
+ */
+export function edgeProportionalSize(args: { edge: number; fullEdge: number; maxUsd: number }): SizingDecision {
+  const { edge, fullEdge, maxUsd } = args;
+  const usd = edge > 0 ? maxUsd * Math.min(1, edge / fullEdge) : 0;
+  return { model: "edge", usd, inputs: { edge, fullEdge, maxUsd } };
+}
+
+/**
+ * Scale the budget by target / realized volatility (per-scan price changes, see `priceVolatility`),
+ * capped at `maxUsd`. With fewer than `minSamples` prices there is no estimate and the entry is skipped.
+ */
+export function volatilityScaledSize(args: {
+  prices: number[];
+  targetVolatility: number;
+  minSamples: number;
+  maxUsd: number;
+}): SizingDecision {
+  const { prices, targetVolatility, minSamples, maxUsd } = args;
+  const vol = prices.length >= minSamples ? priceVolatility(prices) : null;
+  const usd = vol === null ? 0 : vol <= targetVolatility ? maxUsd : maxUsd * (targetVolatility / vol);
+  return { model: "volatility", usd, inputs: { volatility: vol, targetVolatility, samples: prices.length, maxUsd } };
+}
+
+// Standard deviation of successive price changes; null below two changes.
+export function priceVolatility(prices: number[]): number | null {
+  const diffs: number[] = [];
+  for (let i = 1; i < prices.length; i++) diffs.push(prices[i]! - prices[i - 1]!);
+  if (diffs.length < 2) return null;
+  const mean = diffs.reduce((acc, d) => acc + d, 0) / diffs.length;
+  const variance = diffs.reduce((acc, d) => acc + (d - mean) ** 2, 0) / (diffs.length - 1);
+  return Math.sqrt(variance);
+}
@@ -3,6 +3,8 @@ import { readFile, writeFile, appendFile } from "node:fs/promises";
 import { ensureDir } from "../lib/fs.js";
 import type { PaperState, PaperTradeEvent } from "./types.js";
 
+export const DEFAULT_STRATEGY_ID = "default";
+
 export function defaultPaperStatePath(): string {
   return path.resolve(process.cwd(), "data/db/paper_state.json");
 }
@@ -11,6 +13,19 @@ export function defaultPaperTradesPath(): string {
   return path.resolve(process.cwd(), "data/db/paper_trades.jsonl");
 }
 
+// The "default" strategy keeps the original ledger files; other strategies get `paper_state.<id>.json`.
+export function paperStatePathFor(strategyId: string): string {
+  return strategyId === DEFAULT_STRATEGY_ID
+    ? defaultPaperStatePath()
+    : path.resolve(process.cwd(), `data/db/paper_state.${strategyId}.json`);
+}
+
+export function paperTradesPathFor(strategyId: string): string {
+  return strategyId === DEFAULT_STRATEGY_ID
+    ? defaultPaperTradesPath()
+    : path.resolve(process.cwd(), `data/db/paper_trades.${strategyId}.jsonl`);
+}
+
 export async function loadPaperState(filePath = defaultPaperStatePath()): Promise<PaperState | null> {
   try {
     const txt = await readFile(filePath, "utf8");
@@ -0,0 +1,257 @@
+import type { PaperConfig, PaperPosition } from "./types.js";
+import { ladderViolations } from "../detect/basicAnomalies.js";
+import { flatSize, kellySize, volatilityScaledSize, type SizingDecision } from "./sizing.js";
+
+// Families are read back from `data/out/families.json`, so plugins see plain JSON.
+export type FamilyRecord = any;
+
+// `outcome` is the token bought: "Yes", or "No" to short a rich outcome. `note` explains the pick in the ENTRY reason.
+// `prob` is the entry rule's own estimate that the bought token pays out, when it has one (`kelly` sizing needs it).
+export type EntryTarget = { marketId: string; outcome: string; note?: string; prob?: number };
+
+/**
+ * Picks the outcome to buy for a candidate family, or null to skip it. Candidates arrive ranked by
+ * `opportunity_score`; cooldowns, price sanity and exposure caps are applied by the engine.
+ */
+export type EntryRule = {
+  id: string;
+  description: string;
+  pick: (family: FamilyRecord) => EntryTarget | null;
+};
+
+/**
+ * USD to spend on one entry, with the model and inputs behind it (recorded on the ENTRY event); a
+ * budget <= 0 skips the entry. The engine caps the result at available cash. Rules with `history` get
+ * the market's recent YES prices from the family score log (oldest first).
+ */
+export type SizingRule = {
+  id: string;
+  description: string;
+  history?: boolean;
+  size: (input: {
+    cfg: PaperConfig;
+    cashUsd: number;
+    navUsd: number;
+    price: number;
+    family: FamilyRecord;
+    target: EntryTarget;
+    history: number[];
+  }) => SizingDecision;
+};
+
+/**
+ * Exit reason for an open position at its current mark, or null to keep holding. Positions on
+ * resolved markets settle before exit rules run.
+ */
+export type ExitRule = {
+  id: string;
+  description: string;
+  check: (input: { cfg: PaperConfig; pos: PaperPosition; price: number; holdHours: number }) => string | null;
+};
+
+/**
+ * A directional strategy: one entry, sizing and exit rule plus its resolved config and ledger.
+ * Strategies run side by side, each with its own bankroll, positions and trade log.
+ */
+export type PaperStrategy = {
+  id: string;
+  entry: EntryRule;
+  sizing: SizingRule;
+  exit: ExitRule;
+  config: PaperConfig;
+  statePath: string;
+  tradesPath: string;
+};
+
+// Bucket: first label of the best-priced cluster; single: the market; event multi: the favourite.
+export const clusterEntry: EntryRule = {
+  id: "cluster",
+  description: "YES on the first bucket of the best cluster, the single market, or the multi favourite",
+  pick: (f) => {
+    if (f?.family_type === "bucket" && Array.isArray(f?.buckets)) {
+      const clusterLabels: string[] | undefined = Array.isArray(f?.features?.bestCluster?.labels)
+        ? f.features.bestCluster.labels
+        : undefined;
+      const desiredLabel = clusterLabels?.[0];
+      const bucket = desiredLabel ? f.buckets.find((b: any) => b?.label === desiredLabel) : f.buckets[0];
+      const marketId = typeof bucket?.marketId === "string" ? bucket.marketId : undefined;
+      // Polymarket binary markets use "Yes"/"No"
+      return marketId ? { marketId, outcome: "Yes" } : null;
+    }
+
+    if (f?.family_type === "single" && f?.single?.marketId) {
+      return { marketId: String(f.single.marketId), outcome: "Yes" };
+    }
+
+    // Single-market multi (3+ outcomes in one market) has no per-outcome marketId and stays unsupported.
+    if (f?.family_type === "multi") return favoriteOf(f.multi, "price");
+
+    return null;
+  }
+};
+
+export const favoriteEntry: EntryRule = {
+  id: "favorite",
+  description: "YES on the highest-priced bucket, ladder rung or multi outcome",
+  pick: (f) => {
+    if (f?.family_type === "bucket") return favoriteOf(f.buckets, "yes_price");
+    if (f?.family_type === "ladder") return favoriteOf(f.ladder?.rungs, "yes_price");
+    if (f?.family_type === "multi") return favoriteOf(f.multi, "price");
+    return clusterEntry.pick(f);
+  }
+};
+
+/**
+ * Relative value against the family's own normalized distribution (power-method de-vig, see
+ * `powerNormalize`), picking the best expected return per dollar:
+ * - overround (sum > 1): NO on the outcome priced furthest above its fair share;
+ * - underround (sum < 1): YES on the one furthest below it, only when the outcomes are exhaustive
+ *   (a full bucket partition, or a neg-risk event);
+ * - ladders: NO on the narrower rung of the widest inversion.
+ * Every member must be priced. Singles fall back to `cluster`; single-market multis (one market, 3+
+ * outcome tokens) are not traded.
+ */
+export const relativeEntry: EntryRule = {
+  id: "relative",
+  description: "NO on the richest outcome of an overround family (or ladder inversion), YES on the cheapest of an exhaustive underround one",
+  pick: (f) => {
+    if (f?.family_type === "ladder" && Array.isArray(f?.ladder?.rungs)) {
+      const worst = ladderViolations(f.ladder)[0];
+      if (!worst) return null;
+      // Neither rung is trusted: the subset is valued at the midpoint of the inverted pair.
+      const fairSubset = (worst.subset.yes_price! + worst.superset.yes_price!) / 2;
+      return {
+        marketId: worst.subset.marketId,
+        outcome: "No",
+        note: `${worst.subset.label} above ${worst.superset.label} by ${worst.gap.toFixed(3)}`,
+        prob: 1 - fairSubset
+      };
+    }
+    if (f?.family_type === "bucket" && Array.isArray(f?.buckets)) {
+      const members = f.buckets.map((b: any) => ({ marketId: b?.marketId, label: b?.label, price: b?.yes_price }));
+      return relativePick(members, f?.features?.fullPartition === true);
+    }
+    if (f?.family_type === "multi" && Array.isArray(f?.multi)) {
+      const members = f.multi.map((o: any) => ({ marketId: o?.marketId, label: o?.name, price: o?.price }));
+      return relativePick(members, f?.negRisk === true);
+    }
+    return clusterEntry.pick(f);
+  }
+};
+
+export const flatSizing: SizingRule = {
+  id: "flat",
+  description: "maxTradeUsd per entry",
+  size: ({ cfg, cashUsd }) => flatSize(Math.min(cfg.maxTradeUsd, cashUsd))
+};
+
+// Entries without a model probability (e.g. `cluster` picks) are skipped.
+export const kellySizing: SizingRule = {
+  id: "kelly",
+  description: "kellyFraction of full Kelly on NAV from the entry rule's probability, capped at maxTradeUsd",
+  size: ({ cfg, navUsd, price, target }) =>
+    target.prob === undefined
+      ? { model: "kelly", usd: 0, inputs: { prob: null, price } }
+      : kellySize({
+          prob: target.prob,
+          price,
+          feeRate: cfg.takerFeeRate,
+          bankrollUsd: navUsd,
+          fraction: cfg.kellyFraction,
+          maxUsd: cfg.maxTradeUsd
+        })
+};
+
+export const volatilitySizing: SizingRule = {
+  id: "volatility",
+  description: "maxTradeUsd scaled by targetVolatility / the market's logged price volatility",
+  history: true,
+  size: ({ cfg, history }) =>
+    volatilityScaledSize({
+      prices: history.slice(-cfg.volatilityLookback),
+      targetVolatility: cfg.targetVolatility,
+      minSamples: cfg.volatilityMinSamples,
+      maxUsd: cfg.maxTradeUsd
+    })
+};
+
+export const moveExit: ExitRule = {
+  id: "move",
+  description: "take profit / stop loss on the price move, or after maxHoldHours",
+  check: ({ cfg, pos, price, holdHours }) => {
+    const move = price - pos.entryPrice;
+    if (move >= cfg.takeProfitMove) return "TP";
+    if (move <= cfg.stopLossMove) return "SL";
+    return holdHours >= cfg.maxHoldHours ? "MAX_HOLD" : null;
+  }
+};
+
+export const holdExit: ExitRule = {
+  id: "hold",
+  description: "hold until the market resolves (or maxHoldHours)",
+  check: ({ cfg, holdHours }) => (holdHours >= cfg.maxHoldHours ? "MAX_HOLD" : null)
+};
+
+export const entryRules: readonly EntryRule[] = [clusterEntry, favoriteEntry, relativeEntry];
+export const sizingRules: readonly SizingRule[] = [flatSizing, kellySizing, volatilitySizing];
+export const exitRules: readonly ExitRule[] = [moveExit, holdExit];
+
+function relativePick(members: Array<{ marketId: unknown; label: unknown; price: unknown }>, exhaustive: boolean): EntryTarget | null {
+  if (members.length < 2) return null;
+  const priced: Array<{ marketId: string; label: string; price: number }> = [];
+  for (const m of members) {
+    if (typeof m.marketId !== "string" || typeof m.price !== "number" || !(m.price > 0.001 && m.price < 0.999)) return null;
+    priced.push({ marketId: m.marketId, label: String(m.label ?? m.marketId), price: m.price });
+  }
+  const total = priced.reduce((acc, m) => acc + m.price, 0);
+  const rich = total > 1;
+  if (!rich && !(exhaustive && total < 1)) return null;
+  const fair = powerNormalize(priced.map((m) => m.price));
+  if (!fair) return null;
+
+  // Expected return per dollar: NO at 1 - p pays when the outcome misses (1 - fair); YES at p pays fair.
+  let best: { i: number; ret: number } | null = null;
+  for (let i = 0; i < priced.length; i++) {
+    const p = priced[i]!.price;
+    const ret = rich ? (p - fair[i]!) / (1 - p) : (fair[i]! - p) / p;
+    if (!best || ret > best.ret) best = { i, ret };
+  }
+  if (!best || !(best.ret > 0)) return null;
+  const m = priced[best.i]!;
+  return {
+    marketId: m.marketId,
+    outcome: rich ? "No" : "Yes",
+    note: `${m.label} ${m.price.toFixed(3)} vs fair ${fair[best.i]!.toFixed(3)} (sum ${total.toFixed(3)})`,
+    prob: rich ? 1 - fair[best.i]! : fair[best.i]!
+  };
+}
+
+/**
+ * Power-method de-vig: fair_i = p_i^k with k chosen so the fair prices sum to 1. Unlike dividing by
+ * the sum, this puts more of an overround on longshots (k > 1), in line with favourite-longshot bias.
+ */
+function powerNormalize(prices: number[]): number[] | null {
+  const total = (k: number) => prices.reduce((acc, p) => acc + p ** k, 0);
+  let lo = 0.01;
+  let hi = 100;
+  // total(k) decreases in k for prices in (0, 1).
+  if (total(lo) < 1 || total(hi) > 1) return null;
+  for (let iter = 0; iter < 100; iter++) {
+    const mid = (lo + hi) / 2;
+    if (total(mid) > 1) lo = mid;
+    else hi = mid;
+  }
+  const k = (lo + hi) / 2;
+  return prices.map((p) => p ** k);
+}
+
+function favoriteOf(items: unknown, priceKey: string): EntryTarget | null {
+  if (!Array.isArray(items)) return null;
+  let best: { marketId: string; price: number } | null = null;
+  for (const o of items) {
+    const price = o?.[priceKey];
+    if (typeof o?.marketId !== "string" || typeof price !== "number") continue;
+    if (!best || price > best.price) best = { marketId: o.marketId, price };
+  }
+  return best ? { marketId: best.marketId, outcome: "Yes" } : null;
+}
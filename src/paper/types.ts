@@ -1,3 +1,7 @@
+import type { FamilyType } from "../normalize/buildFamilies.js";
+import type { SizingDecision } from "./sizing.js";
+import type { DailyPnl, RiskRejection } from "./risk.js";
+
 export type PaperConfig = {
   bankrollStartUsd: number;
   maxNewTradesPerScan: number;
@@ -7,20 +11,35 @@ export type PaperConfig = {
   takeProfitMove: number; // e.g. +0.02
   stopLossMove: number; // e.g. -0.02
   maxHoldHours: number;
+  takerFeeRate: number; // same fee model as paper arb (`takerFeeUsd`)
+  bookCandidates: number; // top candidate families per scan whose books are fetched for entries
+  kellyFraction: number; // `kelly` sizing: share of full Kelly staked
+  targetVolatility: number; // `volatility` sizing: per-scan price-change std at which maxTradeUsd is spent
+  volatilityLookback: number; // `volatility` sizing: latest family-log prices used
+  volatilityMinSamples: number; // `volatility` sizing: fewer logged prices skips the entry
 };
 
 export type PaperPosition = {
   id: string;
   family_id: string;
-  family_type: "bucket" | "multi" | "single";
+  family_type: FamilyType;
+
+  // Strategy whose ledger holds the position (absent on positions opened before strategies).
+  strategy?: string;
 
   marketId: string;
   outcome: string; // we paper-trade an outcome token like "Yes"
+  tokenId?: string; // CLOB token for book fills (absent on positions entered at Gamma prices)
+
+  // Risk limit keys from the family at entry (see `checkRisk`); the family is the correlation group.
+  eventId?: string;
+  category?: string;
+  resolvesAt?: string;
 
   entryTs: string; // ISO
-  entryPrice: number;
+  entryPrice: number; // fill VWAP before fees
   shares: number;
-  entryUsd: number; // shares * entryPrice
+  entryUsd: number; // shares * entryPrice + entry fee
 
   lastMarkTs?: string;
   lastMarkPrice?: number;
@@ -32,6 +51,7 @@ export type PaperState = {
   bankrollCashUsd: number;
   positions: PaperPosition[];
   lastEntryByFamilyId: Record<string, string>; // ISO timestamp
+  dailyPnl?: DailyPnl; // realized PnL today (UTC), for the daily loss limit
 };
 
 export type PaperTradeEvent =
@@ -47,6 +67,7 @@ export type PaperTradeEvent =
   | {
       ts: string;
       type: "ENTRY";
+      strategy?: string;
       positionId: string;
       family_id: string;
       marketId: string;
@@ -55,10 +76,17 @@ export type PaperTradeEvent =
       shares: number;
       usd: number;
       reason: string;
+      // How the fill was priced: CLOB book depth, or Gamma `outcomePrices` (`PAPER_BOOK_FILLS=0`).
+      fillSource?: "book" | "gamma";
+      feeUsd?: number;
+      midPrice?: number | null;
+      spreadPaidUsd?: number | null; // shares * |VWAP - mid|
+      sizing?: SizingDecision; // the strategy's sizing rule and the inputs behind `usd`
     }
   | {
       ts: string;
       type: "EXIT";
+      strategy?: string;
       positionId: string;
       family_id: string;
       marketId: string;
@@ -69,6 +97,37 @@ export type PaperTradeEvent =
       realizedPnlUsd: number;
       reason: string;
       holdHours: number;
+      // How the fill was priced: CLOB book depth, or Gamma `outcomePrices` (`PAPER_BOOK_FILLS=0`).
+      fillSource?: "book" | "gamma";
+      feeUsd?: number;
+      midPrice?: number | null;
+      spreadPaidUsd?: number | null; // shares * |VWAP - mid|
+    }
+  | ({
+      // A candidate entry blocked by a portfolio risk limit (no position is opened).
+      ts: string;
+      type: "REJECT";
+      strategy: string;
+      family_id: string;
+      marketId: string;
+      outcome: string;
+      usd: number; // the sized entry that did not fit
+    } & RiskRejection)
+  | {
+      // The market resolved: the position pays out at the actual resolution price.
+      ts: string;
+      type: "SETTLE";
+      strategy?: string;
+      positionId: string;
+      family_id: string;
+      marketId: string;
+      outcome: string;
+      payout: number; // per share: 1 / 0, or 0.5 when voided / 50-50
+      shares: number;
+      usd: number;
+      realizedPnlUsd: number;
+      voided: boolean;
+      holdHours: number;
     };
 
 
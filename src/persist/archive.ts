@@ -0,0 +1,220 @@
+import path from "node:path";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import { readdir, readFile, rm, rmdir, writeFile } from "node:fs/promises";
+import { ensureDir, writeJsonFile } from "../lib/fs.js";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export type ArchivePolicy = {
+  retentionDays: number;
+  maxBytes: number;
+};
+
+export type ArchiveFileEntry = {
+  name: string;
+  bytes: number; // compressed, on disk
+  rawBytes: number;
+};
+
+export type ArchiveManifestEntry = {
+  ts: string;
+  dir: string; // relative to the archive root, e.g. "2026/06/22/2026-06-22T14-15-00.000Z"
+  files: ArchiveFileEntry[];
+  bytes: number;
+  gammaPages: number;
+  markets: number;
+  // MAX_MARKETS the scan applied to the pages: it analyzed only the first `maxMarkets` of `markets`.
+  maxMarkets?: number;
+  // Gamma `/events` pages (GAMMA_EVENTS=1 scans only).
+  eventPages?: number;
+  orderBookMarkets: number | null;
+};
+
+export type ArchiveManifest = {
+  version: 1;
+  updatedAt: string;
+  totalBytes: number;
+  snapshots: ArchiveManifestEntry[];
+};
+
+export type ArchiveScanInput = {
+  ts: string;
+  gammaPages: unknown[]; // verbatim `/markets` responses, in fetch order
+  maxMarkets?: number | null; // the scan kept only the first N markets of `gammaPages`
+  gammaEventPages?: unknown[]; // verbatim `/events` responses, when event metadata was fetched
+  orderBooks?: unknown; // OrderBooksSnapshot when paper arb ran
+};
+
+export type ArchiveScanResult = {
+  entry: ArchiveManifestEntry;
+  pruned: ArchiveManifestEntry[];
+  totalBytes: number;
+};
+
+export function defaultArchiveRoot(): string {
+  return path.resolve(process.cwd(), "data/archive");
+}
+
+/**
+ * Retention defaults are sized for a small Lightsail disk; override via env:
+ * - ARCHIVE_RETENTION_DAYS (default 14)
+ * - ARCHIVE_MAX_MB (default 2048)
+ */
+export function archivePolicyFromEnv(): ArchivePolicy {
+  return {
+    retentionDays: envNumber("ARCHIVE_RETENTION_DAYS", 14),
+    maxBytes: envNumber("ARCHIVE_MAX_MB", 2048) * 1024 * 1024
+  };
+}
+
+/**
+ * Write one scan's raw inputs into `YYYY/MM/DD/<ts>/` as gzip JSON, record it in
+ * `manifest.json`, then prune to the retention policy.
+ *
+ * Files per snapshot:
+ * - `gamma_markets_pNNN.json.gz`: each Gamma `/markets` page exactly as received
+ * - `gamma_events_pNNN.json.gz`: each Gamma `/events` page (only when events were fetched)
+ * - `orderbooks_raw.json.gz`: the CLOB books snapshot (only when books were fetched)
+ */
+export async function archiveScan(
+  input: ArchiveScanInput,
+  opts: { root?: string; policy?: ArchivePolicy } = {}
+): Promise<ArchiveScanResult> {
+  const root = opts.root ?? defaultArchiveRoot();
+  const policy = opts.policy ?? archivePolicyFromEnv();
+  const relDir = archiveRelDir(input.ts);
+  const absDir = path.join(root, relDir);
+  await ensureDir(absDir);
+
+  const files: ArchiveFileEntry[] = [];
+  let markets = 0;
+  for (let i = 0; i < input.gammaPages.length; i++) {
+    const page = input.gammaPages[i];
+    if (Array.isArray(page)) markets += page.length;
+    files.push(await writeGzJson(absDir, `gamma_markets_p${String(i + 1).padStart(3, "0")}.json.gz`, page));
+  }
+
+  const eventPages = input.gammaEventPages ?? [];
+  for (let i = 0; i < eventPages.length; i++) {
+    files.push(await writeGzJson(absDir, `gamma_events_p${String(i + 1).padStart(3, "0")}.json.gz`, eventPages[i]));
+  }
+
+  let orderBookMarkets: number | null = null;
+  if (input.orderBooks !== undefined) {
+    const m = (input.orderBooks as { markets?: unknown })?.markets;
+    orderBookMarkets = Array.isArray(m) ? m.length : null;
+    files.push(await writeGzJson(absDir, "orderbooks_raw.json.gz", input.orderBooks));
+  }
+
+  const entry: ArchiveManifestEntry = {
+    ts: input.ts,
+    dir: relDir.split(path.sep).join("/"),
+    files,
+    bytes: files.reduce((acc, f) => acc + f.bytes, 0),
+    gammaPages: input.gammaPages.length,
+    markets,
+    ...(typeof input.maxMarkets === "number" ? { maxMarkets: input.maxMarkets } : {}),
+    ...(eventPages.length ? { eventPages: eventPages.length } : {}),
+    orderBookMarkets
+  };
+
+  const manifest = await loadArchiveManifest(root);
+  manifest.snapshots = manifest.snapshots.filter((s) => s.dir !== entry.dir);
+  manifest.snapshots.push(entry);
+  manifest.snapshots.sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
+
+  const pruned = await pruneArchive(root, manifest, policy, Date.parse(input.ts));
+  manifest.updatedAt = input.ts;
+  manifest.totalBytes = manifest.snapshots.reduce((acc, s) => acc + s.bytes, 0);
+  await writeJsonFile(path.join(root, "manifest.json"), manifest);
+
+  return { entry, pruned, totalBytes: manifest.totalBytes };
+}
+
+export async function loadArchiveManifest(root = defaultArchiveRoot()): Promise<ArchiveManifest> {
+  try {
+    const obj = JSON.parse(await readFile(path.join(root, "manifest.json"), "utf8")) as ArchiveManifest;
+    if (obj?.version === 1 && Array.isArray(obj.snapshots)) return obj;
+  } catch {
+    // fall through to an empty manifest
+  }
+  return { version: 1, updatedAt: new Date(0).toISOString(), totalBytes: 0, snapshots: [] };
+}
+
+/**
+ * Drop snapshots older than `retentionDays`, then the oldest ones until the archive fits
+ * `maxBytes`. The newest snapshot is always kept. Mutates `manifest.snapshots`.
+ */
+export async function pruneArchive(
+  root: string,
+  manifest: ArchiveManifest,
+  policy: ArchivePolicy,
+  nowMs = Date.now()
+): Promise<ArchiveManifestEntry[]> {
+  const cutoffMs = nowMs - policy.retentionDays * 24 * 36e5;
+  const kept = manifest.snapshots.slice();
+  const removed: ArchiveManifestEntry[] = [];
+
+  while (kept.length > 1 && Date.parse(kept[0]!.ts) < cutoffMs) removed.push(kept.shift()!);
+
+  let total = kept.reduce((acc, s) => acc + s.bytes, 0);
+  while (kept.length > 1 && total > policy.maxBytes) {
+    const s = kept.shift()!;
+    total -= s.bytes;
+    removed.push(s);
+  }
+
+  for (const s of removed) {
+    await rm(path.join(root, s.dir), { recursive: true, force: true });
+    await removeEmptyParents(root, path.dirname(path.join(root, s.dir)));
+  }
+
+  manifest.snapshots = kept;
+  return removed;
+}
+
+/**
+ * Read a JSON file that may be gzip-compressed (by `.gz` extension).
+ */
+export async function readMaybeGzJson(filePath: string): Promise<unknown> {
+  const buf = await readFile(filePath);
+  const txt = filePath.endsWith(".gz") ? (await gunzipAsync(buf)).toString("utf8") : buf.toString("utf8");
+  return JSON.parse(txt);
+}
+
+export function archiveRelDir(ts: string): string {
+  const d = new Date(ts);
+  const yyyy = String(d.getUTCFullYear());
+  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(d.getUTCDate()).padStart(2, "0");
+  return path.join(yyyy, mm, dd, d.toISOString().replace(/:/g, "-"));
+}
+
+async function writeGzJson(dir: string, name: string, data: unknown): Promise<ArchiveFileEntry> {
+  const raw = Buffer.from(JSON.stringify(data), "utf8");
+  const gz = await gzipAsync(raw);
+  await writeFile(path.join(dir, name), gz);
+  return { name, bytes: gz.length, rawBytes: raw.length };
+}
+
+async function removeEmptyParents(root: string, dir: string): Promise<void> {
+  let cur = dir;
+  while (cur.startsWith(root) && cur !== root) {
+    try {
+      if ((await readdir(cur)).length > 0) return;
+      await rmdir(cur);
+    } catch {
+      return;
+    }
+    cur = path.dirname(cur);
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
@@ -1,5 +1,14 @@
 import path from "node:path";
 import { writeJsonFile } from "../lib/fs.js";
+import type { DetectorRun } from "../detect/registry.js";
+import type { SignalLifecycleRecord, TrackedSignal } from "./signalLifecycle.js";
+import type { FamilyScored } from "../detect/basicAnomalies.js";
+import type { FamilyType } from "../normalize/buildFamilies.js";
+import type { PaperArbSummary } from "../paper/arb.js";
+import type { DiscoveryCoverage, FetchMarketsResult } from "../ingest/fetchMarkets.js";
+import type { ScanAnalysis } from "../pipeline/analyze.js";
+import type { EventJoinStats } from "../normalize/eventMetadata.js";
+import { httpMetricsSnapshot, type HttpEndpointMetrics } from "../lib/http.js";
 
 export type Dashboard = {
   timestamp: string;
@@ -12,21 +21,29 @@ export type Dashboard = {
     bucketFamiliesWith6ValidPrices: number;
     familyTypeCounts: {
       bucket: number;
+      ladder?: number; // absent on dashboards written before date ladders
       multi: number;
       single: number;
     };
     stopReason: string;
     pagesFetched: number;
+    // Incremental discovery: catalog size versus this run's delta (new / changed / removed markets).
+    coverage?: DiscoveryCoverage;
     limits: {
       GAMMA_LIMIT: number;
       GAMMA_PAGE_LIMIT: number | null;
       MAX_MARKETS: number | null;
     };
+    // `/events` join (GAMMA_EVENTS=1) and markets dropped by SCAN_CATEGORIES / SCAN_EXCLUDE_CATEGORIES.
+    eventJoin?: EventJoinStats;
+    categoryFiltered?: number;
+    // Per-endpoint HTTP counters for this process (requests, retries, latency percentiles, bytes).
+    http?: HttpEndpointMetrics[];
   };
   warnings: string[];
   topFamilies: Array<{
     family_id: string;
-    family_type: "bucket" | "multi" | "single";
+    family_type: FamilyType;
     title: string;
     opportunity_score: number;
     reasons: string[];
@@ -39,24 +56,12 @@ export type Dashboard = {
       missingPrices: number | null;
     };
   }>;
-  sportsSignals?: Array<{
-    ts: string;
-    kind: string;
-    sport: string;
-    groupKey: string;
-    title: string;
-    score: number;
-    edge: number;
-    cost?: number;
-    payout?: number;
-    reason: string;
-    markets: Array<{
-      marketId: string;
-      title: string;
-      yes_price: number | null;
-      yesTokenId?: string;
-    }>;
-  }>;
+  // This scan's signals (detectors + paper-arb opportunities) with lifecycle status, new first;
+  // signals that disappeared this scan; per-detector run status. See `src/persist/signalLifecycle.ts`.
+  signals?: TrackedSignal[];
+  closedSignals?: SignalLifecycleRecord[];
+  signalCounts?: { new: number; persisting: number; closed: number };
+  detectors?: DetectorRun[];
   paper?: {
     bankrollCashUsd: number;
     realizedPnlUsd: number;
@@ -64,6 +69,7 @@ export type Dashboard = {
     openPositionsCount: number;
     exposureUsd: number;
     newTradesSummary: Array<{
+      strategy?: string;
       positionId: string;
       family_id: string;
       marketId: string;
@@ -73,6 +79,7 @@ export type Dashboard = {
       reason: string;
     }>;
     openPositionsSummary: Array<{
+      strategy?: string;
       positionId: string;
       family_id: string;
       marketId: string;
@@ -95,24 +102,64 @@ export type Dashboard = {
     opportunities: number;
     entered: number;
     exited: number;
+    merged: number;
+    settled?: number;
+    mintSells: number;
+    conversions: number;
+    riskRejected: number;
     newTradesSummary: Array<{
       positionId: string;
+      strategy: string;
       marketId: string;
       title: string;
+      legs: number;
       shares: number;
       costUsd: number;
       lockedProfitUsd: number;
       edge: number;
+      vwapSetCost: number;
+      marginalEdge: number;
+      daysToResolution?: number;
+      annualizedReturn?: number;
+      returnOnExposure?: number;
+    }>;
+    mintSellsSummary: Array<{
+      tradeId: string;
+      marketId: string;
+      title: string;
+      shares: number;
+      mintCostUsd: number;
+      proceedsUsd: number;
+      realizedPnlUsd: number;
+      edge: number;
+      yesBid: number;
+      noBid: number;
+    }>;
+    conversionsSummary: Array<{
+      tradeId: string;
+      eventId: string;
+      marketId: string;
+      title: string;
+      legs: number;
+      shares: number;
+      costUsd: number;
+      proceedsUsd: number;
+      realizedPnlUsd: number;
+      edge: number;
     }>;
     openPositionsSummary: Array<{
       positionId: string;
+      strategy: string;
       marketId: string;
       title: string;
+      legs: number;
       entryTs: string;
       shares: number;
       costUsd: number;
       lockedProfitUsd: number;
       lastMarkPnlUsd: number | null;
+      daysToResolution?: number;
+      annualizedReturn?: number;
     }>;
   };
 };
@@ -124,3 +171,108 @@ export function defaultDashboardPath(): string {
 export async function writeDashboard(dashboard: Dashboard, filePath = defaultDashboardPath()): Promise<void> {
   await writeJsonFile(filePath, dashboard);
 }
+
+/**
+ * Scan-level part of the dashboard (counts, warnings, top families), shared by the one-shot scan and
+ * the daemon's discovery loop.
+ */
+export function dashboardScanBase(args: { ts: string; fetched: FetchMarketsResult; analysis: ScanAnalysis }): Dashboard {
+  const { fetched, analysis } = args;
+  const bucketFamilies = analysis.scored.filter((f) => f.family_type === "bucket");
+  const bucketWith6Prices = bucketFamilies.filter((f) => (f.features?.validPrices ?? 0) >= 6);
+
+  const warnings: string[] = [];
+  if (bucketFamilies.length > 0 && bucketWith6Prices.length === 0) {
+    warnings.push(
+      "No high quality bucket families in this scan window; consider increasing coverage or targeting categories."
+    );
+  }
+
+  return {
+    timestamp: args.ts,
+    scan: {
+      fetched: fetched.raw.length,
+      parsed: fetched.marketsLoose.length,
+      normalized: analysis.normStats.keptMarkets,
+      families: analysis.families.length,
+      bucketFamilies: bucketFamilies.length,
+      bucketFamiliesWith6ValidPrices: bucketWith6Prices.length,
+      familyTypeCounts: dashboardFamilyTypeCounts(analysis.scored),
+      stopReason: fetched.stopReason,
+      pagesFetched: fetched.pagesFetched,
+      ...(fetched.coverage ? { coverage: fetched.coverage } : {}),
+      ...(analysis.eventJoin ? { eventJoin: analysis.eventJoin } : {}),
+      ...(analysis.categoryFiltered !== undefined ? { categoryFiltered: analysis.categoryFiltered } : {}),
+      limits: {
+        GAMMA_LIMIT: fetched.gammaLimit,
+        GAMMA_PAGE_LIMIT: fetched.gammaPageLimit,
+        MAX_MARKETS: fetched.maxMarkets
+      },
+      http: httpMetricsSnapshot()
+    },
+    warnings,
+    topFamilies: dashboardTopFamilies(analysis.ranked)
+  };
+}
+
+// Dashboard top list: prefer bucket/ladder/multi, then backfill with singles so it's never blank.
+export function dashboardTopFamilies(ranked: FamilyScored[]): Dashboard["topFamilies"] {
+  const rankedBucketMulti = ranked.filter((f) => f.family_type !== "single");
+  const rankedSingles = ranked.filter((f) => f.family_type === "single");
+  const topPick = [...rankedBucketMulti.slice(0, 10)];
+  if (topPick.length < 10) topPick.push(...rankedSingles.slice(0, 10 - topPick.length));
+
+  return topPick.map((f) => ({
+    family_id: f.family_id,
+    family_type: f.family_type,
+    title: f.title,
+    opportunity_score: f.opportunity_score,
+    reasons: f.reasons,
+    ...(f.family_type === "bucket"
+      ? {
+          features: {
+            overround: f.features?.overround ?? null,
+            maxSpike: f.features?.maxSpike ?? null,
+            bestClusterZ: f.features?.bestClusterZ ?? null,
+            liquidityMax: f.features?.liquidityMax ?? null,
+            validPrices: f.features?.validPrices ?? null,
+            missingPrices: f.features?.missingPrices ?? null
+          }
+        }
+      : {})
+  }));
+}
+
+export function dashboardFamilyTypeCounts(scored: FamilyScored[]): Dashboard["scan"]["familyTypeCounts"] {
+  return {
+    bucket: scored.filter((f) => f.family_type === "bucket").length,
+    ladder: scored.filter((f) => f.family_type === "ladder").length,
+    multi: scored.filter((f) => f.family_type === "multi").length,
+    single: scored.filter((f) => f.family_type === "single").length
+  };
+}
+
+export function dashboardPaperArb(summary: PaperArbSummary): NonNullable<Dashboard["paperArb"]> {
+  return {
+    bankrollCashUsd: summary.bankrollCashUsd,
+    realizedPnlUsd: summary.realizedPnlUsd,
+    lockedProfitUsd: summary.lockedProfitUsd,
+    markToBidPnlUsd: summary.markToBidPnlUsd,
+    exposureUsd: summary.exposureUsd,
+    openPositionsCount: summary.openPositionsCount,
+    scannedMarkets: summary.scannedMarkets,
+    completeBooks: summary.completeBooks,
+    opportunities: summary.opportunities,
+    entered: summary.entered,
+    exited: summary.exited,
+    merged: summary.merged,
+    settled: summary.settled,
+    mintSells: summary.mintSells,
+    conversions: summary.conversions,
+    riskRejected: summary.riskRejected,
+    newTradesSummary: summary.newTradesSummary,
+    mintSellsSummary: summary.mintSellsSummary,
+    conversionsSummary: summary.conversionsSummary,
+    openPositionsSummary: summary.openPositionsSummary
+  };
+}
@@ -1,11 +1,13 @@
 import path from "node:path";
-import { appendFile } from "node:fs/promises";
+import { appendFile, open } from "node:fs/promises";
 import { ensureDir } from "../lib/fs.js";
+import type { FamilyScored } from "../detect/basicAnomalies.js";
+import type { FamilyType } from "../normalize/buildFamilies.js";
 
 export type PersistedFamilyRow = {
   ts: string; // ISO timestamp for the scan run
   family_id: string;
-  family_type: "bucket" | "multi" | "single";
+  family_type: FamilyType;
   title: string;
   opportunity_score: number;
   features: {
@@ -17,6 +19,8 @@ export type PersistedFamilyRow = {
     validPrices: number | null;
     missingPrices: number | null;
   };
+  // Member YES prices by marketId (absent on rows written before price history was logged).
+  prices?: Record<string, number | null>;
 };
 
 export function defaultDbPath(): string {
@@ -29,4 +33,93 @@ export async function appendFamilyRows(rows: PersistedFamilyRow[], filePath = de
   await appendFile(filePath, payload, "utf8");
 }
 
+export function familyRowsFromScored(scored: FamilyScored[], ts: string): PersistedFamilyRow[] {
+  return scored.map((f) => ({
+    ts,
+    family_id: f.family_id,
+    family_type: f.family_type,
+    title: f.title,
+    opportunity_score: f.opportunity_score,
+    features: {
+      overround: f.features?.overround ?? null,
+      maxSpike: f.features?.maxSpike ?? null,
+      bestClusterZ: f.features?.bestClusterZ ?? null,
+      liquidityMax: f.features?.liquidityMax ?? null,
+      volumeMax: f.features?.volumeMax ?? null,
+      validPrices: f.features?.validPrices ?? null,
+      missingPrices: f.features?.missingPrices ?? null
+    },
+    prices: memberPrices(f)
+  }));
+}
+
+/**
+ * Per-scan YES price history (oldest first) for `marketIds`, from the tail of the family log. Only the
+ * last `maxBytes` are read so the cost stays flat as the log grows; a market logged by more than one
+ * family counts once per scan.
+ */
+export async function readPriceHistory(
+  marketIds: Iterable<string>,
+  opts: { filePath?: string; maxBytes?: number; maxSamples?: number } = {}
+): Promise<Map<string, number[]>> {
+  const wanted = new Set(marketIds);
+  const out = new Map<string, Array<{ ts: string; price: number }>>();
+  if (wanted.size === 0) return new Map();
+
+  let txt: string;
+  try {
+    const fh = await open(opts.filePath ?? defaultDbPath(), "r");
+    try {
+      const { size } = await fh.stat();
+      const length = Math.min(size, opts.maxBytes ?? 32 * 1024 * 1024);
+      const buf = Buffer.alloc(length);
+      await fh.read(buf, 0, length, size - length);
+      txt = buf.toString("utf8");
+      // Drop the first, possibly cut-off line.
+      if (length < size) txt = txt.slice(txt.indexOf("\n") + 1);
+    } finally {
+      await fh.close();
+    }
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return new Map();
+    throw e;
+  }
+
+  for (const line of txt.split("\n")) {
+    if (!line.trim()) continue;
+    let row: PersistedFamilyRow;
+    try {
+      row = JSON.parse(line) as PersistedFamilyRow;
+    } catch {
+      continue;
+    }
+    if (!row?.prices || typeof row.ts !== "string") continue;
+    for (const [marketId, price] of Object.entries(row.prices)) {
+      if (!wanted.has(marketId) || typeof price !== "number") continue;
+      const series = out.get(marketId) ?? [];
+      if (series[series.length - 1]?.ts === row.ts) continue;
+      series.push({ ts: row.ts, price });
+      out.set(marketId, series);
+    }
+  }
 
+  const maxSamples = opts.maxSamples ?? Infinity;
+  return new Map(
+    [...out.entries()].map(([marketId, series]) => [
+      marketId,
+      series
+        .sort((a, b) => a.ts.localeCompare(b.ts))
+        .slice(-maxSamples)
+        .map((p) => p.price)
+    ])
+  );
+}
+
+function memberPrices(f: FamilyScored): Record<string, number | null> {
+  const out: Record<string, number | null> = {};
+  for (const b of f.buckets ?? []) out[b.marketId] = b.yes_price;
+  for (const r of f.ladder?.rungs ?? []) out[r.marketId] = r.yes_price;
+  for (const o of f.multi ?? []) if (o.marketId) out[o.marketId] = o.price;
+  if (f.single) out[f.single.marketId] = f.single.yes_price;
+  return out;
+}
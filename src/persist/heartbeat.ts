@@ -1,5 +1,7 @@
 import path from "node:path";
 import { writeJsonFile } from "../lib/fs.js";
+import type { LoopStats } from "../daemon/scheduler.js";
+import type { ClobMarketStreamStats } from "../clients/clobWs.js";
 
 export type ScanHeartbeat = {
   timestamp: string;
@@ -9,6 +11,12 @@ export type ScanHeartbeat = {
   families: number;
   bucketFamilies: number;
   topScore: number | null;
+  // Daemon mode only: process start, watchlist size, per-loop timings and websocket book-cache stats.
+  mode?: "scan" | "daemon";
+  startedAt?: string;
+  watchlist?: number;
+  loops?: Record<string, LoopStats>;
+  clobWs?: ClobMarketStreamStats;
 };
 
 export function defaultHeartbeatPath(): string {
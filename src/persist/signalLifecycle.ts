@@ -0,0 +1,205 @@
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import { writeJsonFile } from "../lib/fs.js";
+import type { Signal } from "../detect/types.js";
+
+export type SignalStatus = "new" | "persisting" | "closed";
+
+export type SignalLifecycleRecord = {
+  fingerprint: string;
+  detector: string;
+  kind: string;
+  key: string;
+  title: string;
+  marketIds: string[];
+  firstSeen: string;
+  lastSeen: string;
+  scansSeen: number;
+  consecutiveScans: number;
+  lastScore: number;
+  lastEdge: number | null;
+  peakScore: number;
+  peakEdge: number | null;
+  closedAt?: string; // first scan (of a detector that ran) where the signal was missing
+};
+
+export type SignalLifecycleState = {
+  version: 1;
+  updatedAt: string;
+  active: Record<string, SignalLifecycleRecord>;
+  closed: SignalLifecycleRecord[]; // most recent first, capped
+};
+
+export type TrackedSignal = Signal & {
+  status: Exclude<SignalStatus, "closed">;
+  firstSeen: string;
+  consecutiveScans: number;
+  peakEdge: number | null;
+};
+
+export type SignalLifecycleUpdate = {
+  state: SignalLifecycleState;
+  signals: TrackedSignal[]; // current scan: new first, then persisting; each by score
+  opened: SignalLifecycleRecord[];
+  persisting: SignalLifecycleRecord[];
+  closed: SignalLifecycleRecord[];
+};
+
+const MAX_CLOSED = 500;
+
+/**
+ * Fold one scan's signals into the lifecycle state (pure; the caller persists it).
+ *
+ * A signal is "new" on the first scan its fingerprint is active, "persisting" while it keeps
+ * showing up, and "closed" on the first scan it is missing. Only detectors listed in `ranDetectors`
+ * can close signals, so a stage that did not run (e.g. no order books this scan) does not close
+ * everything it found last time. A closed fingerprint that reappears starts a new lifecycle.
+ */
+export function updateSignalLifecycle(
+  prev: SignalLifecycleState | null,
+  signals: Signal[],
+  ts: string,
+  ranDetectors: Set<string>
+): SignalLifecycleUpdate {
+  const active: Record<string, SignalLifecycleRecord> = {};
+  const opened: SignalLifecycleRecord[] = [];
+  const persisting: SignalLifecycleRecord[] = [];
+  const tracked: TrackedSignal[] = [];
+
+  for (const s of dedupeByFingerprint(signals)) {
+    const before = prev?.active[s.fingerprint];
+    const rec: SignalLifecycleRecord = before
+      ? {
+          ...before,
+          title: s.title,
+          lastSeen: ts,
+          scansSeen: before.scansSeen + 1,
+          consecutiveScans: before.consecutiveScans + 1,
+          lastScore: s.score,
+          lastEdge: s.edge,
+          peakScore: Math.max(before.peakScore, s.score),
+          peakEdge: maxOrNull(before.peakEdge, s.edge)
+        }
+      : {
+          fingerprint: s.fingerprint,
+          detector: s.detector,
+          kind: s.kind,
+          key: s.key,
+          title: s.title,
+          marketIds: s.marketIds,
+          firstSeen: ts,
+          lastSeen: ts,
+          scansSeen: 1,
+          consecutiveScans: 1,
+          lastScore: s.score,
+          lastEdge: s.edge,
+          peakScore: s.score,
+          peakEdge: s.edge
+        };
+    active[s.fingerprint] = rec;
+    (before ? persisting : opened).push(rec);
+    tracked.push({
+      ...s,
+      status: before ? "persisting" : "new",
+      firstSeen: rec.firstSeen,
+      consecutiveScans: rec.consecutiveScans,
+      peakEdge: rec.peakEdge
+    });
+  }
+
+  const closed: SignalLifecycleRecord[] = [];
+  for (const rec of Object.values(prev?.active ?? {})) {
+    if (active[rec.fingerprint]) continue;
+    if (!ranDetectors.has(rec.detector)) {
+      active[rec.fingerprint] = rec; // carried over untouched
+      continue;
+    }
+    closed.push({ ...rec, closedAt: ts });
+  }
+
+  const byScore = (a: SignalLifecycleRecord, b: SignalLifecycleRecord) => b.lastScore - a.lastScore;
+  tracked.sort((a, b) => (a.status === b.status ? b.score - a.score : a.status === "new" ? -1 : 1));
+
+  return {
+    state: {
+      version: 1,
+      updatedAt: ts,
+      active,
+      closed: [...closed, ...(prev?.closed ?? [])].slice(0, MAX_CLOSED)
+    },
+    signals: tracked,
+    opened: opened.sort(byScore),
+    persisting: persisting.sort(byScore),
+    closed: closed.sort(byScore)
+  };
+}
+
+export type SignalLifecycleReport = {
+  active: number;
+  byDetector: Array<{ detector: string; active: number; opened: number; closed: number }>;
+  opened: SignalLifecycleRecord[]; // still active, first seen since the cutoff
+  persisting: SignalLifecycleRecord[]; // still active, first seen before the cutoff
+  closed: Array<SignalLifecycleRecord & { lifetimeHours: number }>; // closed since the cutoff
+};
+
+/**
+ * Read-only view of the lifecycle state for `report.ts`: which signals opened, persisted and closed
+ * since `sinceMs`. Lists are capped at `topN`.
+ */
+export function summarizeSignalLifecycle(state: SignalLifecycleState, sinceMs: number, topN: number): SignalLifecycleReport {
+  const active = Object.values(state.active);
+  const opened = active.filter((r) => Date.parse(r.firstSeen) >= sinceMs);
+  const persisting = active.filter((r) => Date.parse(r.firstSeen) < sinceMs);
+  const closed = state.closed
+    .filter((r) => r.closedAt !== undefined && Date.parse(r.closedAt) >= sinceMs)
+    .map((r) => ({ ...r, lifetimeHours: (Date.parse(r.closedAt!) - Date.parse(r.firstSeen)) / 36e5 }));
+
+  const detectors = new Set([...active.map((r) => r.detector), ...closed.map((r) => r.detector)]);
+  const byDetector = [...detectors].sort().map((detector) => ({
+    detector,
+    active: active.filter((r) => r.detector === detector).length,
+    opened: opened.filter((r) => r.detector === detector).length,
+    closed: closed.filter((r) => r.detector === detector).length
+  }));
+
+  return {
+    active: active.length,
+    byDetector,
+    opened: opened.sort((a, b) => b.lastScore - a.lastScore).slice(0, topN),
+    persisting: persisting.sort((a, b) => b.consecutiveScans - a.consecutiveScans || b.lastScore - a.lastScore).slice(0, topN),
+    closed: closed.sort((a, b) => b.lifetimeHours - a.lifetimeHours).slice(0, topN)
+  };
+}
+
+export function defaultSignalLifecyclePath(): string {
+  return path.resolve(process.cwd(), "data/db/signal_lifecycle.json");
+}
+
+export async function loadSignalLifecycle(filePath = defaultSignalLifecyclePath()): Promise<SignalLifecycleState | null> {
+  try {
+    const parsed = JSON.parse(await readFile(filePath, "utf8")) as SignalLifecycleState;
+    if (parsed?.version !== 1 || typeof parsed.active !== "object" || !Array.isArray(parsed.closed)) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveSignalLifecycle(state: SignalLifecycleState, filePath = defaultSignalLifecyclePath()): Promise<void> {
+  await writeJsonFile(filePath, state);
+}
+
+function dedupeByFingerprint(signals: Signal[]): Signal[] {
+  const best = new Map<string, Signal>();
+  for (const s of signals) {
+    const cur = best.get(s.fingerprint);
+    if (!cur || s.score > cur.score) best.set(s.fingerprint, s);
+  }
+  return [...best.values()];
+}
+
+function maxOrNull(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.max(a, b);
+}
@@ -1,6 +1,7 @@
-import { readFile } from "node:fs/promises";
+import { readFile, readdir } from "node:fs/promises";
 import type { Dashboard } from "./dashboard.js";
 import type { PaperArbSummary } from "../paper/arb.js";
+import { getDetector } from "../detect/registry.js";
 
 type SupabaseConfig = {
   url: string;
@@ -53,18 +54,25 @@ export async function syncScanToSupabase(payload: SupabaseScanPayload): Promise<
     await syncPaperArb(cfg, paperArbSummary);
   }
 
-  if (dashboard.sportsSignals?.length) {
+  if (dashboard.paper) {
+    await syncPaperEventsFromJsonl(cfg);
+  }
+
+  const persisted = (dashboard.signals ?? []).filter((s) => getDetector(s.detector)?.persist === true);
+  if (persisted.length) {
     await insertRows(
       cfg,
       "arb_opportunities",
-      dashboard.sportsSignals.slice(0, 50).map((s) => ({
+      persisted.map((s) => ({
         ts: s.ts,
         venue: "polymarket",
-        strategy: `sports_${s.kind}`,
-        market_id: s.groupKey,
+        strategy: `${s.detector}_${s.kind}`,
+        market_id: s.key,
         title: s.title,
         cost_usd: s.cost ?? null,
-        locked_profit_usd: s.kind === "outright_underround" ? s.edge : null,
+        locked_profit_usd: s.lockedProfit ?? null,
+        yes_ask: typeof s.payload.yesAsk === "number" ? s.payload.yesAsk : null,
+        no_ask: typeof s.payload.noAsk === "number" ? s.payload.noAsk : null,
         edge: s.edge,
         payload: s
       }))
@@ -96,6 +104,7 @@ async function syncPaperArb(cfg: SupabaseConfig, summary: PaperArbSummary): Prom
         source_event_id: sourceEventId(summary.ts, "ENTRY", t.positionId, t.marketId),
         ts: summary.ts,
         event_type: "ENTRY",
+        strategy: t.strategy,
         position_id: t.positionId,
         venue: "polymarket",
         market_id: t.marketId,
@@ -115,9 +124,11 @@ async function syncPaperArb(cfg: SupabaseConfig, summary: PaperArbSummary): Prom
       summary.newTradesSummary.map((t) => ({
         ts: summary.ts,
         venue: "polymarket",
-        strategy: "bundle_yes_no_long",
+        strategy: opportunityStrategyName(t.strategy),
         market_id: t.marketId,
         title: t.title,
+        yes_ask: t.yesAsk ?? null,
+        no_ask: t.noAsk ?? null,
         shares: t.shares,
         cost_usd: t.costUsd,
         locked_profit_usd: t.lockedProfitUsd,
@@ -127,6 +138,46 @@ async function syncPaperArb(cfg: SupabaseConfig, summary: PaperArbSummary): Prom
     );
   }
 
+  if (summary.conversionsSummary.length > 0) {
+    await insertRows(
+      cfg,
+      "arb_opportunities",
+      summary.conversionsSummary.map((t) => ({
+        ts: summary.ts,
+        venue: "polymarket",
+        strategy: opportunityStrategyName("negrisk_convert"),
+        market_id: t.marketId,
+        title: t.title,
+        shares: t.shares,
+        cost_usd: t.costUsd,
+        locked_profit_usd: t.realizedPnlUsd,
+        edge: t.edge,
+        payload: t
+      }))
+    );
+  }
+
+  if (summary.mintSellsSummary.length > 0) {
+    await insertRows(
+      cfg,
+      "arb_opportunities",
+      summary.mintSellsSummary.map((t) => ({
+        ts: summary.ts,
+        venue: "polymarket",
+        strategy: opportunityStrategyName("bundle_short"),
+        market_id: t.marketId,
+        title: t.title,
+        yes_ask: null,
+        no_ask: null,
+        shares: t.shares,
+        cost_usd: t.mintCostUsd,
+        locked_profit_usd: t.realizedPnlUsd,
+        edge: t.edge,
+        payload: t
+      }))
+    );
+  }
+
   await upsertRows(
     cfg,
     "paper_arb_positions",
@@ -151,7 +202,7 @@ async function syncPaperArb(cfg: SupabaseConfig, summary: PaperArbSummary): Prom
 }
 
 async function syncPaperArbEventsFromJsonl(cfg: SupabaseConfig): Promise<void> {
-  // Best-effort backfill for MARK/EXIT rows. This stays simple for now; duplicate
+  // Best-effort backfill for MARK/EXIT/MERGE/SETTLE/MINT_SELL/CONVERT rows. This stays simple for now; duplicate
   // rows are acceptable in early paper mode because position state is authoritative.
   const filePath = "data/db/paper_arb_trades.jsonl";
   let txt: string;
@@ -172,7 +223,7 @@ async function syncPaperArbEventsFromJsonl(cfg: SupabaseConfig): Promise<void> {
         return null;
       }
     })
-    .filter((x) => x && (x.type === "MARK" || x.type === "EXIT"));
+    .filter((x) => x && ["MARK", "EXIT", "MERGE", "SETTLE", "MINT_SELL", "CONVERT"].includes(x.type));
 
   if (events.length === 0) return;
   await upsertRows(
@@ -182,9 +233,11 @@ async function syncPaperArbEventsFromJsonl(cfg: SupabaseConfig): Promise<void> {
       source_event_id: sourceEventId(e.ts, e.type, e.positionId, e.marketId),
       ts: e.ts,
       event_type: e.type,
+      strategy: e.strategy ?? "bundle_long",
       position_id: e.positionId ?? null,
       venue: "polymarket",
       market_id: e.marketId ?? null,
+      shares: e.shares ?? null,
       realized_pnl_usd: e.realizedPnlUsd ?? null,
       mark_pnl_usd: e.markPnlUsd ?? null,
       payload: e
@@ -193,6 +246,70 @@ async function syncPaperArbEventsFromJsonl(cfg: SupabaseConfig): Promise<void> {
   );
 }
 
+async function syncPaperEventsFromJsonl(cfg: SupabaseConfig): Promise<void> {
+  // Same best-effort tail backfill for the directional paper ledgers (ENTRY/MARK/EXIT/SETTLE): the
+  // default strategy's `paper_trades.jsonl` plus one `paper_trades.<strategy>.jsonl` per other strategy.
+  // Risk REJECT lines stay local: they are not trades.
+  let files: string[];
+  try {
+    files = (await readdir("data/db")).filter((f) => /^paper_trades(\.[\w-]+)?\.jsonl$/.test(f));
+  } catch {
+    return;
+  }
+
+  const events: any[] = [];
+  for (const file of files) {
+    let txt: string;
+    try {
+      txt = await readFile(`data/db/${file}`, "utf8");
+    } catch {
+      continue;
+    }
+    events.push(
+      ...txt
+        .trim()
+        .split("\n")
+        .slice(-100)
+        .map((line) => {
+          try {
+            return JSON.parse(line) as any;
+          } catch {
+            return null;
+          }
+        })
+        .filter((x) => x && typeof x.type === "string" && x.type !== "REJECT")
+    );
+  }
+
+  if (events.length === 0) return;
+  await upsertRows(
+    cfg,
+    "paper_trades",
+    events.map((e) => ({
+      source_event_id: ["paper", e.ts, e.type, e.positionId ?? ""].join(":"),
+      ts: e.ts,
+      event_type: e.type,
+      position_id: e.positionId ?? null,
+      venue: "polymarket",
+      family_id: e.family_id ?? null,
+      market_id: e.marketId ?? null,
+      outcome: e.outcome ?? null,
+      price: e.price ?? e.payout ?? null,
+      shares: e.shares ?? null,
+      usd: e.usd ?? null,
+      realized_pnl_usd: e.realizedPnlUsd ?? null,
+      payload: e
+    })),
+    "source_event_id"
+  );
+}
+
+function opportunityStrategyName(strategy: PaperArbSummary["newTradesSummary"][number]["strategy"]): string {
+  // Keep the historical name for the original yes/no bundle so existing dashboards/queries still match.
+  if (strategy === "bundle_long") return "bundle_yes_no_long";
+  return strategy;
+}
+
 function sourceEventId(ts: string, type: string, positionId?: string, marketId?: string): string {
   return ["paper-arb", ts, type, positionId ?? "", marketId ?? ""].join(":");
 }
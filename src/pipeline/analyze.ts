@@ -0,0 +1,90 @@
+import { parseMarketsLoosely, type GammaMarketLoose } from "../clients/polymarket.js";
+import { buildFamilies, type MarketFamily } from "../normalize/buildFamilies.js";
+import { normalizeGammaMarkets, type NormalizeMarketsStats, type NormalizedMarket } from "../normalize/normalizeMarkets.js";
+import { scoreFamilies, type FamilyScored } from "../detect/basicAnomalies.js";
+import { resolveDetectorConfig, runDetectors, type DetectorConfig, type DetectorRun } from "../detect/registry.js";
+import type { Signal } from "../detect/types.js";
+import { rankFamilies } from "../score/rank.js";
+import {
+  joinEventMetadata,
+  matchesCategoryFilter,
+  type CategoryFilter,
+  type EventJoinStats,
+  type EventMeta
+} from "../normalize/eventMetadata.js";
+
+export type AnalyzeOptions = {
+  // Gamma `/events` metadata to join onto markets (see `fetchEvents`).
+  events?: EventMeta[];
+  // Category / tag filter applied after the join (see `categoryFilterFromEnv`).
+  categories?: CategoryFilter | null;
+};
+
+export type ScanAnalysis = {
+  ts: string;
+  normalized: NormalizedMarket[];
+  normStats: NormalizeMarketsStats;
+  eventJoin?: EventJoinStats;
+  // Markets dropped by the category filter.
+  categoryFiltered?: number;
+  families: MarketFamily[];
+  scored: FamilyScored[];
+  ranked: FamilyScored[];
+  // Scan-stage detector output (detectors that need order books run later, see `runDetectors`).
+  signals: Signal[];
+  detectorRuns: DetectorRun[];
+};
+
+/**
+ * Pure (no I/O) part of a scan: normalize -> event join / category filter -> families -> score/rank ->
+ * detectors.
+ *
+ * Shared by the live scan (`src/index.ts`) and the offline replay harness so both
+ * produce identical results for the same raw input and timestamp. Detector settings default to the
+ * registry defaults (no env), so callers pass the loaded config explicitly.
+ */
+export function analyzeMarkets(
+  marketsLoose: GammaMarketLoose[],
+  ts: string,
+  detectorConfig: DetectorConfig = resolveDetectorConfig({}, {}),
+  opts: AnalyzeOptions = {}
+): ScanAnalysis {
+  const { markets: base, stats: normStats } = normalizeGammaMarkets(marketsLoose);
+  const joined = opts.events ? joinEventMetadata(base, opts.events) : null;
+  let normalized = joined?.markets ?? base;
+  let categoryFiltered: number | undefined;
+  if (opts.categories) {
+    const filter = opts.categories;
+    const kept = normalized.filter((m) => matchesCategoryFilter(m, filter));
+    categoryFiltered = normalized.length - kept.length;
+    normalized = kept;
+  }
+  const families = buildFamilies(normalized);
+  const scored = scoreFamilies(families);
+  const ranked = rankFamilies(scored);
+  const { signals, runs: detectorRuns } = runDetectors({ ts, markets: normalized, families: scored }, detectorConfig, "scan");
+  return {
+    ts,
+    normalized,
+    normStats,
+    ...(joined ? { eventJoin: joined.stats } : {}),
+    ...(categoryFiltered !== undefined ? { categoryFiltered } : {}),
+    families,
+    scored,
+    ranked,
+    signals,
+    detectorRuns
+  };
+}
+
+/**
+ * Convenience wrapper for verbatim Gamma `/markets` objects (e.g. archived `markets_raw.json`).
+ */
+export function analyzeRawMarkets(
+  raw: unknown[],
+  ts: string,
+  detectorConfig?: DetectorConfig,
+  opts?: AnalyzeOptions
+): ScanAnalysis {
+  return analyzeMarkets(parseMarketsLoosely(raw), ts, detectorConfig, opts);
+}
@@ -0,0 +1,67 @@
+import path from "node:path";
+import { runReplay } from "./replay/harness.js";
+import { loadDetectorConfig } from "./detect/registry.js";
+import { fmtUsd } from "./lib/pretty.js";
+
+type ReplayArgs = {
+  input: string;
+  out: string;
+  from?: string;
+  to?: string;
+  paperArb: boolean;
+};
+
+function parseArgs(argv: string[]): ReplayArgs {
+  // Examples:
+  //   npm run replay -- --input=data/archive
+  //   npm run replay -- --input=data/archive/2026/06 --out=data/replay/fee-test --from=2026-06-01T00:00:00Z
+  const args: ReplayArgs = {
+    input: path.resolve(process.cwd(), "data/archive"),
+    out: path.resolve(process.cwd(), "data/replay", new Date().toISOString().replace(/:/g, "-")),
+    paperArb: true
+  };
+  for (const raw of argv) {
+    if (!raw.startsWith("--")) continue;
+    const [k, v] = raw.slice(2).split("=");
+    if (!k) continue;
+    if (k === "no-paper-arb") args.paperArb = false;
+    if (v === undefined) continue;
+    if (k === "input") args.input = path.resolve(process.cwd(), v);
+    if (k === "out") args.out = path.resolve(process.cwd(), v);
+    if (k === "from") args.from = v;
+    if (k === "to") args.to = v;
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const summary = await runReplay({
+    inputDir: args.input,
+    outDir: args.out,
+    paperArb: args.paperArb,
+    detectorConfig: await loadDetectorConfig(),
+    ...(args.from ? { fromIso: args.from } : {}),
+    ...(args.to ? { toIso: args.to } : {})
+  });
+
+  console.log("");
+  console.log("=== Replay ===");
+  console.log(`input: ${summary.inputDir}`);
+  console.log(`out: ${summary.outDir}`);
+  console.log(`snapshots=${summary.snapshots} first=${summary.firstTs ?? "n/a"} last=${summary.lastTs ?? "n/a"}`);
+  for (const s of summary.skipped.slice(0, 5)) console.log(`skipped: ${s.snapshot} (${s.reason})`);
+  if (summary.paperArb) {
+    console.log(
+      `paper-arb: cash=${fmtUsd(summary.paperArb.bankrollCashUsd)} realized=${fmtUsd(
+        summary.paperArb.realizedPnlUsd
+      )} locked=${fmtUsd(summary.paperArb.lockedProfitUsd)} exposure=${fmtUsd(summary.paperArb.exposureUsd)}`
+    );
+  }
+  console.log("");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
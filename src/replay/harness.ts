@@ -0,0 +1,333 @@
+import path from "node:path";
+import { appendFile, readdir, stat } from "node:fs/promises";
+import { ensureDir, writeJsonFile } from "../lib/fs.js";
+import { analyzeRawMarkets } from "../pipeline/analyze.js";
+import { appendFamilyRows, familyRowsFromScored } from "../persist/familyLog.js";
+import { loadArchiveManifest, readMaybeGzJson } from "../persist/archive.js";
+import { extractEventsArray, extractMarketsArray, parseEventsLoosely } from "../clients/polymarket.js";
+import { eventsFromGamma, type EventMeta } from "../normalize/eventMetadata.js";
+import { runPaperArbitrage, type PaperArbSummary } from "../paper/arb.js";
+import { riskLimitsFromEnv, type RiskLimits } from "../paper/risk.js";
+import type { OrderBooksSnapshot } from "../ingest/fetchOrderBooks.js";
+import { resolveDetectorConfig, runDetectors, type DetectorConfig } from "../detect/registry.js";
+import { saveSignalLifecycle, updateSignalLifecycle, type SignalLifecycleState } from "../persist/signalLifecycle.js";
+
+export type ReplaySnapshot = {
+  ts: string;
+  dir: string;
+  // Either a single `markets_raw.json[.gz]` array, or archived Gamma pages in fetch order.
+  marketsFormat: "markets" | "gammaPages";
+  marketsPaths: string[];
+  // MAX_MARKETS the live scan applied to its Gamma pages (from the archive manifest).
+  maxMarkets?: number;
+  // Archived Gamma `/events` pages, when the scan fetched event metadata.
+  eventsPaths?: string[];
+  orderBooksPath: string | null;
+};
+
+export type ReplayOptions = {
+  inputDir: string;
+  outDir: string;
+  fromIso?: string;
+  toIso?: string;
+  paperArb?: boolean;
+  // Defaults to registry defaults (no env), so replays are reproducible unless a config is passed.
+  detectorConfig?: DetectorConfig;
+  // Portfolio limits for paper arb; defaults to none (`RISK_*` env is ignored) for the same reason.
+  riskLimits?: RiskLimits;
+};
+
+export type ReplayScanRow = {
+  ts: string;
+  snapshot: string;
+  rawMarkets: number;
+  normalized: number;
+  families: number;
+  bucketFamilies: number;
+  topScore: number | null;
+  topFamilies: Array<{ family_id: string; family_type: string; title: string; opportunity_score: number }>;
+  signals: Record<string, number>; // per detector id, scan + books stages
+  signalLifecycle: { new: number; persisting: number; closed: number };
+  paperArb: {
+    scannedMarkets: number;
+    opportunities: number;
+    entered: number;
+    exited: number;
+    merged: number;
+    mintSells: number;
+    conversions: number;
+    bankrollCashUsd: number;
+    realizedPnlUsd: number;
+    lockedProfitUsd: number;
+    exposureUsd: number;
+  } | null;
+};
+
+export type ReplaySummary = {
+  generatedAt: string;
+  inputDir: string;
+  outDir: string;
+  snapshots: number;
+  firstTs: string | null;
+  lastTs: string | null;
+  skipped: Array<{ snapshot: string; reason: string }>;
+  paperArb: ReplayScanRow["paperArb"];
+};
+
+/**
+ * Offline replay/backtest: feed archived raw snapshots through the same analysis pipeline
+ * and paper-arb engine as a live scan, in timestamp order, with the snapshot time as the clock.
+ *
+ * Isolation rules (explicit):
+ * - Never reads or writes `data/db/*`; all state/ledgers live under `outDir`.
+ * - `outDir` must be new or empty so two replays can never share paper state.
+ * - No network access: order books come from the archived `orderbooks_raw.json` only.
+ */
+export async function runReplay(opts: ReplayOptions): Promise<ReplaySummary> {
+  const outDir = path.resolve(opts.outDir);
+  await assertEmptyDir(outDir);
+  await ensureDir(outDir);
+
+  const fromMs = opts.fromIso ? Date.parse(opts.fromIso) : -Infinity;
+  const toMs = opts.toIso ? Date.parse(opts.toIso) : Infinity;
+  const snapshots = (await discoverSnapshots(opts.inputDir)).filter((s) => {
+    const t = Date.parse(s.ts);
+    return t >= fromMs && t <= toMs;
+  });
+
+  const paths = {
+    scans: path.join(outDir, "scans.jsonl"),
+    familyScores: path.join(outDir, "family_scores.jsonl"),
+    paperArbState: path.join(outDir, "paper_arb_state.json"),
+    paperArbEvents: path.join(outDir, "paper_arb_trades.jsonl"),
+    signalLifecycle: path.join(outDir, "signal_lifecycle.json")
+  };
+
+  const skipped: ReplaySummary["skipped"] = [];
+  let lastPaperArb: ReplayScanRow["paperArb"] = null;
+  let replayed = 0;
+  const detectorConfig = opts.detectorConfig ?? resolveDetectorConfig({}, {});
+  const riskLimits = opts.riskLimits ?? riskLimitsFromEnv({});
+  let lifecycleState: SignalLifecycleState | null = null;
+
+  for (const snap of snapshots) {
+    const raw = await loadSnapshotMarkets(snap);
+    if (!raw || raw.length === 0) {
+      skipped.push({ snapshot: snap.dir, reason: "missing or empty markets_raw" });
+      continue;
+    }
+
+    const events = await loadSnapshotEvents(snap);
+    const analysis = analyzeRawMarkets(raw, snap.ts, detectorConfig, events ? { events } : {});
+    const signals = [...analysis.signals];
+    const ranDetectors = new Set(analysis.detectorRuns.filter((r) => r.status === "ok").map((r) => r.id));
+    await appendFamilyRows(familyRowsFromScored(analysis.scored, snap.ts), paths.familyScores);
+
+    let paperArb: ReplayScanRow["paperArb"] = null;
+    if (opts.paperArb !== false && snap.orderBooksPath) {
+      const books = await readJsonOrNull(snap.orderBooksPath);
+      if (isOrderBooksSnapshot(books)) {
+        const booksStage = runDetectors({ ts: snap.ts, books }, detectorConfig, "books");
+        signals.push(...booksStage.signals);
+        for (const r of booksStage.runs) if (r.status === "ok") ranDetectors.add(r.id);
+        const summary = await runPaperArbitrage(books, {
+          ts: snap.ts,
+          statePath: paths.paperArbState,
+          eventsPath: paths.paperArbEvents,
+          families: analysis.families,
+          riskLimits,
+          // Replays have no directional ledgers; never read `data/db`.
+          paperStrategies: []
+        });
+        paperArb = paperArbRow(summary);
+        signals.push(...summary.signals);
+        ranDetectors.add("paper_arb");
+        lastPaperArb = paperArb;
+      } else {
+        skipped.push({ snapshot: snap.dir, reason: "unreadable orderbooks_raw (paper arb skipped)" });
+      }
+    }
+
+    const lifecycle = updateSignalLifecycle(lifecycleState, signals, snap.ts, ranDetectors);
+    lifecycleState = lifecycle.state;
+
+    const row: ReplayScanRow = {
+      ts: snap.ts,
+      snapshot: path.relative(path.resolve(opts.inputDir), snap.dir) || ".",
+      rawMarkets: raw.length,
+      normalized: analysis.normStats.keptMarkets,
+      families: analysis.families.length,
+      bucketFamilies: analysis.scored.filter((f) => f.family_type === "bucket").length,
+      topScore: analysis.ranked[0]?.opportunity_score ?? null,
+      topFamilies: analysis.ranked.slice(0, 5).map((f) => ({
+        family_id: f.family_id,
+        family_type: f.family_type,
+        title: f.title,
+        opportunity_score: f.opportunity_score
+      })),
+      signals: countByDetector(signals),
+      signalLifecycle: {
+        new: lifecycle.opened.length,
+        persisting: lifecycle.persisting.length,
+        closed: lifecycle.closed.length
+      },
+      paperArb
+    };
+    await appendFile(paths.scans, JSON.stringify(row) + "\n", "utf8");
+    replayed += 1;
+  }
+
+  if (lifecycleState) await saveSignalLifecycle(lifecycleState, paths.signalLifecycle);
+
+  const summary: ReplaySummary = {
+    generatedAt: new Date().toISOString(),
+    inputDir: path.resolve(opts.inputDir),
+    outDir,
+    snapshots: replayed,
+    firstTs: snapshots[0]?.ts ?? null,
+    lastTs: snapshots[snapshots.length - 1]?.ts ?? null,
+    skipped,
+    paperArb: lastPaperArb
+  };
+  await writeJsonFile(path.join(outDir, "summary.json"), summary);
+  return summary;
+}
+
+/**
+ * Find snapshot directories (any depth) sorted by timestamp. A directory is a snapshot when it holds
+ * `markets_raw.json[.gz]` (copied from `data/raw/`) or `gamma_markets_pNNN.json.gz` pages (the archive).
+ *
+ * Timestamp resolution: a filesystem-safe ISO directory name (`2026-06-22T14-15-00Z`) wins;
+ * otherwise we fall back to the markets file mtime.
+ *
+ * Archive `manifest.json` files (in `inputDir`, an ancestor up to the archive root, or below it)
+ * supply each snapshot's MAX_MARKETS cap, so replays analyze the same markets as the live scan.
+ */
+export async function discoverSnapshots(inputDir: string): Promise<ReplaySnapshot[]> {
+  const out: ReplaySnapshot[] = [];
+  const root = path.resolve(inputDir);
+  const caps = new Map<string, number>();
+  // `inputDir` may be a year / month / day directory inside the archive.
+  for (let dir = root, i = 0; i < 4; dir = path.dirname(dir), i++) await addManifestCaps(dir, caps);
+  await walk(root, out, caps);
+  return out.sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts) || a.dir.localeCompare(b.dir));
+}
+
+async function walk(dir: string, out: ReplaySnapshot[], caps: Map<string, number>): Promise<void> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  const files = new Set(entries.filter((e) => e.isFile()).map((e) => e.name));
+  if (files.has("manifest.json")) await addManifestCaps(dir, caps);
+  const pages = [...files].filter((f) => /^gamma_markets_p\d+\.json(\.gz)?$/.test(f)).sort();
+  const marketsFile = ["markets_raw.json", "markets_raw.json.gz"].find((f) => files.has(f));
+  if (marketsFile || pages.length) {
+    const marketsFormat = marketsFile ? "markets" : "gammaPages";
+    const marketsPaths = (marketsFile ? [marketsFile] : pages).map((f) => path.join(dir, f));
+    const ts = tsFromDirName(path.basename(dir)) ?? (await stat(marketsPaths[0]!)).mtime.toISOString();
+    const booksFile = ["orderbooks_raw.json", "orderbooks_raw.json.gz"].find((f) => files.has(f));
+    const eventPages = [...files].filter((f) => /^gamma_events_p\d+\.json(\.gz)?$/.test(f)).sort();
+    const maxMarkets = marketsFormat === "gammaPages" ? caps.get(dir) : undefined;
+    out.push({
+      ts,
+      dir,
+      marketsFormat,
+      marketsPaths,
+      ...(maxMarkets !== undefined ? { maxMarkets } : {}),
+      ...(eventPages.length ? { eventsPaths: eventPages.map((f) => path.join(dir, f)) } : {}),
+      orderBooksPath: booksFile ? path.join(dir, booksFile) : null
+    });
+  }
+
+  for (const e of entries) {
+    if (e.isDirectory()) await walk(path.join(dir, e.name), out, caps);
+  }
+}
+
+async function addManifestCaps(root: string, caps: Map<string, number>): Promise<void> {
+  for (const s of (await loadArchiveManifest(root)).snapshots) {
+    if (s.maxMarkets !== undefined) caps.set(path.join(root, ...s.dir.split("/")), s.maxMarkets);
+  }
+}
+
+export function tsFromDirName(name: string): string | null {
+  // Accept both plain ISO and the filesystem-safe variant with "-" instead of ":" in the time part.
+  const m = name.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})[-:](\d{2})[-:](\d{2})(\.\d+)?Z$/);
+  if (!m) return null;
+  const t = Date.parse(`${m[1]}T${m[2]}:${m[3]}:${m[4]}${m[5] ?? ""}Z`);
+  return Number.isFinite(t) ? new Date(t).toISOString() : null;
+}
+
+async function loadSnapshotMarkets(snap: ReplaySnapshot): Promise<unknown[] | null> {
+  if (snap.marketsFormat === "markets") {
+    const raw = await readJsonOrNull(snap.marketsPaths[0]!);
+    return Array.isArray(raw) ? raw : null;
+  }
+  const out: unknown[] = [];
+  for (const p of snap.marketsPaths) {
+    const page = await readJsonOrNull(p);
+    if (page === null) return null;
+    out.push(...extractMarketsArray(page));
+  }
+  // The live scan trimmed the last page to MAX_MARKETS; the archive keeps it verbatim.
+  return snap.maxMarkets !== undefined ? out.slice(0, snap.maxMarkets) : out;
+}
+
+async function loadSnapshotEvents(snap: ReplaySnapshot): Promise<EventMeta[] | null> {
+  if (!snap.eventsPaths?.length) return null;
+  const raw: unknown[] = [];
+  for (const p of snap.eventsPaths) {
+    const page = await readJsonOrNull(p);
+    if (page === null) return null;
+    raw.push(...extractEventsArray(page));
+  }
+  return eventsFromGamma(parseEventsLoosely(raw));
+}
+
+function paperArbRow(s: PaperArbSummary): NonNullable<ReplayScanRow["paperArb"]> {
+  return {
+    scannedMarkets: s.scannedMarkets,
+    opportunities: s.opportunities,
+    entered: s.entered,
+    exited: s.exited,
+    merged: s.merged,
+    mintSells: s.mintSells,
+    conversions: s.conversions,
+    bankrollCashUsd: s.bankrollCashUsd,
+    realizedPnlUsd: s.realizedPnlUsd,
+    lockedProfitUsd: s.lockedProfitUsd,
+    exposureUsd: s.exposureUsd
+  };
+}
+
+function countByDetector(signals: Array<{ detector: string }>): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const s of signals) out[s.detector] = (out[s.detector] ?? 0) + 1;
+  return out;
+}
+
+function isOrderBooksSnapshot(v: unknown): v is OrderBooksSnapshot {
+  return !!v && typeof v === "object" && Array.isArray((v as OrderBooksSnapshot).markets);
+}
+
+async function assertEmptyDir(dir: string): Promise<void> {
+  try {
+    const entries = await readdir(dir);
+    if (entries.length > 0) throw new Error(`replay: output dir is not empty: ${dir}`);
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return;
+    throw e;
+  }
+}
+
+async function readJsonOrNull(filePath: string): Promise<unknown> {
+  try {
+    return await readMaybeGzJson(filePath);
+  } catch {
+    return null;
+  }
+}
@@ -2,6 +2,7 @@ import fs from "node:fs";
 import path from "node:path";
 import readline from "node:readline";
 import { defaultDbPath, type PersistedFamilyRow } from "./persist/familyLog.js";
+import { loadSignalLifecycle, summarizeSignalLifecycle, type SignalLifecycleRecord } from "./persist/signalLifecycle.js";
 
 type ReportArgs = {
   days: number;
@@ -89,7 +90,7 @@ function avgScoreByType(rows: PersistedFamilyRow[]): Array<{ family_type: Persis
     cur.n += 1;
     by.set(r.family_type, cur);
   }
-  return (["bucket", "multi", "single"] as const).map((t) => {
+  return (["bucket", "ladder", "multi", "single"] as const).map((t) => {
     const v = by.get(t) ?? { sum: 0, n: 0 };
     return { family_type: t, avg: v.n ? v.sum / v.n : 0, n: v.n };
   });
@@ -192,6 +193,37 @@ async function main(): Promise<void> {
   console.log(`- samples: ${persistence.samples}`);
   console.log(`- avg: ${persistence.avgHours.toFixed(2)} hours | median: ${persistence.medianHours.toFixed(2)} hours`);
   console.log("");
+
+  // (4) Signal lifecycle (all detectors + paper-arb opportunities)
+  const lifecycle = await loadSignalLifecycle();
+  if (!lifecycle) {
+    console.log("Signals: no lifecycle state yet (data/db/signal_lifecycle.json)");
+    console.log("");
+    return;
+  }
+  const sig = summarizeSignalLifecycle(lifecycle, sinceMs, args.topN);
+  console.log(`Signals (lifecycle, updated ${lifecycle.updatedAt}): active=${sig.active}`);
+  for (const d of sig.byDetector) {
+    console.log(`- ${d.detector}: active=${d.active} new=${d.opened} closed=${d.closed}`);
+  }
+  console.log("");
+
+  console.log("New signals (first seen in window, still active):");
+  for (const r of sig.opened) console.log(`- ${signalLine(r)}`);
+  console.log("");
+
+  console.log("Persisting signals (first seen before window, by consecutive scans):");
+  for (const r of sig.persisting) console.log(`- scans=${r.consecutiveScans} since ${r.firstSeen} | ${signalLine(r)}`);
+  console.log("");
+
+  console.log("Closed signals (in window, longest-lived first):");
+  for (const r of sig.closed) console.log(`- lived=${r.lifetimeHours.toFixed(2)}h closed ${r.closedAt} | ${signalLine(r)}`);
+  console.log("");
+}
+
+function signalLine(r: SignalLifecycleRecord): string {
+  const edge = r.peakEdge === null ? "n/a" : r.peakEdge.toFixed(4);
+  return `${r.detector}/${r.kind} | score=${r.lastScore.toFixed(3)} | peakEdge=${edge} | ${r.title}`;
 }
 
 main().catch((err) => {
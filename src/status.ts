@@ -16,6 +16,20 @@ async function main(): Promise<void> {
     console.log(
       `ts=${lastScan.timestamp} fetched=${lastScan.fetched} parsed=${lastScan.parsed} normalized=${lastScan.normalized} families=${lastScan.families} bucketFamilies=${lastScan.bucketFamilies} topScore=${fmtNum(lastScan.topScore, 3)}`
     );
+    if (lastScan.mode === "daemon" && lastScan.loops) {
+      console.log(`daemon: startedAt=${lastScan.startedAt} watchlist=${lastScan.watchlist ?? "n/a"}`);
+      for (const [name, l] of Object.entries<any>(lastScan.loops)) {
+        console.log(
+          `- loop ${name}: runs=${l.runs} errors=${l.errors} last=${l.lastFinishedAt ?? "never"} lastMs=${l.lastDurationMs ?? "n/a"} avgMs=${fmtNum(l.avgDurationMs, 0)} maxMs=${l.maxDurationMs ?? "n/a"}${l.lastError ? ` lastError=${truncate(String(l.lastError), 60)}` : ""}`
+        );
+      }
+      const ws = lastScan.clobWs;
+      if (ws) {
+        console.log(
+          `- clob-ws: connected=${ws.connected} subscribed=${ws.subscribed} books=${ws.books} stale=${ws.staleBooks} reconnects=${ws.reconnects} hashMismatches=${ws.hashMismatches} resyncs=${ws.resyncs} lastMessage=${ws.lastMessageAt ?? "never"}`
+        );
+      }
+    }
   } else {
     console.log("missing last_scan.json (run scan first)");
   }
@@ -35,7 +49,7 @@ async function main(): Promise<void> {
     );
     if (dashboard.scan.familyTypeCounts) {
       console.log(
-        `counts: bucket=${dashboard.scan.familyTypeCounts.bucket} multi=${dashboard.scan.familyTypeCounts.multi} single=${dashboard.scan.familyTypeCounts.single} bucket(>=6 prices)=${dashboard.scan.bucketFamiliesWith6ValidPrices ?? "n/a"}`
+        `counts: bucket=${dashboard.scan.familyTypeCounts.bucket} ladder=${dashboard.scan.familyTypeCounts.ladder ?? 0} multi=${dashboard.scan.familyTypeCounts.multi} single=${dashboard.scan.familyTypeCounts.single} bucket(>=6 prices)=${dashboard.scan.bucketFamiliesWith6ValidPrices ?? "n/a"}`
       );
     }
   }
@@ -73,9 +87,10 @@ async function main(): Promise<void> {
     if (open.length) {
       console.log("");
       console.log("Open positions:");
-      const pr: string[][] = [["id", "family", "market", "outcome", "entry", "entryPx", "markPx", "usd"]];
+      const pr: string[][] = [["strategy", "id", "family", "market", "outcome", "entry", "entryPx", "markPx", "usd"]];
       for (const p of open.slice(0, 25)) {
         pr.push([
+          truncate(String(p.strategy ?? "default"), 12),
           truncate(String(p.positionId ?? ""), 12),
           truncate(String(p.family_id ?? ""), 22),
           truncate(String(p.marketId ?? ""), 10),
@@ -101,7 +116,7 @@ async function main(): Promise<void> {
     if (open.length) {
       console.log("");
       console.log("Open arb positions:");
-      const pr: string[][] = [["id", "market", "shares", "cost", "locked", "markPnL", "title"]];
+      const pr: string[][] = [["id", "market", "shares", "cost", "locked", "markPnL", "days", "title"]];
       for (const p of open.slice(0, 25)) {
         pr.push([
           truncate(String(p.positionId ?? ""), 12),
@@ -110,6 +125,7 @@ async function main(): Promise<void> {
           fmtUsd(p.costUsd ?? null),
           fmtUsd(p.lockedProfitUsd ?? null),
           fmtUsd(p.lastMarkPnlUsd ?? null),
+          fmtNum(p.daysToResolution ?? null, 1),
           truncate(String(p.title ?? ""), 50)
         ]);
       }
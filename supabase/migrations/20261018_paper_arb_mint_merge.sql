@@ -0,0 +1,10 @@
+-- Paper arb: bundle-short (mint + sell) and early merge events, plus per-strategy attribution.
+
+alter table public.paper_arb_trades drop constraint if exists paper_arb_trades_event_type_check;
+alter table public.paper_arb_trades
+  add constraint paper_arb_trades_event_type_check
+  check (event_type in ('ENTRY', 'MARK', 'EXIT', 'MERGE', 'MINT_SELL'));
+
+alter table public.paper_arb_trades add column if not exists strategy text;
+
+create index if not exists paper_arb_trades_strategy_idx on public.paper_arb_trades (strategy, ts desc);
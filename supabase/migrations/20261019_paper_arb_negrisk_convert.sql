@@ -0,0 +1,6 @@
+-- Paper arb: neg-risk conversion events (buy NO, convert to the other outcomes' YES, sell).
+
+alter table public.paper_arb_trades drop constraint if exists paper_arb_trades_event_type_check;
+alter table public.paper_arb_trades
+  add constraint paper_arb_trades_event_type_check
+  check (event_type in ('ENTRY', 'MARK', 'EXIT', 'MERGE', 'MINT_SELL', 'CONVERT'));
@@ -0,0 +1,30 @@
+-- Paper settlement at real resolution payouts: SETTLE events in the paper-arb ledger, plus a table for
+-- the directional paper ledger (data/db/paper_trades.jsonl).
+
+alter table public.paper_arb_trades drop constraint if exists paper_arb_trades_event_type_check;
+alter table public.paper_arb_trades
+  add constraint paper_arb_trades_event_type_check
+  check (event_type in ('ENTRY', 'MARK', 'EXIT', 'MERGE', 'MINT_SELL', 'CONVERT', 'SETTLE'));
+
+create table if not exists public.paper_trades (
+  id uuid primary key default gen_random_uuid(),
+  source_event_id text unique,
+  ts timestamptz not null,
+  event_type text not null check (event_type in ('ENTRY', 'MARK', 'EXIT', 'SETTLE')),
+  position_id text,
+  venue text not null default 'polymarket',
+  family_id text,
+  market_id text,
+  outcome text,
+  price numeric,
+  shares numeric,
+  usd numeric,
+  realized_pnl_usd numeric,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists paper_trades_ts_idx on public.paper_trades (ts desc);
+create index if not exists paper_trades_position_idx on public.paper_trades (position_id, ts desc);
+
+alter table public.paper_trades enable row level security;
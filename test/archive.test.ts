@@ -0,0 +1,76 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { archiveRelDir, archiveScan, loadArchiveManifest, readMaybeGzJson } from "../src/persist/archive.js";
+import { discoverSnapshots } from "../src/replay/harness.js";
+
+const policy = { retentionDays: 14, maxBytes: 1024 * 1024 };
+
+test("archiveRelDir buckets by UTC date with a filesystem-safe timestamp", () => {
+  assert.equal(
+    archiveRelDir("2026-06-22T14:15:00.000Z"),
+    path.join("2026", "06", "22", "2026-06-22T14-15-00.000Z")
+  );
+});
+
+test("archiveScan writes gzip pages, books and a manifest that replay can discover", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "vrtl-archive-"));
+  try {
+    const ts = "2026-06-22T14:15:00.000Z";
+    const res = await archiveScan(
+      { ts, gammaPages: [[{ id: "1" }, { id: "2" }], [{ id: "3" }]], orderBooks: { markets: [{ marketId: "1" }] } },
+      { root, policy }
+    );
+
+    assert.equal(res.entry.gammaPages, 2);
+    assert.equal(res.entry.markets, 3);
+    assert.equal(res.entry.orderBookMarkets, 1);
+    assert.deepEqual(
+      res.entry.files.map((f) => f.name),
+      ["gamma_markets_p001.json.gz", "gamma_markets_p002.json.gz", "orderbooks_raw.json.gz"]
+    );
+    assert.deepEqual(await readMaybeGzJson(path.join(root, res.entry.dir, "gamma_markets_p002.json.gz")), [{ id: "3" }]);
+
+    const manifest = await loadArchiveManifest(root);
+    assert.equal(manifest.snapshots.length, 1);
+    assert.equal(manifest.totalBytes, res.entry.bytes);
+
+    const snaps = await discoverSnapshots(root);
+    assert.equal(snaps.length, 1);
+    assert.equal(snaps[0]!.ts, ts);
+    assert.equal(snaps[0]!.marketsFormat, "gammaPages");
+    assert.ok(snaps[0]!.orderBooksPath?.endsWith("orderbooks_raw.json.gz"));
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("archiveScan prunes by retention window and size budget, keeping the newest snapshot", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "vrtl-archive-"));
+  try {
+    const old = await archiveScan({ ts: "2026-06-01T00:00:00.000Z", gammaPages: [[{ id: "1" }]] }, { root, policy });
+    const mid = await archiveScan({ ts: "2026-06-20T00:00:00.000Z", gammaPages: [[{ id: "1" }]] }, { root, policy });
+    const res = await archiveScan({ ts: "2026-06-22T00:00:00.000Z", gammaPages: [[{ id: "1" }]] }, { root, policy });
+
+    // The 06-01 snapshot is outside the 14-day window; its empty day/month dirs are removed too.
+    assert.ok(!existsSync(path.join(root, old.entry.dir)));
+    assert.ok(!existsSync(path.join(root, "2026", "06", "01")));
+    assert.ok(existsSync(path.join(root, mid.entry.dir)));
+
+    const tight = await archiveScan(
+      { ts: "2026-06-23T00:00:00.000Z", gammaPages: [[{ id: "1" }]] },
+      { root, policy: { retentionDays: 14, maxBytes: 1 } }
+    );
+    assert.equal(tight.pruned.length, 2);
+    assert.ok(!existsSync(path.join(root, res.entry.dir)));
+    assert.deepEqual(
+      (await loadArchiveManifest(root)).snapshots.map((s) => s.ts),
+      ["2026-06-23T00:00:00.000Z"]
+    );
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,167 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { AddressInfo } from "node:net";
+import { WebSocketServer, type WebSocket } from "ws";
+import { ClobBookCache, ClobMarketStream, polymarketBookHash, type ClobWireBook } from "../src/clients/clobWs.js";
+import type { ClobOrderBook } from "../src/clients/clob.js";
+
+// Mock market channel: records client messages and exposes the live sockets.
+async function mockServer() {
+  const wss = new WebSocketServer({ port: 0 });
+  await new Promise<void>((resolve) => wss.once("listening", () => resolve()));
+  const received: any[] = [];
+  const sockets: WebSocket[] = [];
+  wss.on("connection", (ws) => {
+    sockets.push(ws);
+    ws.on("message", (data) => {
+      const text = data.toString();
+      received.push(text === "PING" ? text : JSON.parse(text));
+    });
+  });
+  return {
+    url: `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`,
+    received,
+    sockets,
+    send: (msg: unknown) => sockets.at(-1)!.send(JSON.stringify(msg)),
+    close: () => new Promise<void>((resolve) => {
+      for (const s of sockets) s.terminate();
+      wss.close(() => resolve());
+    })
+  };
+}
+
+async function until(cond: () => boolean, ms = 2000): Promise<void> {
+  const deadline = Date.now() + ms;
+  while (!cond()) {
+    if (Date.now() > deadline) throw new Error("timed out");
+    await sleep(10);
+  }
+}
+
+function bookMsg(wire: ClobWireBook) {
+  return { event_type: "book", ...wire, hash: polymarketBookHash(wire) };
+}
+
+test("ClobMarketStream applies snapshots and deltas and resyncs books whose hash diverges", async () => {
+  const server = await mockServer();
+  const stream = new ClobMarketStream({ url: server.url, resyncMinMs: 0 });
+  try {
+    stream.subscribe(["yes1"]);
+    stream.start();
+    await until(() => server.received.length > 0);
+    assert.deepEqual(server.received[0], { assets_ids: ["yes1"], type: "market" });
+
+    const wire: ClobWireBook = {
+      market: "0xm",
+      asset_id: "yes1",
+      timestamp: "1000",
+      bids: [{ price: "0.38", size: "50" }, { price: "0.4", size: "100" }],
+      asks: [{ price: "0.45", size: "30" }, { price: "0.42", size: "20" }]
+    };
+    server.send([bookMsg(wire)]);
+    await until(() => stream.cache.get("yes1") !== null);
+    assert.deepEqual(stream.cache.get("yes1")?.asks, [{ price: 0.42, size: 20 }, { price: 0.45, size: 30 }]);
+
+    // Batched delta: remove the best ask, add a bid; hashes match the resulting books.
+    const afterAsk = { ...wire, timestamp: "1001", asks: [{ price: "0.45", size: "30" }] };
+    const afterBid = { ...afterAsk, bids: [...wire.bids, { price: "0.41", size: "5" }] };
+    server.send({
+      event_type: "price_change",
+      market: "0xm",
+      timestamp: "1001",
+      price_changes: [
+        { asset_id: "yes1", price: "0.42", size: "0", side: "SELL", hash: polymarketBookHash(afterAsk) },
+        { asset_id: "yes1", price: "0.41", size: "5", side: "BUY", hash: polymarketBookHash(afterBid) }
+      ]
+    });
+    server.send({ event_type: "tick_size_change", asset_id: "yes1", new_tick_size: "0.001" });
+    await until(() => stream.cache.get("yes1")?.tickSize === 0.001);
+    const book = stream.cache.get("yes1")!;
+    assert.deepEqual(book.bids.map((l) => l.price), [0.41, 0.4, 0.38]);
+    assert.deepEqual(book.asks, [{ price: 0.45, size: 30 }]);
+    assert.equal(stream.stats().hashChecks, 2);
+    assert.equal(stream.stats().hashMismatches, 0);
+
+    // Per-asset delta whose hash does not match: the book is hidden and resubscribed.
+    server.received.length = 0;
+    server.send({ event_type: "price_change", asset_id: "yes1", timestamp: "1002", changes: [{ price: "0.46", size: "1", side: "SELL" }], hash: "bad" });
+    await until(() => server.received.length >= 2);
+    assert.equal(stream.cache.get("yes1"), null);
+    assert.deepEqual(server.received, [
+      { assets_ids: ["yes1"], operation: "unsubscribe" },
+      { assets_ids: ["yes1"], operation: "subscribe" }
+    ]);
+    assert.equal(stream.stats().hashMismatches, 1);
+
+    server.send(bookMsg({ ...wire, timestamp: "1003" }));
+    await until(() => stream.cache.get("yes1") !== null);
+    assert.equal(stream.cache.get("yes1")?.timestamp, "1003");
+  } finally {
+    await stream.stop();
+    await server.close();
+  }
+});
+
+test("ClobMarketStream reconnects, resubscribes and falls back to REST for books it does not have", async () => {
+  const server = await mockServer();
+  const restCalls: string[][] = [];
+  const fallback = {
+    fetchOrderBooks: async (ids: string[]): Promise<ClobOrderBook[]> => {
+      restCalls.push(ids);
+      return ids.map((tokenId) => ({ tokenId, bids: [{ price: 0.1, size: 1 }], asks: [] }));
+    }
+  };
+  const stream = new ClobMarketStream({ url: server.url, fallback, reconnectMinMs: 10, reconnectMaxMs: 20 });
+  try {
+    stream.start();
+    await until(() => server.sockets.length === 1);
+    await sleep(20);
+
+    // Unknown tokens: subscribed on the fly, served from REST this time.
+    const first = await stream.fetchOrderBooks(["a", "b"]);
+    assert.deepEqual(first.map((b) => b.tokenId), ["a", "b"]);
+    assert.deepEqual(restCalls, [["a", "b"]]);
+    await until(() => server.received.length > 0);
+    assert.deepEqual(server.received[0], { assets_ids: ["a", "b"], type: "market" });
+
+    server.send({ event_type: "book", asset_id: "a", market: "0xm", timestamp: "1", bids: [{ price: "0.5", size: "10" }], asks: [] });
+    await until(() => stream.cache.get("a")?.bids[0]?.price === 0.5);
+    restCalls.length = 0;
+    const second = await stream.fetchOrderBooks(["a", "b"]);
+    assert.equal(second.find((b) => b.tokenId === "a")?.bids[0]?.price, 0.5);
+    assert.deepEqual(restCalls, []);
+
+    // Drop the connection: cached books go stale and everything is resubscribed on reconnect.
+    server.received.length = 0;
+    server.sockets[0]!.terminate();
+    await until(() => server.sockets.length === 2 && server.received.length > 0);
+    assert.deepEqual(server.received[0], { assets_ids: ["a", "b"], type: "market" });
+    assert.equal(stream.stats().reconnects, 1);
+    await stream.fetchOrderBooks(["a"]);
+    assert.deepEqual(restCalls, [["a"]]);
+  } finally {
+    await stream.stop();
+    await server.close();
+  }
+});
+
+test("ClobBookCache keeps the REST book's min order size and neg-risk flag across snapshots", () => {
+  const cache = new ClobBookCache();
+  cache.seed({ tokenId: "a", bids: [{ price: 0.4, size: 10 }], asks: [{ price: 0.5, size: 10 }], minOrderSize: 5, tickSize: 0.01, negRisk: true });
+  assert.deepEqual(cache.get("a"), {
+    tokenId: "a",
+    bids: [{ price: 0.4, size: 10 }],
+    asks: [{ price: 0.5, size: 10 }],
+    minOrderSize: 5,
+    tickSize: 0.01,
+    negRisk: true
+  });
+
+  // Market-channel snapshots carry no market params: the seeded ones survive.
+  cache.applyMessage({ event_type: "book", asset_id: "a", market: "0xm", timestamp: "2", bids: [{ price: "0.45", size: "3" }], asks: [] });
+  const book = cache.get("a");
+  assert.equal(book?.bids[0]?.price, 0.45);
+  assert.equal(book?.minOrderSize, 5);
+  assert.equal(book?.negRisk, true);
+});
@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  parseDateRangeFromText,
+  parseDateRangeWithConfidence,
+  removeFirstDateRangeForGrouping
+} from "../src/normalize/parseDateRanges.js";
+import { parseRangeFromText } from "../src/normalize/parseRanges.js";
+import { buildFamilies } from "../src/normalize/buildFamilies.js";
+import { scoreFamilies } from "../src/detect/basicAnomalies.js";
+import type { NormalizedMarket } from "../src/normalize/normalizeMarkets.js";
+
+const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+test("parseDateRangeFromText parses day spans, months, quarters and before/after tails", () => {
+  assert.deepEqual(parseDateRangeFromText("Between Jan 1 and Jan 15, 2026"), {
+    low: day("2026-01-01"),
+    high: day("2026-01-16"),
+    unit: "date",
+    normalizedLabel: "2026-01-01..2026-01-15"
+  });
+  assert.equal(parseDateRangeFromText("Fed decision Jan 1–15, 2026?")?.normalizedLabel, "2026-01-01..2026-01-15");
+  assert.equal(parseDateRangeFromText("Q2 2026")?.normalizedLabel, "2026-04-01..2026-06-30");
+  assert.equal(parseDateRangeFromText("Dec 15 - Jan 15, 2026")?.normalizedLabel, "2025-12-15..2026-01-15");
+
+  // "by March 31" and "before April 1" are the same half-open range.
+  const by = parseDateRangeFromText("by March 31, 2026");
+  assert.deepEqual(by, { low: -Infinity, high: day("2026-04-01"), highInclusive: false, unit: "date", normalizedLabel: "<=2026-03-31" });
+  assert.deepEqual(parseDateRangeFromText("before April 1 2026"), by);
+  assert.equal(parseDateRangeFromText("after June 30, 2026")?.low, day("2026-07-01"));
+  assert.equal(parseDateRangeFromText("2027 or later")?.normalizedLabel, ">=2027-01-01");
+
+  // Yearless dates take the year from the reference (market end date); without one they do not parse.
+  assert.equal(parseDateRangeFromText("in March", { ref: "2026-12-31T00:00:00Z" })?.normalizedLabel, "2026-03-01..2026-03-31");
+  assert.equal(parseDateRangeFromText("in March"), null);
+
+  // Seasons and bare years are not date buckets; "Jan 1-15" is no longer the numbers 1..15.
+  assert.equal(parseDateRangeFromText("NBA 2025-26 season winner"), null);
+  assert.equal(parseDateRangeFromText("Will Trump win the 2028 election?"), null);
+  assert.equal(parseRangeFromText("Fed decision Jan 1-15?"), null);
+
+  assert.equal(parseDateRangeWithConfidence("Will BTC hit $100k by December 31, 2026?")?.confidence, 3);
+  assert.equal(removeFirstDateRangeForGrouping("Will X happen by March 31, 2026?").base, "Will X happen?");
+});
+
+function binary(id: string, title: string, yes: number, endDate: string): NormalizedMarket {
+  return {
+    marketId: id,
+    title,
+    eventId: "e1",
+    outcomes: ["Yes", "No"],
+    prices: { Yes: yes, No: 1 - yes },
+    tokenIds: { Yes: `${id}:yes`, No: `${id}:no` },
+    yes_price: yes,
+    yesTokenId: `${id}:yes`,
+    noTokenId: `${id}:no`,
+    endDate
+  };
+}
+
+test("cumulative 'by date' markets form a monotone ladder; date buckets form a bucket family", () => {
+  const families = buildFamilies([
+    binary("1", "Will the ceasefire happen by June 30?", 0.3, "2026-06-30T12:00:00Z"),
+    binary("2", "Will the ceasefire happen by March 31?", 0.4, "2026-03-31T12:00:00Z"),
+    binary("3", "Will the ceasefire happen by December 31?", 0.55, "2026-12-31T12:00:00Z"),
+    binary("4", "Release in Q1 2026?", 0.2, "2026-03-31T00:00:00Z"),
+    binary("5", "Release in Q2 2026?", 0.3, "2026-06-30T00:00:00Z")
+  ]);
+
+  const ladder = families.find((f) => f.family_type === "ladder");
+  assert.ok(ladder?.ladder);
+  assert.equal(ladder.family_id, "event:e1:ladder:will-the-ceasefire-happen");
+  assert.equal(ladder.ladder.direction, "increasing");
+  assert.deepEqual(
+    ladder.ladder.rungs.map((r) => r.label),
+    ["<=2026-03-31", "<=2026-06-30", "<=2026-12-31"]
+  );
+
+  const bucket = families.find((f) => f.family_type === "bucket");
+  assert.deepEqual(bucket?.buckets?.map((b) => b.label), ["2026-01-01..2026-03-31", "2026-04-01..2026-06-30"]);
+  assert.equal(families.filter((f) => f.family_type === "single").length, 0);
+
+  // June (0.30) priced below March (0.40): a later deadline can only be more likely.
+  const scored = scoreFamilies([ladder])[0]!;
+  assert.ok(Math.abs(scored.opportunity_score - 0.1) < 1e-9);
+  assert.match(scored.reasons[0]!, /^monotonicity <=2026-03-31=0.400 vs <=2026-06-30=0.300/);
+});
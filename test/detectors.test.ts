@@ -0,0 +1,123 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { z } from "zod";
+import { loadDetectorConfig, resolveDetectorConfig, runDetectors } from "../src/detect/registry.js";
+import type { Detector } from "../src/detect/types.js";
+import type { NormalizedMarket } from "../src/normalize/normalizeMarkets.js";
+import type { OrderBooksSnapshot } from "../src/ingest/fetchOrderBooks.js";
+
+function market(title: string, yes_price: number): NormalizedMarket {
+  return {
+    marketId: title,
+    title,
+    outcomes: ["Yes", "No"],
+    prices: { Yes: yes_price, No: 1 - yes_price },
+    tokenIds: { Yes: `${title}:yes`, No: `${title}:no` },
+    yes_price,
+    yesTokenId: `${title}:yes`,
+    noTokenId: `${title}:no`
+  };
+}
+
+const worldCup = ["Spain", "England", "France", "Brazil"].map((t) => market(`Will ${t} win the 2026 FIFA World Cup?`, 0.2));
+const ts = "2026-01-01T00:00:00.000Z";
+
+test("resolveDetectorConfig layers schema defaults, file config and env overrides", () => {
+  const defaults = resolveDetectorConfig({}, {});
+  assert.equal(defaults.sports!.enabled, true);
+  assert.equal(defaults.negrisk!.params.minEdge, 0.005);
+
+  const cfg = resolveDetectorConfig(
+    { sports: { enabled: false, maxSignals: 5 }, negrisk: { minEdge: 0.02 } },
+    { DETECTOR_NEGRISK_MIN_EDGE: "0.03", DETECTOR_SPORTS_ENABLED: "1", DETECTOR_SPORTS_DUTCHING: "false" }
+  );
+  assert.equal(cfg.sports!.enabled, true);
+  assert.equal(cfg.sports!.params.maxSignals, 5);
+  assert.equal(cfg.sports!.params.dutching, false);
+  assert.equal(cfg.negrisk!.params.minEdge, 0.03);
+
+  assert.throws(() => resolveDetectorConfig({ nope: {} }, {}), /unknown detector "nope"/);
+  assert.throws(() => resolveDetectorConfig({ negrisk: { minEdgee: 0.01 } }, {}), /invalid params for "negrisk"/);
+  assert.throws(() => resolveDetectorConfig({}, { DETECTOR_SPORTS_MAX_SIGNALS: "lots" }), /maxSignals/);
+});
+
+test("loadDetectorConfig treats a missing file as defaults and rejects invalid JSON", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-detectors-"));
+  try {
+    const missing = await loadDetectorConfig(path.join(dir, "none.json"), {});
+    assert.deepEqual(missing, resolveDetectorConfig({}, {}));
+
+    const file = path.join(dir, "detectors.json");
+    await writeFile(file, JSON.stringify({ negrisk: { enabled: false } }), "utf8");
+    assert.equal((await loadDetectorConfig(file, {})).negrisk!.enabled, false);
+
+    await writeFile(file, "{ not json", "utf8");
+    await assert.rejects(loadDetectorConfig(file, {}), /not valid JSON/);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("runDetectors runs each stage's enabled detectors and emits common signals", () => {
+  const books: OrderBooksSnapshot = {
+    fetchedAtIso: ts,
+    source: "clob_books",
+    requestedTokens: 0,
+    receivedBooks: 0,
+    markets: [],
+    warnings: []
+  };
+  const cfg = resolveDetectorConfig({}, {});
+
+  const scan = runDetectors({ ts, markets: worldCup, families: [] }, cfg, "scan");
+  assert.deepEqual(
+    scan.runs.map((r) => [r.id, r.status]),
+    [
+      ["families", "ok"],
+      ["ladders", "ok"],
+      ["sports", "ok"]
+    ]
+  );
+  const top = scan.signals[0]!;
+  assert.equal(top.detector, "sports");
+  assert.equal(top.kind, "outright_underround");
+  assert.equal(top.lockedProfit, top.edge);
+  assert.equal(top.marketIds.length, 4);
+  assert.equal(top.payload.sport, "soccer");
+  assert.match(top.fingerprint, /^[0-9a-f]{16}$/);
+
+  const booksStage = runDetectors({ ts, books }, cfg, "books");
+  assert.deepEqual(booksStage.runs.map((r) => [r.id, r.status, r.signals]), [["negrisk", "ok", 0]]);
+
+  const off = runDetectors(
+    { ts, markets: worldCup, families: [] },
+    resolveDetectorConfig({ sports: { enabled: false } }, {}),
+    "scan"
+  );
+  assert.deepEqual(off.signals, []);
+  assert.equal(off.runs.find((r) => r.id === "sports")!.status, "disabled");
+});
+
+test("runDetectors isolates a throwing detector and reports missing inputs", () => {
+  const schema = z.object({}).strict();
+  const boom: Detector<typeof schema> = {
+    id: "boom",
+    description: "always throws",
+    requires: ["families"],
+    configSchema: schema,
+    persist: false,
+    run: () => {
+      throw new Error("kaput");
+    }
+  };
+  const registry = [boom];
+  const cfg = resolveDetectorConfig({}, {}, registry);
+
+  assert.match(runDetectors({ ts }, cfg, "scan", registry).runs[0]!.error ?? "", /missing inputs: families/);
+  const run = runDetectors({ ts, families: [] }, cfg, "scan", registry).runs[0]!;
+  assert.equal(run.status, "error");
+  assert.equal(run.error, "kaput");
+});
@@ -0,0 +1,72 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildFamilies } from "../src/normalize/buildFamilies.js";
+import { inferTitleTemplate } from "../src/normalize/eventFamilies.js";
+import { scoreFamilies } from "../src/detect/basicAnomalies.js";
+import type { NormalizedMarket } from "../src/normalize/normalizeMarkets.js";
+
+function binary(id: string, title: string, yes: number, extra: Partial<NormalizedMarket> = {}): NormalizedMarket {
+  return {
+    marketId: id,
+    title,
+    eventId: "ev",
+    outcomes: ["Yes", "No"],
+    prices: { Yes: yes, No: 1 - yes },
+    tokenIds: { Yes: `${id}:yes`, No: `${id}:no` },
+    yes_price: yes,
+    yesTokenId: `${id}:yes`,
+    noTokenId: `${id}:no`,
+    ...extra
+  };
+}
+
+test("inferTitleTemplate splits a common prefix/suffix from per-outcome names", () => {
+  const t = inferTitleTemplate([
+    "Will Gavin Newsom win the 2028 Democratic nomination?",
+    "Will AOC win the 2028 Democratic nomination?",
+    "Will Pete Buttigieg win the 2028 Democratic nomination?"
+  ]);
+  assert.ok(t);
+  assert.equal(t.prefix, "Will");
+  assert.equal(t.suffix, "win the 2028 Democratic nomination?");
+  assert.deepEqual(t.names, ["Gavin Newsom", "AOC", "Pete Buttigieg"]);
+  assert.equal(t.confidence, 3);
+
+  assert.equal(inferTitleTemplate(["Will it rain?", "Will it rain?"]), null);
+});
+
+test("buildFamilies groups templated binary markets of one event into a multi family", () => {
+  const families = buildFamilies([
+    binary("1", "Will Alice win the mayoral race?", 0.5, { negRisk: true }),
+    binary("2", "Will Bob win the mayoral race?", 0.35, { negRisk: true }),
+    binary("3", "Will Carol win the mayoral race?", 0.25, { negRisk: true }),
+    binary("4", "Highest temperature in NYC?", 0.4, { eventId: "other" })
+  ]);
+
+  const multi = families.find((f) => f.family_id === "event:ev:multi");
+  assert.ok(multi);
+  assert.equal(multi.family_type, "multi");
+  assert.equal(multi.negRisk, true);
+  assert.equal(multi.templateConfidence, 4);
+  assert.deepEqual(
+    multi.multi?.map((o) => [o.name, o.marketId, o.yesTokenId]),
+    [
+      ["Alice", "1", "1:yes"],
+      ["Bob", "2", "2:yes"],
+      ["Carol", "3", "3:yes"]
+    ]
+  );
+  // Members are not duplicated as singles.
+  assert.equal(families.filter((f) => f.family_type === "single").length, 1);
+
+  const scored = scoreFamilies([multi]);
+  assert.ok(scored[0]!.reasons.includes("multi overround=1.100"));
+});
+
+test("buildFamilies leaves unrelated questions on one event page as singles", () => {
+  const families = buildFamilies([
+    binary("1", "Will the Fed cut rates in March?", 0.3),
+    binary("2", "Fed chair testimony mentions tariffs?", 0.6)
+  ]);
+  assert.equal(families.filter((f) => f.family_type === "multi").length, 0);
+});
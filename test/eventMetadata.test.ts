@@ -0,0 +1,106 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseEventsLoosely } from "../src/clients/polymarket.js";
+import {
+  categoryFilterFromEnv,
+  eventsFromGamma,
+  joinEventMetadata,
+  matchesCategoryFilter
+} from "../src/normalize/eventMetadata.js";
+import { buildFamilies } from "../src/normalize/buildFamilies.js";
+import { detectSportsSignals } from "../src/detect/sportsSignals.js";
+import type { NormalizedMarket } from "../src/normalize/normalizeMarkets.js";
+
+function binary(id: string, title: string, yes: number, extra: Partial<NormalizedMarket> = {}): NormalizedMarket {
+  return {
+    marketId: id,
+    title,
+    outcomes: ["Yes", "No"],
+    prices: { Yes: yes, No: 1 - yes },
+    tokenIds: { Yes: `${id}:yes`, No: `${id}:no` },
+    yes_price: yes,
+    yesTokenId: `${id}:yes`,
+    noTokenId: `${id}:no`,
+    ...extra
+  };
+}
+
+const rawEvents = [
+  {
+    id: 77,
+    title: "Who will win the mayoral race?",
+    slug: "mayoral-race",
+    tags: [{ label: "Politics", slug: "politics" }, { label: "Elections" }],
+    negRisk: true,
+    endDate: "2026-11-03T00:00:00Z",
+    markets: [{ id: "1" }, { id: "2" }, { id: "3" }]
+  },
+  { id: "88", title: "Premier League winner", tags: [{ label: "EPL" }], markets: [{ id: "10" }, { id: "11" }, { id: "12" }, { id: "13" }] },
+  { title: "no id, dropped" }
+];
+
+test("eventsFromGamma + joinEventMetadata attach event metadata and fix eventIds from membership", () => {
+  const events = eventsFromGamma(parseEventsLoosely(rawEvents));
+  assert.equal(events.length, 2);
+  assert.deepEqual(events[0]!.tags, ["Politics", "Elections"]);
+  assert.equal(events[0]!.negRisk, true);
+
+  const { markets, stats } = joinEventMetadata(
+    [binary("1", "a", 0.3), binary("2", "b", 0.3, { eventId: "wrong" }), binary("3", "c", 0.3, { eventId: "77" }), binary("9", "d", 0.5)],
+    events
+  );
+  assert.deepEqual(
+    markets.map((m) => m.eventId),
+    ["77", "77", "77", undefined]
+  );
+  assert.equal(markets[0]!.event?.title, "Who will win the mayoral race?");
+  assert.equal(markets[0]!.event?.marketCount, 3);
+  assert.deepEqual(stats, { events: 2, joined: 3, eventIdFilled: 1, eventIdCorrected: 1 });
+
+  assert.deepEqual(categoryFilterFromEnv({ SCAN_CATEGORIES: " Politics, crypto " }), { include: ["politics", "crypto"], exclude: [] });
+  assert.equal(categoryFilterFromEnv({}), null);
+  assert.equal(matchesCategoryFilter(markets[0]!, { include: ["politics"], exclude: [] }), true);
+  assert.equal(matchesCategoryFilter(markets[0]!, { include: [], exclude: ["elections"] }), false);
+  assert.equal(matchesCategoryFilter(markets[3]!, { include: ["politics"], exclude: [] }), false);
+  assert.equal(matchesCategoryFilter(markets[3]!, { include: [], exclude: ["politics"] }), true);
+});
+
+test("joined neg-risk events group into multi families without a title template", () => {
+  const events = eventsFromGamma(parseEventsLoosely(rawEvents));
+  // Titles share no template; the event structure and outcome labels carry the grouping.
+  const { markets } = joinEventMetadata(
+    [
+      binary("1", "Alice takes City Hall?", 0.5, { outcomeLabel: "Alice" }),
+      binary("2", "Is Bob the next mayor", 0.3, { outcomeLabel: "Bob" }),
+      binary("3", "Carol wins", 0.15, { outcomeLabel: "Carol" })
+    ],
+    events
+  );
+  const fam = buildFamilies(markets).find((f) => f.family_id === "event:77:multi");
+  assert.ok(fam);
+  assert.equal(fam.title, "Who will win the mayoral race?");
+  assert.deepEqual(fam.multi?.map((o) => o.name), ["Alice", "Bob", "Carol"]);
+  assert.equal(fam.templateConfidence, 4);
+  assert.equal(fam.negRisk, true);
+
+  // Without the join the same markets stay singles.
+  assert.equal(
+    buildFamilies(markets.map(({ event: _e, eventId: _id, ...m }) => m)).filter((f) => f.family_type === "multi").length,
+    0
+  );
+});
+
+test("sports outrights group by joined event and take the sport from event tags", () => {
+  const events = eventsFromGamma(parseEventsLoosely(rawEvents));
+  const titles = ["Arsenal", "Chelsea", "Liverpool", "Spurs"].map((t) => `Will ${t} win the 2026 league?`);
+  const { markets } = joinEventMetadata(
+    titles.map((t, i) => binary(String(10 + i), t, 0.2)),
+    events
+  );
+  const signals = detectSportsSignals(markets, "2026-01-01T00:00:00Z");
+  const outright = signals.find((s) => s.kind === "outright_underround");
+  assert.ok(outright);
+  assert.equal(outright.sport, "soccer");
+  assert.equal(outright.groupKey, "soccer:event:88");
+  assert.equal(outright.title, "Premier League winner outright underround");
+});
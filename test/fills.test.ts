@@ -0,0 +1,59 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { optimalBasketBuy, simulateBuy, simulateSell } from "../src/paper/fills.js";
+import type { ClobOrderBook } from "../src/clients/clob.js";
+
+function book(asks: Array<[number, number]>, bids: Array<[number, number]> = [], extra: Partial<ClobOrderBook> = {}): ClobOrderBook {
+  return {
+    tokenId: "t",
+    asks: asks.map(([price, size]) => ({ price, size })),
+    bids: bids.map(([price, size]) => ({ price, size })),
+    ...extra
+  };
+}
+
+test("simulateBuy walks levels for VWAP and a tick-aligned limit", () => {
+  const fill = simulateBuy(book([[0.4, 10], [0.42, 10]], [], { tickSize: 0.01 }), 15, { feeRate: 0 });
+  assert.equal(fill.complete, true);
+  assert.equal(fill.shares, 15);
+  assert.ok(Math.abs(fill.vwap - (10 * 0.4 + 5 * 0.42) / 15) < 1e-12);
+  assert.equal(fill.limitPrice, 0.42);
+  assert.equal(fill.fills.length, 2);
+});
+
+test("simulateSell reports partial fills when bids run out", () => {
+  const fill = simulateSell(book([], [[0.5, 4], [0.45, 2]]), 10, { feeRate: 0.05 });
+  assert.equal(fill.complete, false);
+  assert.equal(fill.shares, 6);
+  assert.ok(Math.abs(fill.notionalUsd - (4 * 0.5 + 2 * 0.45)) < 1e-12);
+  assert.ok(fill.feeUsd > 0);
+});
+
+test("optimalBasketBuy stops where the marginal set stops paying", () => {
+  // YES 0.45/0.52 against NO 0.50: the first 20 sets cost ~0.975 with fees, the next ~1.045.
+  const plan = optimalBasketBuy([book([[0.45, 20], [0.52, 50]]), book([[0.5, 100]])], {
+    payoutPerShare: 1,
+    maxUsd: 1000,
+    feeRate: 0.05
+  });
+  assert.ok(plan);
+  assert.equal(plan.shares, 20);
+  assert.equal(plan.stopReason, "noEdge");
+  assert.equal(plan.steps.length, 1);
+  assert.ok(plan.steps[0]!.marginalEdge > 0);
+  assert.ok(plan.costUsd < plan.shares);
+});
+
+test("optimalBasketBuy respects budget and book minimum order size", () => {
+  const budget = optimalBasketBuy([book([[0.4, 100]]), book([[0.5, 100]])], { payoutPerShare: 1, maxUsd: 9.5, feeRate: 0 });
+  assert.ok(budget);
+  assert.equal(budget.stopReason, "budget");
+  assert.ok(Math.abs(budget.shares - 10.55) < 1e-9);
+
+  const tooSmall = optimalBasketBuy([book([[0.4, 3]], [], { minOrderSize: 5 }), book([[0.5, 100]])], {
+    payoutPerShare: 1,
+    maxUsd: 100,
+    feeRate: 0
+  });
+  assert.equal(tooSmall, null);
+});
@@ -0,0 +1,106 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { HttpError, TokenBucket, getJson, httpMetricsSnapshot, parseRetryAfter, resetHttpMetrics } from "../src/lib/http.js";
+
+// Serves the scripted responses in order, then 200s; records request methods.
+async function scriptedServer(script: Array<{ status: number; headers?: Record<string, string> }>) {
+  const methods: string[] = [];
+  const server = http.createServer((req, res) => {
+    methods.push(req.method ?? "");
+    const step = script.shift() ?? { status: 200 };
+    res.writeHead(step.status, { "content-type": "application/json", ...(step.headers ?? {}) });
+    res.end(JSON.stringify(step.status === 200 ? { ok: true } : { error: step.status }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/markets`,
+    methods,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
+
+test("getJson retries 429/5xx with Retry-After, records metrics and never retries a plain POST", async () => {
+  resetHttpMetrics();
+  const server = await scriptedServer([{ status: 503 }, { status: 429, headers: { "retry-after": "0" } }]);
+  try {
+    const retry = { retries: 3, baseDelayMs: 1, maxDelayMs: 5 };
+    assert.deepEqual(await getJson(server.url, { retry }), { ok: true });
+    assert.equal(server.methods.length, 3);
+
+    const m = httpMetricsSnapshot().find((x) => x.endpoint.endsWith("/markets"))!;
+    assert.equal(m.requests, 3);
+    assert.equal(m.retries, 2);
+    assert.equal(m.failures, 0);
+    assert.deepEqual(m.statusCounts, { "503": 1, "429": 1 });
+    assert.ok(m.bytes > 0 && m.p50Ms !== null && m.maxMs !== null);
+
+    // Non-idempotent POST: one attempt, error surfaces.
+    const failing = await scriptedServer([{ status: 502 }]);
+    try {
+      await assert.rejects(
+        getJson(failing.url, { method: "POST", body: "{}", retry, endpoint: "post" }),
+        (e: unknown) => e instanceof HttpError && e.status === 502
+      );
+      assert.equal(failing.methods.length, 1);
+      assert.equal(httpMetricsSnapshot().find((x) => x.endpoint === "post")?.failures, 1);
+    } finally {
+      await failing.close();
+    }
+
+    // 4xx other than 429 is not retried.
+    const notFound = await scriptedServer([{ status: 404 }]);
+    try {
+      await assert.rejects(getJson(notFound.url, { retry }), (e: unknown) => e instanceof HttpError && e.status === 404);
+      assert.equal(notFound.methods.length, 1);
+    } finally {
+      await notFound.close();
+    }
+  } finally {
+    await server.close();
+  }
+});
+
+test("getJson retries network failures but not usage errors such as an invalid header", async () => {
+  resetHttpMetrics();
+  const retry = { retries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+  // A port nobody listens on: "fetch failed" caused by ECONNREFUSED is retried.
+  const closed = await scriptedServer([]);
+  await closed.close();
+  await assert.rejects(getJson(closed.url, { retry, endpoint: "refused" }), (e: unknown) => e instanceof TypeError);
+  assert.equal(httpMetricsSnapshot().find((x) => x.endpoint === "refused")?.requests, 3);
+
+  const server = await scriptedServer([]);
+  try {
+    await assert.rejects(
+      getJson(server.url, { retry, headers: { "x-bad": "a\nb" }, endpoint: "bad-header" }),
+      (e: unknown) => e instanceof TypeError
+    );
+    assert.equal(httpMetricsSnapshot().find((x) => x.endpoint === "bad-header")?.requests, 1);
+    assert.equal(server.methods.length, 0);
+  } finally {
+    await server.close();
+  }
+});
+
+test("parseRetryAfter handles seconds and HTTP dates", () => {
+  assert.equal(parseRetryAfter("2"), 2000);
+  assert.equal(parseRetryAfter("Thu, 01 Jan 1970 00:00:10 GMT", 4000), 6000);
+  assert.equal(parseRetryAfter(null), undefined);
+  assert.equal(parseRetryAfter("soon"), undefined);
+});
+
+test("TokenBucket allows a burst, then paces takes at the refill rate", async () => {
+  let now = 0;
+  const waits: number[] = [];
+  const bucket = new TokenBucket(2, 2, () => now, async (ms) => {
+    waits.push(ms);
+    now += ms;
+  });
+  for (let i = 0; i < 4; i++) await bucket.take();
+  // Two from the burst, then one token every 500ms.
+  assert.deepEqual(waits, [500, 500]);
+  assert.equal(now, 1000);
+});
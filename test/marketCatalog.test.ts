@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { catalogMarkets, emptyMarketCatalog, syncMarketCatalog } from "../src/ingest/marketCatalog.js";
+
+type M = { id: string; question: string; updatedAt: string; closed?: boolean };
+
+// Fake Gamma `/markets` over an in-memory universe, honouring order/ascending/offset/limit.
+function fakeGamma(universe: M[], opts: { ignoreOrder?: boolean } = {}) {
+  const calls: Array<{ order?: string; offset?: number }> = [];
+  return {
+    calls,
+    fetchMarketsRaw: async (p?: { limit?: number; offset?: number; order?: string; ascending?: boolean }) => {
+      calls.push({ ...(p?.order ? { order: p.order } : {}), offset: p?.offset ?? 0 });
+      const rows = universe.filter((m) => !m.closed);
+      if (!opts.ignoreOrder && p?.order === "updatedAt") rows.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      if (!opts.ignoreOrder && p?.order === "id") rows.sort((a, b) => a.id.localeCompare(b.id));
+      const offset = p?.offset ?? 0;
+      return rows.slice(offset, offset + (p?.limit ?? 200)).map((m) => ({ ...m }));
+    }
+  };
+}
+
+const at = (min: number) => new Date(Date.UTC(2026, 0, 1, 0, min)).toISOString();
+const opts = (ts: string, extra: Partial<{ pageLimit: number | null }> = {}) => ({
+  ts,
+  limit: 2,
+  pageLimit: null,
+  maxMarkets: null,
+  sweepIntervalMs: 6 * 3600_000,
+  ...extra
+});
+
+test("syncMarketCatalog sweeps first, then fetches only the delta down to the watermark", async () => {
+  const universe: M[] = [
+    { id: "a", question: "A?", updatedAt: at(1) },
+    { id: "b", question: "B?", updatedAt: at(2) },
+    { id: "c", question: "C?", updatedAt: at(3) },
+    { id: "d", question: "D?", updatedAt: at(4) },
+    { id: "e", question: "E?", updatedAt: at(5) }
+  ];
+  const gamma = fakeGamma(universe);
+  const catalog = emptyMarketCatalog();
+
+  const first = await syncMarketCatalog(gamma, catalog, opts(at(10)));
+  assert.equal(first.deltaStop, "skipped");
+  assert.equal(first.sweep, "complete");
+  assert.equal(first.added, 5);
+  assert.equal(catalog.watermark, at(5));
+
+  // One market changes, one is listed: a single delta page reaches the watermark.
+  universe[1]!.updatedAt = at(20);
+  universe[1]!.question = "B (edited)?";
+  universe.push({ id: "f", question: "F?", updatedAt: at(21) });
+  gamma.calls.length = 0;
+  const second = await syncMarketCatalog(gamma, catalog, opts(at(30)));
+  assert.deepEqual(gamma.calls, [{ order: "updatedAt", offset: 0 }, { order: "updatedAt", offset: 2 }]);
+  assert.equal(second.deltaStop, "caughtUp");
+  assert.equal(second.sweep, "none");
+  assert.deepEqual([second.added, second.changed, second.removed], [1, 1, 0]);
+  assert.equal(catalogMarkets(catalog).length, 6);
+  assert.equal((catalog.markets.b?.raw as M).question, "B (edited)?");
+
+  // A closed market disappears from the open list; the next sweep removes it.
+  universe[0]!.closed = true;
+  const third = await syncMarketCatalog(gamma, catalog, opts(at(60 * 7)));
+  assert.equal(third.sweep, "complete");
+  assert.equal(third.removed, 1);
+  assert.equal(catalog.markets.a, undefined);
+  assert.equal(catalog.lastFullSweepAt, at(60 * 7));
+});
+
+test("syncMarketCatalog resumes a sweep across runs and falls back to sweeping when ordering is ignored", async () => {
+  const universe: M[] = ["a", "b", "c", "d", "e"].map((id, i) => ({ id, question: `${id}?`, updatedAt: at(i) }));
+  const catalog = emptyMarketCatalog();
+  const gamma = fakeGamma(universe);
+
+  const partial = await syncMarketCatalog(gamma, catalog, opts(at(10), { pageLimit: 2 }));
+  assert.equal(partial.sweep, "partial");
+  assert.deepEqual(catalog.sweep, { startedAt: at(10), offset: 4 });
+  assert.equal(catalogMarkets(catalog).length, 4);
+
+  const resumed = await syncMarketCatalog(gamma, catalog, opts(at(11), { pageLimit: 3 }));
+  assert.equal(resumed.sweep, "complete");
+  assert.equal(catalog.sweep, null);
+  assert.equal(catalogMarkets(catalog).length, 5);
+  assert.equal(resumed.removed, 0);
+
+  const shuffled = [0, 2, 4, 1, 3].map((i) => universe[i]!);
+  const unordered = fakeGamma(shuffled, { ignoreOrder: true });
+  const r = await syncMarketCatalog(unordered, catalog, opts(at(12)));
+  assert.equal(r.deltaStop, "orderingUnsupported");
+  assert.equal(r.sweep, "complete");
+});
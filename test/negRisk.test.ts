@@ -0,0 +1,113 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+import { detectNegRiskConversions, groupNegRiskEvents } from "../src/detect/negRisk.js";
+import { runPaperArbitrage } from "../src/paper/arb.js";
+import type { MarketOrderBookPair, OrderBooksSnapshot } from "../src/ingest/fetchOrderBooks.js";
+
+function outcome(id: string, yes: { ask: number; bid: number }, no: { ask: number; bid: number }): MarketOrderBookPair {
+  return {
+    marketId: id,
+    title: `Will ${id} win?`,
+    eventId: "ev",
+    negRisk: true,
+    yesTokenId: `${id}:yes`,
+    noTokenId: `${id}:no`,
+    yes: { tokenId: `${id}:yes`, bids: [{ price: yes.bid, size: 100 }], asks: [{ price: yes.ask, size: 100 }] },
+    no: { tokenId: `${id}:no`, bids: [{ price: no.bid, size: 100 }], asks: [{ price: no.ask, size: 100 }] }
+  };
+}
+
+function snapshot(markets: MarketOrderBookPair[], eventMarketCounts?: Record<string, number>): OrderBooksSnapshot {
+  return {
+    fetchedAtIso: "2026-06-22T00:00:00.000Z",
+    source: "clob_books",
+    requestedTokens: 0,
+    receivedBooks: 0,
+    markets,
+    ...(eventMarketCounts ? { eventMarketCounts } : {}),
+    warnings: []
+  };
+}
+
+async function withTmp(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-negrisk-"));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Overround event: YES asks sum to 1.2 while NO on A is offered at 0.45.
+const overround = [
+  outcome("a", { ask: 0.55, bid: 0.53 }, { ask: 0.45, bid: 0.43 }),
+  outcome("b", { ask: 0.34, bid: 0.33 }, { ask: 0.67, bid: 0.65 }),
+  outcome("c", { ask: 0.31, bid: 0.3 }, { ask: 0.7, bid: 0.68 })
+];
+
+test("groupNegRiskEvents only marks events complete when every scanned member has books", () => {
+  assert.equal(groupNegRiskEvents(snapshot(overround, { ev: 3 }))[0]!.complete, true);
+  assert.equal(groupNegRiskEvents(snapshot(overround, { ev: 4 }))[0]!.complete, false);
+  assert.equal(groupNegRiskEvents(snapshot(overround))[0]!.complete, false);
+});
+
+test("detectNegRiskConversions compares NO_i against the other outcomes' YES asks in both directions", () => {
+  const noCheap = detectNegRiskConversions(snapshot(overround, { ev: 3 }), "2026-06-22T00:00:00.000Z");
+  const a = noCheap.find((s) => s.marketId === "a");
+  assert.equal(a?.kind, "no_to_yes");
+  assert.ok(Math.abs(a.othersYesAsk - 0.65) < 1e-9);
+
+  const underround = [
+    outcome("a", { ask: 0.2, bid: 0.18 }, { ask: 0.85, bid: 0.8 }),
+    outcome("b", { ask: 0.2, bid: 0.18 }, { ask: 0.85, bid: 0.8 }),
+    outcome("c", { ask: 0.2, bid: 0.18 }, { ask: 0.85, bid: 0.8 })
+  ];
+  const complete = detectNegRiskConversions(snapshot(underround, { ev: 3 }));
+  assert.equal(complete.filter((s) => s.kind === "yes_to_no").length, 3);
+  // Without proof the event is complete, buying "all the others" is not a replication of NO_i.
+  assert.equal(detectNegRiskConversions(snapshot(underround)).filter((s) => s.kind === "yes_to_no").length, 0);
+});
+
+test("runPaperArbitrage converts cheap NO into the other outcomes' YES and sells them", async () => {
+  await withTmp(async (dir) => {
+    const summary = await runPaperArbitrage(snapshot(overround, { ev: 3 }), {
+      ts: "2026-06-22T00:00:00.000Z",
+      statePath: path.join(dir, "state.json"),
+      eventsPath: path.join(dir, "events.jsonl")
+    });
+
+    const conv = summary.conversionsSummary.find((c) => c.marketId === "a");
+    assert.ok(conv);
+    assert.equal(conv.eventId, "ev");
+    assert.equal(conv.legs, 3);
+    // Bought NO_a at 0.45, sold YES_b/YES_c at 0.33 + 0.30, less fees.
+    assert.ok(conv.realizedPnlUsd > 0);
+    assert.ok(conv.proceedsUsd > conv.costUsd);
+  });
+});
+
+test("runPaperArbitrage replicates NO_i with the other YES legs plus a minted YES_i on complete events", async () => {
+  await withTmp(async (dir) => {
+    const underround = [
+      outcome("a", { ask: 0.2, bid: 0.18 }, { ask: 0.85, bid: 0.8 }),
+      outcome("b", { ask: 0.2, bid: 0.18 }, { ask: 0.85, bid: 0.8 })
+    ];
+    const summary = await runPaperArbitrage(snapshot(underround, { ev: 2 }), {
+      ts: "2026-06-22T00:00:00.000Z",
+      statePath: path.join(dir, "state.json"),
+      eventsPath: path.join(dir, "events.jsonl")
+    });
+
+    const entries = summary.newTradesSummary.filter((t) => t.strategy === "negrisk_convert");
+    assert.equal(entries.length, 2);
+    for (const e of entries) {
+      assert.equal(e.legs, 2);
+      // Payout is $1/set; cost is the other YES (~0.204) plus $1 minted less the NO sale (~0.792).
+      assert.ok(e.lockedProfitUsd > 0);
+      assert.ok(e.costUsd < e.shares);
+    }
+  });
+});
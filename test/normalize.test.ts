@@ -1,6 +1,6 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { normalizeGammaMarkets } from "../src/normalize/normalizeMarkets.js";
+import { isTradeable, normalizeGammaMarkets, timeToResolutionDays } from "../src/normalize/normalizeMarkets.js";
 
 test("normalizeGammaMarkets keeps CLOB token metadata for binary markets", () => {
   const { markets } = normalizeGammaMarkets([
@@ -25,3 +25,45 @@ test("normalizeGammaMarkets keeps CLOB token metadata for binary markets", () =>
   assert.equal(markets[0]!.tickSize, 0.01);
   assert.equal(markets[0]!.negRisk, false);
 });
+
+test("normalizeGammaMarkets keeps end date, labels, status flags and Gamma quotes", () => {
+  const { markets } = normalizeGammaMarkets([
+    {
+      id: "7",
+      question: "Will it rain?",
+      outcomes: '["Yes","No"]',
+      outcomePrices: '["0.25","0.75"]',
+      endDate: "2026-03-31",
+      category: "Weather",
+      tags: [{ label: "Climate", slug: "climate" }, "NYC"],
+      resolutionSource: "https://www.weather.gov",
+      acceptingOrders: false,
+      closed: false,
+      archived: null,
+      spread: "0.02",
+      bestBid: 0.24,
+      bestAsk: "0.26"
+    },
+    { id: "8", question: "No metadata", outcomes: '["Yes","No"]', endDate: "soon" }
+  ]);
+
+  const m = markets[0]!;
+  assert.equal(m.endDate, "2026-03-31T00:00:00.000Z");
+  assert.equal(m.category, "Weather");
+  assert.deepEqual(m.tags, ["Climate", "NYC"]);
+  assert.equal(m.resolutionSource, "https://www.weather.gov");
+  assert.equal(m.acceptingOrders, false);
+  assert.equal(m.closed, false);
+  assert.equal(m.archived, undefined);
+  assert.deepEqual([m.spread, m.bestBid, m.bestAsk], [0.02, 0.24, 0.26]);
+  assert.equal(isTradeable(m), false);
+  assert.equal(timeToResolutionDays(m, "2026-03-21T00:00:00Z"), 10);
+  assert.equal(timeToResolutionDays(m, "2026-04-02T00:00:00Z"), 0);
+
+  const bare = markets[1]!;
+  assert.equal(bare.endDate, undefined);
+  assert.equal(isTradeable(bare), true);
+  assert.equal(timeToResolutionDays(bare, "2026-03-21T00:00:00Z"), null);
+  const withEvent = { ...bare, event: { id: "e", title: "e", tags: [], endDate: "2026-03-22T12:00:00Z", marketCount: 1 } };
+  assert.equal(timeToResolutionDays(withEvent, "2026-03-21T00:00:00Z"), 1.5);
+});
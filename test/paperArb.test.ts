@@ -0,0 +1,722 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { writeJsonFile } from "../src/lib/fs.js";
+import { runPaperArbitrage, type PaperArbPosition, type PaperArbState } from "../src/paper/arb.js";
+import { buildArbReport } from "../src/arbReport.js";
+import { riskLimitsFromEnv } from "../src/paper/risk.js";
+import { resolvePaperStrategies } from "../src/paper/config.js";
+import { runPaperTrade } from "../src/paper/engine.js";
+import type { ClobPriceLevel } from "../src/clients/clob.js";
+import type { MarketOrderBookPair, OrderBooksSnapshot } from "../src/ingest/fetchOrderBooks.js";
+import { buildFamilies, type MarketFamily } from "../src/normalize/buildFamilies.js";
+import { scoreFamilies } from "../src/detect/basicAnomalies.js";
+import { detectLadderViolations } from "../src/detect/ladders.js";
+import type { NormalizedMarket } from "../src/normalize/normalizeMarkets.js";
+import type { MarketResolution } from "../src/ingest/fetchResolutions.js";
+
+function pair(marketId: string, yesAsks: ClobPriceLevel[], extra: Partial<MarketOrderBookPair> = {}): MarketOrderBookPair {
+  return {
+    marketId,
+    title: marketId,
+    yesTokenId: `${marketId}:yes`,
+    noTokenId: `${marketId}:no`,
+    yes: { tokenId: `${marketId}:yes`, bids: [{ price: yesAsks[0]!.price - 0.01, size: 100 }], asks: yesAsks },
+    no: { tokenId: `${marketId}:no`, bids: [], asks: [{ price: 0.99, size: 100 }] },
+    ...extra
+  };
+}
+
+function snapshot(markets: MarketOrderBookPair[]): OrderBooksSnapshot {
+  return { fetchedAtIso: "2026-06-22T00:00:00.000Z", source: "clob_books", requestedTokens: 0, receivedBooks: 0, markets, warnings: [] };
+}
+
+// "<10", "10-20", ..., "N or more": open-ended tails, so the buckets cover every outcome.
+function bucketFamily(ids: string[], eventId?: string, opts: { tails?: boolean } = {}): MarketFamily {
+  const tails = opts.tails !== false;
+  return {
+    family_id: "bucket:test",
+    family_type: "bucket",
+    title: "Test buckets",
+    ...(eventId ? { eventId } : {}),
+    num_outcomes: ids.length,
+    buckets: ids.map((id, i) => {
+      const low = tails && i === 0 ? -Infinity : i * 10;
+      const high = tails && i === ids.length - 1 ? Infinity : i * 10 + 10;
+      const label = low === -Infinity ? `<${high}` : high === Infinity ? `${low} or more` : `${low}-${high}`;
+      return {
+        marketId: id,
+        yesTokenId: `${id}:yes`,
+        label,
+        range: { low, high, normalizedLabel: label },
+        yes_price: 0.3,
+        rangeParseConfidence: 3
+      };
+    })
+  };
+}
+
+async function withEnv(vars: Record<string, string>, fn: () => Promise<void>): Promise<void> {
+  const prev = Object.fromEntries(Object.keys(vars).map((k) => [k, process.env[k]]));
+  Object.assign(process.env, vars);
+  try {
+    await fn();
+  } finally {
+    for (const [k, v] of Object.entries(prev)) {
+      if (v === undefined) delete process.env[k];
+      else process.env[k] = v;
+    }
+  }
+}
+
+async function withTmp(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-paper-arb-"));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("runPaperArbitrage enters a bucket basket across every leg, walking past the top level", async () => {
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      pair("a", [{ price: 0.3, size: 10 }, { price: 0.31, size: 100 }]),
+      pair("b", [{ price: 0.3, size: 100 }]),
+      pair("c", [{ price: 0.3, size: 100 }])
+    ]);
+    const summary = await runPaperArbitrage(snap, {
+      ts: "2026-06-22T00:00:00.000Z",
+      statePath: path.join(dir, "state.json"),
+      eventsPath: path.join(dir, "events.jsonl"),
+      families: [bucketFamily(["a", "b", "c"], "ev1")]
+    });
+
+    const basket = summary.newTradesSummary.find((t) => t.strategy === "bucket_basket");
+    assert.ok(basket);
+    assert.equal(basket.legs, 3);
+    // Default max trade $25 at ~0.93/set (incl. fees) => more shares than the first 10-share level.
+    assert.ok(basket.shares > 10);
+    assert.ok(basket.lockedProfitUsd > 0);
+
+    const state = JSON.parse(await readFile(path.join(dir, "state.json"), "utf8"));
+    const pos = state.positions.find((p: any) => p.strategy === "bucket_basket");
+    assert.deepEqual(
+      pos.legs.map((l: any) => l.tokenId),
+      ["a:yes", "b:yes", "c:yes"]
+    );
+    assert.ok(pos.legs[0].price > 0.3 && pos.legs[0].price < 0.31);
+  });
+});
+
+test("edge sizing scales the basket budget with its top-of-book edge and the report compares models", async () => {
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      pair("a", [{ price: 0.3, size: 100 }]),
+      pair("b", [{ price: 0.3, size: 100 }]),
+      pair("c", [{ price: 0.3, size: 100 }])
+    ]);
+    const eventsPath = path.join(dir, "events.jsonl");
+    const statePath = path.join(dir, "state.json");
+    await withEnv({ PAPER_ARB_SIZING: "edge", PAPER_ARB_SIZING_FULL_EDGE: "0.147" }, async () => {
+      await runPaperArbitrage(snap, {
+        ts: "2026-06-22T00:00:00.000Z",
+        statePath,
+        eventsPath,
+        families: [bucketFamily(["a", "b", "c"], "ev1")]
+      });
+    });
+
+    const entries = (await readFile(eventsPath, "utf8"))
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l))
+      .filter((e) => e.type === "ENTRY" && e.strategy === "bucket_basket");
+    assert.equal(entries.length, 1);
+    const [entry] = entries;
+    // Set cost 0.9 + 3 * 0.05 * 0.3 * 0.7 = 0.9315: edge ~0.0735, about half of 0.147, so ~$12.5 of $25.
+    assert.equal(entry.sizing.model, "edge");
+    assert.ok(Math.abs(entry.sizing.inputs.edge - 0.0685 / 0.9315) < 1e-9);
+    assert.ok(Math.abs(entry.sizing.usd - 25 * (0.0685 / 0.9315 / 0.147)) < 1e-9);
+    assert.ok(entry.costUsd <= entry.sizing.usd && entry.costUsd > entry.sizing.usd - 0.01);
+
+    const report = await buildArbReport({ eventsPath, statePath });
+    const edgeRow = report.bySizing.find((r) => r.model === "edge");
+    assert.equal(edgeRow?.entries, report.totals.entries);
+    assert.ok(Math.abs((edgeRow?.costUsd ?? 0) - entry.costUsd) < 1e-9);
+  });
+});
+
+test("runPaperArbitrage checks held entries against portfolio risk limits and logs rejections", async () => {
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      pair("a", [{ price: 0.3, size: 100 }], { eventId: "ev1", category: "weather" }),
+      pair("b", [{ price: 0.3, size: 100 }], { eventId: "ev1", category: "weather" }),
+      pair("c", [{ price: 0.3, size: 100 }], { eventId: "ev1", category: "weather" })
+    ]);
+    const statePath = path.join(dir, "state.json");
+    const eventsPath = path.join(dir, "events.jsonl");
+    const run = (riskEnv: Record<string, string>, ts = "2026-06-22T00:00:00.000Z") =>
+      runPaperArbitrage(snap, {
+        ts,
+        statePath,
+        eventsPath,
+        families: [bucketFamily(["a", "b", "c"], "ev1")],
+        riskLimits: riskLimitsFromEnv(riskEnv),
+        paperStrategies: []
+      });
+    const rejects = async () =>
+      (await readFile(eventsPath, "utf8"))
+        .trim()
+        .split("\n")
+        .map((l) => JSON.parse(l))
+        .filter((e) => e.type === "REJECT");
+
+    // The ~$25 basket does not fit under a $10 event cap.
+    const capped = await run({ RISK_MAX_EVENT_USD: "10" });
+    assert.equal(capped.entered, 0);
+    assert.equal(capped.riskRejected, 1);
+    assert.deepEqual(
+      (await rejects()).map((e) => [e.strategy, e.limit, e.key, e.limitUsd]),
+      [["bucket_basket", "event", "ev1", 10]]
+    );
+
+    const open = await run({ RISK_MAX_EVENT_USD: "30" });
+    assert.equal(open.entered, 1);
+    const state: PaperArbState = JSON.parse(await readFile(statePath, "utf8"));
+    assert.deepEqual(
+      [state.positions[0]!.eventId, state.positions[0]!.category, state.positions[0]!.riskGroup],
+      ["ev1", "weather", "bucket:test"]
+    );
+
+    // A realized loss today beyond the daily limit halts entries until the next UTC day.
+    await writeJsonFile(statePath, {
+      ...state,
+      positions: [],
+      lastEntryByMarketId: {},
+      dailyPnl: { day: "2026-06-22", realizedPnlUsd: -60 }
+    });
+    const halted = await run({ RISK_DAILY_LOSS_USD: "50" }, "2026-06-22T12:00:00.000Z");
+    assert.equal(halted.entered, 0);
+    assert.equal((await rejects()).at(-1)?.limit, "dailyLoss");
+    const nextDay = await run({ RISK_DAILY_LOSS_USD: "50" }, "2026-06-23T00:30:00.000Z");
+    assert.equal(nextDay.entered, 1);
+  });
+});
+
+test("risk limits span the directional ledgers and the paper-arb ledger in both engines", async () => {
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      pair("a", [{ price: 0.3, size: 100 }], { eventId: "ev1" }),
+      pair("b", [{ price: 0.3, size: 100 }], { eventId: "ev1" }),
+      pair("c", [{ price: 0.3, size: 100 }], { eventId: "ev1" })
+    ]);
+    const [base] = resolvePaperStrategies({}, {});
+    const strategies = [{ ...base!, statePath: path.join(dir, "paper_state.json"), tradesPath: path.join(dir, "paper_trades.jsonl") }];
+    const arbStatePath = path.join(dir, "arb_state.json");
+    const eventsPath = path.join(dir, "arb_events.jsonl");
+    const arb = (riskEnv: Record<string, string>) =>
+      runPaperArbitrage(snap, {
+        ts: "2026-06-22T00:00:00.000Z",
+        statePath: arbStatePath,
+        eventsPath,
+        families: [bucketFamily(["a", "b", "c"], "ev1")],
+        riskLimits: riskLimitsFromEnv(riskEnv),
+        paperStrategies: strategies
+      });
+    const directionalLedger = (dailyPnl?: { day: string; realizedPnlUsd: number }) =>
+      writeJsonFile(strategies[0]!.statePath, {
+        version: 1,
+        updatedAt: "2026-06-22T00:00:00.000Z",
+        bankrollCashUsd: 480,
+        lastEntryByFamilyId: {},
+        positions: [
+          {
+            id: "p1",
+            family_id: "event:ev1:bucket:x",
+            family_type: "bucket",
+            marketId: "a",
+            outcome: "Yes",
+            eventId: "ev1",
+            entryTs: "2026-06-21T00:00:00.000Z",
+            entryPrice: 0.3,
+            shares: 66,
+            entryUsd: 20
+          }
+        ],
+        ...(dailyPnl ? { dailyPnl } : {})
+      });
+
+    // A directional $20 on ev1 leaves no room for the ~$25 basket under a $30 event cap.
+    await directionalLedger();
+    const capped = await arb({ RISK_MAX_EVENT_USD: "30" });
+    assert.equal(capped.entered, 0);
+    const reject = (await readFile(eventsPath, "utf8")).trim().split("\n").map((l) => JSON.parse(l)).at(-1);
+    assert.deepEqual([reject.type, reject.limit, reject.currentUsd], ["REJECT", "event", 20]);
+
+    // Directional losses today halt paper arb too.
+    await directionalLedger({ day: "2026-06-22", realizedPnlUsd: -60 });
+    assert.equal((await arb({ RISK_DAILY_LOSS_USD: "50" })).entered, 0);
+
+    // The other way round: the paper-arb basket on ev1 blocks a directional entry on the same event.
+    await directionalLedger();
+    assert.equal((await arb({})).entered, 1);
+    const familiesPath = path.join(dir, "families.json");
+    const pricesPath = path.join(dir, "prices.json");
+    await writeJsonFile(familiesPath, [
+      {
+        family_id: "event:ev1:bucket:y",
+        family_type: "bucket",
+        title: "Other buckets",
+        eventId: "ev1",
+        opportunity_score: 0.2,
+        features: { bestCluster: { labels: ["1-2"] } },
+        buckets: [
+          { marketId: "y1", label: "1-2", yes_price: 0.2 },
+          { marketId: "y2", label: "2-3", yes_price: 0.5 }
+        ]
+      }
+    ]);
+    await writeJsonFile(pricesPath, { prices: [{ marketId: "y1", outcomes: ["Yes", "No"], outcomePrices: [0.2, 0.8] }] });
+    await writeJsonFile(strategies[0]!.statePath, { version: 1, updatedAt: "x", bankrollCashUsd: 500, lastEntryByFamilyId: {}, positions: [] });
+    const directional = await runPaperTrade({
+      familiesPath,
+      pricesPath,
+      strategies,
+      books: null,
+      riskLimits: riskLimitsFromEnv({ RISK_MAX_EVENT_USD: "30" }),
+      arbStatePath
+    });
+    assert.equal(directional.entered, 0);
+    assert.equal(directional.riskRejected, 1);
+    const blocked = JSON.parse((await readFile(strategies[0]!.tradesPath, "utf8")).trim().split("\n").at(-1)!);
+    assert.equal(blocked.limit, "event");
+    assert.ok(blocked.currentUsd > 24 && blocked.currentUsd <= 25);
+  });
+});
+
+test("runPaperArbitrage fills one trade per book side per scan", async () => {
+  await withTmp(async (dir) => {
+    // A bundle on "a" and the a/b/c basket both want a:yes's asks.
+    const snap = snapshot([
+      pair("a", [{ price: 0.3, size: 100 }], { no: { tokenId: "a:no", bids: [], asks: [{ price: 0.5, size: 100 }] } }),
+      pair("b", [{ price: 0.3, size: 100 }]),
+      pair("c", [{ price: 0.3, size: 100 }])
+    ]);
+    const run = (ts: string) =>
+      runPaperArbitrage(snap, {
+        ts,
+        statePath: path.join(dir, "state.json"),
+        eventsPath: path.join(dir, "events.jsonl"),
+        families: [bucketFamily(["a", "b", "c"])]
+      });
+
+    const first = await run("2026-06-22T00:00:00.000Z");
+    assert.equal(first.opportunities, 2);
+    assert.equal(first.entered, 1);
+    // The book has refreshed by the next scan; the other trade fills then.
+    const next = await run("2026-06-22T00:15:00.000Z");
+    assert.equal(next.entered, 1);
+    assert.notEqual(next.newTradesSummary[0]?.strategy, first.newTradesSummary[0]?.strategy);
+  });
+});
+
+test("runPaperArbitrage does not treat buckets without open-ended tails as a locked basket", async () => {
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      pair("a", [{ price: 0.3, size: 100 }]),
+      pair("b", [{ price: 0.3, size: 100 }]),
+      pair("c", [{ price: 0.3, size: 100 }])
+    ]);
+    // 0-10 / 10-20 / 20-30: contiguous, but a result of 35 pays nothing.
+    const summary = await runPaperArbitrage(snap, {
+      ts: "2026-06-22T00:00:00.000Z",
+      statePath: path.join(dir, "state.json"),
+      eventsPath: path.join(dir, "events.jsonl"),
+      families: [bucketFamily(["a", "b", "c"], undefined, { tails: false })]
+    });
+    assert.equal(summary.newTradesSummary.filter((t) => t.strategy === "bucket_basket").length, 0);
+  });
+});
+
+test("runPaperArbitrage skips baskets with a missing leg from the same event", async () => {
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      pair("a", [{ price: 0.3, size: 100 }], { eventId: "ev1" }),
+      pair("b", [{ price: 0.3, size: 100 }], { eventId: "ev1" }),
+      pair("tail", [{ price: 0.3, size: 100 }], { eventId: "ev1" })
+    ]);
+    const summary = await runPaperArbitrage(snap, {
+      ts: "2026-06-22T00:00:00.000Z",
+      statePath: path.join(dir, "state.json"),
+      eventsPath: path.join(dir, "events.jsonl"),
+      families: [bucketFamily(["a", "b"], "ev1")]
+    });
+    assert.equal(summary.newTradesSummary.filter((t) => t.strategy === "bucket_basket").length, 0);
+  });
+});
+
+test("runPaperArbitrage upgrades legacy yes/no positions and marks them to bids", async () => {
+  await withTmp(async (dir) => {
+    const statePath = path.join(dir, "state.json");
+    await writeJsonFile(statePath, {
+      version: 1,
+      updatedAt: "2026-06-21T00:00:00.000Z",
+      bankrollCashUsd: 490,
+      realizedPnlUsd: 0,
+      lastEntryByMarketId: {},
+      positions: [
+        {
+          id: "legacy",
+          marketId: "m",
+          title: "m",
+          yesTokenId: "m:yes",
+          noTokenId: "m:no",
+          entryTs: "2026-06-21T00:00:00.000Z",
+          shares: 10,
+          yesAsk: 0.45,
+          noAsk: 0.5,
+          feeUsd: 0.1,
+          costUsd: 9.6,
+          guaranteedPayoutUsd: 10,
+          lockedProfitUsd: 0.4
+        }
+      ]
+    });
+
+    const snap = snapshot([
+      {
+        marketId: "m",
+        title: "m",
+        yesTokenId: "m:yes",
+        noTokenId: "m:no",
+        yes: { tokenId: "m:yes", bids: [{ price: 0.46, size: 100 }], asks: [{ price: 0.6, size: 100 }] },
+        no: { tokenId: "m:no", bids: [{ price: 0.5, size: 100 }], asks: [{ price: 0.6, size: 100 }] }
+      }
+    ]);
+    let summary!: Awaited<ReturnType<typeof runPaperArbitrage>>;
+    await withEnv({ PAPER_ARB_MERGE: "0" }, async () => {
+      summary = await runPaperArbitrage(snap, {
+        ts: "2026-06-22T00:00:00.000Z",
+        statePath,
+        eventsPath: path.join(dir, "events.jsonl")
+      });
+    });
+
+    assert.equal(summary.exited, 0);
+    const open = summary.openPositionsSummary[0]!;
+    assert.equal(open.strategy, "bundle_long");
+    assert.equal(open.legs, 2);
+    // Bids 0.46 + 0.50 on 10 shares = $9.60 (the entry cost), less exit taker fees
+    // 10 * 0.05 * (0.46 * 0.54 + 0.5 * 0.5) = $0.2492.
+    assert.ok(Math.abs((open.lastMarkPnlUsd ?? Number.NaN) + 0.2492) < 1e-9);
+  });
+});
+
+test("runPaperArbitrage mints and sells a set when bids exceed $1 after fees", async () => {
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      {
+        marketId: "m",
+        title: "m",
+        yesTokenId: "m:yes",
+        noTokenId: "m:no",
+        yes: { tokenId: "m:yes", bids: [{ price: 0.55, size: 10 }, { price: 0.5, size: 100 }], asks: [{ price: 0.6, size: 100 }] },
+        no: { tokenId: "m:no", bids: [{ price: 0.5, size: 100 }], asks: [{ price: 0.6, size: 100 }] }
+      }
+    ]);
+    const summary = await runPaperArbitrage(snap, {
+      ts: "2026-06-22T00:00:00.000Z",
+      statePath: path.join(dir, "state.json"),
+      eventsPath: path.join(dir, "events.jsonl")
+    });
+
+    // Only the 0.55 level clears $1 + fees; the next set (0.50 + 0.50) does not.
+    assert.equal(summary.mintSells, 1);
+    assert.equal(summary.openPositionsCount, 0);
+    const sale = summary.mintSellsSummary[0]!;
+    assert.equal(sale.shares, 10);
+    assert.ok(sale.realizedPnlUsd > 0);
+    assert.ok(Math.abs(summary.bankrollCashUsd - (500 + sale.realizedPnlUsd)) < 1e-9);
+  });
+});
+
+test("runPaperArbitrage halts instant mint-sells at the daily loss limit and the event cap", async () => {
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      {
+        marketId: "m",
+        title: "m",
+        eventId: "ev1",
+        yesTokenId: "m:yes",
+        noTokenId: "m:no",
+        yes: { tokenId: "m:yes", bids: [{ price: 0.55, size: 10 }], asks: [{ price: 0.6, size: 100 }] },
+        no: { tokenId: "m:no", bids: [{ price: 0.5, size: 100 }], asks: [{ price: 0.6, size: 100 }] }
+      }
+    ]);
+    const statePath = path.join(dir, "state.json");
+    const eventsPath = path.join(dir, "events.jsonl");
+    const run = (riskEnv: Record<string, string>) =>
+      runPaperArbitrage(snap, {
+        ts: "2026-06-22T12:00:00.000Z",
+        statePath,
+        eventsPath,
+        riskLimits: riskLimitsFromEnv(riskEnv),
+        paperStrategies: []
+      });
+    await writeJsonFile(statePath, {
+      version: 1,
+      updatedAt: "2026-06-22T00:00:00.000Z",
+      bankrollCashUsd: 440,
+      realizedPnlUsd: -60,
+      lastEntryByMarketId: {},
+      positions: [],
+      dailyPnl: { day: "2026-06-22", realizedPnlUsd: -60 }
+    });
+    const rejects = async () =>
+      (await readFile(eventsPath, "utf8")).trim().split("\n").map((l) => JSON.parse(l)).filter((e) => e.type === "REJECT");
+
+    const halted = await run({ RISK_DAILY_LOSS_USD: "50" });
+    assert.equal(halted.mintSells, 0);
+    assert.equal(halted.riskRejected, 1);
+    // The $10 mint costs more than a $5 cap on the market's event.
+    assert.equal((await run({ RISK_MAX_EVENT_USD: "5" })).mintSells, 0);
+    assert.deepEqual(
+      (await rejects()).map((e) => [e.strategy, e.limit, e.key]),
+      [["bundle_short", "dailyLoss", "today"], ["bundle_short", "event", "ev1"]]
+    );
+    assert.equal((await run({ RISK_DAILY_LOSS_USD: "100" })).mintSells, 1);
+  });
+});
+
+test("runPaperArbitrage merges a held YES+NO set early and reports PnL by strategy", async () => {
+  await withTmp(async (dir) => {
+    const statePath = path.join(dir, "state.json");
+    const eventsPath = path.join(dir, "events.jsonl");
+    await writeJsonFile(statePath, {
+      version: 1,
+      updatedAt: "2026-06-21T00:00:00.000Z",
+      bankrollCashUsd: 490,
+      realizedPnlUsd: 0,
+      lastEntryByMarketId: {},
+      positions: [
+        {
+          id: "p1",
+          strategy: "bundle_long",
+          marketId: "m",
+          title: "m",
+          legs: [
+            { marketId: "m", tokenId: "m:yes", outcome: "YES", price: 0.45, feeUsd: 0.05 },
+            { marketId: "m", tokenId: "m:no", outcome: "NO", price: 0.5, feeUsd: 0.05 }
+          ],
+          entryTs: "2026-06-21T00:00:00.000Z",
+          shares: 10,
+          feeUsd: 0.1,
+          costUsd: 9.6,
+          guaranteedPayoutUsd: 10,
+          lockedProfitUsd: 0.4
+        }
+      ]
+    });
+
+    const summary = await runPaperArbitrage(snapshot([]), { ts: "2026-06-22T00:00:00.000Z", statePath, eventsPath });
+    assert.equal(summary.merged, 1);
+    assert.equal(summary.openPositionsCount, 0);
+    assert.ok(Math.abs(summary.realizedPnlUsd - 0.4) < 1e-9);
+
+    const report = await buildArbReport({ eventsPath, statePath });
+    assert.equal(report.totals.merges, 1);
+    assert.deepEqual(
+      report.byStrategy.map((r) => [r.strategy, r.closes, Math.round(r.realizedPnlUsd * 100) / 100]),
+      [["bundle_long", 1, 0.4]]
+    );
+  });
+});
+
+test("runPaperArbitrage buys an event basket only when the neg-risk event is complete", async () => {
+  const family: MarketFamily = {
+    family_id: "event:ev:multi",
+    family_type: "multi",
+    title: "Will … win the race?",
+    eventId: "ev",
+    negRisk: true,
+    num_outcomes: 3,
+    multi: ["a", "b", "c"].map((id) => ({ name: id, price: 0.3, marketId: id, yesTokenId: `${id}:yes` }))
+  };
+  const markets = ["a", "b", "c"].map((id) => pair(id, [{ price: 0.3, size: 100 }], { eventId: "ev", negRisk: true }));
+
+  for (const [count, expected] of [
+    [3, 1],
+    [4, 0]
+  ] as const) {
+    await withTmp(async (dir) => {
+      const summary = await runPaperArbitrage(
+        { ...snapshot(markets), eventMarketCounts: { ev: count } },
+        {
+          ts: "2026-06-22T00:00:00.000Z",
+          statePath: path.join(dir, "state.json"),
+          eventsPath: path.join(dir, "events.jsonl"),
+          families: [family]
+        }
+      );
+      assert.equal(summary.newTradesSummary.filter((t) => t.strategy === "event_basket").length, expected);
+    });
+  }
+});
+
+test("runPaperArbitrage ranks entries by the configured capital-efficiency objective", async () => {
+  const bundle = (id: string, yesAsk: number, noAsk: number, endDate: string): MarketOrderBookPair => ({
+    marketId: id,
+    title: id,
+    yesTokenId: `${id}:yes`,
+    noTokenId: `${id}:no`,
+    endDate,
+    yes: { tokenId: `${id}:yes`, bids: [], asks: [{ price: yesAsk, size: 20 }] },
+    no: { tokenId: `${id}:no`, bids: [], asks: [{ price: noAsk, size: 20 }] }
+  });
+  // "slow" has the larger edge but locks capital for ~6 months; "fast" resolves in two days.
+  const snap = snapshot([bundle("slow", 0.4, 0.5, "2026-12-19T00:00:00.000Z"), bundle("fast", 0.45, 0.5, "2026-06-24T00:00:00.000Z")]);
+
+  for (const [rankBy, expected] of [
+    ["edge", "slow"],
+    ["annualized", "fast"],
+    ["dollar_day", "fast"]
+  ] as const) {
+    await withEnv({ PAPER_ARB_RANK_BY: rankBy, PAPER_ARB_MAX_NEW_TRADES: "1" }, () =>
+      withTmp(async (dir) => {
+        const summary = await runPaperArbitrage(snap, {
+          ts: "2026-06-22T00:00:00.000Z",
+          statePath: path.join(dir, "state.json"),
+          eventsPath: path.join(dir, "events.jsonl")
+        });
+        assert.equal(summary.entered, 1);
+        const trade = summary.newTradesSummary[0]!;
+        assert.equal(trade.marketId, expected);
+        assert.equal(trade.daysToResolution, expected === "fast" ? 2 : 180);
+        assert.ok(trade.returnOnExposure > 0 && trade.annualizedReturn > trade.edge);
+        assert.equal(summary.openPositionsSummary[0]!.daysToResolution, trade.daysToResolution);
+      })
+    );
+  }
+});
+
+test("runPaperArbitrage settles positions at the actual resolution payout", async () => {
+  await withTmp(async (dir) => {
+    const position = (id: string, legs: string[], costUsd: number): PaperArbPosition => ({
+      id,
+      strategy: "bucket_basket",
+      marketId: `fam:${id}`,
+      title: id,
+      legs: legs.map((m) => ({ marketId: m, tokenId: `${m}:yes`, outcome: "YES" as const, price: 0.3, feeUsd: 0 })),
+      entryTs: "2026-01-01T00:00:00.000Z",
+      shares: 10,
+      feeUsd: 0,
+      costUsd,
+      guaranteedPayoutUsd: 10,
+      lockedProfitUsd: 10 - costUsd
+    });
+    const state: PaperArbState = {
+      version: 1,
+      updatedAt: "",
+      bankrollCashUsd: 100,
+      realizedPnlUsd: 0,
+      lastEntryByMarketId: {},
+      positions: [position("won", ["a", "b"], 9), position("void", ["c"], 4), position("pending", ["a", "z"], 9)]
+    };
+    const resolution = (marketId: string, yes: number): MarketResolution => ({
+      marketId,
+      payouts: { Yes: yes, No: 1 - yes },
+      winner: yes === 1 ? "Yes" : yes === 0 ? "No" : null
+    });
+    const resolutions = new Map([
+      ["a", resolution("a", 1)],
+      ["b", resolution("b", 0)],
+      ["c", resolution("c", 0.5)]
+    ]);
+
+    // Positions are far past PAPER_ARB_MAX_HOLD_HOURS; with resolutions they wait for a real one.
+    const summary = await runPaperArbitrage(snapshot([]), {
+      ts: "2026-06-22T00:00:00.000Z",
+      statePath: path.join(dir, "state.json"),
+      eventsPath: path.join(dir, "events.jsonl"),
+      state,
+      resolutions
+    });
+
+    assert.equal(summary.settled, 2);
+    assert.equal(summary.exited, 0);
+    assert.deepEqual(state.positions.map((p) => p.id), ["pending"]);
+    assert.equal(state.bankrollCashUsd, 100 + 10 + 5);
+    assert.equal(state.realizedPnlUsd, 1 + 1);
+
+    const settles = (await readFile(path.join(dir, "events.jsonl"), "utf8"))
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l))
+      .filter((e) => e.type === "SETTLE");
+    assert.deepEqual(
+      settles.map((e) => [e.positionId, e.payoutUsd, e.voided]),
+      [
+        ["won", 10, false],
+        ["void", 5, true]
+      ]
+    );
+  });
+});
+
+test("threshold ladders flag inverted strikes and paper-buy YES on the lower strike, NO on the higher", async () => {
+  const market = (id: string, title: string, yes: number): NormalizedMarket => ({
+    marketId: id,
+    title,
+    outcomes: ["Yes", "No"],
+    prices: { Yes: yes, No: 1 - yes },
+    tokenIds: { Yes: `${id}:yes`, No: `${id}:no` },
+    yes_price: yes,
+    yesTokenId: `${id}:yes`,
+    noTokenId: `${id}:no`
+  });
+  const families = buildFamilies([
+    market("a", "Will BTC be above $90k on Friday?", 0.6),
+    market("b", "Will BTC be above $100k on Friday?", 0.7),
+    market("c", "Will BTC be at least $110k on Friday?", 0.3)
+  ]);
+  const ladder = families.find((f) => f.family_type === "ladder");
+  assert.equal(ladder?.ladder?.direction, "decreasing");
+  assert.deepEqual(
+    ladder?.ladder?.rungs.map((r) => r.label),
+    [">90000$", ">100000$", ">=110000$"]
+  );
+
+  const [signal] = detectLadderViolations(scoreFamilies(families), "2026-06-22T00:00:00.000Z");
+  assert.equal(signal?.superset.marketId, "a");
+  assert.equal(signal?.subset.marketId, "b");
+  assert.ok(Math.abs(signal!.gap - 0.1) < 1e-9);
+
+  await withTmp(async (dir) => {
+    const snap = snapshot([
+      pair("a", [{ price: 0.55, size: 100 }]),
+      pair("b", [{ price: 0.72, size: 100 }], {
+        no: { tokenId: "b:no", bids: [{ price: 0.28, size: 100 }], asks: [{ price: 0.3, size: 100 }] }
+      }),
+      pair("c", [{ price: 0.3, size: 100 }])
+    ]);
+    const summary = await runPaperArbitrage(snap, {
+      ts: "2026-06-22T00:00:00.000Z",
+      statePath: path.join(dir, "state.json"),
+      eventsPath: path.join(dir, "events.jsonl"),
+      families
+    });
+    assert.deepEqual(
+      summary.newTradesSummary.map((t) => t.strategy),
+      ["ladder_pair"]
+    );
+    const state = JSON.parse(await readFile(path.join(dir, "state.json"), "utf8")) as PaperArbState;
+    assert.deepEqual(
+      state.positions[0]!.legs.map((l) => `${l.tokenId}@${l.price}`),
+      ["a:yes@0.55", "b:no@0.3"]
+    );
+    assert.equal(state.positions[0]!.marketId, ladder!.family_id);
+  });
+});
@@ -0,0 +1,413 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { writeJsonFile } from "../src/lib/fs.js";
+import { resolvePaperStrategies } from "../src/paper/config.js";
+import { runPaperTrade } from "../src/paper/engine.js";
+import { relativeEntry, type PaperStrategy } from "../src/paper/strategies.js";
+import type { ClobBookSource, ClobOrderBook } from "../src/clients/clob.js";
+import type { MarketResolution } from "../src/ingest/fetchResolutions.js";
+import { appendFamilyRows, familyRowsFromScored } from "../src/persist/familyLog.js";
+import { riskLimitsFromEnv } from "../src/paper/risk.js";
+
+test("resolvePaperStrategies layers defaults, profile, strategy params and env", () => {
+  const [only] = resolvePaperStrategies({}, {});
+  assert.equal(only?.id, "default");
+  assert.equal(only?.entry.id, "cluster");
+  assert.equal(only?.config.maxTradeUsd, 25);
+  assert.ok(only?.statePath.endsWith(path.join("data", "db", "paper_state.json")));
+
+  const strategies = resolvePaperStrategies(
+    {
+      defaults: { maxTradeUsd: 10, cooldownHours: 1 },
+      strategies: [
+        { id: "default" },
+        { id: "fav", entry: "favorite", exit: "hold", params: { maxTradeUsd: 5, maxHoldHours: 720 } },
+        { id: "off", enabled: false }
+      ]
+    },
+    { PAPER_COOLDOWN_HOURS: "3" }
+  );
+  assert.deepEqual(strategies.map((s) => s.id), ["default", "fav"]);
+  assert.equal(strategies[0]!.config.maxTradeUsd, 10);
+  assert.equal(strategies[1]!.config.maxTradeUsd, 5);
+  assert.equal(strategies[1]!.config.cooldownHours, 3);
+  assert.ok(strategies[1]!.tradesPath.endsWith("paper_trades.fav.jsonl"));
+
+  assert.throws(() => resolvePaperStrategies({ strategies: [{ id: "x", entry: "nope" }] }, {}), /unknown entry rule "nope"/);
+  assert.throws(() => resolvePaperStrategies({ strategies: [{ id: "a" }, { id: "a" }] }, {}), /duplicate strategy "a"/);
+  assert.throws(() => resolvePaperStrategies({ defaults: { maxExposurePct: 2 } }, {}), /maxExposurePct/);
+  assert.throws(() => resolvePaperStrategies({}, { PAPER_MAX_TRADE_USD: "lots" }), /PAPER_MAX_TRADE_USD/);
+});
+
+test("runPaperTrade runs each strategy on its own ledger with its own entry rule", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-paper-"));
+  try {
+    const familiesPath = path.join(dir, "families.json");
+    const pricesPath = path.join(dir, "prices.json");
+    await writeJsonFile(familiesPath, [
+      {
+        family_id: "event:e1:bucket:btc",
+        family_type: "bucket",
+        title: "BTC price",
+        opportunity_score: 0.2,
+        features: { bestCluster: { labels: ["90-100"] } },
+        buckets: [
+          { marketId: "m1", label: "90-100", yes_price: 0.2 },
+          { marketId: "m2", label: "100-110", yes_price: 0.5 }
+        ]
+      }
+    ]);
+    await writeJsonFile(pricesPath, {
+      prices: [
+        { marketId: "m1", outcomes: ["Yes", "No"], outcomePrices: [0.2, 0.8] },
+        { marketId: "m2", outcomes: ["Yes", "No"], outcomePrices: [0.5, 0.5] }
+      ]
+    });
+
+    const [base, fav] = resolvePaperStrategies(
+      { strategies: [{ id: "default" }, { id: "fav", entry: "favorite", exit: "hold", params: { maxTradeUsd: 10 } }] },
+      {}
+    );
+    const strategies: PaperStrategy[] = [
+      { ...base!, statePath: path.join(dir, "state.json"), tradesPath: path.join(dir, "trades.jsonl") },
+      { ...fav!, statePath: path.join(dir, "state.fav.json"), tradesPath: path.join(dir, "trades.fav.jsonl") }
+    ];
+
+    const summary = await runPaperTrade({ familiesPath, pricesPath, strategies, books: null });
+    assert.equal(summary.entered, 2);
+    assert.deepEqual(
+      summary.newTradesSummary.map((t) => [t.strategy, t.marketId, t.usd]),
+      [["default", "m1", 25], ["fav", "m2", 10]]
+    );
+    assert.deepEqual(summary.strategies.map((s) => [s.id, s.bankrollCashUsd]), [["default", 475], ["fav", 490]]);
+    assert.equal(summary.bankrollCashUsd, 965);
+
+    const favState = JSON.parse(await readFile(path.join(dir, "state.fav.json"), "utf8"));
+    assert.deepEqual(favState.positions.map((p: any) => [p.strategy, p.marketId]), [["fav", "m2"]]);
+    const entry = JSON.parse((await readFile(path.join(dir, "trades.jsonl"), "utf8")).trim());
+    assert.equal(entry.type, "ENTRY");
+    assert.equal(entry.strategy, "default");
+
+    // A +0.03 move takes profit under the `move` exit; the `hold` strategy keeps its position.
+    await writeJsonFile(pricesPath, {
+      prices: [
+        { marketId: "m1", outcomes: ["Yes", "No"], outcomePrices: [0.23, 0.77] },
+        { marketId: "m2", outcomes: ["Yes", "No"], outcomePrices: [0.53, 0.47] }
+      ]
+    });
+    const next = await runPaperTrade({ familiesPath, pricesPath, strategies, books: null });
+    assert.deepEqual(next.strategies.map((s) => [s.id, s.exited, s.openPositions]), [["default", 1, 0], ["fav", 0, 1]]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("book fills buy at the asks, sell at the bids and log fees and spread", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-paper-books-"));
+  try {
+    const familiesPath = path.join(dir, "families.json");
+    await writeJsonFile(familiesPath, [
+      {
+        family_id: "market:m1",
+        family_type: "single",
+        title: "Will it rain?",
+        opportunity_score: 0.1,
+        single: { marketId: "m1", yes_price: 0.39, yesTokenId: "m1:yes", noTokenId: "m1:no" }
+      }
+    ]);
+    let book: ClobOrderBook = {
+      tokenId: "m1:yes",
+      asks: [{ price: 0.4, size: 20 }, { price: 0.42, size: 100 }],
+      bids: [{ price: 0.38, size: 100 }]
+    };
+    const requested: string[][] = [];
+    const books: ClobBookSource = {
+      fetchOrderBooks: async (tokenIds) => {
+        requested.push(tokenIds);
+        return tokenIds.includes(book.tokenId) ? [book] : [];
+      }
+    };
+    const [base] = resolvePaperStrategies({}, {});
+    const strategies = [{ ...base!, statePath: path.join(dir, "state.json"), tradesPath: path.join(dir, "trades.jsonl") }];
+    const run = () => runPaperTrade({ familiesPath, pricesPath: path.join(dir, "none.json"), strategies, books });
+    const events = async () =>
+      (await readFile(path.join(dir, "trades.jsonl"), "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+
+    await run();
+    assert.deepEqual(requested, [["m1:yes"]]);
+    const [entry] = await events();
+    assert.equal(entry.type, "ENTRY");
+    assert.equal(entry.fillSource, "book");
+    // $25 walks past the 20 shares at 0.40 into 0.42, fees included.
+    assert.ok(entry.price > 0.4 && entry.price < 0.42);
+    assert.ok(entry.usd <= 25 && entry.usd > 24.9);
+    assert.ok(Math.abs(entry.usd - (entry.shares * entry.price + entry.feeUsd)) < 1e-9);
+    assert.equal(entry.midPrice, 0.39);
+    assert.ok(Math.abs(entry.spreadPaidUsd - entry.shares * (entry.price - 0.39)) < 1e-9);
+
+    // The bid is up 0.05 (take profit), but only 10 shares deep: the position waits.
+    book = { ...book, asks: [{ price: 0.46, size: 100 }], bids: [{ price: 0.45, size: 10 }] };
+    const waiting = await run();
+    assert.equal(waiting.exited, 0);
+    assert.equal(waiting.openPositions, 1);
+
+    book = { ...book, bids: [{ price: 0.45, size: 100 }] };
+    const done = await run();
+    assert.equal(done.exited, 1);
+    const exit = (await events()).find((e) => e.type === "EXIT");
+    assert.equal(exit.reason, "TP");
+    assert.equal(exit.price, 0.45);
+    assert.ok(Math.abs(exit.usd - (entry.shares * 0.45 - exit.feeUsd)) < 1e-9);
+    assert.ok(Math.abs(exit.spreadPaidUsd - entry.shares * (0.455 - 0.45)) < 1e-9);
+    assert.ok(Math.abs(done.realizedPnlUsd - (exit.usd - entry.usd)) < 1e-9);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+function multiFamily(prices: number[], negRisk = false) {
+  return {
+    family_id: "event:e9:multi:winner",
+    family_type: "multi",
+    title: "Who wins?",
+    negRisk,
+    opportunity_score: Math.abs(1 - prices.reduce((a, b) => a + b, 0)),
+    multi: prices.map((price, i) => ({
+      name: `o${i}`,
+      price,
+      marketId: `m${i}`,
+      yesTokenId: `m${i}:yes`,
+      noTokenId: `m${i}:no`
+    }))
+  };
+}
+
+test("relative entry shorts the richest outcome of an overround family and buys the cheapest of an exhaustive underround one", () => {
+  // Power de-vig of 0.6/0.3/0.2 leaves the favourite furthest above its fair share per NO dollar.
+  const short = relativeEntry.pick(multiFamily([0.6, 0.3, 0.2]));
+  assert.deepEqual([short?.marketId, short?.outcome], ["m0", "No"]);
+  assert.match(short?.note ?? "", /^o0 0\.600 vs fair 0\.5\d\d \(sum 1\.100\)$/);
+
+  // Underround needs exhaustive outcomes (neg-risk here) before YES on the cheapest is safe.
+  assert.equal(relativeEntry.pick(multiFamily([0.5, 0.3, 0.1])), null);
+  assert.deepEqual(relativeEntry.pick(multiFamily([0.5, 0.3, 0.1], true))?.outcome, "Yes");
+
+  // Ladder inversion: NO on the narrower rung that is priced above the wider one.
+  const ladder = {
+    family_type: "ladder",
+    ladder: {
+      direction: "increasing",
+      rungs: [
+        { marketId: "a", label: "<=2026-03-31", yes_price: 0.4 },
+        { marketId: "b", label: "<=2026-06-30", yes_price: 0.3 }
+      ]
+    }
+  };
+  assert.deepEqual(relativeEntry.pick(ladder), {
+    marketId: "a",
+    outcome: "No",
+    note: "<=2026-03-31 above <=2026-06-30 by 0.100",
+    prob: 0.65
+  });
+
+  // A missing price makes the distribution unusable.
+  assert.equal(relativeEntry.pick({ ...multiFamily([0.6, 0.3, 0.2]), multi: [{ marketId: "x", name: "x", price: null }] }), null);
+});
+
+test("NO positions fill, mark and settle on the NO token", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-paper-no-"));
+  try {
+    const familiesPath = path.join(dir, "families.json");
+    await writeJsonFile(familiesPath, [multiFamily([0.6, 0.3, 0.2])]);
+    const noBook: ClobOrderBook = { tokenId: "m0:no", asks: [{ price: 0.41, size: 500 }], bids: [{ price: 0.39, size: 500 }] };
+    const requested: string[] = [];
+    const books: ClobBookSource = {
+      fetchOrderBooks: async (tokenIds) => {
+        requested.push(...tokenIds);
+        return tokenIds.includes(noBook.tokenId) ? [noBook] : [];
+      }
+    };
+    const [relative] = resolvePaperStrategies({ strategies: [{ id: "relative", entry: "relative", exit: "hold" }] }, {});
+    const strategies = [{ ...relative!, statePath: path.join(dir, "state.json"), tradesPath: path.join(dir, "trades.jsonl") }];
+    const run = (resolutions?: Map<string, MarketResolution>) =>
+      runPaperTrade({ familiesPath, strategies, books, ...(resolutions ? { resolutions } : {}) });
+
+    const first = await run();
+    assert.deepEqual(requested, ["m0:no"]);
+    assert.deepEqual(first.newTradesSummary.map((t) => [t.marketId, t.outcome, t.price]), [["m0", "No", 0.41]]);
+    const state = JSON.parse(await readFile(path.join(dir, "state.json"), "utf8"));
+    assert.equal(state.positions[0].tokenId, "m0:no");
+    assert.equal(first.openPositionsSummary[0]?.lastMarkPrice, null);
+
+    const marked = await run();
+    assert.equal(marked.openPositionsSummary[0]?.lastMarkPrice, 0.39);
+
+    // The favourite loses: NO pays $1 a share.
+    const settled = await run(new Map([["m0", { marketId: "m0", payouts: { Yes: 0, No: 1 }, winner: "No" }]]));
+    assert.equal(settled.settled, 1);
+    const shares = state.positions[0].shares;
+    assert.ok(Math.abs(settled.realizedPnlUsd - (shares - state.positions[0].entryUsd)) < 1e-9);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("a failed order book fetch falls back to Gamma prices and still saves settlements", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-paper-books-down-"));
+  try {
+    const familiesPath = path.join(dir, "families.json");
+    const pricesPath = path.join(dir, "prices.json");
+    await writeJsonFile(familiesPath, [multiFamily([0.6, 0.3, 0.2])]);
+    await writeJsonFile(pricesPath, { prices: [] });
+    let down = false;
+    const books: ClobBookSource = {
+      fetchOrderBooks: async (tokenIds) => {
+        if (down) throw new Error("CLOB 503");
+        return tokenIds.includes("m0:no") ? [{ tokenId: "m0:no", asks: [{ price: 0.41, size: 500 }], bids: [{ price: 0.39, size: 500 }] }] : [];
+      }
+    };
+    const [relative] = resolvePaperStrategies({ strategies: [{ id: "relative", entry: "relative", exit: "hold" }] }, {});
+    const strategies = [{ ...relative!, statePath: path.join(dir, "state.json"), tradesPath: path.join(dir, "trades.jsonl") }];
+
+    const first = await runPaperTrade({ familiesPath, pricesPath, strategies, books });
+    assert.equal(first.entered, 1);
+    assert.deepEqual(first.warnings, []);
+
+    // The next scan settles m0 while a new family needs books that cannot be fetched.
+    const other = multiFamily([0.6, 0.3, 0.2]);
+    const next = {
+      ...other,
+      family_id: "event:e8:multi:winner",
+      multi: other.multi.map((o, i) => ({ ...o, marketId: `x${i}`, yesTokenId: `x${i}:yes`, noTokenId: `x${i}:no` }))
+    };
+    await writeJsonFile(familiesPath, [multiFamily([0.6, 0.3, 0.2]), next]);
+    down = true;
+    const resolutions = new Map([["m0", { marketId: "m0", payouts: { Yes: 0, No: 1 }, winner: "No" }]]);
+    const settled = await runPaperTrade({ familiesPath, pricesPath, strategies, books, resolutions });
+    assert.equal(settled.settled, 1);
+    assert.equal(settled.warnings.length, 1);
+    assert.match(settled.warnings[0]!, /^relative: order book fetch failed.*CLOB 503/);
+
+    const state = JSON.parse(await readFile(path.join(dir, "state.json"), "utf8"));
+    assert.equal(state.positions.length, 0);
+    const events = (await readFile(path.join(dir, "trades.jsonl"), "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    assert.ok(events.some((e) => e.type === "SETTLE" && e.marketId === "m0"));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("kelly and volatility sizing record the model and inputs behind each ENTRY", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-paper-sizing-"));
+  try {
+    const familiesPath = path.join(dir, "families.json");
+    const pricesPath = path.join(dir, "prices.json");
+    const familyLogPath = path.join(dir, "family_scores.jsonl");
+    const family = multiFamily([0.6, 0.3, 0.2]);
+    await writeJsonFile(familiesPath, [family]);
+    await writeJsonFile(pricesPath, {
+      prices: [0.6, 0.3, 0.2].map((p, i) => ({ marketId: `m${i}`, outcomes: ["Yes", "No"], outcomePrices: [p, 1 - p] }))
+    });
+    // Six scans of m0 alternating by 0.02.
+    for (let i = 0; i < 6; i++) {
+      const logged = { ...family, reasons: [], num_outcomes: 3, multi: family.multi.map((o, j) => (j === 0 ? { ...o, price: i % 2 ? 0.62 : 0.6 } : o)) };
+      await appendFamilyRows(familyRowsFromScored([logged as any], `2026-06-01T0${i}:00:00.000Z`), familyLogPath);
+    }
+
+    const resolved = resolvePaperStrategies(
+      {
+        strategies: [
+          { id: "kelly", entry: "relative", sizing: "kelly" },
+          { id: "vol", entry: "favorite", sizing: "volatility" },
+          { id: "blind", entry: "favorite", sizing: "kelly" }
+        ]
+      },
+      {}
+    );
+    const strategies = resolved.map((s) => ({
+      ...s,
+      statePath: path.join(dir, `state.${s.id}.json`),
+      tradesPath: path.join(dir, `trades.${s.id}.jsonl`)
+    }));
+    const summary = await runPaperTrade({ familiesPath, pricesPath, strategies, books: null, familyLogPath });
+    const entryOf = async (id: string) => JSON.parse((await readFile(path.join(dir, `trades.${id}.jsonl`), "utf8")).trim());
+
+    // NO on the rich favourite at 0.40 against a de-vigged ~0.46: a quarter Kelly of $500 NAV.
+    const kelly = await entryOf("kelly");
+    assert.equal(kelly.outcome, "No");
+    assert.equal(kelly.sizing.model, "kelly");
+    assert.ok(kelly.sizing.inputs.prob > 0.412 && kelly.sizing.inputs.prob < 0.5);
+    assert.equal(kelly.sizing.inputs.bankrollUsd, 500);
+    assert.ok(kelly.usd > 0 && kelly.usd < 25);
+    assert.ok(Math.abs(kelly.usd - kelly.sizing.usd) < 1e-9);
+
+    // Logged volatility ~0.022 against a 0.02 target trims the $25 cap.
+    const vol = await entryOf("vol");
+    assert.equal(vol.sizing.model, "volatility");
+    assert.equal(vol.sizing.inputs.samples, 6);
+    assert.ok(Math.abs(vol.usd - 25 * (0.02 / vol.sizing.inputs.volatility)) < 1e-9);
+    assert.ok(vol.usd < 25);
+
+    // Kelly without a model probability (favorite entry) does not trade.
+    assert.deepEqual(summary.strategies.map((s) => [s.id, s.entered]), [["kelly", 1], ["vol", 1], ["blind", 0]]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("risk limits span every strategy's ledger and log the limit that blocked an entry", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-paper-risk-"));
+  try {
+    const familiesPath = path.join(dir, "families.json");
+    const pricesPath = path.join(dir, "prices.json");
+    await writeJsonFile(familiesPath, [
+      {
+        family_id: "event:e1:bucket:btc",
+        family_type: "bucket",
+        title: "BTC price",
+        eventId: "e1",
+        category: "crypto",
+        endDate: "2026-06-30T00:00:00Z",
+        opportunity_score: 0.2,
+        features: { bestCluster: { labels: ["90-100"] } },
+        buckets: [
+          { marketId: "m1", label: "90-100", yes_price: 0.2 },
+          { marketId: "m2", label: "100-110", yes_price: 0.5 }
+        ]
+      }
+    ]);
+    await writeJsonFile(pricesPath, {
+      prices: [
+        { marketId: "m1", outcomes: ["Yes", "No"], outcomePrices: [0.2, 0.8] },
+        { marketId: "m2", outcomes: ["Yes", "No"], outcomePrices: [0.5, 0.5] }
+      ]
+    });
+    const strategies = resolvePaperStrategies({ strategies: [{ id: "default" }, { id: "fav", entry: "favorite" }] }, {}).map(
+      (s) => ({ ...s, statePath: path.join(dir, `state.${s.id}.json`), tradesPath: path.join(dir, `trades.${s.id}.jsonl`) })
+    );
+
+    // `default` buys m1; `fav` would buy m2 in the same family, the correlation group.
+    const riskLimits = riskLimitsFromEnv({ RISK_MAX_CORRELATED_POSITIONS: "1" });
+    const arbStatePath = path.join(dir, "paper_arb_state.json");
+    const summary = await runPaperTrade({ familiesPath, pricesPath, strategies, books: null, riskLimits, arbStatePath });
+    assert.deepEqual(summary.strategies.map((s) => [s.id, s.entered, s.riskRejected]), [["default", 1, 0], ["fav", 0, 1]]);
+    assert.equal(summary.riskRejected, 1);
+
+    const [reject] = (await readFile(path.join(dir, "trades.fav.jsonl"), "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    assert.equal(reject.type, "REJECT");
+    assert.equal(reject.marketId, "m2");
+    assert.equal(reject.limit, "correlatedPositions");
+    assert.equal(reject.key, "event:e1:bucket:btc");
+
+    const state = JSON.parse(await readFile(path.join(dir, "state.default.json"), "utf8"));
+    assert.deepEqual(
+      [state.positions[0].eventId, state.positions[0].category, state.positions[0].resolvesAt],
+      ["e1", "crypto", "2026-06-30T00:00:00Z"]
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
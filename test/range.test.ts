@@ -1,6 +1,9 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { parseRangeFromText, removeFirstRangeForGrouping } from "../src/normalize/parseRanges.js";
+import { parseRangeFromText, parseRangeWithConfidence, removeFirstRangeForGrouping } from "../src/normalize/parseRanges.js";
+import { buildFamilies } from "../src/normalize/buildFamilies.js";
+import { rangeAdjacencyStats, scoreFamilies } from "../src/detect/basicAnomalies.js";
+import type { NormalizedMarket } from "../src/normalize/normalizeMarkets.js";
 
 test("parseRangeFromText parses hyphen and en-dash ranges", () => {
   assert.deepEqual(parseRangeFromText("10-12"), { low: 10, high: 12, normalizedLabel: "10-12" });
@@ -27,4 +30,66 @@ test("removeFirstRangeForGrouping strips the bucket for grouping", () => {
   assert.deepEqual(range, { low: 3, high: 3.5, unit: "%", normalizedLabel: "3-3.5%" });
 });
 
+test("parseRangeFromText parses open-ended tails with inclusive/exclusive bounds", () => {
+  assert.deepEqual(parseRangeFromText("<10"), { low: -Infinity, high: 10, highInclusive: false, normalizedLabel: "<10" });
+  assert.deepEqual(parseRangeFromText("≥ 500"), { low: 500, high: Infinity, lowInclusive: true, normalizedLabel: ">=500" });
+  assert.deepEqual(parseRangeFromText("Above $100k"), {
+    low: 100_000,
+    high: Infinity,
+    lowInclusive: false,
+    unit: "$",
+    normalizedLabel: ">100000$"
+  });
+  assert.deepEqual(parseRangeFromText("20 or more"), parseRangeFromText("20+"));
+  assert.equal(parseRangeFromText("2.5% or less")?.highInclusive, true);
+  assert.equal(parseRangeFromText("at most 3.5°C")?.unit, "°c");
+  // Closed forms still win over a tail word elsewhere in the label.
+  assert.deepEqual(parseRangeFromText("Over the year: 10-12"), { low: 10, high: 12, normalizedLabel: "10-12" });
+  assert.equal(parseRangeFromText("Will Bitcoin hit $100k?")?.normalizedLabel, ">=100000$");
+  assert.equal(parseRangeFromText("Will Bitcoin dip to $80k?")?.normalizedLabel, "<=80000$");
+  assert.equal(parseRangeFromText("Will Bitcoin win?"), null);
+
+  assert.equal(parseRangeWithConfidence("Above $100k")?.confidence, 3);
+  const { base, range } = removeFirstRangeForGrouping("Elon tweets 500 or more times?");
+  assert.equal(base, "Elon tweets times?");
+  assert.equal(range?.low, 500);
+});
+
+function bucket(id: string, title: string, yes: number): NormalizedMarket {
+  return {
+    marketId: id,
+    title,
+    eventId: "e1",
+    outcomes: ["Yes", "No"],
+    prices: { Yes: yes, No: 1 - yes },
+    tokenIds: { Yes: `${id}:yes`, No: `${id}:no` },
+    yes_price: yes,
+    yesTokenId: `${id}:yes`,
+    noTokenId: `${id}:no`
+  };
+}
 
+test("a bucket family with both tails is a full partition", () => {
+  const titles = ["less than 100", "100-199", "200-299", "300 or more"];
+  const fam = buildFamilies(titles.map((t, i) => bucket(String(i), `Tweets ${t} this week?`, 0.2))).find(
+    (f) => f.family_type === "bucket"
+  );
+  assert.ok(fam?.buckets);
+  assert.deepEqual(
+    fam.buckets.map((b) => b.range.normalizedLabel),
+    ["<100", "100-199", "200-299", ">=300"]
+  );
+  assert.deepEqual(rangeAdjacencyStats(fam.buckets), { gapCount: 0, overlapCount: 0, fullPartition: true });
+
+  // Four buckets would be too few to trust the overround without the tails.
+  const [scored] = scoreFamilies([fam]);
+  assert.equal(scored?.features?.fullPartition, true);
+  assert.ok((scored?.opportunity_score ?? 0) > 0.05);
+
+  // Touching exclusive bounds leave the boundary value uncovered; inclusive ones double-count it.
+  const tails = (a: string, b: string) =>
+    rangeAdjacencyStats([a, b].map((t, i) => ({ ...fam.buckets![i]!, range: parseRangeFromText(t)! })));
+  assert.deepEqual(tails("under 10", "over 10"), { gapCount: 1, overlapCount: 0, fullPartition: false });
+  assert.deepEqual(tails("10 or less", "10 or more"), { gapCount: 0, overlapCount: 1, fullPartition: false });
+  assert.deepEqual(tails("under 10", "10 or more"), { gapCount: 0, overlapCount: 0, fullPartition: true });
+});
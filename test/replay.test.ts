@@ -0,0 +1,142 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { writeJsonFile } from "../src/lib/fs.js";
+import { discoverSnapshots, runReplay, tsFromDirName } from "../src/replay/harness.js";
+import { archiveScan } from "../src/persist/archive.js";
+
+function rawMarket(id: string, question: string, yes: number) {
+  return {
+    id,
+    question,
+    outcomes: '["Yes","No"]',
+    outcomePrices: JSON.stringify([String(yes), String(1 - yes)]),
+    clobTokenIds: JSON.stringify([`${id}:yes`, `${id}:no`])
+  };
+}
+
+function books(fetchedAtIso: string, yesAsk: number, noAsk: number) {
+  return {
+    fetchedAtIso,
+    source: "clob_books",
+    requestedTokens: 2,
+    receivedBooks: 2,
+    warnings: [],
+    markets: [
+      {
+        marketId: "m1",
+        title: "Will example happen?",
+        yesTokenId: "m1:yes",
+        noTokenId: "m1:no",
+        yes: { tokenId: "m1:yes", bids: [{ price: yesAsk - 0.02, size: 100 }], asks: [{ price: yesAsk, size: 100 }] },
+        no: { tokenId: "m1:no", bids: [{ price: noAsk - 0.02, size: 100 }], asks: [{ price: noAsk, size: 100 }] }
+      }
+    ]
+  };
+}
+
+test("tsFromDirName accepts filesystem-safe ISO names", () => {
+  assert.equal(tsFromDirName("2026-06-22T14-15-00Z"), "2026-06-22T14:15:00.000Z");
+  assert.equal(tsFromDirName("2026-06-22T14:15:00.123Z"), "2026-06-22T14:15:00.123Z");
+  assert.equal(tsFromDirName("latest"), null);
+});
+
+test("runReplay replays snapshots in timestamp order into an isolated output dir", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "vrtl-replay-"));
+  try {
+    const input = path.join(root, "archive");
+    const out = path.join(root, "out");
+    const markets = [rawMarket("m1", "Will example happen?", 0.4)];
+
+    // Written out of order on purpose; replay must sort by directory timestamp.
+    await writeJsonFile(path.join(input, "b", "2026-06-22T14-30-00Z", "markets_raw.json"), markets);
+    await writeJsonFile(path.join(input, "b", "2026-06-22T14-30-00Z", "orderbooks_raw.json"), books("x", 0.45, 0.5));
+    await writeJsonFile(path.join(input, "a", "2026-06-22T14-15-00Z", "markets_raw.json"), markets);
+    await writeJsonFile(path.join(input, "a", "2026-06-22T14-15-00Z", "orderbooks_raw.json"), books("x", 0.45, 0.5));
+
+    const snaps = await discoverSnapshots(input);
+    assert.deepEqual(
+      snaps.map((s) => s.ts),
+      ["2026-06-22T14:15:00.000Z", "2026-06-22T14:30:00.000Z"]
+    );
+
+    const summary = await runReplay({ inputDir: input, outDir: out });
+    assert.equal(summary.snapshots, 2);
+    assert.equal(summary.firstTs, "2026-06-22T14:15:00.000Z");
+
+    const rows = (await readFile(path.join(out, "scans.jsonl"), "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    assert.deepEqual(
+      rows.map((r) => r.ts),
+      ["2026-06-22T14:15:00.000Z", "2026-06-22T14:30:00.000Z"]
+    );
+    // Bundle asks sum to 0.95 => the first snapshot enters, the second is blocked by cooldown.
+    assert.equal(rows[0].paperArb.entered, 1);
+    assert.equal(rows[1].paperArb.entered, 0);
+
+    const events = (await readFile(path.join(out, "paper_arb_trades.jsonl"), "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    assert.equal(events.find((e) => e.type === "ENTRY")?.ts, "2026-06-22T14:15:00.000Z");
+
+    await assert.rejects(runReplay({ inputDir: input, outDir: out }), /not empty/);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("runReplay applies the MAX_MARKETS cap recorded in the archive manifest", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "vrtl-replay-cap-"));
+  try {
+    const input = path.join(root, "archive");
+    const page = [rawMarket("m1", "Will example happen?", 0.4), rawMarket("m2", "Will other happen?", 0.3), rawMarket("m3", "Will third happen?", 0.2)];
+    const policy = { retentionDays: 14, maxBytes: 1024 * 1024 };
+    const { entry } = await archiveScan({ ts: "2026-06-22T14:15:00.000Z", gammaPages: [page], maxMarkets: 2 }, { root: input, policy });
+    assert.equal(entry.markets, 3);
+    assert.equal(entry.maxMarkets, 2);
+
+    // The cap is found from the archive root and from a day directory inside it.
+    assert.equal((await discoverSnapshots(input))[0]?.maxMarkets, 2);
+    assert.equal((await discoverSnapshots(path.join(input, "2026", "06", "22")))[0]?.maxMarkets, 2);
+
+    const summary = await runReplay({ inputDir: input, outDir: path.join(root, "out"), paperArb: false });
+    assert.equal(summary.snapshots, 1);
+    const [row] = (await readFile(path.join(root, "out", "scans.jsonl"), "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    assert.equal(row.rawMarkets, 2);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("runReplay ignores RISK_* env and applies only explicit risk limits", async () => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "vrtl-replay-risk-"));
+  const prev = process.env.RISK_MAX_CORRELATED_USD;
+  process.env.RISK_MAX_CORRELATED_USD = "1";
+  try {
+    const input = path.join(root, "archive");
+    await writeJsonFile(path.join(input, "2026-06-22T14-15-00Z", "markets_raw.json"), [rawMarket("m1", "Will example happen?", 0.4)]);
+    await writeJsonFile(path.join(input, "2026-06-22T14-15-00Z", "orderbooks_raw.json"), books("x", 0.45, 0.5));
+    const rowOf = async (out: string) => JSON.parse((await readFile(path.join(out, "scans.jsonl"), "utf8")).trim());
+
+    await runReplay({ inputDir: input, outDir: path.join(root, "env") });
+    const envRow = await rowOf(path.join(root, "env"));
+    assert.equal(envRow.paperArb.entered, 1);
+
+    const riskLimits = {
+      maxEventUsd: null,
+      maxCategoryUsd: null,
+      maxResolutionDayUsd: null,
+      maxCorrelatedUsd: 1,
+      maxCorrelatedPositions: null,
+      dailyLossLimitUsd: null
+    };
+    await runReplay({ inputDir: input, outDir: path.join(root, "explicit"), riskLimits });
+    const explicitRow = await rowOf(path.join(root, "explicit"));
+    assert.equal(explicitRow.paperArb.entered, 0);
+    const events = (await readFile(path.join(root, "explicit", "paper_arb_trades.jsonl"), "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    assert.equal(events.filter((e) => e.type === "REJECT").length, 1);
+  } finally {
+    if (prev === undefined) delete process.env.RISK_MAX_CORRELATED_USD;
+    else process.env.RISK_MAX_CORRELATED_USD = prev;
+    await rm(root, { recursive: true, force: true });
+  }
+});
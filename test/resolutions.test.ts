@@ -0,0 +1,27 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseMarketsLoosely } from "../src/clients/polymarket.js";
+import { payoutFor, resolutionFromGamma } from "../src/ingest/fetchResolutions.js";
+
+function closed(id: string, prices: string, extra: Record<string, unknown> = {}) {
+  return parseMarketsLoosely([
+    { id, question: id, outcomes: '["Yes","No"]', outcomePrices: prices, closed: true, ...extra }
+  ])[0]!;
+}
+
+test("resolutionFromGamma reads winners and 50-50 splits, and waits for the oracle", () => {
+  const won = resolutionFromGamma(closed("1", '["1","0"]', { umaResolutionStatus: "resolved", closedTime: "2026-05-01 12:00:00+00" }));
+  assert.deepEqual(won, { marketId: "1", resolvedAt: "2026-05-01T12:00:00.000Z", payouts: { Yes: 1, No: 0 }, winner: "Yes" });
+  assert.equal(payoutFor(won!, "YES"), 1);
+  assert.equal(payoutFor(won!, "no"), 0);
+  assert.equal(payoutFor(won!, "Maybe"), null);
+
+  const voided = resolutionFromGamma(closed("2", '["0.5","0.5"]'));
+  assert.equal(voided?.winner, null);
+  assert.deepEqual(voided?.payouts, { Yes: 0.5, No: 0.5 });
+
+  // Closed but not final: oracle proposal pending, or prices still at the last trade.
+  assert.equal(resolutionFromGamma(closed("3", '["1","0"]', { umaResolutionStatus: "proposed" })), null);
+  assert.equal(resolutionFromGamma(closed("4", '["0.9995","0.0005"]')), null);
+  assert.equal(resolutionFromGamma(closed("5", '["1","0"]', { closed: false })), null);
+});
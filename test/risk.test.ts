@@ -0,0 +1,82 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { addDailyPnl, checkRisk, realizedToday, riskLimitsFromEnv, type RiskLimits } from "../src/paper/risk.js";
+import { buildFamilies } from "../src/normalize/buildFamilies.js";
+import type { NormalizedMarket } from "../src/normalize/normalizeMarkets.js";
+
+const noLimits: RiskLimits = riskLimitsFromEnv({});
+
+test("checkRisk reports the first limit a candidate would breach", () => {
+  const positions = [
+    { usd: 20, eventId: "e1", category: "basketball", resolvesAt: "2026-06-30T23:00:00Z", group: "f1" },
+    { usd: 10, eventId: "e2", category: "basketball", resolvesAt: "2026-07-01T02:00:00Z", group: "f2" }
+  ];
+  const book = { positions, realizedTodayUsd: 0 };
+  const candidate = { usd: 10, eventId: "e1", category: "basketball", resolvesAt: "2026-06-30T12:00:00Z", group: "f1" };
+
+  assert.equal(checkRisk(noLimits, book, candidate), null);
+  assert.deepEqual(checkRisk({ ...noLimits, maxEventUsd: 25 }, book, candidate), {
+    limit: "event",
+    key: "e1",
+    currentUsd: 20,
+    limitUsd: 25
+  });
+  assert.equal(checkRisk({ ...noLimits, maxEventUsd: 30 }, book, candidate), null);
+  assert.equal(checkRisk({ ...noLimits, maxCategoryUsd: 35 }, book, candidate)?.limit, "category");
+  // Resolution days are UTC: the 02:00 July 1 position does not share the candidate's day.
+  assert.equal(checkRisk({ ...noLimits, maxResolutionDayUsd: 30 }, book, candidate), null);
+  assert.deepEqual(checkRisk({ ...noLimits, maxResolutionDayUsd: 29 }, book, candidate)?.key, "2026-06-30");
+  assert.equal(checkRisk({ ...noLimits, maxCorrelatedUsd: 25 }, book, candidate)?.limit, "correlated");
+  assert.deepEqual(checkRisk({ ...noLimits, maxCorrelatedPositions: 1 }, book, candidate), {
+    limit: "correlatedPositions",
+    key: "f1",
+    currentUsd: 1,
+    limitUsd: 1
+  });
+  // Untagged candidates skip the limits they have no key for.
+  assert.equal(checkRisk({ ...noLimits, maxEventUsd: 0, maxCorrelatedPositions: 0 }, book, { usd: 10 }), null);
+
+  // The daily loss limit halts every entry once today's realized PnL reaches it.
+  const losing = { positions: [], realizedTodayUsd: -50 };
+  assert.deepEqual(checkRisk({ ...noLimits, dailyLossLimitUsd: 50 }, losing, { usd: 1 }), {
+    limit: "dailyLoss",
+    key: "today",
+    currentUsd: -50,
+    limitUsd: 50
+  });
+  assert.equal(checkRisk({ ...noLimits, dailyLossLimitUsd: 60 }, losing, { usd: 1 }), null);
+});
+
+test("daily PnL rolls over at the UTC date and limits come from RISK_* env", () => {
+  let daily = addDailyPnl(undefined, "2026-06-30T10:00:00.000Z", -5);
+  daily = addDailyPnl(daily, "2026-06-30T20:00:00.000Z", -3);
+  assert.equal(realizedToday(daily, "2026-06-30T23:59:00.000Z"), -8);
+  assert.equal(realizedToday(daily, "2026-07-01T00:01:00.000Z"), 0);
+  assert.deepEqual(addDailyPnl(daily, "2026-07-01T00:01:00.000Z", 2), { day: "2026-07-01", realizedPnlUsd: 2 });
+
+  const limits = riskLimitsFromEnv({ RISK_MAX_EVENT_USD: "50", RISK_DAILY_LOSS_USD: "", RISK_MAX_CORRELATED_POSITIONS: "2" });
+  assert.equal(limits.maxEventUsd, 50);
+  assert.equal(limits.dailyLossLimitUsd, null);
+  assert.equal(limits.maxCorrelatedPositions, 2);
+});
+
+test("families carry the category / sport and latest end date of their markets", () => {
+  const market = (marketId: string, title: string, endDate: string): NormalizedMarket => ({
+    marketId,
+    title,
+    eventId: "e1",
+    event: { id: "e1", title: "NBA Finals", category: "Sports", tags: ["NBA"], marketCount: 2 },
+    outcomes: ["Yes", "No"],
+    prices: { Yes: 0.5, No: 0.5 },
+    tokenIds: { Yes: null, No: null },
+    yes_price: 0.5,
+    endDate
+  });
+  const [family] = buildFamilies([
+    market("a", "Total points 200-210?", "2026-06-20T00:00:00Z"),
+    market("b", "Total points 210-220?", "2026-06-21T00:00:00Z")
+  ]);
+  assert.equal(family?.family_type, "bucket");
+  assert.equal(family?.category, "basketball");
+  assert.equal(family?.endDate, "2026-06-21T00:00:00Z");
+});
@@ -0,0 +1,129 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { createLoop } from "../src/daemon/scheduler.js";
+import { buildWatchlist } from "../src/daemon/watchlist.js";
+import type { NormalizedMarket } from "../src/normalize/normalizeMarkets.js";
+
+test("createLoop never overlaps ticks, records timings and survives errors", async () => {
+  let active = 0;
+  let maxActive = 0;
+  let calls = 0;
+  const errors: string[] = [];
+  const loop = createLoop(
+    "t",
+    5,
+    async () => {
+      calls += 1;
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await sleep(10);
+      active -= 1;
+      if (calls === 2) throw new Error("boom");
+    },
+    { onError: (e: any) => void errors.push(e.message) }
+  );
+
+  loop.start();
+  // A manual trigger while a tick is in flight joins it instead of starting another.
+  await loop.trigger();
+  await sleep(60);
+  await loop.stop();
+  const stats = loop.stats();
+  const runsAtStop = stats.runs;
+
+  assert.equal(maxActive, 1);
+  assert.ok(runsAtStop >= 3, `runs=${runsAtStop}`);
+  assert.equal(stats.errors, 1);
+  assert.equal(stats.lastError, "boom");
+  assert.deepEqual(errors, ["boom"]);
+  assert.ok((stats.lastDurationMs ?? 0) >= 9);
+  assert.ok(stats.lastFinishedAt !== null);
+
+  // Stopped loops stay stopped.
+  await sleep(30);
+  assert.equal(loop.stats().runs, runsAtStop);
+});
+
+test("createLoop.stop waits for the in-flight tick", async () => {
+  let finished = false;
+  const loop = createLoop("slow", 1000, async () => {
+    await sleep(30);
+    finished = true;
+  });
+  loop.start();
+  await loop.stop();
+  assert.equal(finished, true);
+});
+
+function market(id: string, extra: Partial<NormalizedMarket> = {}): NormalizedMarket {
+  return {
+    marketId: id,
+    title: id,
+    outcomes: ["Yes", "No"],
+    prices: { Yes: 0.5, No: 0.5 },
+    tokenIds: { Yes: `${id}:yes`, No: `${id}:no` },
+    yes_price: 0.5,
+    yesTokenId: `${id}:yes`,
+    noTokenId: `${id}:no`,
+    ...extra
+  };
+}
+
+test("buildWatchlist puts open positions first, then signals, families and neg-risk members", () => {
+  const normalized = [market("pos"), market("sig"), market("fam"), market("nr", { negRisk: true, eventId: "e" }), market("other")];
+  const paperArbState = {
+    version: 1 as const,
+    updatedAt: "",
+    bankrollCashUsd: 0,
+    realizedPnlUsd: 0,
+    lastEntryByMarketId: {},
+    positions: [
+      {
+        id: "p",
+        strategy: "bundle_long" as const,
+        marketId: "pos",
+        title: "",
+        legs: [{ marketId: "pos", tokenId: "pos:yes", outcome: "YES" as const, price: 0.5, feeUsd: 0 }],
+        entryTs: "",
+        shares: 1,
+        feeUsd: 0,
+        costUsd: 1,
+        guaranteedPayoutUsd: 1,
+        lockedProfitUsd: 0
+      }
+    ]
+  };
+  const args = {
+    normalized,
+    families: [{ family_id: "f", family_type: "bucket" as const, title: "", num_outcomes: 1, buckets: [{ marketId: "fam" } as any] }],
+    signals: [{ marketIds: ["sig", "missing"] } as any],
+    paperArbState
+  };
+  assert.deepEqual(buildWatchlist({ ...args, max: 10 }), ["pos", "sig", "fam", "nr"]);
+  assert.deepEqual(buildWatchlist({ ...args, max: 2 }), ["pos", "sig"]);
+});
+
+test("buildWatchlist skips markets not accepting orders unless a position holds them", () => {
+  const normalized = [
+    market("held", { closed: true }),
+    market("paused", { acceptingOrders: false }),
+    market("live", { acceptingOrders: true })
+  ];
+  const paperArbState = {
+    version: 1 as const,
+    updatedAt: "",
+    bankrollCashUsd: 0,
+    realizedPnlUsd: 0,
+    lastEntryByMarketId: {},
+    positions: [{ marketId: "held", legs: [{ marketId: "held" }] } as any]
+  };
+  const watchlist = buildWatchlist({
+    normalized,
+    families: [],
+    signals: [{ marketIds: ["paused", "live"] } as any],
+    paperArbState,
+    max: 10
+  });
+  assert.deepEqual(watchlist, ["held", "live"]);
+});
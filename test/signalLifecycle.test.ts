@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { signalFingerprint, withFingerprint } from "../src/detect/signals.js";
+import { summarizeSignalLifecycle, updateSignalLifecycle } from "../src/persist/signalLifecycle.js";
+import type { Signal } from "../src/detect/types.js";
+
+function signal(detector: string, key: string, marketIds: string[], edge: number): Signal {
+  return withFingerprint({
+    ts: "ignored",
+    detector,
+    kind: "k",
+    key,
+    title: `${detector} ${key}`,
+    score: edge,
+    edge,
+    marketIds,
+    reason: "",
+    payload: {}
+  });
+}
+
+const t = (h: number) => new Date(Date.UTC(2026, 5, 22, h)).toISOString();
+
+test("signalFingerprint is stable across prices and member order but not membership", () => {
+  const a = signal("sports", "g", ["m1", "m2"], 0.01);
+  const b = signal("sports", "g", ["m2", "m1"], 0.2);
+  assert.equal(a.fingerprint, b.fingerprint);
+  assert.notEqual(a.fingerprint, signalFingerprint({ detector: "sports", key: "g", marketIds: ["m1", "m2", "m3"] }));
+  assert.notEqual(a.fingerprint, signalFingerprint({ detector: "negrisk", key: "g", marketIds: ["m1", "m2"] }));
+});
+
+test("updateSignalLifecycle tracks new, persisting and closed signals with peaks", () => {
+  const ran = new Set(["sports", "negrisk"]);
+  const first = updateSignalLifecycle(null, [signal("sports", "a", ["m1"], 0.02), signal("negrisk", "b", ["m2"], 0.03)], t(0), ran);
+  assert.equal(first.opened.length, 2);
+  assert.deepEqual(
+    first.signals.map((s) => s.status),
+    ["new", "new"]
+  );
+
+  const second = updateSignalLifecycle(first.state, [signal("sports", "a", ["m1"], 0.05), signal("sports", "c", ["m3"], 0.01)], t(1), ran);
+  assert.deepEqual(
+    second.signals.map((s) => [s.key, s.status]),
+    [
+      ["c", "new"],
+      ["a", "persisting"]
+    ]
+  );
+  const a = second.state.active[signal("sports", "a", ["m1"], 0).fingerprint]!;
+  assert.equal(a.firstSeen, t(0));
+  assert.equal(a.consecutiveScans, 2);
+  assert.equal(a.peakEdge, 0.05);
+  assert.deepEqual(
+    second.closed.map((r) => [r.key, r.closedAt]),
+    [["b", t(1)]]
+  );
+
+  // A detector that did not run this scan (no books) keeps its signals open.
+  const third = updateSignalLifecycle(second.state, [], t(2), new Set(["negrisk"]));
+  assert.equal(third.closed.length, 0);
+  assert.equal(Object.keys(third.state.active).length, 2);
+
+  const fourth = updateSignalLifecycle(third.state, [], t(3), ran);
+  assert.equal(fourth.closed.length, 2);
+  assert.equal(fourth.state.closed.length, 3);
+
+  const report = summarizeSignalLifecycle(second.state, Date.parse(t(1)), 10);
+  assert.deepEqual(report.opened.map((r) => r.key), ["c"]);
+  assert.deepEqual(report.persisting.map((r) => r.key), ["a"]);
+  assert.deepEqual(report.closed.map((r) => [r.key, r.lifetimeHours]), [["b", 1]]);
+  assert.deepEqual(report.byDetector, [
+    { detector: "negrisk", active: 0, opened: 0, closed: 1 },
+    { detector: "sports", active: 2, opened: 1, closed: 0 }
+  ]);
+});
@@ -0,0 +1,69 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, rm } from "node:fs/promises";
+import { edgeProportionalSize, kellySize, priceVolatility, volatilityScaledSize } from "../src/paper/sizing.js";
+import { appendFamilyRows, familyRowsFromScored, readPriceHistory } from "../src/persist/familyLog.js";
+import type { FamilyScored } from "../src/detect/basicAnomalies.js";
+
+test("kelly, edge and volatility sizing scale the budget and record their inputs", () => {
+  // All-in cost 0.4 + 0.05*0.4*0.6 = 0.412; full Kelly (0.6 - 0.412) / 0.588 ~ 0.32 of NAV.
+  const kelly = kellySize({ prob: 0.6, price: 0.4, feeRate: 0.05, bankrollUsd: 100, fraction: 0.25, maxUsd: 25 });
+  assert.equal(kelly.model, "kelly");
+  assert.ok(Math.abs(kelly.usd - 0.25 * ((0.6 - 0.412) / 0.588) * 100) < 1e-9);
+  assert.equal(kelly.inputs.prob, 0.6);
+  assert.equal(kellySize({ prob: 0.6, price: 0.4, feeRate: 0.05, bankrollUsd: 1e6, fraction: 0.25, maxUsd: 25 }).usd, 25);
+  assert.equal(kellySize({ prob: 0.41, price: 0.4, feeRate: 0.05, bankrollUsd: 100, fraction: 1, maxUsd: 25 }).usd, 0);
+
+  assert.equal(edgeProportionalSize({ edge: 0.025, fullEdge: 0.05, maxUsd: 20 }).usd, 10);
+  assert.equal(edgeProportionalSize({ edge: 0.2, fullEdge: 0.05, maxUsd: 20 }).usd, 20);
+
+  assert.equal(priceVolatility([0.5, 0.5]), null);
+  const calm = volatilityScaledSize({ prices: [0.5, 0.5, 0.5, 0.5], targetVolatility: 0.02, minSamples: 3, maxUsd: 25 });
+  assert.equal(calm.usd, 25);
+  // Changes alternate +/-0.04: std ~0.046, so about 0.02 / 0.046 of the cap.
+  const choppy = volatilityScaledSize({ prices: [0.5, 0.54, 0.5, 0.54, 0.5], targetVolatility: 0.02, minSamples: 3, maxUsd: 25 });
+  assert.ok(Math.abs(choppy.usd - 25 * (0.02 / choppy.inputs.volatility!)) < 1e-9);
+  assert.ok(choppy.usd < 12);
+  assert.equal(volatilityScaledSize({ prices: [0.5, 0.5], targetVolatility: 0.02, minSamples: 3, maxUsd: 25 }).usd, 0);
+});
+
+test("the family log records member prices and reads them back as per-scan history", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "vrtl-family-log-"));
+  try {
+    const filePath = path.join(dir, "family_scores.jsonl");
+    const family = (a: number, b: number): FamilyScored => ({
+      family_id: "event:e1:multi:winner",
+      family_type: "multi",
+      title: "Who wins?",
+      num_outcomes: 2,
+      opportunity_score: 0.1,
+      reasons: [],
+      multi: [
+        { name: "A", price: a, marketId: "a" },
+        { name: "B", price: b, marketId: "b" }
+      ]
+    });
+    await appendFamilyRows(familyRowsFromScored([family(0.4, 0.6)], "2026-06-01T00:00:00.000Z"), filePath);
+    // The same market logged twice in one scan counts once.
+    await appendFamilyRows(
+      familyRowsFromScored([family(0.45, 0.55), family(0.45, 0.55)], "2026-06-01T00:15:00.000Z"),
+      filePath
+    );
+    await appendFamilyRows(familyRowsFromScored([family(0.5, 0.5)], "2026-06-01T00:30:00.000Z"), filePath);
+
+    const history = await readPriceHistory(["a", "missing"], { filePath });
+    assert.deepEqual([...history.entries()], [["a", [0.4, 0.45, 0.5]]]);
+    assert.deepEqual((await readPriceHistory(["b"], { filePath, maxSamples: 2 })).get("b"), [0.55, 0.5]);
+
+    // Reading only the tail drops the cut-off first line.
+    const tail = await readPriceHistory(["a"], { filePath, maxBytes: 700 });
+    assert.deepEqual(tail.get("a")?.slice(-1), [0.5]);
+    assert.ok((tail.get("a")?.length ?? 0) < 3);
+
+    assert.equal((await readPriceHistory(["a"], { filePath: path.join(dir, "none.jsonl") })).size, 0);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});